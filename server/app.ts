@@ -0,0 +1,704 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  NotFoundError,
+  TIMEFRAME_DAYS,
+  ValidationError,
+  type Repositories,
+  type SettingsUpdate,
+  type Timeframe
+} from '../src/domain/repositories';
+import { AUDIT_ACTIONS } from '../src/domain/audit';
+import { MAX_PAPER_BYTES, MAX_PAPER_PAGES, MAX_THUMBNAIL_LENGTH } from '../src/domain/uploads';
+import type { AnnotationAnchor, AuditAction, FeedbackStyle, PageRange, RubricCriterion, UserSettings } from '../src/domain/types';
+import { auditRepositories } from '../src/auth/audit';
+import { guardRepositories } from '../src/auth/guard';
+import type { StandInAuthorizeParams, StandInIdp } from '../src/auth/idp-standin';
+import { OidcError } from '../src/auth/oidc';
+import type { OutboxReader } from '../src/auth/outbox';
+import type { AuthService } from '../src/auth/service';
+import { AuthError, type User, type UserRole } from '../src/auth/types';
+
+// ------------------------------------------------------------
+// REST Routes
+// ------------------------------------------------------------
+// Thin HTTP adapter over the repositories. Every route here is
+// documented in openapi.yaml; keep the two in sync. Routes need
+// a bearer access token unless compiled with `{ public: true }`,
+// and handlers get repositories guarded by the caller's
+// permissions (see src/auth/guard.ts).
+// ------------------------------------------------------------
+
+type Params = Record<string, string>;
+
+interface RouteContext {
+  params: Params;
+  query: URLSearchParams;
+  body: unknown;
+  /** Signed-in caller and their token; undefined only on public routes. */
+  user?: User;
+  accessToken?: string;
+  /** Repositories guarded by the caller's permissions, recording sensitive writes to the audit log. */
+  repos: Repositories;
+}
+
+type Handler = (ctx: RouteContext) => Promise<unknown>;
+
+export interface Services {
+  repos: Repositories;
+  auth: AuthService;
+  /**
+   * Mail the backend would have sent, readable without signing in. Reset links are in
+   * there, so it is only given (and routed) when EDUBRIDGE_DEV_OUTBOX is set.
+   */
+  outbox?: OutboxReader;
+  /**
+   * Development identity provider behind the "School Account" sign-in option. Anyone can pick
+   * a person from its directory, so it is only given (and routed) when EDUBRIDGE_STANDIN_IDP is set.
+   */
+  standInIdp?: Pick<StandInIdp, 'directory' | 'authorize'>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+  public: boolean;
+}
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
+
+function compile(method: string, path: string, handler: Handler, options: { public?: boolean } = {}): Route {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}$`), keys, handler, public: options.public ?? false };
+}
+
+const optional = (query: URLSearchParams, key: string) => query.get(key) ?? undefined;
+
+function found<T>(value: T | undefined, entity: string, id: string): T {
+  if (value === undefined) throw new NotFoundError(entity, id);
+  return value;
+}
+
+function parseTimeframe(value: string | undefined): Timeframe | undefined {
+  if (value === undefined) return undefined;
+  if (!(value in TIMEFRAME_DAYS)) throw new ValidationError(`timeframe must be one of ${Object.keys(TIMEFRAME_DAYS).join(', ')}`);
+  return value as Timeframe;
+}
+
+function requireObject(body: unknown): Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function bearerToken(req: IncomingMessage): string {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  if (!match) throw new HttpError(401, 'unauthorized', 'A bearer access token is required');
+  return match[1];
+}
+
+// A malformed escape such as %E0%A4%A is the client's mistake, not a server error
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ValidationError(`Malformed path segment: ${segment}`);
+  }
+}
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== 'string' || value.length === 0) throw new ValidationError(`${key} is required`);
+  return value;
+}
+
+/** Rejects fields a PATCH may not touch, so typos do not silently no-op. */
+function onlyFields<T>(body: unknown, allowed: string[]): T {
+  const update = requireObject(body);
+  const unknown = Object.keys(update).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) throw new ValidationError(`Unknown fields: ${unknown.join(', ')}`);
+  return update as T;
+}
+
+// Copies only the anchor fields, so stray keys never reach the store; ranges are checked there
+function parseAnchor(value: unknown): AnnotationAnchor {
+  const anchor = requireObject(value);
+  const page = anchor.page as number;
+  if (anchor.kind === 'page') return { kind: 'page', page };
+  if (anchor.kind !== 'region') throw new ValidationError('anchor.kind must be region or page');
+  const { x, y, width, height } = anchor as Record<string, number>;
+  return { kind: 'region', page, x, y, width, height };
+}
+
+function optionalPageCount(input: Record<string, unknown>): number | undefined {
+  const { pageCount } = input;
+  if (pageCount !== undefined && !(Number.isInteger(pageCount) && (pageCount as number) > 0)) {
+    throw new ValidationError('pageCount must be a positive integer');
+  }
+  if ((pageCount as number) > MAX_PAPER_PAGES) throw new ValidationError(`pageCount must be at most ${MAX_PAPER_PAGES}`);
+  return pageCount as number | undefined;
+}
+
+function parsePageRange(value: unknown): PageRange | undefined {
+  if (value === undefined) return undefined;
+  const { first, last } = requireObject(value);
+  if (!Number.isInteger(first) || !Number.isInteger(last)) throw new ValidationError('pageRange needs whole page numbers');
+  if ((last as number) > MAX_PAPER_PAGES) throw new ValidationError(`pageRange must end by page ${MAX_PAPER_PAGES}`);
+  return { first: first as number, last: last as number };
+}
+
+function parseAnnotationFields(input: Record<string, unknown>) {
+  const { comment, stamp, rubricTags, sharedWithFamily } = input;
+  if (comment !== undefined && typeof comment !== 'string') throw new ValidationError('comment must be a string');
+  if (stamp !== undefined && typeof stamp !== 'string') throw new ValidationError('stamp must be a string');
+  if (rubricTags !== undefined && !(Array.isArray(rubricTags) && rubricTags.every(tag => typeof tag === 'string'))) {
+    throw new ValidationError('rubricTags must be a list of strings');
+  }
+  if (sharedWithFamily !== undefined && typeof sharedWithFamily !== 'boolean') {
+    throw new ValidationError('sharedWithFamily must be true or false');
+  }
+  return {
+    anchor: input.anchor === undefined ? undefined : parseAnchor(input.anchor),
+    comment: comment as string | undefined,
+    stamp: stamp as string | undefined,
+    rubricTags: rubricTags as string[] | undefined,
+    sharedWithFamily: sharedWithFamily as boolean | undefined
+  };
+}
+
+// Copies only rubric fields, so stray keys never reach the store; the rubric itself is checked there
+function parseRubricFields(input: Record<string, unknown>) {
+  const { title, subject, shared, criteria } = input;
+  if (title !== undefined && typeof title !== 'string') throw new ValidationError('title must be a string');
+  if (subject !== undefined && typeof subject !== 'string') throw new ValidationError('subject must be a string');
+  if (shared !== undefined && typeof shared !== 'boolean') throw new ValidationError('shared must be true or false');
+  if (criteria !== undefined && !Array.isArray(criteria)) throw new ValidationError('criteria must be a list');
+  return {
+    title: title as string | undefined,
+    subject: subject as string | undefined,
+    shared: shared as boolean | undefined,
+    criteria: (criteria as unknown[] | undefined)?.map((value): RubricCriterion => {
+      const criterion = requireObject(value);
+      if (!Array.isArray(criterion.levels)) throw new ValidationError('criteria levels must be a list');
+      return {
+        id: criterion.id as string,
+        name: criterion.name as string,
+        weight: criterion.weight as number,
+        levels: criterion.levels.map((level) => {
+          const { label, descriptor, points } = requireObject(level);
+          return { label: label as string, descriptor: descriptor as string, points: points as number };
+        })
+      };
+    })
+  };
+}
+
+type SettingsSection = keyof SettingsUpdate;
+// A trailing ? marks a field the section may leave out; a list names the accepted values
+type SettingsField = 'string' | 'string?' | 'boolean' | 'strings' | readonly string[];
+
+const FEEDBACK_STYLES: FeedbackStyle[] = ['detailed', 'concise', 'simple'];
+
+const SETTINGS_FIELDS: { [S in SettingsSection]: Record<keyof UserSettings[S], SettingsField> } = {
+  profile: { name: 'string', email: 'string', bio: 'string?', subject: 'string', grade: 'string', school: 'string' },
+  notifications: {
+    emailNotifications: 'boolean',
+    pushNotifications: 'boolean',
+    newStudentWork: 'boolean',
+    aiInsightsReady: 'boolean',
+    weeklyReports: 'boolean',
+    parentMessages: 'boolean',
+    systemUpdates: 'boolean'
+  },
+  privacy: { shareAnalytics: 'boolean', shareProgress: 'boolean', publicProfile: 'boolean' },
+  aiFeedback: {
+    feedbackStyle: FEEDBACK_STYLES,
+    focusAreas: 'strings',
+    customPrompt: 'string?',
+    includeExamples: 'boolean',
+    useFormalLanguage: 'boolean'
+  },
+  api: { apiKey: 'string?', webhookUrl: 'string?', enableIntegration: 'boolean' }
+};
+
+function checkSettingsField(name: string, kind: SettingsField, value: unknown) {
+  if (value === undefined) {
+    if (kind === 'string?') return;
+    throw new ValidationError(`${name} is required`);
+  }
+  if (typeof kind !== 'string') {
+    if (!kind.includes(value as string)) throw new ValidationError(`${name} must be one of ${kind.join(', ')}`);
+  } else if (kind === 'boolean') {
+    if (typeof value !== 'boolean') throw new ValidationError(`${name} must be true or false`);
+  } else if (kind === 'strings') {
+    if (!(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+      throw new ValidationError(`${name} must be a list of strings`);
+    }
+  } else if (typeof value !== 'string') {
+    throw new ValidationError(`${name} must be a string`);
+  }
+}
+
+// Sections replace the stored ones wholesale, so each must be complete and hold nothing else
+function parseSettingsUpdate(body: unknown): SettingsUpdate {
+  const update = requireObject(body);
+  const sections = Object.keys(SETTINGS_FIELDS);
+  const unknown = Object.keys(update).filter(key => !sections.includes(key));
+  if (unknown.length > 0) throw new ValidationError(`Unknown settings sections: ${unknown.join(', ')}`);
+  for (const [section, value] of Object.entries(update)) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(`${section} must be an object`);
+    }
+    const fields: Record<string, SettingsField> = SETTINGS_FIELDS[section as SettingsSection];
+    const extra = Object.keys(value).filter(key => !Object.keys(fields).includes(key));
+    if (extra.length > 0) throw new ValidationError(`Unknown ${section} fields: ${extra.join(', ')}`);
+    for (const [key, kind] of Object.entries(fields)) {
+      checkSettingsField(`${section}.${key}`, kind, (value as Record<string, unknown>)[key]);
+    }
+  }
+  return update as SettingsUpdate;
+}
+
+const ROLES: UserRole[] = ['teacher', 'parent', 'student', 'admin'];
+
+function requireRole(value: string): UserRole {
+  if (!ROLES.includes(value as UserRole)) throw new ValidationError(`role must be one of ${ROLES.join(', ')}`);
+  return value as UserRole;
+}
+
+function requireAuditAction(value: string): AuditAction {
+  if (!AUDIT_ACTIONS.includes(value as AuditAction)) throw new ValidationError(`action must be one of ${AUDIT_ACTIONS.join(', ')}`);
+  return value as AuditAction;
+}
+
+
+export function createRoutes({ auth, outbox, standInIdp }: Pick<Services, 'auth' | 'outbox' | 'standInIdp'>): Route[] {
+  return [
+    compile('POST', '/api/auth/login', async ({ body }) => {
+      const input = requireObject(body);
+      return auth.login(requireString(input, 'email'), requireString(input, 'password'));
+    }, { public: true }),
+    compile('POST', '/api/auth/2fa/verify', async ({ body }) => {
+      const input = requireObject(body);
+      return auth.verifyTwoFactor(requireString(input, 'challengeToken'), requireString(input, 'code'));
+    }, { public: true }),
+    compile('GET', '/api/auth/sso/providers', () => auth.ssoProviders(), { public: true }),
+    compile('POST', '/api/auth/sso/:provider/authorize', async ({ params, body }) => {
+      const input = requireObject(body);
+      return {
+        url: await auth.beginSso(params.provider, {
+          state: requireString(input, 'state'),
+          nonce: requireString(input, 'nonce'),
+          codeChallenge: requireString(input, 'codeChallenge'),
+          redirectUri: requireString(input, 'redirectUri')
+        })
+      };
+    }, { public: true }),
+    compile('POST', '/api/auth/sso/:provider/callback', async ({ params, body }) => {
+      const input = requireObject(body);
+      return auth.completeSso(params.provider, {
+        code: requireString(input, 'code'),
+        codeVerifier: requireString(input, 'codeVerifier'),
+        redirectUri: requireString(input, 'redirectUri'),
+        nonce: requireString(input, 'nonce')
+      });
+    }, { public: true }),
+    compile('POST', '/api/auth/refresh', async ({ body }) =>
+      auth.refresh(requireString(requireObject(body), 'refreshToken')), { public: true }),
+    compile('POST', '/api/auth/logout', async ({ body }) =>
+      auth.logout(requireString(requireObject(body), 'refreshToken')), { public: true }),
+    compile('GET', '/api/auth/session', async ({ user }) => ({ user })),
+    compile('POST', '/api/auth/role', async ({ body, accessToken }) => {
+      const role = requireRole(requireString(requireObject(body), 'role'));
+      return { user: await auth.switchRole(accessToken!, role) };
+    }),
+    compile('POST', '/api/auth/accounts', async ({ body, accessToken }) => {
+      const input = requireObject(body);
+      const user = requireObject(input.user);
+      requireString(user, 'name');
+      requireRole(requireString(user, 'role'));
+      if (!Array.isArray(user.memberships)) throw new ValidationError('user.memberships is required');
+      return {
+        user: await auth.provisionAccount(accessToken!, {
+          email: requireString(input, 'email'),
+          password: requireString(input, 'password'),
+          user: user as Omit<User, 'id'>
+        })
+      };
+    }),
+    compile('DELETE', '/api/auth/accounts/:userId', ({ params, accessToken }) =>
+      auth.removeAccount(accessToken!, params.userId)),
+    compile('POST', '/api/auth/password', async ({ body, accessToken }) => {
+      const input = requireObject(body);
+      await auth.changePassword(accessToken!, requireString(input, 'currentPassword'), requireString(input, 'newPassword'));
+    }),
+    compile('POST', '/api/auth/password/forgot', async ({ body }) =>
+      auth.requestPasswordReset(requireString(requireObject(body), 'email')), { public: true }),
+    compile('POST', '/api/auth/password/reset', async ({ body }) => {
+      const input = requireObject(body);
+      await auth.resetPassword(requireString(input, 'token'), requireString(input, 'newPassword'));
+    }, { public: true }),
+    compile('GET', '/api/auth/2fa', ({ accessToken }) => auth.twoFactorStatus(accessToken!)),
+    compile('POST', '/api/auth/2fa/enrollment', ({ accessToken }) => auth.startTwoFactorEnrollment(accessToken!)),
+    compile('POST', '/api/auth/2fa/enrollment/confirm', async ({ body, accessToken }) => ({
+      backupCodes: await auth.confirmTwoFactorEnrollment(accessToken!, requireString(requireObject(body), 'code'))
+    })),
+    compile('POST', '/api/auth/2fa/backup-codes', async ({ body, accessToken }) => ({
+      backupCodes: await auth.regenerateBackupCodes(accessToken!, requireString(requireObject(body), 'code'))
+    })),
+    compile('POST', '/api/auth/2fa/disable', async ({ body, accessToken }) => {
+      await auth.disableTwoFactor(accessToken!, requireString(requireObject(body), 'password'));
+    }),
+    compile('POST', '/api/auth/signup/parent', async ({ body }) => {
+      const input = requireObject(body);
+      return auth.signUpParent({
+        code: requireString(input, 'code'),
+        name: requireString(input, 'name'),
+        email: requireString(input, 'email'),
+        password: requireString(input, 'password')
+      });
+    }, { public: true }),
+    compile('POST', '/api/auth/invitations/accept', async ({ body, accessToken }) => ({
+      user: await auth.acceptInvitation(accessToken!, requireString(requireObject(body), 'code'))
+    })),
+    // Stand-in identity provider, used by the web app's /idp/authorize page
+    ...(standInIdp
+      ? [
+        compile('GET', '/api/idp/directory', () => standInIdp.directory(), { public: true }),
+        compile('POST', '/api/idp/authorize', async ({ body }) => {
+          const input = requireObject(body);
+          const query = requireObject(input.params);
+          const keys: (keyof StandInAuthorizeParams)[] = [
+            'client_id', 'redirect_uri', 'response_type', 'state', 'nonce', 'code_challenge', 'code_challenge_method'
+          ];
+          const params = Object.fromEntries(
+            keys.map(key => [key, typeof query[key] === 'string' ? query[key] : ''])
+          ) as unknown as StandInAuthorizeParams;
+          const sub = typeof input.sub === 'string' ? input.sub : null;
+          return { redirectTo: await standInIdp.authorize(params, sub) };
+        }, { public: true })
+      ]
+      : []),
+    // Local stand-in for a mail provider, so reset links can be followed in dev and tests
+    ...(outbox
+      ? [compile('GET', '/api/outbox', ({ query }) => outbox.list({ to: query.get('to') ?? undefined }), { public: true })]
+      : []),
+
+    compile('GET', '/api/teachers', ({ repos }) => repos.teachers.list()),
+    compile('POST', '/api/teachers', async ({ body, repos }) => {
+      const input = requireObject(body);
+      return repos.teachers.create({
+        id: requireString(input, 'id'),
+        name: requireString(input, 'name'),
+        email: requireString(input, 'email'),
+        subject: requireString(input, 'subject')
+      });
+    }),
+    compile('GET', '/api/teachers/:id', async ({ params, repos }) =>
+      found(await repos.teachers.get(params.id), 'Teacher', params.id)),
+    compile('PATCH', '/api/teachers/:id', async ({ params, body, repos }) => {
+      return repos.teachers.update(params.id, onlyFields(body, ['name', 'email', 'subject', 'active']));
+    }),
+
+    compile('GET', '/api/students', async ({ query, repos }) =>
+      repos.students.list({ classId: optional(query, 'classId') })),
+    compile('POST', '/api/students', async ({ body, repos }) => {
+      const input = requireObject(body);
+      return repos.students.create({
+        name: requireString(input, 'name'),
+        grade: requireString(input, 'grade'),
+        classId: requireString(input, 'classId'),
+        avatar: typeof input.avatar === 'string' ? input.avatar : undefined
+      });
+    }),
+    compile('GET', '/api/students/:id', async ({ params, repos }) =>
+      found(await repos.students.get(params.id), 'Student', params.id)),
+    compile('PATCH', '/api/students/:id', async ({ params, body, repos }) => {
+      return repos.students.update(params.id, onlyFields(body, ['name', 'grade', 'classId', 'avatar']));
+    }),
+    // Parent links live on the parents' accounts, so the auth service answers these
+    compile('GET', '/api/students/:id/parents', ({ params, accessToken }) => auth.parentLinks(accessToken!, params.id)),
+    compile('DELETE', '/api/students/:id/parents/:parentId', ({ params, accessToken }) =>
+      auth.unlinkParent(accessToken!, params.id, params.parentId)),
+    compile('POST', '/api/students/:id/invitations', ({ params, accessToken }) => auth.inviteParent(accessToken!, params.id)),
+    compile('DELETE', '/api/students/:id/invitations/:invitationId', ({ params, accessToken }) =>
+      auth.revokeInvitation(accessToken!, params.id, params.invitationId)),
+
+    compile('GET', '/api/classes', async ({ query, repos }) =>
+      repos.classes.list({ teacherId: optional(query, 'teacherId') })),
+    compile('POST', '/api/classes', async ({ body, repos }) => {
+      const input = requireObject(body);
+      return repos.classes.create({
+        name: requireString(input, 'name'),
+        grade: requireString(input, 'grade'),
+        subject: requireString(input, 'subject'),
+        teacherId: requireString(input, 'teacherId')
+      });
+    }),
+    compile('GET', '/api/classes/:id', async ({ params, repos }) =>
+      found(await repos.classes.get(params.id), 'Class', params.id)),
+    compile('PATCH', '/api/classes/:id', async ({ params, body, repos }) => {
+      return repos.classes.update(params.id, onlyFields(body, ['name', 'grade', 'subject', 'teacherId']));
+    }),
+
+    compile('GET', '/api/assignments', async ({ query, repos }) =>
+      repos.assignments.list({ classId: optional(query, 'classId') })),
+    compile('PATCH', '/api/assignments/:id', async ({ params, body, repos }) => {
+      const { rubricId } = onlyFields<{ rubricId?: unknown }>(body, ['rubricId']);
+      if (rubricId !== undefined && rubricId !== null && typeof rubricId !== 'string') {
+        throw new ValidationError('rubricId must be a rubric id or null');
+      }
+      return repos.assignments.update(params.id, { rubricId });
+    }),
+
+    compile('GET', '/api/rubrics', async ({ query, repos }) =>
+      repos.rubrics.list({ authorId: optional(query, 'authorId'), subject: optional(query, 'subject') })),
+    compile('POST', '/api/rubrics', async ({ body, repos }) => {
+      const input = requireObject(body);
+      const fields = parseRubricFields(input);
+      return repos.rubrics.create({
+        title: requireString(input, 'title'),
+        subject: requireString(input, 'subject'),
+        authorId: requireString(input, 'authorId'),
+        shared: fields.shared ?? false,
+        criteria: fields.criteria ?? []
+      });
+    }),
+    compile('GET', '/api/rubrics/:id', async ({ params, repos }) =>
+      found(await repos.rubrics.get(params.id), 'Rubric', params.id)),
+    compile('PATCH', '/api/rubrics/:id', async ({ params, body, repos }) => {
+      const update = parseRubricFields(onlyFields(body, ['title', 'subject', 'shared', 'criteria']));
+      // Fields left out of the body stay as they are
+      const present = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+      return repos.rubrics.update(params.id, present);
+    }),
+    compile('DELETE', '/api/rubrics/:id', ({ params, repos }) => repos.rubrics.remove(params.id)),
+
+    compile('GET', '/api/papers', async ({ query, repos }) =>
+      repos.papers.list({ classId: optional(query, 'classId'), studentId: optional(query, 'studentId') })),
+    compile('POST', '/api/papers', async ({ body, repos }) => {
+      const input = requireObject(body);
+      return repos.papers.upload({
+        studentId: requireString(input, 'studentId'),
+        assignmentId: requireString(input, 'assignmentId'),
+        fileName: requireString(input, 'fileName'),
+        content: requireString(input, 'content'),
+        thumbnail: typeof input.thumbnail === 'string' ? input.thumbnail : undefined,
+        pageCount: optionalPageCount(input),
+        pageRange: parsePageRange(input.pageRange)
+      });
+    }),
+    compile('GET', '/api/papers/:id', async ({ params, repos }) =>
+      found(await repos.papers.get(params.id), 'Paper', params.id)),
+    compile('GET', '/api/papers/:id/file', async ({ params, repos }) =>
+      ({ content: found(await repos.papers.getFile(params.id), 'Paper file', params.id) })),
+    compile('GET', '/api/papers/:id/transcript', async ({ params, repos }) =>
+      found(await repos.papers.getTranscript(params.id), 'Transcript', params.id)),
+    compile('GET', '/api/papers/:id/similarity', async ({ params, repos }) =>
+      found(await repos.papers.getSimilarity(params.id), 'Similarity report', params.id)),
+    compile('POST', '/api/papers/:id/transcribe', async ({ params, repos }) =>
+      repos.papers.transcribe(params.id)),
+    compile('POST', '/api/papers/:id/analyze', ({ params, repos }) => repos.papers.analyze(params.id)),
+    compile('POST', '/api/papers/:id/cancel-analysis', ({ params, repos }) => repos.papers.cancelAnalysis(params.id)),
+    compile('POST', '/api/ocr', async ({ body, repos }) => {
+      const input = requireObject(body);
+      return repos.papers.recognize({
+        content: requireString(input, 'content'),
+        contentType: requireString(input, 'contentType'),
+        pageCount: optionalPageCount(input)
+      });
+    }),
+
+    compile('GET', '/api/annotations', async ({ query, repos }) =>
+      repos.annotations.list({ paperId: optional(query, 'paperId'), studentId: optional(query, 'studentId') })),
+    compile('POST', '/api/annotations', async ({ body, repos }) => {
+      const input = requireObject(body);
+      const fields = parseAnnotationFields(input);
+      if (!fields.anchor) throw new ValidationError('anchor is required');
+      return repos.annotations.create({
+        ...fields,
+        paperId: requireString(input, 'paperId'),
+        authorId: requireString(input, 'authorId'),
+        anchor: fields.anchor,
+        rubricTags: fields.rubricTags ?? [],
+        sharedWithFamily: fields.sharedWithFamily ?? false
+      });
+    }),
+    compile('PATCH', '/api/annotations/:id', async ({ params, body, repos }) => {
+      const update = parseAnnotationFields(onlyFields(body, ['anchor', 'comment', 'stamp', 'rubricTags', 'sharedWithFamily']));
+      // Fields left out of the body stay as they are
+      const present = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+      return repos.annotations.update(params.id, present);
+    }),
+    compile('DELETE', '/api/annotations/:id', ({ params, repos }) => repos.annotations.remove(params.id)),
+
+    compile('GET', '/api/feedback', async ({ query, repos }) =>
+      repos.feedback.list({
+        classId: optional(query, 'classId'),
+        studentId: optional(query, 'studentId'),
+        timeframe: parseTimeframe(optional(query, 'timeframe'))
+      })),
+    compile('GET', '/api/feedback/:id', async ({ params, repos }) =>
+      found(await repos.feedback.get(params.id), 'Feedback', params.id)),
+    compile('POST', '/api/feedback/:id/regenerate', ({ params, repos }) => repos.feedback.regenerate(params.id)),
+    compile('POST', '/api/feedback/:id/finalize', ({ params, repos }) => repos.feedback.finalize(params.id)),
+
+    compile('GET', '/api/exams', async ({ query, repos }) =>
+      repos.exams.list({ classId: optional(query, 'classId'), studentId: optional(query, 'studentId') })),
+
+    compile('GET', '/api/events', async ({ query, repos }) =>
+      repos.events.list({ classId: optional(query, 'classId') })),
+
+    compile('GET', '/api/messages', async ({ query, repos }) => {
+      const userId = optional(query, 'userId');
+      if (!userId) throw new ValidationError('userId is required');
+      return repos.messages.list({ userId });
+    }),
+    compile('POST', '/api/messages', async ({ body, repos }) => {
+      const input = requireObject(body);
+      return repos.messages.send({
+        fromUserId: requireString(input, 'fromUserId'),
+        toUserId: requireString(input, 'toUserId'),
+        studentId: typeof input.studentId === 'string' ? input.studentId : undefined,
+        body: requireString(input, 'body')
+      });
+    }),
+    compile('POST', '/api/messages/:id/read', ({ params, repos }) => repos.messages.markRead(params.id)),
+
+    compile('GET', '/api/settings/:userId', ({ params, repos }) => repos.settings.get(params.userId)),
+    compile('PATCH', '/api/settings/:userId', ({ params, body, repos }) =>
+      repos.settings.update(params.userId, parseSettingsUpdate(body))),
+
+    compile('GET', '/api/school/policy', ({ repos }) => repos.school.getPolicy()),
+    compile('PATCH', '/api/school/policy', async ({ body, repos }) => {
+      return repos.school.updatePolicy(onlyFields(body, [
+        'schoolName', 'dataRetention', 'allowTeacherApiAccess', 'requireTeacherTwoFactor', 'trustSsoTwoFactor', 'integrations', 'webhookUrl'
+      ]));
+    }),
+
+    compile('GET', '/api/audit', async ({ query, repos }) => {
+      const action = optional(query, 'action');
+      return repos.audit.list({
+        action: action === undefined ? undefined : requireAuditAction(action),
+        actorId: optional(query, 'actorId'),
+        targetType: optional(query, 'targetType'),
+        targetId: optional(query, 'targetId'),
+        from: optional(query, 'from'),
+        to: optional(query, 'to')
+      });
+    }),
+    compile('POST', '/api/audit', async ({ body, repos }) => {
+      const input = requireObject(body);
+      const action = requireAuditAction(requireString(input, 'action'));
+      const target = requireObject(input.target);
+      const details = input.details === undefined ? undefined : requireObject(input.details);
+      if (details && Object.values(details).some(value => typeof value !== 'string')) {
+        throw new ValidationError('details values must be strings');
+      }
+      return repos.audit.record({
+        action,
+        target: {
+          type: requireString(target, 'type'),
+          id: requireString(target, 'id'),
+          label: typeof target.label === 'string' ? target.label : undefined
+        },
+        details: details as Record<string, string> | undefined
+      });
+    })
+  ];
+}
+
+// Room for the largest paper as base64 plus its thumbnail and the other fields
+const MAX_BODY_BYTES = Math.ceil(MAX_PAPER_BYTES / 3) * 4 + MAX_THUMBNAIL_LENGTH + 64 * 1024;
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  // Keep draining an oversized body so the client gets the error instead of a reset connection
+  for await (const chunk of req) {
+    length += (chunk as Buffer).length;
+    if (length <= MAX_BODY_BYTES) chunks.push(chunk as Buffer);
+  }
+  if (length > MAX_BODY_BYTES) throw new HttpError(413, 'payload_too_large', 'Request body is too large');
+  if (chunks.length === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) return error;
+  if (error instanceof NotFoundError) return new HttpError(404, 'not_found', error.message);
+  if (error instanceof ValidationError) return new HttpError(400, 'validation_error', error.message);
+  if (error instanceof OidcError) return new HttpError(400, 'invalid_request', error.message);
+  if (error instanceof AuthError) {
+    if (error.code === 'account_locked') {
+      return new HttpError(423, error.code, error.message, { retryAfterMs: error.retryAfterMs });
+    }
+    const status = error.code === 'email_taken' ? 409
+      : error.code === 'role_not_held' || error.code === 'forbidden' || error.code === 'sso_no_account' || error.code === 'account_disabled' ? 403
+      : error.code === 'weak_password' || error.code === 'reset_token_invalid' || error.code === 'invitation_invalid' ? 400
+      : 401;
+    return new HttpError(status, error.code, error.message);
+  }
+  console.error(error);
+  return new HttpError(500, 'internal_error', 'Unexpected server error');
+}
+
+export function createApp(services: Services) {
+  const routes = createRoutes(services);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      const matches = routes
+        .map(route => ({ route, match: route.pattern.exec(url.pathname) }))
+        .filter(({ match }) => match !== null);
+      if (matches.length === 0) throw new HttpError(404, 'not_found', `No route for ${url.pathname}`);
+
+      const hit = matches.find(({ route }) => route.method === req.method);
+      if (!hit) throw new HttpError(405, 'method_not_allowed', `${req.method} not allowed on ${url.pathname}`);
+
+      const params: Params = {};
+      hit.route.keys.forEach((key, i) => { params[key] = decodePathSegment(hit.match![i + 1]); });
+
+      const accessToken = hit.route.public ? undefined : bearerToken(req);
+      const user = accessToken === undefined ? undefined : await services.auth.authenticate(accessToken);
+      const getUser = () => user;
+      const repos = guardRepositories(auditRepositories(services.repos, getUser), getUser);
+      const result = await hit.route.handler({ params, query: url.searchParams, body: await readBody(req), user, accessToken, repos });
+      if (result === undefined) {
+        res.writeHead(204).end();
+      } else {
+        send(res, 200, result);
+      }
+    } catch (error) {
+      const httpError = toHttpError(error);
+      send(res, httpError.status, {
+        error: { code: httpError.code, message: httpError.message, details: httpError.details }
+      });
+    }
+  };
+}
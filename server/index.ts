@@ -0,0 +1,108 @@
+import { createServer } from 'node:http';
+import { resolve } from 'node:path';
+import { createAccountStore } from '../src/auth/accounts';
+import { STANDIN_MAPPING, createStandInIdp } from '../src/auth/idp-standin';
+import { createInvitationStore } from '../src/auth/invitations';
+import { createOidcProvider, type SsoProvider } from '../src/auth/oidc';
+import { createOutbox } from '../src/auth/outbox';
+import { createResetTokenStore } from '../src/auth/resets';
+import {
+  activeStaffRule,
+  addToTeacherRoster,
+  createLocalAuthService,
+  schoolMfaTrustRule,
+  studentAccessRule,
+  teacherTwoFactorRule
+} from '../src/auth/service';
+import { createSessionRegistry } from '../src/auth/sessions';
+import { createTokenSigner, loadOrCreateSecret } from '../src/auth/tokens';
+import { createHttpOcrProvider } from '../src/domain/ocr';
+import { createApp } from './app';
+import { createFileStorage, openStore } from './store';
+
+// ------------------------------------------------------------
+// EduBridge Local Backend
+// ------------------------------------------------------------
+// Stand-in REST API for developing the portals against a real
+// HTTP boundary. Usage:
+//   npm run server              # serve on :3001, data in server/.data
+//   npm run server -- --reset   # re-seed fixtures first
+//   EDUBRIDGE_DEV_OUTBOX=true npm run server   # serve /api/outbox
+//   EDUBRIDGE_STANDIN_IDP=true npm run server  # offer the stand-in "School Account"
+//     (EDUBRIDGE_STANDIN_REDIRECT_URI if the web app is not on localhost:8080)
+// Then start the web app with VITE_API_URL=/api (see README).
+// ------------------------------------------------------------
+
+const port = Number(process.env.PORT ?? 3001);
+const dataFile = resolve(process.env.EDUBRIDGE_DATA_FILE ?? 'server/.data/db.json');
+const accountsFile = resolve(process.env.EDUBRIDGE_ACCOUNTS_FILE ?? 'server/.data/accounts.json');
+const reset = process.argv.includes('--reset');
+
+const authStorage = createFileStorage(accountsFile, { reset });
+// EDUBRIDGE_TOKEN_SECRET pins the signing key; otherwise one is generated and kept with the accounts
+const tokenSecret = process.env.EDUBRIDGE_TOKEN_SECRET ?? loadOrCreateSecret(authStorage);
+
+const outbox = createOutbox(authStorage);
+// Anyone could follow the reset links in it, so the outbox is only served on request, for development
+const devOutbox = process.env.EDUBRIDGE_DEV_OUTBOX === 'true';
+// EDUBRIDGE_OCR_URL sends scans to a real OCR service; otherwise the local stand-in reads them
+const ocr = process.env.EDUBRIDGE_OCR_URL
+  ? createHttpOcrProvider({ url: process.env.EDUBRIDGE_OCR_URL, apiKey: process.env.EDUBRIDGE_OCR_API_KEY })
+  : undefined;
+const repos = openStore(dataFile, { reset, ocr });
+// Anyone can sign in as anyone in its directory, so the stand-in "School Account" is opt-in
+// It only sends codes back to the web app's callback, so set EDUBRIDGE_STANDIN_REDIRECT_URI when serving it elsewhere
+const standInIdp = process.env.EDUBRIDGE_STANDIN_IDP === 'true'
+  ? createStandInIdp(authStorage, {
+    redirectUris: [process.env.EDUBRIDGE_STANDIN_REDIRECT_URI ?? 'http://localhost:8080/auth/callback']
+  })
+  : undefined;
+
+// A real Google Workspace or Microsoft Entra tenant is added with EDUBRIDGE_OIDC_ISSUER
+// and _CLIENT_ID, plus EDUBRIDGE_OIDC_ROLES mapping group claims to roles, e.g.
+// {"teachers":"teacher"}. EDUBRIDGE_OIDC_LINK_BY_EMAIL=true links first sign-ins to
+// accounts with the same sign-in email; only set it if the tenant verifies every address.
+const sso: SsoProvider[] = standInIdp ? [{ provider: standInIdp.provider, mapping: STANDIN_MAPPING }] : [];
+if (process.env.EDUBRIDGE_OIDC_ISSUER && process.env.EDUBRIDGE_OIDC_CLIENT_ID) {
+  const roles = JSON.parse(process.env.EDUBRIDGE_OIDC_ROLES ?? '{}');
+  sso.push({
+    provider: createOidcProvider({
+      id: 'oidc',
+      name: process.env.EDUBRIDGE_OIDC_NAME ?? 'School Single Sign-On',
+      issuer: process.env.EDUBRIDGE_OIDC_ISSUER,
+      clientId: process.env.EDUBRIDGE_OIDC_CLIENT_ID,
+      clientSecret: process.env.EDUBRIDGE_OIDC_CLIENT_SECRET
+    }),
+    mapping: {
+      roleClaim: process.env.EDUBRIDGE_OIDC_ROLE_CLAIM ?? 'groups',
+      roles,
+      jit: Object.keys(roles).length > 0,
+      linkByEmail: process.env.EDUBRIDGE_OIDC_LINK_BY_EMAIL === 'true'
+    }
+  });
+}
+
+const server = createServer(createApp({
+  repos,
+  auth: createLocalAuthService({
+    accounts: createAccountStore(authStorage),
+    sessions: createSessionRegistry(authStorage),
+    signer: createTokenSigner(tokenSecret),
+    resets: createResetTokenStore(authStorage),
+    outbox,
+    invitations: createInvitationStore(authStorage)
+  }, {
+    requireTwoFactor: teacherTwoFactorRule(repos),
+    trustSsoTwoFactor: schoolMfaTrustRule(repos),
+    sso,
+    onSsoAccountCreated: addToTeacherRoster(repos),
+    canManageStudent: studentAccessRule(repos),
+    isActive: activeStaffRule(repos)
+  }),
+  outbox: devOutbox ? outbox : undefined,
+  standInIdp
+}));
+
+server.listen(port, () => {
+  console.log(`EduBridge API listening on http://localhost:${port}/api (data: ${dataFile})`);
+});
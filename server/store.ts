@@ -0,0 +1,75 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { createDefaultPolicy, createSeed, type DomainSeed } from '../src/domain/fixtures';
+import { createMemoryRepositories, type FileStore } from '../src/domain/memory';
+import type { OcrProvider } from '../src/domain/ocr';
+import type { Repositories } from '../src/domain/repositories';
+import type { KeyValueStorage } from '../src/auth/types';
+
+// ------------------------------------------------------------
+// File-backed Store
+// ------------------------------------------------------------
+// The backend reuses the in-memory repositories from the web app
+// and writes the whole store to a JSON file after every change.
+// Uploaded scans go to a `files` directory beside it, one file
+// per paper. Delete the file (or start with --reset) to re-seed
+// fixtures.
+// ------------------------------------------------------------
+
+export function openStore(
+  file: string,
+  { reset = false, ocr }: { reset?: boolean; ocr?: OcrProvider } = {}
+): Repositories {
+  const filesDir = join(dirname(file), 'files');
+  if (reset || !existsSync(file)) {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(createSeed(), null, 2));
+    rmSync(filesDir, { recursive: true, force: true });
+  }
+
+  const stored: Partial<DomainSeed> = JSON.parse(readFileSync(file, 'utf8'));
+  // Policy fields added after the file was written start from their defaults
+  const seed: DomainSeed = { ...createSeed(), ...stored, policy: { ...createDefaultPolicy(), ...stored.policy } };
+  // Papers saved before the analysis queue use its old name for `awaiting-review`
+  for (const paper of seed.papers) if ((paper.status as string) === 'in-progress') paper.status = 'awaiting-review';
+
+  return createMemoryRepositories(seed, {
+    latencyMs: 0,
+    onChange: (db) => writeFileSync(file, JSON.stringify(db, null, 2)),
+    files: createDiskFileStore(filesDir),
+    ocr
+  });
+}
+
+/** FileStore keeping each data URL as a text file in `dir`. */
+export function createDiskFileStore(dir: string): FileStore {
+  const path = (key: string) => {
+    if (!/^[\w-]+$/.test(key)) throw new Error(`Invalid file key ${key}`);
+    return join(dir, `${key}.dataurl`);
+  };
+  return {
+    put: async (key, content) => {
+      mkdirSync(dir, { recursive: true });
+      await writeFile(path(key), content);
+    },
+    get: async (key) => (existsSync(path(key)) ? readFile(path(key), 'utf8') : undefined)
+  };
+}
+
+/** KeyValueStorage persisted as a single JSON object in `file`. */
+export function createFileStorage(file: string, { reset = false } = {}): KeyValueStorage {
+  let entries: Record<string, string> = {};
+  if (!reset && existsSync(file)) entries = JSON.parse(readFileSync(file, 'utf8'));
+
+  const flush = () => {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(entries, null, 2));
+  };
+
+  return {
+    getItem: (key) => entries[key] ?? null,
+    setItem: (key, value) => { entries[key] = value; flush(); },
+    removeItem: (key) => { delete entries[key]; flush(); }
+  };
+}
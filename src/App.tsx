@@ -2,90 +2,116 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, Link, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { GuardedRepositoryProvider, RepositoryProvider } from "./contexts/RepositoryContext";
 import ProtectedRoute from "./components/ProtectedRoute";
 import DashboardLayout from "./components/DashboardLayout";
-
-// Pages
-import Login from "./pages/Login";
-import TeacherDashboard from "./pages/teacher/TeacherDashboard";
-import StudentPapers from "./pages/teacher/StudentPapers";
-import AIFeedback from "./pages/teacher/AIFeedback"; // New AI Feedback page
-import TeacherSettings from "./pages/teacher/TeacherSettings"; // New Settings page
-import ParentDashboard from "./pages/parent/ParentDashboard";
-import StudentDashboard from "./pages/student/StudentDashboard";
-import NotFound from "./pages/NotFound";
+import RoutePage from "./components/RoutePage";
+import { classPath, useActiveClass } from "./hooks/use-active-class";
+import { publicRoutes, routesFor, type AppRoute } from "./routes";
 
 const queryClient = new QueryClient();
 
-// Dashboard Router Component
+const NoClasses = () => (
+  <div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">No Classes Yet</h2><p className="text-muted-foreground">You are not assigned to any classes. Ask your school administrator to add you to one.</p></div>
+);
+
+// Parents whose links were all removed, or who signed up and are waiting on a code
+const NoChildren = () => (
+  <div className="text-center py-12">
+    <h2 className="text-2xl font-bold mb-4">No Children Linked</h2>
+    <p className="text-muted-foreground mb-6">Ask your child's teacher for an invitation code to follow their progress.</p>
+    <Button asChild><Link to="/join">Enter an Invitation Code</Link></Button>
+  </div>
+);
+
+// Unscoped teacher URLs (and the portal's /dashboard) land in the active class
+function ClassRedirect() {
+  const { classId, loading } = useActiveClass();
+  const { pathname, search } = useLocation();
+  if (loading) return null;
+  return classId ? <Navigate to={`${classPath(classId, pathname.slice(1))}${search}`} replace /> : <NoClasses />;
+}
+
+// Pages under /classes/:classId/ all read the class from the URL
+function ClassWorkspace({ routes }: { routes: AppRoute[] }) {
+  const { classId, loading, isForeignClass } = useActiveClass();
+
+  if (loading) return null;
+  if (isForeignClass) return <Navigate to="/dashboard" replace />;
+  if (!classId) return <NoClasses />;
+
+  return (
+    <Routes>
+      {routes.map(route => (
+        <Route key={route.path} path={route.path.slice(1)} element={<RoutePage route={route} />} />
+      ))}
+      <Route path="*" element={<Navigate to="dashboard" replace />} />
+    </Routes>
+  );
+}
+
+// Dashboard Router Component: the signed-in portal's routes from the manifest
 function DashboardRouter() {
   const { user } = useAuth();
 
   if (!user) return <Navigate to="/login" replace />;
+  if (user.role === 'parent' && !user.children?.length) return <NoChildren />;
+
+  const routes = routesFor(user.role);
+  const classRoutes = routes.filter(route => route.classScoped);
 
-  // Route based on user role
-  switch (user.role) {
-    case 'teacher':
-      return (
-        <Routes>
-          <Route path="/dashboard" element={<TeacherDashboard />} />
-          <Route path="/papers" element={<StudentPapers />} />
-          <Route path="/feedback" element={<AIFeedback />} />
-          <Route path="/students" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">Students Management</h2><p className="text-muted-foreground">Coming soon - Detailed student profiles and progress tracking.</p></div>} />
-          <Route path="/settings" element={<TeacherSettings />} />
-          <Route path="*" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
-      );
-    case 'parent':
-      return (
-        <Routes>
-          <Route path="/dashboard" element={<ParentDashboard />} />
-          <Route path="/progress" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">Detailed Progress</h2><p className="text-muted-foreground">Coming soon - In-depth progress analytics and trends.</p></div>} />
-          <Route path="/messages" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">Messages</h2><p className="text-muted-foreground">Coming soon - Direct communication with teachers.</p></div>} />
-          <Route path="/settings" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">Settings</h2><p className="text-muted-foreground">Coming soon - Manage your account preferences.</p></div>} />
-          <Route path="*" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
-      );
-    case 'student':
-      return (
-        <Routes>
-          <Route path="/dashboard" element={<StudentDashboard />} />
-          <Route path="/my-progress" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">My Progress</h2><p className="text-muted-foreground">Coming soon - Track your learning journey in detail.</p></div>} />
-          <Route path="/assignments" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">Assignments</h2><p className="text-muted-foreground">Coming soon - View and submit your assignments.</p></div>} />
-          <Route path="/settings" element={<div className="text-center py-12"><h2 className="text-2xl font-bold mb-4">Settings</h2><p className="text-muted-foreground">Coming soon - Personalize your learning experience.</p></div>} />
-          <Route path="*" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
-      );
-    default:
-      return <Navigate to="/login" replace />;
-  }
+  return (
+    <Routes>
+      {classRoutes.length > 0 && (
+        <Route
+          path="/classes/:classId/*"
+          element={<ProtectedRoute permission="classes:teach"><ClassWorkspace routes={classRoutes} /></ProtectedRoute>}
+        />
+      )}
+      {routes.map(route => (
+        <Route
+          key={route.path}
+          path={route.path}
+          element={route.classScoped ? <ClassRedirect /> : <RoutePage route={route} />}
+        />
+      ))}
+      <Route path="*" element={<Navigate to="/dashboard" replace />} />
+    </Routes>
+  );
 }
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route 
-              path="/*" 
-              element={
-                <ProtectedRoute>
-                  <DashboardLayout>
-                    <DashboardRouter />
-                  </DashboardLayout>
-                </ProtectedRoute>
-              } 
-            />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </AuthProvider>
+    <RepositoryProvider>
+      <AuthProvider>
+        <GuardedRepositoryProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                {publicRoutes().map(route => (
+                  <Route key={route.path} path={route.path} element={<RoutePage route={route} />} />
+                ))}
+                <Route 
+                  path="/*" 
+                  element={
+                    <ProtectedRoute>
+                      <DashboardLayout>
+                        <DashboardRouter />
+                      </DashboardLayout>
+                    </ProtectedRoute>
+                  } 
+                />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </GuardedRepositoryProvider>
+      </AuthProvider>
+    </RepositoryProvider>
   </QueryClientProvider>
 );
 
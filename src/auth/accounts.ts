@@ -0,0 +1,189 @@
+import { STANDIN_PROVIDER_ID } from './idp-standin';
+import { hashPassword, type PasswordHash } from './passwords';
+import type { KeyValueStorage, User } from './types';
+
+// ------------------------------------------------------------
+// Account Store
+// ------------------------------------------------------------
+// Credentials and lockout state per account, persisted as one
+// JSON document in a KeyValueStorage (localStorage in the web
+// app, a file on the local backend). The demo accounts shown on
+// the login page are seeded on first use, and demo accounts added
+// in later versions are topped up into existing stores.
+// ------------------------------------------------------------
+
+export interface TwoFactorState {
+  secret: string;             // Base32 TOTP secret
+  enabledAt: number | null;   // Epoch ms; null until the first code confirms enrolment
+  lastStep: number;           // Last accepted TOTP step, so codes cannot be replayed
+  backupCodes: string[];      // SHA-256 digests of the unused backup codes
+}
+
+export interface AccountRecord {
+  email: string;              // Login identifier, stored lower-cased
+  password: PasswordHash;
+  user: User;
+  failedAttempts: number;     // Consecutive failures since the last success
+  lockedUntil: number | null; // Epoch ms
+  twoFactor?: TwoFactorState;
+  /** School sign-in identities linked to this account. */
+  identities?: LinkedIdentity[];
+}
+
+export interface LinkedIdentity {
+  provider: string; // SSO provider id
+  subject: string;  // The provider's stable `sub` for the person
+}
+
+export interface AccountStore {
+  findByEmail(email: string): Promise<AccountRecord | undefined>;
+  findByUserId(userId: string): Promise<AccountRecord | undefined>;
+  /** Matches the profile email, which may differ from the login identifier. */
+  findByProfileEmail(email: string): Promise<AccountRecord | undefined>;
+  findByIdentity(provider: string, subject: string): Promise<AccountRecord | undefined>;
+  /** Accounts holding a parent membership for the student. */
+  findParentsOf(studentId: string): Promise<AccountRecord[]>;
+  save(account: AccountRecord): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+export const ACCOUNTS_STORAGE_KEY = 'edubridge-accounts';
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+interface DemoAccount {
+  email: string;
+  password: string;
+  user: User;
+  /** People of the stand-in school directory, linked as an administrator would link them. */
+  identities?: LinkedIdentity[];
+}
+
+export const demoAccounts: DemoAccount[] = [
+  {
+    email: 'teacher@demo.com',
+    password: 'demo123',
+    user: {
+      id: 'teacher-1',
+      name: 'Ms. Sarah Johnson',
+      role: 'teacher',
+      // Also the parent of Diya (student-3) in the same school
+      memberships: [
+        { role: 'teacher' },
+        { role: 'parent', studentId: 'student-3' }
+      ],
+      email: 'sarah.johnson@edubridge.com',
+      avatar: '/api/placeholder/40/40',
+      subject: 'English & Literature'
+    },
+    identities: [{ provider: STANDIN_PROVIDER_ID, subject: 'edb-1001' }]
+  },
+  {
+    email: 'david.lee@edubridge.com',
+    password: 'demo123',
+    user: {
+      id: 'teacher-2',
+      name: 'Mr. David Lee',
+      role: 'teacher',
+      memberships: [{ role: 'teacher' }],
+      email: 'david.lee@edubridge.com',
+      subject: 'Mathematics'
+    },
+    identities: [{ provider: STANDIN_PROVIDER_ID, subject: 'edb-1002' }]
+  },
+  {
+    email: 'parent@demo.com',
+    password: 'demo123',
+    user: {
+      id: 'parent-1',
+      name: 'Mr. Raj Sharma',
+      role: 'parent',
+      memberships: [
+        { role: 'parent', studentId: 'student-1' },
+        { role: 'parent', studentId: 'student-2' }
+      ],
+      email: 'raj.sharma@gmail.com',
+      avatar: '/api/placeholder/40/40'
+    }
+  },
+  {
+    email: 'student@demo.com',
+    password: 'demo123',
+    user: {
+      id: 'student-1',
+      name: 'Aadhya Sharma',
+      role: 'student',
+      memberships: [{ role: 'student', studentId: 'student-1' }],
+      email: 'aadhya.sharma@student.edubridge.com',
+      avatar: '/api/placeholder/40/40',
+      grade: '5th Grade'
+    }
+  },
+  {
+    email: 'admin@demo.com',
+    password: 'demo123',
+    user: {
+      id: 'admin-1',
+      name: 'Dr. Anita Rao',
+      role: 'admin',
+      memberships: [{ role: 'admin' }],
+      email: 'anita.rao@edubridge.com',
+      avatar: '/api/placeholder/40/40'
+    },
+    identities: [{ provider: STANDIN_PROVIDER_ID, subject: 'edb-1004' }]
+  }
+];
+
+async function seedAccounts(demos: DemoAccount[]): Promise<AccountRecord[]> {
+  return Promise.all(demos.map(async ({ email, password, user, identities }) => ({
+    email: normalizeEmail(email),
+    password: await hashPassword(password),
+    user,
+    failedAttempts: 0,
+    lockedUntil: null,
+    ...(identities ? { identities } : {})
+  })));
+}
+
+export function createAccountStore(storage: KeyValueStorage, key = ACCOUNTS_STORAGE_KEY): AccountStore {
+  let loaded: Promise<AccountRecord[]> | null = null;
+
+  const load = () => {
+    loaded ??= (async () => {
+      const existing: AccountRecord[] = JSON.parse(storage.getItem(key) ?? '[]');
+      const missing = demoAccounts.filter(d => !existing.some(a => a.email === normalizeEmail(d.email)));
+      if (missing.length === 0) return existing;
+      const accounts = [...existing, ...(await seedAccounts(missing))];
+      storage.setItem(key, JSON.stringify(accounts));
+      return accounts;
+    })();
+    return loaded;
+  };
+
+  return {
+    findByEmail: async (email) => {
+      const normalized = normalizeEmail(email);
+      return (await load()).find(a => a.email === normalized);
+    },
+    findByUserId: async (userId) => (await load()).find(a => a.user.id === userId),
+    findByProfileEmail: async (email) => {
+      const normalized = normalizeEmail(email);
+      return (await load()).find(a => normalizeEmail(a.user.email) === normalized);
+    },
+    findByIdentity: async (provider, subject) =>
+      (await load()).find(a => a.identities?.some(i => i.provider === provider && i.subject === subject)),
+    findParentsOf: async (studentId) =>
+      (await load()).filter(a => a.user.memberships?.some(m => m.role === 'parent' && m.studentId === studentId)),
+    save: async (account) => {
+      const accounts = (await load()).filter(a => a.email !== account.email);
+      accounts.push(account);
+      loaded = Promise.resolve(accounts);
+      storage.setItem(key, JSON.stringify(accounts));
+    },
+    remove: async (userId) => {
+      const accounts = (await load()).filter(a => a.user.id !== userId);
+      loaded = Promise.resolve(accounts);
+      storage.setItem(key, JSON.stringify(accounts));
+    }
+  };
+}
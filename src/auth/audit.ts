@@ -0,0 +1,75 @@
+import type { NewAuditEntry, Repositories } from '../domain/repositories';
+import type { Feedback, UserSettings } from '../domain/types';
+import type { User } from './types';
+
+// ------------------------------------------------------------
+// Audit Trail
+// ------------------------------------------------------------
+// Wraps the repositories so the sensitive writes the store can
+// see are recorded with their before and after state once they
+// succeed. Sits under the permission guard, so refused calls
+// leave no entry. Actions that only happen in the browser
+// (sharing, previews) are reported by the page instead.
+// ------------------------------------------------------------
+
+const feedbackState = (feedback: Feedback) => ({ status: feedback.status, aiScore: feedback.aiScore });
+
+/** Keeps enough of a key to tell keys apart without writing the secret to the log. */
+export const maskSecret = (value: string | undefined) =>
+  value ? `${value.slice(0, 7)}…${value.slice(-4)}` : null;
+
+export function auditRepositories(repos: Repositories, getUser: () => User | null | undefined): Repositories {
+  const record = async (entry: NewAuditEntry) => {
+    const user = getUser();
+    if (user) await repos.audit.record(entry, { id: user.id, name: user.name, role: user.role });
+  };
+
+  const feedbackTarget = async (feedback: Feedback) => ({
+    type: 'feedback',
+    id: feedback.id,
+    label: (await repos.students.get(feedback.studentId))?.name
+  });
+
+  const auditedFeedbackChange = (action: NewAuditEntry['action'], change: (id: string) => Promise<Feedback>) =>
+    async (id: string) => {
+      const before = await repos.feedback.get(id);
+      const after = await change(id);
+      await record({
+        action,
+        target: await feedbackTarget(after),
+        before: before && feedbackState(before),
+        after: feedbackState(after)
+      });
+      return after;
+    };
+
+  return {
+    ...repos,
+    feedback: {
+      ...repos.feedback,
+      regenerate: auditedFeedbackChange('feedback.regenerated', repos.feedback.regenerate),
+      finalize: auditedFeedbackChange('feedback.finalized', repos.feedback.finalize)
+    },
+    settings: {
+      ...repos.settings,
+      update: async (userId, update) => {
+        const before: UserSettings = await repos.settings.get(userId);
+        const after = await repos.settings.update(userId, update);
+        const target = { type: 'user', id: userId, label: after.profile.name || getUser()?.name };
+
+        if (update.privacy && JSON.stringify(before.privacy) !== JSON.stringify(after.privacy)) {
+          await record({ action: 'settings.privacy_changed', target, before: before.privacy, after: after.privacy });
+        }
+        if (update.api && before.api.apiKey !== after.api.apiKey) {
+          await record({
+            action: 'settings.api_key_regenerated',
+            target,
+            before: { apiKey: maskSecret(before.api.apiKey) },
+            after: { apiKey: maskSecret(after.api.apiKey) }
+          });
+        }
+        return after;
+      }
+    }
+  };
+}
@@ -0,0 +1,272 @@
+import { NotFoundError, type Repositories } from '../domain/repositories';
+import type { AuditAction, Feedback, Rubric } from '../domain/types';
+import { hasPermission, type Permission } from './permissions';
+import { AuthError, type User } from './types';
+
+// ------------------------------------------------------------
+// Repository Guard
+// ------------------------------------------------------------
+// Wraps the repositories so every write checks the caller's
+// permissions before it reaches the store. The REST backend
+// guards per request; the browser-local store guards with the
+// signed-in user. Students' work (papers and their files,
+// feedback, exams and annotations) is read only by the student,
+// their parents, the teachers of their class and administrators,
+// and teachers change it only in classes they teach; families
+// see feedback once the teacher has released it. Settings and
+// messages are read by their owner only, and only a message's
+// recipient marks it read. Other reads are passed through,
+// except the audit log, annotations kept private to staff and
+// rubrics their authors have not shared.
+// ------------------------------------------------------------
+
+// Audit actions that happen only in the browser, so clients report them themselves
+const REPORTED_ACTIONS: Partial<Record<AuditAction, Permission>> = {
+  'feedback.shared': 'feedback:share',
+  'student.previewed': 'students:preview'
+};
+
+// Whose work a caller may read
+interface ReadScope {
+  all: boolean;
+  studentIds: Set<string>;
+  classIds: Set<string>;
+}
+
+const inScope = (scope: ReadScope, record: { studentId: string; classId?: string }) =>
+  scope.all || scope.studentIds.has(record.studentId) || (record.classId !== undefined && scope.classIds.has(record.classId));
+
+export function assertPermission(user: User | null | undefined, permission: Permission) {
+  if (!hasPermission(user, permission)) {
+    throw new AuthError('forbidden', `Missing permission ${permission}.`);
+  }
+}
+
+export function guardRepositories(repos: Repositories, getUser: () => User | null | undefined): Repositories {
+  const guarded = <A extends unknown[], R>(permission: Permission, fn: (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> => {
+      assertPermission(getUser(), permission);
+      return fn(...args);
+    };
+
+  // Administrators read everyone's work, teachers that of their classes and current students, families their own
+  const readScope = async (): Promise<ReadScope> => {
+    const user = getUser();
+    if (user?.role === 'admin') return { all: true, studentIds: new Set(), classIds: new Set() };
+    if (user?.role === 'teacher') {
+      const [classes, students] = await Promise.all([repos.classes.list({ teacherId: user.id }), repos.students.list()]);
+      const classIds = new Set(classes.map(c => c.id));
+      return { all: false, studentIds: new Set(students.filter(s => classIds.has(s.classId)).map(s => s.id)), classIds };
+    }
+    const own = user?.role === 'parent' ? user.children ?? [] : user?.role === 'student' && user.studentId ? [user.studentId] : [];
+    return { all: false, studentIds: new Set(own), classIds: new Set() };
+  };
+
+  const visibleOnly = async <T extends { studentId: string; classId?: string }>(records: T[]) => {
+    const scope = await readScope();
+    return records.filter(record => inScope(scope, record));
+  };
+
+  // Out-of-scope records read as missing, like unshared rubrics
+  const ifVisible = async <T extends { studentId: string; classId?: string }>(lookup: Promise<T | undefined>) => {
+    const [record, scope] = await Promise.all([lookup, readScope()]);
+    return record && inScope(scope, record) ? record : undefined;
+  };
+
+  const visiblePaper = (id: string) => ifVisible(repos.papers.get(id));
+
+  // Draft AI feedback is unreviewed, so parents and students only get it once finalized
+  const released = (feedback: Feedback) => {
+    const role = getUser()?.role;
+    return (role !== 'parent' && role !== 'student') || feedback.status === 'final';
+  };
+
+  // Writes to a class's work need the permission and, for teachers, to teach the class
+  const inOwnClass = <A extends unknown[], R>(
+    permission: Permission,
+    classOf: (target: A[0]) => Promise<string | undefined>,
+    fn: (...args: A) => Promise<R>
+  ) =>
+    async (...args: A): Promise<R> => {
+      const user = getUser();
+      assertPermission(user, permission);
+      // Unknown records fall through to the store, which reports them missing
+      const classId = await classOf(args[0]);
+      if (classId !== undefined && user!.role !== 'admin' && (await repos.classes.get(classId))?.teacherId !== user!.id) {
+        throw new AuthError('forbidden', 'You can only do this for classes you teach.');
+      }
+      return fn(...args);
+    };
+
+  const paperClass = async (id: string) => (await repos.papers.get(id))?.classId;
+  const feedbackClass = async (id: string) => (await repos.feedback.get(id))?.classId;
+  const annotationClass = async (id: string) => (await repos.annotations.list()).find(a => a.id === id)?.classId;
+  const assignmentClass = async (id: string) => (await repos.assignments.list()).find(a => a.id === id)?.classId;
+
+  const visibleRubric = (rubric: Rubric) => rubric.shared || rubric.authorId === getUser()?.id;
+
+  // Shared rubrics can be reused by anyone, but only their author changes them
+  const ownRubric = <A extends unknown[], R>(fn: (id: string, ...rest: A) => Promise<R>) =>
+    async (id: string, ...rest: A): Promise<R> => {
+      const user = getUser();
+      assertPermission(user, 'rubrics:manage');
+      const rubric = await repos.rubrics.get(id);
+      if (rubric && rubric.authorId !== user!.id) throw new AuthError('forbidden', 'Only the author can change a rubric.');
+      return fn(id, ...rest);
+    };
+
+  return {
+    ...repos,
+    teachers: {
+      ...repos.teachers,
+      create: guarded('staff:manage', repos.teachers.create),
+      update: guarded('staff:manage', repos.teachers.update)
+    },
+    students: {
+      ...repos.students,
+      create: guarded('enrolments:manage', repos.students.create),
+      update: guarded('enrolments:manage', repos.students.update)
+    },
+    classes: {
+      ...repos.classes,
+      create: guarded('classes:manage', repos.classes.create),
+      update: guarded('classes:manage', repos.classes.update)
+    },
+    assignments: {
+      ...repos.assignments,
+      update: inOwnClass('rubrics:manage', assignmentClass, async (id, update) => {
+        if (update.rubricId) {
+          const rubric = await repos.rubrics.get(update.rubricId);
+          if (rubric && !visibleRubric(rubric)) throw new AuthError('forbidden', 'That rubric has not been shared.');
+        }
+        return repos.assignments.update(id, update);
+      })
+    },
+    rubrics: {
+      ...repos.rubrics,
+      list: async (filter) => (await repos.rubrics.list(filter)).filter(visibleRubric),
+      get: async (id) => {
+        const rubric = await repos.rubrics.get(id);
+        return rubric && visibleRubric(rubric) ? rubric : undefined;
+      },
+      create: async (input) => {
+        const user = getUser();
+        assertPermission(user, 'rubrics:manage');
+        if (input.authorId !== user!.id) throw new AuthError('forbidden', 'Rubrics can only be written as yourself.');
+        return repos.rubrics.create(input);
+      },
+      update: ownRubric(repos.rubrics.update),
+      remove: ownRubric(repos.rubrics.remove)
+    },
+    papers: {
+      ...repos.papers,
+      list: async (filter) => visibleOnly(await repos.papers.list(filter)),
+      get: visiblePaper,
+      getFile: async (id) => ((await visiblePaper(id)) ? repos.papers.getFile(id) : undefined),
+      getTranscript: async (id) => ((await visiblePaper(id)) ? repos.papers.getTranscript(id) : undefined),
+      upload: inOwnClass('papers:upload', async ({ studentId }) => (await repos.students.get(studentId))?.classId, repos.papers.upload),
+      transcribe: inOwnClass('papers:upload', paperClass, repos.papers.transcribe),
+      recognize: guarded('papers:upload', repos.papers.recognize),
+      // Reports quote other students' work
+      getSimilarity: inOwnClass('papers:compare', paperClass, repos.papers.getSimilarity),
+      analyze: inOwnClass('feedback:regenerate', paperClass, repos.papers.analyze),
+      cancelAnalysis: inOwnClass('feedback:regenerate', paperClass, repos.papers.cancelAnalysis)
+    },
+    annotations: {
+      ...repos.annotations,
+      list: async (filter) => {
+        const annotations = await visibleOnly(await repos.annotations.list(filter));
+        return hasPermission(getUser(), 'papers:annotate') ? annotations : annotations.filter(a => a.sharedWithFamily);
+      },
+      create: inOwnClass('papers:annotate', ({ paperId }) => paperClass(paperId), async (input) => {
+        if (input.authorId !== getUser()!.id) throw new AuthError('forbidden', 'Annotations can only be written as yourself.');
+        return repos.annotations.create(input);
+      }),
+      update: inOwnClass('papers:annotate', annotationClass, repos.annotations.update),
+      remove: inOwnClass('papers:annotate', annotationClass, repos.annotations.remove)
+    },
+    feedback: {
+      ...repos.feedback,
+      list: async (filter) => (await visibleOnly(await repos.feedback.list(filter))).filter(released),
+      get: async (id) => {
+        const feedback = await ifVisible(repos.feedback.get(id));
+        return feedback && released(feedback) ? feedback : undefined;
+      },
+      regenerate: inOwnClass('feedback:regenerate', feedbackClass, repos.feedback.regenerate),
+      finalize: inOwnClass('feedback:finalize', feedbackClass, repos.feedback.finalize)
+    },
+    exams: {
+      ...repos.exams,
+      list: async (filter) => visibleOnly(await repos.exams.list(filter))
+    },
+    messages: {
+      ...repos.messages,
+      list: async (filter) => {
+        if (getUser()?.id !== filter.userId) throw new AuthError('forbidden', 'You can only read your own messages.');
+        return repos.messages.list(filter);
+      },
+      send: async (input) => {
+        const user = getUser();
+        assertPermission(user, 'messages:send');
+        if (input.fromUserId !== user!.id) throw new AuthError('forbidden', 'Messages can only be sent as yourself.');
+        return repos.messages.send(input);
+      },
+      // Only the recipient marks a message read; other people's messages read as missing
+      markRead: async (id) => {
+        const user = getUser();
+        const message = user && (await repos.messages.list({ userId: user.id })).find(m => m.id === id);
+        if (!message) throw new NotFoundError('Message', id);
+        if (message.toUserId !== user!.id) throw new AuthError('forbidden', 'Only the recipient can mark a message read.');
+        return repos.messages.markRead(id);
+      }
+    },
+    settings: {
+      ...repos.settings,
+      get: async (userId) => {
+        if (getUser()?.id !== userId) throw new AuthError('forbidden', 'You can only read your own settings.');
+        return repos.settings.get(userId);
+      },
+      // Everyone edits their own settings; the API section needs its own capability and the school's consent
+      update: async (userId, update) => {
+        const user = getUser();
+        if (!user || user.id !== userId) throw new AuthError('forbidden', 'You can only change your own settings.');
+        if (update.api) {
+          assertPermission(user, 'apikeys:manage');
+          if (user.role === 'teacher' && !(await repos.school.getPolicy()).allowTeacherApiAccess) {
+            throw new AuthError('forbidden', 'Your school does not allow teachers to use the API.');
+          }
+        }
+        return repos.settings.update(userId, update);
+      }
+    },
+    school: {
+      ...repos.school,
+      updatePolicy: guarded('policy:manage', repos.school.updatePolicy)
+    },
+    audit: {
+      ...repos.audit,
+      list: guarded('audit:view', repos.audit.list),
+      // Entries are always attributed to the caller, whatever actor was passed
+      record: async (entry) => {
+        const user = getUser();
+        const permission = REPORTED_ACTIONS[entry.action];
+        if (!permission) throw new AuthError('forbidden', `${entry.action} cannot be reported by clients.`);
+        assertPermission(user, permission);
+        return repos.audit.record(entry, { id: user!.id, name: user!.name, role: user!.role });
+      }
+    }
+  };
+}
+
+const READ_METHODS = new Set(['list', 'get', 'getFile', 'getTranscript', 'getPolicy']);
+
+/** Repositories that serve reads and refuse every write, for read-only previews of another portal. */
+export function readOnlyRepositories(repos: Repositories): Repositories {
+  const refuse = async () => {
+    throw new AuthError('forbidden', 'Previews are read-only.');
+  };
+  return Object.fromEntries(Object.entries(repos).map(([name, repo]) => [
+    name,
+    Object.fromEntries(Object.entries(repo).map(([method, fn]) => [method, READ_METHODS.has(method) ? fn : refuse]))
+  ])) as unknown as Repositories;
+}
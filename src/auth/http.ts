@@ -0,0 +1,131 @@
+import { ApiError, createApiClient } from '@/domain/http';
+import type { StandInAuthorizeParams, StandInIdentity } from './idp-standin';
+import type { OutboxMessage, OutboxReader } from './outbox';
+import type { AuthService } from './service';
+import {
+  AuthError,
+  type AuthErrorCode,
+  type AuthSession,
+  type ParentInvitation,
+  type SsoProviderSummary,
+  type StudentParentLinks,
+  type TotpEnrollment,
+  type TwoFactorChallenge,
+  type TwoFactorSession,
+  type TwoFactorStatus,
+  type User
+} from './types';
+
+// ------------------------------------------------------------
+// HTTP Auth Service
+// ------------------------------------------------------------
+// Same contract as the local service, backed by /auth routes on
+// the local REST backend. API errors are mapped back to AuthError
+// so the login page handles both implementations identically.
+// ------------------------------------------------------------
+
+const AUTH_CODES: AuthErrorCode[] = [
+  'invalid_credentials',
+  'account_locked',
+  'session_expired',
+  'role_not_held',
+  'forbidden',
+  'email_taken',
+  'weak_password',
+  'reset_token_invalid',
+  'two_factor_invalid',
+  'sso_failed',
+  'sso_no_account',
+  'invitation_invalid',
+  'account_disabled'
+];
+
+export function toAuthError(error: unknown): unknown {
+  if (error instanceof ApiError && (AUTH_CODES as string[]).includes(error.code)) {
+    const retryAfterMs = typeof error.details?.retryAfterMs === 'number' ? error.details.retryAfterMs : undefined;
+    return new AuthError(error.code as AuthErrorCode, error.message, retryAfterMs);
+  }
+  return error;
+}
+
+export function createHttpAuthService(baseUrl: string): AuthService {
+  const request = createApiClient(baseUrl);
+
+  const call = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  return {
+    login: (email, password) =>
+      call(() => request<AuthSession | TwoFactorChallenge>('POST', '/auth/login', { body: { email, password } })),
+    verifyTwoFactor: (challengeToken, code) =>
+      call(() => request<TwoFactorSession>('POST', '/auth/2fa/verify', { body: { challengeToken, code } })),
+    ssoProviders: () =>
+      call(() => request<SsoProviderSummary[]>('GET', '/auth/sso/providers')),
+    beginSso: (providerId, authorization) =>
+      call(async () => (await request<{ url: string }>('POST', `/auth/sso/${encodeURIComponent(providerId)}/authorize`, { body: authorization })).url),
+    completeSso: (providerId, exchange) =>
+      call(() => request<AuthSession | TwoFactorChallenge>('POST', `/auth/sso/${encodeURIComponent(providerId)}/callback`, { body: exchange })),
+    refresh: (refreshToken) =>
+      call(() => request<AuthSession>('POST', '/auth/refresh', { body: { refreshToken } })),
+    authenticate: (accessToken) =>
+      call(async () => (await request<{ user: User }>('GET', '/auth/session', { accessToken })).user),
+    switchRole: (accessToken, role) =>
+      call(async () => (await request<{ user: User }>('POST', '/auth/role', { accessToken, body: { role } })).user),
+    provisionAccount: (accessToken, input) =>
+      call(async () => (await request<{ user: User }>('POST', '/auth/accounts', { accessToken, body: input })).user),
+    removeAccount: (accessToken, userId) =>
+      call(() => request<void>('DELETE', `/auth/accounts/${encodeURIComponent(userId)}`, { accessToken })),
+    changePassword: (accessToken, currentPassword, newPassword) =>
+      call(() => request<void>('POST', '/auth/password', { accessToken, body: { currentPassword, newPassword } })),
+    requestPasswordReset: (email) =>
+      call(() => request<void>('POST', '/auth/password/forgot', { body: { email } })),
+    resetPassword: (token, newPassword) =>
+      call(() => request<void>('POST', '/auth/password/reset', { body: { token, newPassword } })),
+    twoFactorStatus: (accessToken) =>
+      call(() => request<TwoFactorStatus>('GET', '/auth/2fa', { accessToken })),
+    startTwoFactorEnrollment: (accessToken) =>
+      call(() => request<TotpEnrollment>('POST', '/auth/2fa/enrollment', { accessToken })),
+    confirmTwoFactorEnrollment: (accessToken, code) =>
+      call(async () => (await request<{ backupCodes: string[] }>('POST', '/auth/2fa/enrollment/confirm', { accessToken, body: { code } })).backupCodes),
+    regenerateBackupCodes: (accessToken, code) =>
+      call(async () => (await request<{ backupCodes: string[] }>('POST', '/auth/2fa/backup-codes', { accessToken, body: { code } })).backupCodes),
+    disableTwoFactor: (accessToken, password) =>
+      call(() => request<void>('POST', '/auth/2fa/disable', { accessToken, body: { password } })),
+    parentLinks: (accessToken, studentId) =>
+      call(() => request<StudentParentLinks>('GET', `/students/${encodeURIComponent(studentId)}/parents`, { accessToken })),
+    inviteParent: (accessToken, studentId) =>
+      call(() => request<ParentInvitation>('POST', `/students/${encodeURIComponent(studentId)}/invitations`, { accessToken })),
+    revokeInvitation: (accessToken, studentId, invitationId) =>
+      call(() => request<void>('DELETE', `/students/${encodeURIComponent(studentId)}/invitations/${encodeURIComponent(invitationId)}`, { accessToken })),
+    unlinkParent: (accessToken, studentId, parentUserId) =>
+      call(() => request<void>('DELETE', `/students/${encodeURIComponent(studentId)}/parents/${encodeURIComponent(parentUserId)}`, { accessToken })),
+    signUpParent: (input) =>
+      call(() => request<AuthSession>('POST', '/auth/signup/parent', { body: input })),
+    acceptInvitation: (accessToken, code) =>
+      call(async () => (await request<{ user: User }>('POST', '/auth/invitations/accept', { accessToken, body: { code } })).user),
+    logout: (refreshToken) =>
+      call(() => request<void>('POST', '/auth/logout', { body: { refreshToken } }))
+  };
+}
+
+export function createHttpOutbox(baseUrl: string): OutboxReader {
+  const request = createApiClient(baseUrl);
+  return {
+    list: ({ to } = {}) => request<OutboxMessage[]>('GET', '/outbox', { query: { to } })
+  };
+}
+
+/** The stand-in identity provider's sign-in page talks to the backend's copy of it. */
+export function createHttpStandInIdp(baseUrl: string) {
+  const request = createApiClient(baseUrl);
+  return {
+    directory: () => request<StandInIdentity[]>('GET', '/idp/directory'),
+    authorize: async (params: StandInAuthorizeParams, sub: string | null) =>
+      (await request<{ redirectTo: string }>('POST', '/idp/authorize', { body: { params, sub } })).redirectTo
+  };
+}
@@ -0,0 +1,223 @@
+import {
+  OidcError,
+  pkceChallenge,
+  randomUrlToken,
+  toBase64Url,
+  verifyIdToken,
+  type ClaimMapping,
+  type IdTokenClaims,
+  type IdentityProvider,
+  type Jwk
+} from './oidc';
+import type { KeyValueStorage } from './types';
+
+// ------------------------------------------------------------
+// Stand-in Identity Provider
+// ------------------------------------------------------------
+// A tiny OpenID Connect provider playing the school's Google or
+// Microsoft directory in development and tests. It checks PKCE,
+// issues single-use codes and RS256-signed ID tokens only to the
+// registered redirect URIs, and its sign-in page (/idp/authorize
+// in the web app) lists the people below instead of asking for a
+// password.
+// ------------------------------------------------------------
+
+export interface StandInIdentity {
+  sub: string;
+  email: string;
+  name: string;
+  groups: string[];
+  department?: string;
+}
+
+export const STANDIN_DIRECTORY: StandInIdentity[] = [
+  { sub: 'edb-1001', email: 'sarah.johnson@edubridge.com', name: 'Sarah Johnson', groups: ['staff', 'teachers'], department: 'English & Literature' },
+  { sub: 'edb-1002', email: 'david.lee@edubridge.com', name: 'David Lee', groups: ['staff', 'teachers'], department: 'Mathematics' },
+  // Not in EduBridge yet: created on first sign-in
+  { sub: 'edb-1003', email: 'priya.nair@edubridge.com', name: 'Priya Nair', groups: ['staff', 'teachers'], department: 'Science' },
+  { sub: 'edb-1004', email: 'anita.rao@edubridge.com', name: 'Anita Rao', groups: ['staff', 'school-admins'] },
+  // In the directory but in no group EduBridge maps, so sign-in is refused
+  { sub: 'edb-1005', email: 'office@edubridge.com', name: 'School Office', groups: ['staff'] }
+];
+
+export const STANDIN_PROVIDER_ID = 'school';
+export const STANDIN_CLIENT_ID = 'edubridge-web';
+export const STANDIN_ISSUER = 'https://idp.edubridge.local';
+
+export const STANDIN_MAPPING: ClaimMapping = {
+  roleClaim: 'groups',
+  roles: { teachers: 'teacher', 'school-admins': 'admin' },
+  subjectClaim: 'department',
+  jit: true
+};
+
+/** Query parameters the stand-in sign-in page receives, as a real provider would. */
+export interface StandInAuthorizeParams {
+  client_id: string;
+  redirect_uri: string;
+  response_type: string;
+  state: string;
+  nonce: string;
+  code_challenge: string;
+  code_challenge_method: string;
+}
+
+export interface StandInIdp {
+  directory(): Promise<StandInIdentity[]>;
+  /** Signs `sub` in and returns where to send the browser: the redirect URI with a code, or an error. */
+  authorize(params: StandInAuthorizeParams, sub: string | null): Promise<string>;
+  /** The provider as the auth service sees it. */
+  provider: IdentityProvider;
+}
+
+interface StandInCode {
+  code: string;
+  sub: string;
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  expiresAt: number; // Epoch ms
+}
+
+type PrivateJwk = Jwk & { kid: string; d: string; p: string; q: string; dp: string; dq: string; qi: string };
+
+const KEY_STORAGE_KEY = 'edubridge-idp-key';
+const CODES_STORAGE_KEY = 'edubridge-idp-codes';
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_S = 5 * 60;
+const RS256 = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' } as const;
+
+export function createStandInIdp(
+  storage: KeyValueStorage,
+  {
+    redirectUris,
+    issuer = STANDIN_ISSUER,
+    clientId = STANDIN_CLIENT_ID,
+    authorizePath = '/idp/authorize',
+    now = Date.now
+  }: {
+    /** Where the client may be sent back to, compared exactly as a real provider does. */
+    redirectUris: string[];
+    issuer?: string;
+    clientId?: string;
+    authorizePath?: string;
+    now?: () => number;
+  }
+): StandInIdp {
+  // The signing key is read from storage on every use so separate instances agree on it
+  const signingKey = async (): Promise<PrivateJwk> => {
+    const stored = storage.getItem(KEY_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+    const pair = await crypto.subtle.generateKey(
+      { ...RS256, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+      true,
+      ['sign', 'verify']
+    );
+    const jwk = { ...(await crypto.subtle.exportKey('jwk', pair.privateKey)), kid: randomUrlToken(8) } as PrivateJwk;
+    storage.setItem(KEY_STORAGE_KEY, JSON.stringify(jwk));
+    return jwk;
+  };
+
+  const publicKeys = async (): Promise<Jwk[]> => {
+    const { kty, n, e, kid } = await signingKey();
+    return [{ kty, n, e, kid, alg: 'RS256', use: 'sig' }];
+  };
+
+  const readCodes = (): StandInCode[] => JSON.parse(storage.getItem(CODES_STORAGE_KEY) ?? '[]');
+  const writeCodes = (codes: StandInCode[]) =>
+    storage.setItem(CODES_STORAGE_KEY, JSON.stringify(codes.filter(c => c.expiresAt > now())));
+
+  const signIdToken = async (claims: IdTokenClaims) => {
+    const jwk = await signingKey();
+    const { kid, ...privateKey } = jwk;
+    const key = await crypto.subtle.importKey('jwk', privateKey, RS256, false, ['sign']);
+    const encode = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+    const body = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+    const signature = new Uint8Array(await crypto.subtle.sign(RS256, key, new TextEncoder().encode(body)));
+    return `${body}.${toBase64Url(signature)}`;
+  };
+
+  // Token endpoint: single-use code, same client and redirect URI, and a verifier matching the challenge
+  const redeem = async ({ code, codeVerifier, redirectUri }: { code: string; codeVerifier: string; redirectUri: string }) => {
+    const codes = readCodes();
+    const record = codes.find(c => c.code === code);
+    writeCodes(codes.filter(c => c.code !== code));
+    if (!record || record.expiresAt <= now()) throw new OidcError('Authorization code is invalid or has expired');
+    if (record.clientId !== clientId || record.redirectUri !== redirectUri) throw new OidcError('Authorization code was issued to another client');
+    if ((await pkceChallenge(codeVerifier)) !== record.codeChallenge) throw new OidcError('PKCE verification failed');
+
+    const person = STANDIN_DIRECTORY.find(p => p.sub === record.sub)!;
+    const iat = Math.floor(now() / 1000);
+    return signIdToken({
+      iss: issuer,
+      sub: person.sub,
+      aud: clientId,
+      iat,
+      exp: iat + ID_TOKEN_TTL_S,
+      nonce: record.nonce,
+      email: person.email,
+      email_verified: true,
+      name: person.name,
+      groups: person.groups,
+      department: person.department
+    });
+  };
+
+  return {
+    directory: async () => STANDIN_DIRECTORY,
+
+    authorize: async (params, sub) => {
+      // Checked before anything is sent back, so codes and errors never reach an unregistered address
+      if (params.client_id !== clientId) throw new OidcError('Unknown client');
+      if (!redirectUris.includes(params.redirect_uri)) throw new OidcError('Redirect URI is not registered for this client');
+
+      const redirect = new URL(params.redirect_uri, 'http://localhost');
+      const back = (values: Record<string, string>) => {
+        Object.entries({ ...values, state: params.state }).forEach(([k, v]) => redirect.searchParams.set(k, v));
+        // Same-origin redirect URIs stay relative so the web app can navigate without a reload
+        return /^https?:\/\//.test(params.redirect_uri) ? redirect.toString() : `${redirect.pathname}${redirect.search}`;
+      };
+
+      if (params.response_type !== 'code' || params.code_challenge_method !== 'S256' || !params.code_challenge) {
+        return back({ error: 'invalid_request', error_description: 'Authorization code flow with S256 PKCE is required' });
+      }
+      if (!sub) return back({ error: 'access_denied' });
+      if (!STANDIN_DIRECTORY.some(p => p.sub === sub)) throw new OidcError('Unknown identity');
+
+      const code = randomUrlToken();
+      writeCodes([...readCodes(), {
+        code,
+        sub,
+        clientId,
+        redirectUri: params.redirect_uri,
+        nonce: params.nonce,
+        codeChallenge: params.code_challenge,
+        expiresAt: now() + CODE_TTL_MS
+      }]);
+      return back({ code });
+    },
+
+    provider: {
+      id: STANDIN_PROVIDER_ID,
+      name: 'School Account',
+      authorizationUrl: async ({ state, nonce, codeChallenge, redirectUri }) => {
+        const params = new URLSearchParams({
+          client_id: clientId,
+          redirect_uri: redirectUri,
+          response_type: 'code',
+          scope: 'openid email profile',
+          state,
+          nonce,
+          code_challenge: codeChallenge,
+          code_challenge_method: 'S256'
+        });
+        return `${authorizePath}?${params}`;
+      },
+      exchangeCode: async ({ code, codeVerifier, redirectUri, nonce }) => {
+        const idToken = await redeem({ code, codeVerifier, redirectUri });
+        return verifyIdToken(idToken, { keys: await publicKeys(), issuer, audience: clientId, nonce, now: now() });
+      }
+    }
+  };
+}
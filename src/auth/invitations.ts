@@ -0,0 +1,64 @@
+import { toBase32 } from './totp';
+import type { KeyValueStorage, ParentInvitation } from './types';
+
+// ------------------------------------------------------------
+// Parent Invitations
+// ------------------------------------------------------------
+// Per-student codes a teacher hands to a parent, redeemed when
+// the parent signs up (or from an existing account) to link them
+// to the child. Codes stay readable on the student's record until
+// they are redeemed, revoked or expire, so teachers can print or
+// resend them; each works once.
+// ------------------------------------------------------------
+
+export interface InvitationStore {
+  issue(input: { studentId: string; createdBy: string; ttlMs: number }): Promise<ParentInvitation>;
+  /** Open invitations for the student, newest first. */
+  listForStudent(studentId: string): Promise<ParentInvitation[]>;
+  /** The open invitation with this code; case, spaces and dashes are ignored. */
+  find(code: string): Promise<ParentInvitation | undefined>;
+  remove(id: string): Promise<void>;
+}
+
+export const INVITATIONS_STORAGE_KEY = 'edubridge-parent-invitations';
+
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[\s-]/g, '');
+
+// 8 base32 characters (40 bits), shown as XXXX-XXXX
+function generateCode(): string {
+  const code = toBase32(crypto.getRandomValues(new Uint8Array(5)));
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+export function createInvitationStore(
+  storage: KeyValueStorage,
+  { now = Date.now, key = INVITATIONS_STORAGE_KEY }: { now?: () => number; key?: string } = {}
+): InvitationStore {
+  const read = (): ParentInvitation[] => JSON.parse(storage.getItem(key) ?? '[]');
+  // Expired invitations are dropped on every write
+  const write = (invitations: ParentInvitation[]) =>
+    storage.setItem(key, JSON.stringify(invitations.filter(i => i.expiresAt > now())));
+  const open = () => read().filter(i => i.expiresAt > now());
+
+  return {
+    issue: async ({ studentId, createdBy, ttlMs }) => {
+      const invitation: ParentInvitation = {
+        id: crypto.randomUUID(),
+        code: generateCode(),
+        studentId,
+        createdBy,
+        createdAt: now(),
+        expiresAt: now() + ttlMs
+      };
+      write([...read(), invitation]);
+      return invitation;
+    },
+    listForStudent: async (studentId) =>
+      open().filter(i => i.studentId === studentId).sort((a, b) => b.createdAt - a.createdAt),
+    find: async (code) => {
+      const normalized = normalizeCode(code);
+      return open().find(i => normalizeCode(i.code) === normalized);
+    },
+    remove: async (id) => write(read().filter(i => i.id !== id))
+  };
+}
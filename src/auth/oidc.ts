@@ -0,0 +1,239 @@
+import { fromBase64, toBase64 } from './passwords';
+import type { RoleMembership, UserRole } from './types';
+
+// ------------------------------------------------------------
+// OpenID Connect
+// ------------------------------------------------------------
+// Authorization code flow with PKCE (RFC 7636). The browser
+// creates the verifier, state and nonce and keeps them until the
+// callback; the auth service redeems the code with the provider
+// and turns the verified ID token into an EduBridge account.
+// ------------------------------------------------------------
+
+export const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+export const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+
+export const randomUrlToken = (bytes = 32) => toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+/** S256 code challenge for a verifier. */
+export async function pkceChallenge(verifier: string): Promise<string> {
+  return toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number; // Epoch seconds
+  iat: number; // Epoch seconds
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+/** RSA signing key as published in a provider's JWKS document. */
+export interface Jwk {
+  kty: string;
+  n?: string;
+  e?: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+/** One school identity provider the auth service can send people to. */
+export interface IdentityProvider {
+  id: string;
+  name: string;
+  authorizationUrl(request: AuthorizationRequest): Promise<string>;
+  /** Redeems the code and returns the ID token's claims once signature, issuer, audience and nonce check out. */
+  exchangeCode(exchange: CodeExchange): Promise<IdTokenClaims>;
+}
+
+/** How a provider's claims become EduBridge roles when an account is created on first sign-in. */
+export interface ClaimMapping {
+  /** Claim holding group names, e.g. `groups` or `roles`. */
+  roleClaim: string;
+  /** Group name to the role it grants. Only staff roles can be mapped; parents and students are linked to a child. */
+  roles: Record<string, Extract<UserRole, 'teacher' | 'admin'>>;
+  /** Optional claim copied to the teacher's subject. */
+  subjectClaim?: string;
+  /** Create accounts for unknown people whose groups map to a role (just-in-time provisioning). */
+  jit: boolean;
+  /**
+   * Link a first sign-in to the account whose sign-in email matches. Only for providers trusted
+   * to verify every address they assert; otherwise identities must already be linked.
+   */
+  linkByEmail?: boolean;
+}
+
+export interface SsoProvider {
+  provider: IdentityProvider;
+  mapping: ClaimMapping;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export function membershipsFromClaims(claims: IdTokenClaims, mapping: ClaimMapping): RoleMembership[] {
+  const raw = claims[mapping.roleClaim];
+  const groups = Array.isArray(raw) ? raw.map(String) : typeof raw === 'string' ? [raw] : [];
+  const roles = new Set(groups.map(group => mapping.roles[group]).filter(Boolean));
+  return [...roles].map(role => ({ role }));
+}
+
+// ------------------------------------------------------------
+// ID Token Verification
+// ------------------------------------------------------------
+
+const RS256 = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' } as const;
+
+// Allowance for clock differences between us and the provider
+const CLOCK_SKEW_S = 60;
+
+export async function verifyIdToken(
+  token: string,
+  { keys, issuer, audience, nonce, now = Date.now() }: {
+    keys: Jwk[];
+    issuer: string;
+    audience: string;
+    nonce: string;
+    now?: number;
+  }
+): Promise<IdTokenClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new OidcError('Malformed ID token');
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const decode = (part: string) => JSON.parse(new TextDecoder().decode(fromBase64Url(part)));
+
+  let header: { alg?: string; kid?: string };
+  let claims: IdTokenClaims;
+  try {
+    header = decode(headerPart);
+    claims = decode(payloadPart);
+  } catch {
+    throw new OidcError('Malformed ID token');
+  }
+
+  if (header.alg !== 'RS256') throw new OidcError(`Unsupported ID token algorithm ${header.alg}`);
+  const jwk = keys.find(k => k.kid === header.kid) ?? (keys.length === 1 ? keys[0] : undefined);
+  if (!jwk) throw new OidcError('No signing key matches the ID token');
+  const key = await crypto.subtle.importKey('jwk', { kty: jwk.kty, n: jwk.n, e: jwk.e }, RS256, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    RS256,
+    key,
+    fromBase64Url(signaturePart),
+    new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+  );
+  if (!valid) throw new OidcError('ID token signature is invalid');
+
+  const seconds = Math.floor(now / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== issuer) throw new OidcError('ID token was issued by another provider');
+  if (!audiences.includes(audience)) throw new OidcError('ID token was issued to another client');
+  if (claims.exp + CLOCK_SKEW_S <= seconds) throw new OidcError('ID token has expired');
+  if (claims.nonce !== nonce) throw new OidcError('ID token does not belong to this sign-in');
+  return claims;
+}
+
+// ------------------------------------------------------------
+// Standard Provider
+// ------------------------------------------------------------
+// Any OpenID Connect provider with discovery, such as Google
+// Workspace (https://accounts.google.com) or Microsoft Entra ID
+// (https://login.microsoftonline.com/<tenant>/v2.0).
+// ------------------------------------------------------------
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  /** Confidential clients only; PKCE alone is enough for public ones. */
+  clientSecret?: string;
+  scopes?: string[];
+}
+
+interface DiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export function createOidcProvider(
+  { id, name, issuer, clientId, clientSecret, scopes = ['openid', 'email', 'profile'] }: OidcProviderConfig,
+  { fetch: fetchFn = globalThis.fetch }: { fetch?: typeof fetch } = {}
+): IdentityProvider {
+  const getJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetchFn(url, init);
+    if (!response.ok) throw new OidcError(`${name} responded with ${response.status}`);
+    return (await response.json()) as T;
+  };
+
+  let discovery: Promise<DiscoveryDocument> | null = null;
+  const discover = () => {
+    discovery ??= getJson<DiscoveryDocument>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`)
+      .catch((error) => { discovery = null; throw error; });
+    return discovery;
+  };
+
+  return {
+    id,
+    name,
+    authorizationUrl: async ({ state, nonce, codeChallenge, redirectUri }) => {
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope: scopes.join(' '),
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256'
+      });
+      return `${(await discover()).authorization_endpoint}?${params}`;
+    },
+    exchangeCode: async ({ code, codeVerifier, redirectUri, nonce }) => {
+      const { token_endpoint, jwks_uri } = await discover();
+      const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: clientId,
+        code_verifier: codeVerifier
+      });
+      if (clientSecret) body.set('client_secret', clientSecret);
+      const tokens = await getJson<{ id_token?: string }>(token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body
+      });
+      if (!tokens.id_token) throw new OidcError(`${name} returned no ID token`);
+      const { keys } = await getJson<{ keys: Jwk[] }>(jwks_uri);
+      return verifyIdToken(tokens.id_token, { keys, issuer, audience: clientId, nonce });
+    }
+  };
+}
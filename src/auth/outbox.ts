@@ -0,0 +1,54 @@
+import type { KeyValueStorage } from './types';
+
+// ------------------------------------------------------------
+// Local Outbox
+// ------------------------------------------------------------
+// Stand-in for an email provider. Messages are appended to a
+// KeyValueStorage instead of being delivered, so password reset
+// links can be followed from the /outbox page or read in tests.
+// ------------------------------------------------------------
+
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  subject: string;
+  body: string;
+  /** Primary call to action, e.g. a password reset URL. */
+  link?: string;
+  sentAt: number; // Epoch ms
+}
+
+export type NewOutboxMessage = Omit<OutboxMessage, 'id' | 'sentAt'>;
+
+export interface OutboxReader {
+  /** Newest first, optionally only those sent to one address. */
+  list(filter?: { to?: string }): Promise<OutboxMessage[]>;
+}
+
+export interface Outbox extends OutboxReader {
+  send(message: NewOutboxMessage): Promise<OutboxMessage>;
+}
+
+export const OUTBOX_STORAGE_KEY = 'edubridge-outbox';
+
+// Old mail is dropped so the stand-in never grows without bound
+const MAX_MESSAGES = 50;
+
+export function createOutbox(
+  storage: KeyValueStorage,
+  { now = Date.now, key = OUTBOX_STORAGE_KEY }: { now?: () => number; key?: string } = {}
+): Outbox {
+  const read = (): OutboxMessage[] => JSON.parse(storage.getItem(key) ?? '[]');
+
+  return {
+    send: async (input) => {
+      const message: OutboxMessage = { ...input, id: crypto.randomUUID(), sentAt: now() };
+      storage.setItem(key, JSON.stringify([message, ...read()].slice(0, MAX_MESSAGES)));
+      return message;
+    },
+    list: async ({ to } = {}) => {
+      const address = to?.trim().toLowerCase();
+      return read().filter(m => !address || m.to.toLowerCase() === address);
+    }
+  };
+}
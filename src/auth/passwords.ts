@@ -0,0 +1,70 @@
+// ------------------------------------------------------------
+// Password Hashing
+// ------------------------------------------------------------
+// PBKDF2-SHA256 via Web Crypto, which exists in browsers and in
+// Node 20+, so the web app and the local backend share one
+// implementation. Iterations are stored with each hash so the
+// work factor can be raised without invalidating old accounts.
+// ------------------------------------------------------------
+
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;   // base64
+  hash: string;   // base64
+}
+
+const DEFAULT_ITERATIONS = 210_000;
+const KEY_BITS = 256;
+
+export const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+  return new Uint8Array(bits);
+}
+
+/** Compares without short-circuiting so timing does not leak the mismatch position. */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export async function hashPassword(password: string, iterations = DEFAULT_ITERATIONS): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, iterations);
+  return { algorithm: 'PBKDF2-SHA256', iterations, salt: toBase64(salt), hash: toBase64(hash) };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const candidate = await derive(password, fromBase64(stored.salt), stored.iterations);
+  return constantTimeEqual(candidate, fromBase64(stored.hash));
+}
+
+// ------------------------------------------------------------
+// Strength Rules
+// ------------------------------------------------------------
+// Applied whenever a password is chosen (change or reset), not
+// at login, so existing accounts keep working until they change.
+// ------------------------------------------------------------
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const COMMON_PASSWORDS = new Set(['password', 'password1', '12345678', '123456789', 'qwerty123', 'letmein1', 'welcome1', 'iloveyou1', 'edubridge1']);
+
+/** Human-readable reasons the password is too weak; empty when it is acceptable. */
+export function passwordProblems(password: string, { email }: { email?: string } = {}): string[] {
+  const problems: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) problems.push(`Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+  if (!/[a-z]/i.test(password) || !/\d/.test(password)) problems.push('Mix letters and numbers.');
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) problems.push('Avoid commonly used passwords.');
+  const localPart = email?.split('@')[0].toLowerCase();
+  if (localPart && localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    problems.push('Do not include your email address.');
+  }
+  return problems;
+}
@@ -0,0 +1,70 @@
+import type { User, UserRole } from './types';
+
+// ------------------------------------------------------------
+// Permissions
+// ------------------------------------------------------------
+// Capabilities are granted per role and resolved from the
+// session's active role, so a teacher who is also a parent only
+// holds teacher capabilities while in the teacher portal. Route
+// guards, <Can> and the repository guard all ask this module.
+// ------------------------------------------------------------
+
+export type Permission =
+  | 'classes:teach'
+  | 'papers:view'
+  | 'papers:upload'
+  | 'papers:annotate'
+  | 'papers:compare'
+  | 'feedback:view'
+  | 'feedback:regenerate'
+  | 'feedback:finalize'
+  | 'feedback:share'
+  | 'rubrics:manage'
+  | 'apikeys:manage'
+  | 'messages:send'
+  | 'school:reports'
+  | 'staff:manage'
+  | 'classes:manage'
+  | 'enrolments:manage'
+  | 'parents:invite'
+  | 'students:preview'
+  | 'policy:manage'
+  | 'audit:view';
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  teacher: [
+    'classes:teach',
+    'papers:view',
+    'papers:upload',
+    'papers:annotate',
+    'papers:compare',
+    'feedback:view',
+    'feedback:regenerate',
+    'feedback:finalize',
+    'feedback:share',
+    'rubrics:manage',
+    'apikeys:manage',
+    'messages:send',
+    'parents:invite',
+    'students:preview'
+  ],
+  parent: ['messages:send'],
+  student: [],
+  admin: [
+    'school:reports',
+    'staff:manage',
+    'classes:manage',
+    'enrolments:manage',
+    'parents:invite',
+    'policy:manage',
+    'audit:view'
+  ]
+};
+
+export function permissionsOf(user: User | null | undefined): ReadonlySet<Permission> {
+  return new Set(user ? ROLE_PERMISSIONS[user.role] : []);
+}
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
@@ -0,0 +1,37 @@
+import type { AuthSession, KeyValueStorage } from './types';
+
+// ------------------------------------------------------------
+// Session Persistence
+// ------------------------------------------------------------
+// The browser keeps only the tokens. The user is re-resolved
+// from the access token on reload, so an edited entry cannot
+// grant a different identity or role. Every open tab watches
+// this key, which is how sign-in and sign-out propagate.
+// ------------------------------------------------------------
+
+export type StoredSession = Omit<AuthSession, 'user'>;
+
+export const SESSION_STORAGE_KEY = 'edubridge-session';
+
+/** Pre-token builds stored the whole user object here; it is never trusted, only removed. */
+export const LEGACY_USER_KEY = 'edubridge-user';
+
+export function readStoredSession(storage: KeyValueStorage): StoredSession | null {
+  try {
+    const stored = JSON.parse(storage.getItem(SESSION_STORAGE_KEY) ?? 'null');
+    return stored && typeof stored.accessToken === 'string' && typeof stored.refreshToken === 'string'
+      ? stored
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(storage: KeyValueStorage, { user, ...tokens }: AuthSession): StoredSession {
+  storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(tokens));
+  return tokens;
+}
+
+export function clearStoredSession(storage: KeyValueStorage) {
+  storage.removeItem(SESSION_STORAGE_KEY);
+}
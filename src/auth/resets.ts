@@ -0,0 +1,65 @@
+import { toBase64 } from './passwords';
+import type { KeyValueStorage } from './types';
+
+// ------------------------------------------------------------
+// Password Reset Tokens
+// ------------------------------------------------------------
+// Single-use, expiring tokens for the forgot-password flow. Only
+// a SHA-256 digest is stored, so reading the store does not give
+// away a usable link. Issuing a new token for a user voids any
+// earlier ones.
+// ------------------------------------------------------------
+
+interface ResetRecord {
+  digest: string;
+  userId: string;
+  expiresAt: number; // Epoch ms
+}
+
+export interface ResetTokenStore {
+  issue(userId: string, ttlMs: number): Promise<string>;
+  /** The token's user without spending it, or undefined if it is unknown, used or expired. */
+  peek(token: string): Promise<string | undefined>;
+  /** Like peek, but the token cannot be used again. */
+  consume(token: string): Promise<string | undefined>;
+}
+
+export const RESETS_STORAGE_KEY = 'edubridge-password-resets';
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+async function digestOf(token: string): Promise<string> {
+  const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toBase64(new Uint8Array(bytes));
+}
+
+export function createResetTokenStore(
+  storage: KeyValueStorage,
+  { now = Date.now, key = RESETS_STORAGE_KEY }: { now?: () => number; key?: string } = {}
+): ResetTokenStore {
+  const read = (): ResetRecord[] => JSON.parse(storage.getItem(key) ?? '[]');
+  // Expired tokens are dropped on every write; used ones are removed when consumed
+  const write = (records: ResetRecord[]) =>
+    storage.setItem(key, JSON.stringify(records.filter(r => r.expiresAt > now())));
+
+  const find = async (token: string) => {
+    const digest = await digestOf(token);
+    return read().find(r => r.digest === digest && r.expiresAt > now());
+  };
+
+  return {
+    issue: async (userId, ttlMs) => {
+      const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+      const record: ResetRecord = { digest: await digestOf(token), userId, expiresAt: now() + ttlMs };
+      write([...read().filter(r => r.userId !== userId), record]);
+      return token;
+    },
+    peek: async (token) => (await find(token))?.userId,
+    consume: async (token) => {
+      const record = await find(token);
+      if (!record) return undefined;
+      write(read().filter(r => r.digest !== record.digest));
+      return record.userId;
+    }
+  };
+}
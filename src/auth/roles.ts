@@ -0,0 +1,52 @@
+import type { RoleMembership, User, UserRole } from './types';
+
+// ------------------------------------------------------------
+// Role Memberships
+// ------------------------------------------------------------
+// A person may hold several roles (a teacher who is also a
+// parent at the same school). The session picks one active role
+// and the portal-specific fields on User are derived from it
+// (`children` for parents, `studentId` for students).
+// ------------------------------------------------------------
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  teacher: 'Teacher',
+  parent: 'Parent',
+  student: 'Student',
+  admin: 'Admin'
+};
+
+export function membershipsOf(user: User): RoleMembership[] {
+  if (user.memberships?.length) return user.memberships;
+  // Accounts saved before memberships existed hold a single role plus its legacy fields
+  switch (user.role) {
+    case 'teacher':
+    case 'admin':
+      return [{ role: user.role }];
+    case 'parent':
+      return (user.children ?? []).map(studentId => ({ role: 'parent' as const, studentId }));
+    case 'student':
+      return [{ role: 'student', studentId: user.id }];
+  }
+}
+
+/** Distinct roles held, in membership order. */
+export function rolesOf(user: User): UserRole[] {
+  return [...new Set(membershipsOf(user).map(m => m.role))];
+}
+
+/** The user as seen from one of their roles; falls back to the default role when `role` is not held. */
+export function scopeUser(user: User, role?: UserRole | null): User {
+  const memberships = membershipsOf(user);
+  const roles = rolesOf(user);
+  const active = role && roles.includes(role) ? role : roles.includes(user.role) ? user.role : roles[0] ?? user.role;
+
+  const { children, studentId, ...profile } = user;
+  const scoped: User = { ...profile, role: active, memberships };
+  for (const membership of memberships) {
+    if (membership.role !== active) continue;
+    if (membership.role === 'parent') scoped.children = [...(scoped.children ?? []), membership.studentId];
+    if (membership.role === 'student') scoped.studentId ??= membership.studentId;
+  }
+  return scoped;
+}
@@ -0,0 +1,679 @@
+import { normalizeEmail, type AccountRecord, type AccountStore } from './accounts';
+import type { Repositories } from '../domain/repositories';
+import type { InvitationStore } from './invitations';
+import {
+  OidcError,
+  membershipsFromClaims,
+  randomUrlToken,
+  type AuthorizationRequest,
+  type CodeExchange,
+  type IdTokenClaims,
+  type SsoProvider
+} from './oidc';
+import type { Outbox } from './outbox';
+import { hashPassword, passwordProblems, verifyPassword } from './passwords';
+import { hasPermission } from './permissions';
+import type { ResetTokenStore } from './resets';
+import { ROLE_LABELS, membershipsOf, rolesOf, scopeUser } from './roles';
+import type { SessionRegistry } from './sessions';
+import { TokenError, type TokenSigner } from './tokens';
+import {
+  digestBackupCode,
+  generateBackupCodes,
+  generateTotpSecret,
+  matchTotp,
+  otpauthUri
+} from './totp';
+import {
+  AuthError,
+  type AuthSession,
+  type ParentInvitation,
+  type ParentSignUpInput,
+  type RoleMembership,
+  type SsoProviderSummary,
+  type StudentParentLinks,
+  type TotpEnrollment,
+  type TwoFactorChallenge,
+  type TwoFactorSession,
+  type TwoFactorStatus,
+  type User,
+  type UserRole
+} from './types';
+
+// ------------------------------------------------------------
+// Auth Service
+// ------------------------------------------------------------
+// Credential checks, lockout policy and session tokens. The role
+// always comes from the account, never from what the login form
+// asked for or from claims a client could have kept around.
+// ------------------------------------------------------------
+
+export interface AuthService {
+  /** Signs in, or stops at a challenge when the account uses (or must set up) 2FA. */
+  login(email: string, password: string): Promise<AuthSession | TwoFactorChallenge>;
+  /** Completes a challenged sign-in with an authenticator or backup code. */
+  verifyTwoFactor(challengeToken: string, code: string): Promise<TwoFactorSession>;
+  /** School sign-in providers to offer next to the password form. */
+  ssoProviders(): Promise<SsoProviderSummary[]>;
+  /** Where to send the browser to sign in with a provider; PKCE values come from the caller. */
+  beginSso(providerId: string, request: AuthorizationRequest): Promise<string>;
+  /**
+   * Redeems the provider's code. Signs in the linked account (linking one by sign-in email only
+   * where the provider is trusted to), or creates one from the provider's groups when just-in-time
+   * provisioning is on. Stops at a challenge like login unless the school trusts its own MFA.
+   */
+  completeSso(providerId: string, exchange: CodeExchange): Promise<AuthSession | TwoFactorChallenge>;
+  /** Issues a fresh access token while the session is still live. */
+  refresh(refreshToken: string): Promise<AuthSession>;
+  /** Resolves the user behind a valid access token. */
+  authenticate(accessToken: string): Promise<User>;
+  /** Makes another of the user's roles the active one for this session. */
+  switchRole(accessToken: string, role: UserRole): Promise<User>;
+  /** Creates a sign-in account; the caller must be an administrator. */
+  provisionAccount(accessToken: string, input: NewAccountInput): Promise<User>;
+  /** Deletes another account and ends its sessions; the caller must be an administrator. */
+  removeAccount(accessToken: string, userId: string): Promise<void>;
+  /** Requires the current password; other sessions of the user are signed out. */
+  changePassword(accessToken: string, currentPassword: string, newPassword: string): Promise<void>;
+  /** Mails a single-use reset link; resolves the same whether or not the email is known. */
+  requestPasswordReset(email: string): Promise<void>;
+  /** Sets a new password from a reset link and signs out every session of the user. */
+  resetPassword(token: string, newPassword: string): Promise<void>;
+  twoFactorStatus(accessToken: string): Promise<TwoFactorStatus>;
+  /** Generates a secret to scan; 2FA is only on once a code from it is confirmed. */
+  startTwoFactorEnrollment(accessToken: string): Promise<TotpEnrollment>;
+  /** Turns 2FA on and returns the backup codes, which are never shown again. */
+  confirmTwoFactorEnrollment(accessToken: string, code: string): Promise<string[]>;
+  /** Replaces every backup code; needs a current authenticator code. */
+  regenerateBackupCodes(accessToken: string, code: string): Promise<string[]>;
+  /** Needs the password, and is refused while the school requires 2FA for the account. */
+  disableTwoFactor(accessToken: string, password: string): Promise<void>;
+  /** Linked parents and open invitations of a student the caller teaches or administers. */
+  parentLinks(accessToken: string, studentId: string): Promise<StudentParentLinks>;
+  inviteParent(accessToken: string, studentId: string): Promise<ParentInvitation>;
+  revokeInvitation(accessToken: string, studentId: string, invitationId: string): Promise<void>;
+  /** Removes the parent's access to the student; the parent account itself stays. */
+  unlinkParent(accessToken: string, studentId: string, parentUserId: string): Promise<void>;
+  /** Creates a parent account linked to the invitation's student and signs it in. */
+  signUpParent(input: ParentSignUpInput): Promise<AuthSession>;
+  /** Links an existing account to the invitation's student and moves the session to the parent portal. */
+  acceptInvitation(accessToken: string, code: string): Promise<User>;
+  logout(refreshToken: string): Promise<void>;
+}
+
+export interface NewAccountInput {
+  email: string;
+  password: string;
+  user: Omit<User, 'id'>;
+}
+
+export interface LockoutPolicy {
+  maxAttempts: number;
+  lockoutMs: number;
+}
+
+export interface SessionPolicy {
+  accessTtlMs: number;
+  sessionTtlMs: number;
+}
+
+export const DEFAULT_LOCKOUT: LockoutPolicy = { maxAttempts: 5, lockoutMs: 15 * 60 * 1000 };
+
+export const DEFAULT_SESSION: SessionPolicy = { accessTtlMs: 15 * 60 * 1000, sessionTtlMs: 12 * 60 * 60 * 1000 };
+
+export interface ResetPolicy {
+  tokenTtlMs: number;
+  /** Where the emailed link points; the web app serves /reset-password. */
+  link: (token: string) => string;
+}
+
+/** Time allowed between the password and the second factor. */
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/** How long a parent invitation code stays redeemable. */
+export const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RESET: ResetPolicy = {
+  tokenTtlMs: 30 * 60 * 1000,
+  link: (token) => `/reset-password?token=${encodeURIComponent(token)}`
+};
+
+export interface AuthStores {
+  accounts: AccountStore;
+  sessions: SessionRegistry;
+  signer: TokenSigner;
+  resets: ResetTokenStore;
+  outbox: Outbox;
+  invitations: InvitationStore;
+}
+
+/** Puts teachers created on their first school sign-in on the roster, as an administrator would. */
+export const addToTeacherRoster = (repos: Pick<Repositories, 'teachers'>) => async (user: User) => {
+  if (rolesOf(user).includes('teacher')) {
+    await repos.teachers.create({ id: user.id, name: user.name, email: user.email, subject: user.subject ?? '' });
+  }
+};
+
+/** Administrators manage every student's parent links; teachers those of students in their classes. */
+export const studentAccessRule = (repos: Pick<Repositories, 'students' | 'classes'>) => async (user: User, studentId: string) => {
+  const student = await repos.students.get(studentId);
+  if (!student) return false;
+  if (user.role === 'admin') return true;
+  return (await repos.classes.get(student.classId))?.teacherId === user.id;
+};
+
+/** Directory status as an isActive option: teachers an administrator deactivated cannot sign in. */
+export const activeStaffRule = (repos: Pick<Repositories, 'teachers'>) => async (user: User) =>
+  !rolesOf(user).includes('teacher') || (await repos.teachers.get(user.id))?.active !== false;
+
+/** School policy as a trustSsoTwoFactor option: whether the school's sign-in stands in for the EduBridge second factor. */
+export const schoolMfaTrustRule = (repos: Pick<Repositories, 'school'>) => async () =>
+  (await repos.school.getPolicy()).trustSsoTwoFactor;
+
+/** School policy as a requireTwoFactor option: teachers must use 2FA when the policy says so. */
+export const teacherTwoFactorRule = (repos: Pick<Repositories, 'school'>) => async (user: User) =>
+  rolesOf(user).includes('teacher') && (await repos.school.getPolicy()).requireTeacherTwoFactor;
+
+const invalidCredentials = () => new AuthError('invalid_credentials', 'Incorrect email or password.');
+const sessionExpired = () => new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+const invalidCode = () => new AuthError('two_factor_invalid', 'That code is not valid. Please try again.');
+const challengeExpired = () => new AuthError('session_expired', 'Your sign-in attempt has expired. Please sign in again.');
+const accountDisabled = () => new AuthError('account_disabled', 'This account has been deactivated. Please contact your school administrator.');
+const invitationInvalid = () => new AuthError('invitation_invalid', 'This invitation code is invalid or has expired. Please ask your child\'s teacher for a new one.');
+
+function assertStrong(password: string, email: string) {
+  const problems = passwordProblems(password, { email });
+  if (problems.length > 0) throw new AuthError('weak_password', problems.join(' '));
+}
+
+export function createLocalAuthService(
+  { accounts, sessions, signer, resets, outbox, invitations }: AuthStores,
+  {
+    lockout = DEFAULT_LOCKOUT,
+    session: policy = DEFAULT_SESSION,
+    reset: resetPolicy = DEFAULT_RESET,
+    requireTwoFactor = async () => false,
+    trustSsoTwoFactor = async () => false,
+    sso = [],
+    onSsoAccountCreated = async () => {},
+    canManageStudent = async () => true,
+    isActive = async () => true,
+    now = Date.now
+  }: {
+    lockout?: LockoutPolicy;
+    session?: SessionPolicy;
+    reset?: ResetPolicy;
+    /** Whether school policy makes 2FA mandatory for this account. */
+    requireTwoFactor?: (user: User) => Promise<boolean>;
+    /** Whether single sign-on skips the EduBridge second factor, relying on the school's MFA. */
+    trustSsoTwoFactor?: (user: User) => Promise<boolean>;
+    sso?: SsoProvider[];
+    onSsoAccountCreated?: (user: User) => Promise<void>;
+    /** Whether the caller may manage this student's parent links, on top of the parents:invite permission. */
+    canManageStudent?: (user: User, studentId: string) => Promise<boolean>;
+    /** Whether the account may sign in at all; sessions of accounts that may not are ended. */
+    isActive?: (user: User) => Promise<boolean>;
+    now?: () => number;
+  } = {}
+): AuthService {
+  // Hash compared against when the email is unknown, so both paths take equally long
+  const decoy = hashPassword('decoy-password');
+
+  const issue = async (user: User, sessionId: string, sessionExpiresAt: number): Promise<AuthSession> => {
+    const accessTtlMs = Math.min(policy.accessTtlMs, sessionExpiresAt - now());
+    return {
+      user,
+      accessToken: await signer.sign({ sub: user.id, sid: sessionId, typ: 'access' }, accessTtlMs),
+      refreshToken: await signer.sign({ sub: user.id, sid: sessionId, typ: 'refresh' }, sessionExpiresAt - now()),
+      accessExpiresAt: now() + accessTtlMs,
+      refreshExpiresAt: sessionExpiresAt
+    };
+  };
+
+  const assertNotLocked = (account: AccountRecord) => {
+    if (account.lockedUntil && account.lockedUntil > now()) {
+      throw new AuthError(
+        'account_locked',
+        'Too many failed attempts. Please try again later.',
+        account.lockedUntil - now()
+      );
+    }
+  };
+
+  // Wrong passwords and wrong second-factor codes share one lockout counter
+  const recordFailure = async (account: AccountRecord, error: AuthError) => {
+    const failedAttempts = account.failedAttempts + 1;
+    const locked = failedAttempts >= lockout.maxAttempts;
+    await accounts.save({
+      ...account,
+      failedAttempts: locked ? 0 : failedAttempts,
+      lockedUntil: locked ? now() + lockout.lockoutMs : null
+    });
+    if (locked) {
+      throw new AuthError('account_locked', 'Too many failed attempts. Please try again later.', lockout.lockoutMs);
+    }
+    throw error;
+  };
+
+  const assertActive = async (account: AccountRecord) => {
+    if (await isActive(account.user)) return;
+    sessions.revokeAllForUser(account.user.id);
+    throw accountDisabled();
+  };
+
+  const startSession = async (account: AccountRecord) => {
+    await assertActive(account);
+    const session = sessions.create(account.user.id, policy.sessionTtlMs);
+    return issue(scopeUser(account.user), session.id, session.expiresAt);
+  };
+
+  const ssoProvider = (providerId: string) => {
+    const match = sso.find(({ provider }) => provider.id === providerId);
+    if (!match) throw new AuthError('sso_failed', 'This sign-in option is not available.');
+    return match;
+  };
+
+  const resolveStudentManager = async (accessToken: string, studentId: string) => {
+    const { user } = await resolve(accessToken, 'access');
+    if (!hasPermission(user, 'parents:invite') || !(await canManageStudent(user, studentId))) {
+      throw new AuthError('forbidden', 'You cannot manage parent access for this student.');
+    }
+    return user;
+  };
+
+  const enrollmentFor = (account: AccountRecord, secret: string): TotpEnrollment => ({
+    secret,
+    otpauthUri: otpauthUri(secret, { issuer: 'EduBridge', account: account.email })
+  });
+
+  // A challenge when the account uses 2FA or policy requires it; null when the sign-in is complete
+  const secondFactor = async (account: AccountRecord): Promise<TwoFactorChallenge | null> => {
+    const enabled = !!account.twoFactor?.enabledAt;
+    if (!enabled && !(await requireTwoFactor(account.user))) return null;
+
+    // Required but not set up: enrol as part of this sign-in, keeping a secret already handed out
+    let enrollment: TotpEnrollment | undefined;
+    if (!enabled) {
+      const secret = account.twoFactor?.secret ?? generateTotpSecret();
+      await accounts.save({ ...account, twoFactor: { secret, enabledAt: null, lastStep: -1, backupCodes: [] } });
+      enrollment = enrollmentFor(account, secret);
+    }
+    return {
+      challengeToken: await signer.sign({ sub: account.user.id, sid: crypto.randomUUID(), typ: 'challenge' }, CHALLENGE_TTL_MS),
+      challengeExpiresAt: now() + CHALLENGE_TTL_MS,
+      enrollment
+    };
+  };
+
+  const withBackupCodes = async (account: AccountRecord) => {
+    const codes = generateBackupCodes();
+    const digests = await Promise.all(codes.map(digestBackupCode));
+    return { codes, account: { ...account, twoFactor: { ...account.twoFactor!, backupCodes: digests } } };
+  };
+
+  // Verifies the token and that its session is still live; any failure reads as an expired session
+  const resolve = async (token: string, type: 'access' | 'refresh') => {
+    try {
+      const claims = await signer.verify(token, type);
+      const session = sessions.get(claims.sid);
+      if (!session || session.revokedAt !== null || session.expiresAt <= now()) throw sessionExpired();
+      const account = await accounts.findByUserId(claims.sub);
+      if (!account) throw sessionExpired();
+      await assertActive(account);
+      return { session, user: scopeUser(account.user, session.activeRole) };
+    } catch (error) {
+      if (error instanceof TokenError) throw sessionExpired();
+      throw error;
+    }
+  };
+
+  return {
+    login: async (email, password) => {
+      const account = await accounts.findByEmail(email);
+      if (!account) {
+        await verifyPassword(password, await decoy);
+        throw invalidCredentials();
+      }
+
+      assertNotLocked(account);
+      if (!(await verifyPassword(password, account.password))) return recordFailure(account, invalidCredentials());
+      await assertActive(account);
+
+      const challenge = await secondFactor(account);
+      if (challenge) return challenge;
+      if (account.failedAttempts > 0 || account.lockedUntil) {
+        await accounts.save({ ...account, failedAttempts: 0, lockedUntil: null });
+      }
+      return startSession(account);
+    },
+
+    verifyTwoFactor: async (challengeToken, code) => {
+      let userId: string;
+      try {
+        userId = (await signer.verify(challengeToken, 'challenge')).sub;
+      } catch (error) {
+        if (error instanceof TokenError) throw challengeExpired();
+        throw error;
+      }
+      const account = await accounts.findByUserId(userId);
+      const twoFactor = account?.twoFactor;
+      if (!account || !twoFactor) throw challengeExpired();
+      assertNotLocked(account);
+
+      const enrolling = twoFactor.enabledAt === null;
+      const step = await matchTotp(twoFactor.secret, code, { now: now(), after: twoFactor.lastStep });
+      let updated: AccountRecord = { ...account, failedAttempts: 0, lockedUntil: null };
+      let backupCodes: string[] | undefined;
+
+      if (step !== null) {
+        updated.twoFactor = { ...twoFactor, lastStep: step, enabledAt: twoFactor.enabledAt ?? now() };
+        if (enrolling) {
+          const fresh = await withBackupCodes(updated);
+          updated = fresh.account;
+          backupCodes = fresh.codes;
+        }
+      } else {
+        // Backup codes only exist once enrolment has finished
+        const digest = await digestBackupCode(code);
+        if (enrolling || !twoFactor.backupCodes.includes(digest)) return recordFailure(account, invalidCode());
+        updated.twoFactor = { ...twoFactor, backupCodes: twoFactor.backupCodes.filter(d => d !== digest) };
+      }
+
+      await accounts.save(updated);
+      return { ...(await startSession(updated)), backupCodes };
+    },
+
+    ssoProviders: async () => sso.map(({ provider }) => ({ id: provider.id, name: provider.name })),
+
+    beginSso: async (providerId, request) => ssoProvider(providerId).provider.authorizationUrl(request),
+
+    completeSso: async (providerId, exchange) => {
+      const { provider, mapping } = ssoProvider(providerId);
+      let claims: IdTokenClaims;
+      try {
+        claims = await provider.exchangeCode(exchange);
+      } catch (error) {
+        if (!(error instanceof OidcError)) console.error(error);
+        throw new AuthError('sso_failed', `Sign-in with ${provider.name} failed. Please try again.`);
+      }
+      if (!claims.email || claims.email_verified === false) {
+        throw new AuthError('sso_failed', `${provider.name} did not share a verified email address.`);
+      }
+
+      // The school's sign-in replaces the password, not the second factor, unless the policy trusts its MFA
+      const signIn = async (account: AccountRecord) => {
+        await assertActive(account);
+        if (!(await trustSsoTwoFactor(account.user))) {
+          const challenge = await secondFactor(account);
+          if (challenge) return challenge;
+        }
+        return startSession(account);
+      };
+
+      const identity = { provider: provider.id, subject: claims.sub };
+      let account = await accounts.findByIdentity(provider.id, claims.sub);
+      if (!account && mapping.linkByEmail) {
+        const byEmail = await accounts.findByEmail(claims.email);
+        if (byEmail) {
+          account = { ...byEmail, identities: [...(byEmail.identities ?? []), identity] };
+          await accounts.save(account);
+        }
+      }
+      if (account) return signIn(account);
+
+      // An email match alone never hands over an existing account; its owner signs in with their password
+      if ((await accounts.findByEmail(claims.email)) || (await accounts.findByProfileEmail(claims.email))) {
+        throw new AuthError('sso_no_account', 'This school account is not linked to your EduBridge account. Please sign in with your email and password.');
+      }
+
+      const memberships: RoleMembership[] = membershipsFromClaims(claims, mapping);
+      if (!mapping.jit || memberships.length === 0) {
+        throw new AuthError('sso_no_account', 'There is no EduBridge account for this school account. Please ask your school administrator.');
+      }
+      const subject = mapping.subjectClaim ? claims[mapping.subjectClaim] : undefined;
+      const user: User = {
+        id: `${memberships[0].role}-${crypto.randomUUID().slice(0, 8)}`,
+        name: claims.name ?? claims.email,
+        role: memberships[0].role,
+        memberships,
+        email: claims.email,
+        ...(typeof subject === 'string' ? { subject } : {})
+      };
+      // No usable password: the account signs in through its school identity until one is reset
+      account = {
+        email: normalizeEmail(claims.email),
+        password: await hashPassword(randomUrlToken()),
+        user,
+        failedAttempts: 0,
+        lockedUntil: null,
+        identities: [identity]
+      };
+      await accounts.save(account);
+      await onSsoAccountCreated(user);
+      return signIn(account);
+    },
+
+    refresh: async (refreshToken) => {
+      const { session, user } = await resolve(refreshToken, 'refresh');
+      return issue(user, session.id, session.expiresAt);
+    },
+
+    authenticate: async (accessToken) => (await resolve(accessToken, 'access')).user,
+
+    switchRole: async (accessToken, role) => {
+      const { session, user } = await resolve(accessToken, 'access');
+      if (!rolesOf(user).includes(role)) {
+        throw new AuthError('role_not_held', `This account has no ${ROLE_LABELS[role] ?? role} access.`);
+      }
+      sessions.setActiveRole(session.id, role);
+      return scopeUser(user, role);
+    },
+
+    provisionAccount: async (accessToken, { email, password, user }) => {
+      const { user: caller } = await resolve(accessToken, 'access');
+      if (caller.role !== 'admin') throw new AuthError('forbidden', 'Only administrators can create accounts.');
+      if (await accounts.findByEmail(email)) throw new AuthError('email_taken', 'An account with this email already exists.');
+      assertStrong(password, email);
+
+      const created: User = { ...user, id: `${user.role}-${crypto.randomUUID().slice(0, 8)}` };
+      await accounts.save({
+        email: normalizeEmail(email),
+        password: await hashPassword(password),
+        user: created,
+        failedAttempts: 0,
+        lockedUntil: null
+      });
+      return scopeUser(created);
+    },
+
+    removeAccount: async (accessToken, userId) => {
+      const { user: caller } = await resolve(accessToken, 'access');
+      if (caller.role !== 'admin') throw new AuthError('forbidden', 'Only administrators can remove accounts.');
+      if (userId === caller.id) throw new AuthError('forbidden', 'You cannot remove your own account.');
+      await accounts.remove(userId);
+      sessions.revokeAllForUser(userId);
+    },
+
+    changePassword: async (accessToken, currentPassword, newPassword) => {
+      const { session, user } = await resolve(accessToken, 'access');
+      const account = (await accounts.findByUserId(user.id))!;
+      if (!(await verifyPassword(currentPassword, account.password))) {
+        throw new AuthError('invalid_credentials', 'Your current password is incorrect.');
+      }
+      assertStrong(newPassword, account.email);
+      await accounts.save({ ...account, password: await hashPassword(newPassword) });
+      sessions.revokeAllForUser(user.id, session.id);
+    },
+
+    requestPasswordReset: async (email) => {
+      const account = await accounts.findByEmail(email);
+      if (!account) return;
+      const token = await resets.issue(account.user.id, resetPolicy.tokenTtlMs);
+      const minutes = Math.round(resetPolicy.tokenTtlMs / 60000);
+      await outbox.send({
+        to: account.email,
+        subject: 'Reset your EduBridge password',
+        body: `Hi ${account.user.name}, use the link below to choose a new password. It works once and expires in ${minutes} minutes. If you did not ask for this, you can ignore this email.`,
+        link: resetPolicy.link(token)
+      });
+    },
+
+    resetPassword: async (token, newPassword) => {
+      const invalid = () => new AuthError('reset_token_invalid', 'This reset link is invalid or has expired. Please request a new one.');
+      const userId = await resets.peek(token);
+      const account = userId && (await accounts.findByUserId(userId));
+      if (!account) throw invalid();
+      // A rejected password leaves the link usable for another try
+      assertStrong(newPassword, account.email);
+      if (!(await resets.consume(token))) throw invalid();
+      // A successful reset also clears any lockout from the failed attempts that led here
+      await accounts.save({ ...account, password: await hashPassword(newPassword), failedAttempts: 0, lockedUntil: null });
+      sessions.revokeAllForUser(account.user.id);
+    },
+
+    twoFactorStatus: async (accessToken) => {
+      const { user } = await resolve(accessToken, 'access');
+      const account = (await accounts.findByUserId(user.id))!;
+      return {
+        enabled: !!account.twoFactor?.enabledAt,
+        required: await requireTwoFactor(account.user),
+        backupCodesRemaining: account.twoFactor?.enabledAt ? account.twoFactor.backupCodes.length : 0
+      };
+    },
+
+    startTwoFactorEnrollment: async (accessToken) => {
+      const { user } = await resolve(accessToken, 'access');
+      const account = (await accounts.findByUserId(user.id))!;
+      if (account.twoFactor?.enabledAt) {
+        throw new AuthError('forbidden', 'Two-factor authentication is already on.');
+      }
+      const secret = generateTotpSecret();
+      await accounts.save({ ...account, twoFactor: { secret, enabledAt: null, lastStep: -1, backupCodes: [] } });
+      return enrollmentFor(account, secret);
+    },
+
+    confirmTwoFactorEnrollment: async (accessToken, code) => {
+      const { user } = await resolve(accessToken, 'access');
+      const account = (await accounts.findByUserId(user.id))!;
+      const twoFactor = account.twoFactor;
+      if (!twoFactor || twoFactor.enabledAt) throw new AuthError('forbidden', 'Start setting up two-factor authentication first.');
+      const step = await matchTotp(twoFactor.secret, code, { now: now() });
+      if (step === null) throw invalidCode();
+      const { codes, account: updated } = await withBackupCodes({
+        ...account,
+        twoFactor: { ...twoFactor, enabledAt: now(), lastStep: step }
+      });
+      await accounts.save(updated);
+      return codes;
+    },
+
+    regenerateBackupCodes: async (accessToken, code) => {
+      const { user } = await resolve(accessToken, 'access');
+      const account = (await accounts.findByUserId(user.id))!;
+      const twoFactor = account.twoFactor;
+      if (!twoFactor?.enabledAt) throw new AuthError('forbidden', 'Two-factor authentication is not on.');
+      const step = await matchTotp(twoFactor.secret, code, { now: now(), after: twoFactor.lastStep });
+      if (step === null) throw invalidCode();
+      const { codes, account: updated } = await withBackupCodes({ ...account, twoFactor: { ...twoFactor, lastStep: step } });
+      await accounts.save(updated);
+      return codes;
+    },
+
+    disableTwoFactor: async (accessToken, password) => {
+      const { user } = await resolve(accessToken, 'access');
+      const account = (await accounts.findByUserId(user.id))!;
+      if (!(await verifyPassword(password, account.password))) {
+        throw new AuthError('invalid_credentials', 'Your password is incorrect.');
+      }
+      if (await requireTwoFactor(account.user)) {
+        throw new AuthError('forbidden', 'Your school requires two-factor authentication for this account.');
+      }
+      const { twoFactor: _twoFactor, ...rest } = account;
+      await accounts.save(rest);
+    },
+
+    parentLinks: async (accessToken, studentId) => {
+      await resolveStudentManager(accessToken, studentId);
+      const parents = await accounts.findParentsOf(studentId);
+      return {
+        parents: parents.map(({ user }) => ({ userId: user.id, name: user.name, email: user.email })),
+        invitations: await invitations.listForStudent(studentId)
+      };
+    },
+
+    inviteParent: async (accessToken, studentId) => {
+      const user = await resolveStudentManager(accessToken, studentId);
+      return invitations.issue({ studentId, createdBy: user.id, ttlMs: INVITATION_TTL_MS });
+    },
+
+    revokeInvitation: async (accessToken, studentId, invitationId) => {
+      await resolveStudentManager(accessToken, studentId);
+      if ((await invitations.listForStudent(studentId)).some(i => i.id === invitationId)) {
+        await invitations.remove(invitationId);
+      }
+    },
+
+    unlinkParent: async (accessToken, studentId, parentUserId) => {
+      await resolveStudentManager(accessToken, studentId);
+      const account = await accounts.findByUserId(parentUserId);
+      if (!account) return;
+      const memberships = membershipsOf(account.user).filter(m => !(m.role === 'parent' && m.studentId === studentId));
+      await accounts.save({ ...account, user: { ...account.user, memberships } });
+    },
+
+    signUpParent: async ({ code, name, email, password }) => {
+      // Checked before anything else so a bad code reveals nothing about which emails exist
+      const invitation = await invitations.find(code);
+      if (!invitation) throw invitationInvalid();
+      if (await accounts.findByEmail(email)) {
+        throw new AuthError('email_taken', 'An account with this email already exists. Sign in and redeem the code from there.');
+      }
+      assertStrong(password, email);
+      await invitations.remove(invitation.id);
+
+      const user: User = {
+        id: `parent-${crypto.randomUUID().slice(0, 8)}`,
+        name: name.trim(),
+        role: 'parent',
+        memberships: [{ role: 'parent', studentId: invitation.studentId }],
+        email: email.trim()
+      };
+      const account: AccountRecord = {
+        email: normalizeEmail(email),
+        password: await hashPassword(password),
+        user,
+        failedAttempts: 0,
+        lockedUntil: null
+      };
+      await accounts.save(account);
+      return startSession(account);
+    },
+
+    acceptInvitation: async (accessToken, code) => {
+      const { session, user } = await resolve(accessToken, 'access');
+      const invitation = await invitations.find(code);
+      if (!invitation) throw invitationInvalid();
+      const account = (await accounts.findByUserId(user.id))!;
+      const memberships = membershipsOf(account.user);
+      if (!memberships.some(m => m.role === 'parent' && m.studentId === invitation.studentId)) {
+        await accounts.save({
+          ...account,
+          user: { ...account.user, memberships: [...memberships, { role: 'parent', studentId: invitation.studentId }] }
+        });
+      }
+      await invitations.remove(invitation.id);
+      sessions.setActiveRole(session.id, 'parent');
+      return scopeUser((await accounts.findByUserId(user.id))!.user, 'parent');
+    },
+
+    logout: async (refreshToken) => {
+      try {
+        const claims = await signer.verify(refreshToken, 'refresh');
+        sessions.revoke(claims.sid);
+      } catch (error) {
+        // Logging out with a dead token is already the desired end state
+        if (!(error instanceof TokenError)) throw error;
+      }
+    }
+  };
+}
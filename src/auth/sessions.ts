@@ -0,0 +1,60 @@
+import type { KeyValueStorage, UserRole } from './types';
+
+// ------------------------------------------------------------
+// Session Registry
+// ------------------------------------------------------------
+// Server-side record of issued sessions. A refresh token is only
+// honoured while its session is unexpired and not revoked, which
+// is what makes logout stick even though tokens are stateless.
+// ------------------------------------------------------------
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  createdAt: number;    // Epoch ms
+  expiresAt: number;    // Epoch ms; refresh tokens die with the session
+  revokedAt: number | null;
+  /** Portal chosen with the role switcher; null means the account's default. */
+  activeRole: UserRole | null;
+}
+
+export interface SessionRegistry {
+  create(userId: string, ttlMs: number): SessionRecord;
+  get(id: string): SessionRecord | undefined;
+  revoke(id: string): void;
+  /** Ends every session of the user, optionally keeping the one making the change. */
+  revokeAllForUser(userId: string, exceptId?: string): void;
+  setActiveRole(id: string, role: UserRole): void;
+}
+
+export const SESSIONS_STORAGE_KEY = 'edubridge-sessions';
+
+export function createSessionRegistry(
+  storage: KeyValueStorage,
+  { now = Date.now, key = SESSIONS_STORAGE_KEY }: { now?: () => number; key?: string } = {}
+): SessionRegistry {
+  const read = (): SessionRecord[] => JSON.parse(storage.getItem(key) ?? '[]');
+  // Expired sessions are pruned on every write so the list stays small
+  const write = (sessions: SessionRecord[]) =>
+    storage.setItem(key, JSON.stringify(sessions.filter(s => s.expiresAt > now())));
+
+  return {
+    create: (userId, ttlMs) => {
+      const session: SessionRecord = {
+        id: crypto.randomUUID(),
+        userId,
+        createdAt: now(),
+        expiresAt: now() + ttlMs,
+        revokedAt: null,
+        activeRole: null
+      };
+      write([...read(), session]);
+      return session;
+    },
+    get: (id) => read().find(s => s.id === id),
+    revoke: (id) => write(read().map(s => (s.id === id ? { ...s, revokedAt: s.revokedAt ?? now() } : s))),
+    revokeAllForUser: (userId, exceptId) => write(read().map(s =>
+      (s.userId === userId && s.id !== exceptId ? { ...s, revokedAt: s.revokedAt ?? now() } : s))),
+    setActiveRole: (id, role) => write(read().map(s => (s.id === id ? { ...s, activeRole: role } : s)))
+  };
+}
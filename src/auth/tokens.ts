@@ -0,0 +1,94 @@
+import { constantTimeEqual, fromBase64, toBase64 } from './passwords';
+import type { KeyValueStorage } from './types';
+
+// ------------------------------------------------------------
+// Signed Tokens
+// ------------------------------------------------------------
+// Compact HS256 JWTs signed with Web Crypto HMAC. Access tokens
+// are short-lived and carry the user; refresh tokens only name
+// the session they belong to, so they can be revoked centrally.
+// ------------------------------------------------------------
+
+export type TokenType = 'access' | 'refresh' | 'challenge';
+
+export interface TokenClaims {
+  sub: string;        // User id
+  sid: string;        // Session id; a one-off nonce on challenge tokens
+  typ: TokenType;
+  iat: number;        // Epoch seconds
+  exp: number;        // Epoch seconds
+  [claim: string]: unknown;
+}
+
+export class TokenError extends Error {
+  constructor(public reason: 'malformed' | 'bad_signature' | 'expired' | 'wrong_type') {
+    super(`Token rejected: ${reason}`);
+    this.name = 'TokenError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+const encodeJson = (value: unknown) => toBase64Url(encoder.encode(JSON.stringify(value)));
+const decodeJson = (value: string) => JSON.parse(new TextDecoder().decode(fromBase64Url(value)));
+
+const TOKEN_SECRET_KEY = 'edubridge-token-secret';
+
+/** Reads the signing secret from storage, generating one on first use. */
+export function loadOrCreateSecret(storage: KeyValueStorage): string {
+  const existing = storage.getItem(TOKEN_SECRET_KEY);
+  if (existing) return existing;
+  const secret = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+  storage.setItem(TOKEN_SECRET_KEY, secret);
+  return secret;
+}
+
+export interface TokenSigner {
+  sign(claims: Omit<TokenClaims, 'iat' | 'exp'>, ttlMs: number): Promise<string>;
+  verify(token: string, type: TokenType): Promise<TokenClaims>;
+}
+
+export function createTokenSigner(secret: string, now: () => number = Date.now): TokenSigner {
+  const key = crypto.subtle.importKey(
+    'raw',
+    fromBase64(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = async (input: string) =>
+    new Uint8Array(await crypto.subtle.sign('HMAC', await key, encoder.encode(input)));
+
+  return {
+    sign: async (claims, ttlMs) => {
+      const iat = Math.floor(now() / 1000);
+      const body = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson({ ...claims, iat, exp: iat + Math.floor(ttlMs / 1000) })}`;
+      return `${body}.${toBase64Url(await signature(body))}`;
+    },
+    verify: async (token, type) => {
+      const parts = token.split('.');
+      if (parts.length !== 3) throw new TokenError('malformed');
+      const [header, payload, sig] = parts;
+
+      let provided: Uint8Array;
+      let claims: TokenClaims;
+      try {
+        provided = fromBase64Url(sig);
+        claims = decodeJson(payload);
+      } catch {
+        throw new TokenError('malformed');
+      }
+
+      if (!constantTimeEqual(provided, await signature(`${header}.${payload}`))) throw new TokenError('bad_signature');
+      if (claims.typ !== type) throw new TokenError('wrong_type');
+      if (claims.exp * 1000 <= now()) throw new TokenError('expired');
+      return claims;
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import { constantTimeEqual, toBase64 } from './passwords';
+
+// ------------------------------------------------------------
+// Time-based One-Time Passwords
+// ------------------------------------------------------------
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30-second steps) as used
+// by Google Authenticator, 1Password and friends, plus one-time
+// backup codes for when the phone is not at hand. Built on Web
+// Crypto so the browser and the local backend share it.
+// ------------------------------------------------------------
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_S = 30;
+export const BACKUP_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function fromBase32(encoded: string): Uint8Array {
+  const clean = encoded.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/** 160 random bits, the size RFC 4226 recommends for HMAC-SHA1. */
+export const generateTotpSecret = () => toBase32(crypto.getRandomValues(new Uint8Array(20)));
+
+export const totpStep = (time: number) => Math.floor(time / 1000 / TOTP_PERIOD_S);
+
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = mac[mac.length - 1] & 15;
+  const binary = ((mac[offset] & 127) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step the code belongs to, or null if it matches none.
+ * One step either side is accepted for clock drift, and steps at or
+ * before `after` are refused so a code cannot be replayed.
+ */
+export async function matchTotp(
+  secret: string,
+  code: string,
+  { now = Date.now(), window = 1, after = -1 }: { now?: number; window?: number; after?: number } = {}
+): Promise<number | null> {
+  const candidate = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(candidate)) return null;
+  const current = totpStep(now);
+  for (let step = current - window; step <= current + window; step++) {
+    if (step <= after) continue;
+    const expected = await totpCode(secret, step);
+    if (constantTimeEqual(new TextEncoder().encode(expected), new TextEncoder().encode(candidate))) return step;
+  }
+  return null;
+}
+
+/** Key URI understood by authenticator apps; rendered as the enrolment QR code. */
+export function otpauthUri(secret: string, { issuer, account }: { issuer: string; account: string }): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_S)
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// ------------------------------------------------------------
+// Backup Codes
+// ------------------------------------------------------------
+// Shown once, stored only as SHA-256 digests, and each one works
+// a single time. Dashes and case are ignored when typed back.
+// ------------------------------------------------------------
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+export async function digestBackupCode(code: string): Promise<string> {
+  const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeBackupCode(code)));
+  return toBase64(new Uint8Array(bytes));
+}
+
+export function generateBackupCodes(count = BACKUP_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = toBase32(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
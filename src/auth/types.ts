@@ -0,0 +1,140 @@
+// ------------------------------------------------------------
+// Auth Types
+// ------------------------------------------------------------
+
+export type UserRole = 'teacher' | 'parent' | 'student' | 'admin';
+
+/**
+ * One portal a person can act in, with what it gives them access to.
+ * A teacher's classes come from the class roster (SchoolClass.teacherId),
+ * which administrators manage, so they are not repeated here.
+ */
+export type RoleMembership =
+  | { role: 'teacher' }
+  | { role: 'parent'; studentId: string }
+  | { role: 'student'; studentId: string }
+  | { role: 'admin' };
+
+export interface User {
+  id: string;
+  name: string;
+  /** Active portal. On a stored account this is the default one. */
+  role: UserRole;
+  memberships: RoleMembership[];
+  email: string;
+  avatar?: string;
+  // Teacher specific
+  subject?: string;
+  // Parent specific (derived)
+  children?: string[];
+  // Student specific
+  studentId?: string;   // Derived
+  grade?: string;
+}
+
+export type AuthErrorCode =
+  | 'invalid_credentials'
+  | 'account_locked'
+  | 'session_expired'
+  | 'role_not_held'
+  | 'forbidden'
+  | 'email_taken'
+  | 'weak_password'
+  | 'reset_token_invalid'
+  | 'two_factor_invalid'
+  | 'sso_failed'
+  | 'sso_no_account'
+  | 'invitation_invalid'
+  | 'account_disabled';
+
+export class AuthError extends Error {
+  constructor(
+    public code: AuthErrorCode,
+    message: string,
+    /** For locked accounts: milliseconds until the lock lifts. */
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/** Tokens issued on sign-in; `user` is resolved server-side, never read from a token. */
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: number;   // Epoch ms
+  refreshExpiresAt: number;  // Epoch ms
+}
+
+/** Returned by login instead of a session when the account needs a second factor. */
+export interface TwoFactorChallenge {
+  /** Short-lived token naming the account; exchanged with a code for a session. */
+  challengeToken: string;
+  challengeExpiresAt: number; // Epoch ms
+  /** Present when the school requires 2FA and the account has not set it up yet. */
+  enrollment?: TotpEnrollment;
+}
+
+export interface TotpEnrollment {
+  secret: string;     // Base32, for typing into an authenticator app
+  otpauthUri: string; // Same secret as a QR-codable URI
+}
+
+/** A completed two-factor sign-in; backup codes are included when it also finished enrolment. */
+export type TwoFactorSession = AuthSession & { backupCodes?: string[] };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** The school requires 2FA for one of the account's roles, so it cannot be turned off. */
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+export const isTwoFactorChallenge = <T extends object>(result: T | TwoFactorChallenge): result is TwoFactorChallenge =>
+  'challengeToken' in result;
+
+/** A school sign-in option shown on the login page. */
+export interface SsoProviderSummary {
+  id: string;
+  name: string;
+}
+
+/** A code linking whoever redeems it to one student as their parent. */
+export interface ParentInvitation {
+  id: string;
+  code: string;        // e.g. "K7QM-2XPD"
+  studentId: string;
+  createdBy: string;   // User id of the teacher or administrator
+  createdAt: number;   // Epoch ms
+  expiresAt: number;   // Epoch ms
+}
+
+/** A parent account linked to a student. */
+export interface ParentLink {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+/** What a student's record shows about their parents. */
+export interface StudentParentLinks {
+  parents: ParentLink[];
+  /** Invitations not yet redeemed, newest first. */
+  invitations: ParentInvitation[];
+}
+
+export interface ParentSignUpInput {
+  code: string;
+  name: string;
+  email: string;
+  password: string;
+}
+
+/** Minimal synchronous key/value storage; `localStorage` satisfies it. */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
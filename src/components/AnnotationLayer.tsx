@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { Annotation, AnnotationAnchor } from '@/domain/types';
+
+type Region = Extract<AnnotationAnchor, { kind: 'region' }>;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// offsetX/Y are in the layer's own coordinates, so rotating the page does not skew the box
+const pointIn = (e: React.PointerEvent<HTMLDivElement>): Point => ({
+  x: clamp(e.nativeEvent.offsetX / e.currentTarget.offsetWidth),
+  y: clamp(e.nativeEvent.offsetY / e.currentTarget.offsetHeight)
+});
+
+const boxBetween = (a: Point, b: Point) => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y)
+});
+
+const boxStyle = (box: { x: number; y: number; width: number; height: number }) => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`
+});
+
+/** Marked regions over a scanned page; while `drawing`, dragging marks a new one. */
+const AnnotationLayer = ({
+  page,
+  annotations,
+  numbers,
+  selectedId,
+  draft,
+  drawing,
+  onSelect,
+  onDraw
+}: {
+  page: number;
+  annotations: Annotation[];
+  /** Display number of each annotation, by id. */
+  numbers: Map<string, number>;
+  selectedId?: string;
+  draft?: AnnotationAnchor | null;
+  drawing: boolean;
+  onSelect: (id: string) => void;
+  onDraw: (region: Region) => void;
+}) => {
+  const [start, setStart] = useState<Point | null>(null);
+  const [current, setCurrent] = useState<Point | null>(null);
+
+  const regions = annotations.filter(
+    (a): a is Annotation & { anchor: Region } => a.anchor.kind === 'region' && a.anchor.page === page
+  );
+
+  const finish = () => {
+    if (start && current) {
+      const box = boxBetween(start, current);
+      if (box.width >= MIN_SIZE && box.height >= MIN_SIZE) onDraw({ kind: 'region', page, ...box });
+    }
+    setStart(null);
+    setCurrent(null);
+  };
+
+  return (
+    <div
+      className={cn('absolute inset-0', drawing && 'cursor-crosshair touch-none')}
+      onPointerDown={drawing ? (e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setStart(pointIn(e));
+        setCurrent(pointIn(e));
+      } : undefined}
+      onPointerMove={drawing && start ? (e) => setCurrent(pointIn(e)) : undefined}
+      onPointerUp={drawing ? finish : undefined}
+    >
+      {regions.map((annotation) => (
+        <button
+          key={annotation.id}
+          type="button"
+          aria-label={`Annotation ${numbers.get(annotation.id)}`}
+          onClick={() => onSelect(annotation.id)}
+          className={cn(
+            'absolute rounded-sm border-2 border-destructive/70 bg-destructive/10',
+            annotation.id === selectedId && 'border-destructive bg-destructive/20 ring-2 ring-destructive/40',
+            // Existing marks must not swallow the drag that draws a new one
+            drawing && 'pointer-events-none'
+          )}
+          style={boxStyle(annotation.anchor)}
+        >
+          <span className="absolute -left-2.5 -top-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-destructive text-[10px] font-bold text-destructive-foreground">
+            {numbers.get(annotation.id)}
+          </span>
+        </button>
+      ))}
+      {draft?.kind === 'region' && draft.page === page && (
+        <div className="pointer-events-none absolute rounded-sm border-2 border-dashed border-primary bg-primary/10" style={boxStyle(draft)} />
+      )}
+      {start && current && (
+        <div className="pointer-events-none absolute rounded-sm border-2 border-dashed border-primary" style={boxStyle(boxBetween(start, current))} />
+      )}
+    </div>
+  );
+};
+
+export default AnnotationLayer;
@@ -1,17 +1,13 @@
 import { useState } from "react";
-import { NavLink, useLocation } from "react-router-dom";
+import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import { 
-  BarChart3, 
-  FileText, 
-  TrendingUp, 
-  Settings, 
   Users, 
-  Home,
   BookOpen,
-  Award,
-  MessageSquare,
   LogOut,
-  GraduationCap
+  GraduationCap,
+  ArrowLeftRight,
+  ShieldCheck,
+  type LucideIcon
 } from "lucide-react";
 import {
   Sidebar,
@@ -29,39 +25,73 @@ import {
 import { Button } from "@/components/ui/button";
 import { useAuth, UserRole } from "@/contexts/AuthContext";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS, rolesOf } from "@/auth/roles";
+import { classPath, useActiveClass } from "@/hooks/use-active-class";
+import { usePermissions } from "@/hooks/use-permissions";
+import { HOME_PATH, routesFor } from "@/routes";
 
-const menuItems: Record<UserRole, Array<{ title: string; url: string; icon: any }>> = {
-  teacher: [
-    { title: "Class Overview", url: "/dashboard", icon: BarChart3 },
-    { title: "Student Papers", url: "/papers", icon: FileText },
-    { title: "AI Feedback", url: "/feedback", icon: TrendingUp },
-    { title: "Students", url: "/students", icon: Users },
-    { title: "Settings", url: "/settings", icon: Settings },
-  ],
-  parent: [
-    { title: "Home", url: "/dashboard", icon: Home },
-    { title: "Progress", url: "/progress", icon: TrendingUp },
-    { title: "Messages", url: "/messages", icon: MessageSquare },
-    { title: "Settings", url: "/settings", icon: Settings },
-  ],
-  student: [
-    { title: "Dashboard", url: "/dashboard", icon: Home },
-    { title: "My Progress", url: "/my-progress", icon: Award },
-    { title: "Assignments", url: "/assignments", icon: BookOpen },
-    { title: "Settings", url: "/settings", icon: Settings },
-  ]
+const roleIcons: Record<UserRole, LucideIcon> = {
+  teacher: GraduationCap,
+  parent: Users,
+  student: BookOpen,
+  admin: ShieldCheck
 };
 
 export function AppSidebar() {
-  const { user, logout } = useAuth();
+  const { user, logout, switchRole } = useAuth();
   const { state } = useSidebar();
   const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [switching, setSwitching] = useState(false);
+  const { classId } = useActiveClass();
+  const permissions = usePermissions();
   const currentPath = location.pathname;
 
   if (!user) return null;
 
-  const items = menuItems[user.role];
+  // Manifest pages with an icon; class-scoped ones resolve to /classes/:classId/<page> for the
+  // active class, and pages with a permission are hidden from users who lack it
+  const items = routesFor(user.role).filter(route => route.icon && (!route.permission || permissions.has(route.permission)));
+  const roles = rolesOf(user);
+
+  // Each portal has its own routes, so land on the new portal's dashboard
+  const handleSwitchRole = async (role: string) => {
+    if (role === user.role) return;
+    setSwitching(true);
+    try {
+      await switchRole(role as UserRole);
+      navigate("/dashboard", { replace: true });
+      toast({
+        title: `Switched to ${ROLE_LABELS[role as UserRole]} Portal`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not switch portal",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSwitching(false);
+    }
+  };
   const isActive = (path: string) => currentPath === path;
+
+  // Signing out on purpose should not bring the next person back to this page
+  const handleLogout = () => {
+    logout();
+    navigate("/login", { replace: true });
+  };
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
     isActive 
       ? "bg-primary/10 text-primary font-medium border-r-2 border-primary" 
@@ -95,11 +125,11 @@ export function AppSidebar() {
           <SidebarGroupContent>
             <SidebarMenu className="space-y-1">
               {items.map((item) => (
-                <SidebarMenuItem key={item.title}>
+                <SidebarMenuItem key={item.path}>
                   <SidebarMenuButton asChild>
                     <NavLink 
-                      to={item.url} 
-                      end={item.url === "/dashboard"}
+                      to={item.classScoped && classId ? classPath(classId, item.path.slice(1)) : item.path} 
+                      end={item.path === HOME_PATH}
                       className={getNavCls}
                     >
                       <item.icon className={`h-5 w-5 ${isCollapsed ? 'mx-auto' : 'mr-3'}`} />
@@ -128,11 +158,41 @@ export function AppSidebar() {
             </div>
           )}
         </div>
+        {roles.length > 1 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={switching}
+                className={isCollapsed ? "mt-2 w-8 h-8 p-0 mx-auto" : "w-full mt-3 justify-start"}
+              >
+                <ArrowLeftRight className={`h-4 w-4 ${isCollapsed ? '' : 'mr-2'}`} />
+                {!isCollapsed && <span>Switch portal</span>}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="top" align="start" className="w-56">
+              <DropdownMenuLabel>Your roles</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuRadioGroup value={user.role} onValueChange={handleSwitchRole}>
+                {roles.map((role) => {
+                  const Icon = roleIcons[role];
+                  return (
+                    <DropdownMenuRadioItem key={role} value={role}>
+                      <Icon className="h-4 w-4 mr-2" />
+                      {ROLE_LABELS[role]} Portal
+                    </DropdownMenuRadioItem>
+                  );
+                })}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
         {!isCollapsed && (
           <Button
             variant="ghost"
             size="sm"
-            onClick={logout}
+            onClick={handleLogout}
             className="w-full mt-2 text-muted-foreground hover:text-foreground"
           >
             <LogOut className="h-4 w-4 mr-2" />
@@ -0,0 +1,23 @@
+import React from 'react';
+import { GraduationCap } from 'lucide-react';
+
+// Branded frame for the signed-out pages around the login screen
+const AuthLayout = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-success/5 p-4">
+    <div className="w-full max-w-md space-y-8">
+      <div className="text-center space-y-2">
+        <div className="flex items-center justify-center mb-4">
+          <div className="bg-gradient-to-r from-primary to-success p-3 rounded-2xl">
+            <GraduationCap className="h-8 w-8 text-white" />
+          </div>
+        </div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-success bg-clip-text text-transparent">
+          EduBridge
+        </h1>
+      </div>
+      {children}
+    </div>
+  </div>
+);
+
+export default AuthLayout;
@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Copy } from 'lucide-react';
+
+// Freshly issued backup codes; they are only ever shown this once
+const BackupCodeList = ({ codes }: { codes: string[] }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/30 p-3">
+        {codes.map((code) => (
+          <code key={code} className="text-center font-mono text-sm">{code}</code>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Keep these somewhere safe. Each code signs you in once if you lose access to your authenticator app.
+      </p>
+      <Button type="button" variant="outline" size="sm" onClick={copy}>
+        {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+        {copied ? 'Copied' : 'Copy codes'}
+      </Button>
+    </div>
+  );
+};
+
+export default BackupCodeList;
@@ -0,0 +1,423 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, CheckCircle, FileText, FolderOpen, Layers, Loader2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PaperDropZone } from '@/components/UploadPapersDialog';
+import {
+  matchAssignment,
+  matchStudentByFileName,
+  matchStudentOnPage,
+  splitBatch,
+  type StudentMatch
+} from '@/domain/matching';
+import { extractPdfPages } from '@/domain/pdf-pages';
+import type { OcrPage, PageRange } from '@/domain/types';
+import { MAX_PAPER_PAGES, paperFileProblem } from '@/domain/uploads';
+import { countPdfPages, createThumbnail, readFileAsDataUrl } from '@/lib/paper-files';
+import { useToast } from '@/hooks/use-toast';
+import { useAnalyzePaper, useAssignments, useRecognizeScan, useStudents, useUploadPaper } from '@/hooks/use-portal-data';
+
+type RowState = 'ready' | 'uploading' | 'done' | 'failed';
+
+/** One scanned file as read, before it is cut into submissions. */
+interface BatchSource {
+  key: string;
+  file: File;
+  content: string;
+  pageCount?: number;
+  thumbnail?: string;
+  /** Undefined when OCR failed; names are then only taken from the file name. */
+  pages?: OcrPage[];
+}
+
+/** One submission in the review table. */
+interface BatchRow {
+  key: string;
+  sourceKey: string;
+  /** Set when the row is a slice of a multi-page PDF. */
+  pageRange?: PageRange;
+  match?: StudentMatch;
+  studentId: string;
+  assignmentId: string;
+  include: boolean;
+  state: RowState;
+  progress: number;
+  paperId?: string;
+  error?: string;
+}
+
+const AUTO_SPLIT = 'auto';
+
+let nextKey = 0;
+
+const byName = (a: File, b: File) => a.name.localeCompare(b.name, undefined, { numeric: true });
+
+const pagesLabel = (range: PageRange) =>
+  range.first === range.last ? `Page ${range.first}` : `Pages ${range.first}-${range.last}`;
+
+const MatchBadge = ({ match }: { match?: StudentMatch }) =>
+  match ? (
+    <Badge variant="secondary" className="text-[10px]" title={`${Math.round(match.score * 100)}% similar`}>
+      {match.source === 'page' ? 'Name on page' : 'File name'}
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="border-warning text-[10px] text-warning">No match</Badge>
+  );
+
+/**
+ * Imports a stack of scans at once: a folder of images (one paper each) or
+ * multi-page PDFs that are cut into one paper per student. Each submission is
+ * matched to the roster, reviewed in a table, uploaded, and optionally queued
+ * for AI analysis all at once.
+ */
+const BatchImportDialog = ({ classId, onClose }: { classId: string; onClose: () => void }) => {
+  const { data: students = [] } = useStudents({ classId });
+  const { data: assignments = [] } = useAssignments({ classId });
+  const recognize = useRecognizeScan();
+  const upload = useUploadPaper();
+  const analyzePaper = useAnalyzePaper();
+  const { toast } = useToast();
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  const [sources, setSources] = useState<BatchSource[]>([]);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [reading, setReading] = useState<{ done: number; total: number } | null>(null);
+  const [split, setSplit] = useState(AUTO_SPLIT);
+  const [analyze, setAnalyze] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  const update = (key: string, change: Partial<BatchRow>) =>
+    setRows(items => items.map(row => (row.key === key ? { ...row, ...change } : row)));
+
+  const rowsFor = (source: BatchSource, pagesPerPaper: string): BatchRow[] => {
+    const assignmentId = matchAssignment(source.file.name, assignments)?.id ?? '';
+    const fromFileName = matchStudentByFileName(source.file.name, students);
+    const row = (match?: StudentMatch, pageRange?: PageRange): BatchRow => ({
+      key: `batch-${nextKey++}`,
+      sourceKey: source.key,
+      pageRange,
+      match,
+      studentId: match?.studentId ?? '',
+      assignmentId,
+      include: true,
+      state: 'ready',
+      progress: 0
+    });
+
+    const onFirstPage = source.pages?.[0] && matchStudentOnPage(source.pages[0], students);
+    const best = [onFirstPage, fromFileName].filter(Boolean).sort((a, b) => b!.score - a!.score)[0];
+    if (source.file.type !== 'application/pdf' || !source.pageCount || source.pageCount === 1) return [row(best)];
+
+    // Without OCR every page is blank: only a fixed split can still cut the stack
+    const pages = source.pages ?? Array.from({ length: source.pageCount }, (_, i) => ({ page: i + 1, text: '', words: [] }));
+    const submissions = splitBatch(pages, students, pagesPerPaper === AUTO_SPLIT ? undefined : Number(pagesPerPaper));
+    if (submissions.length === 1) return [row(submissions[0].match ?? fromFileName)];
+    return submissions.map(s => row(s.match, s.pages));
+  };
+
+  const addFiles = async (files: File[]) => {
+    // Folders bring along hidden system files; those are skipped rather than reported
+    const visible = files.filter(file => !file.name.startsWith('.')).sort(byName);
+    setRejected(visible.map(paperFileProblem).filter((p): p is string => !!p));
+    const accepted = visible.filter(file => !paperFileProblem(file));
+    if (accepted.length === 0) return;
+
+    setReading({ done: 0, total: accepted.length });
+    const read: BatchSource[] = [];
+    for (const [index, file] of accepted.entries()) {
+      const content = await readFileAsDataUrl(file);
+      const [thumbnail, pageCount] = await Promise.all([createThumbnail(file), countPdfPages(file)]);
+      if (pageCount !== undefined && pageCount > MAX_PAPER_PAGES) {
+        setRejected(problems => [...problems, `${file.name} has ${pageCount} pages; split it into files of at most ${MAX_PAPER_PAGES}`]);
+      } else {
+        const pages = await recognize.mutateAsync({ content, contentType: file.type, pageCount }).catch(() => undefined);
+        read.push({ key: `source-${nextKey++}`, file, content, pageCount, thumbnail, pages });
+      }
+      setReading({ done: index + 1, total: accepted.length });
+    }
+    setReading(null);
+    setSources(items => [...items, ...read]);
+    setRows(items => [...items, ...read.flatMap(source => rowsFor(source, split))]);
+  };
+
+  const changeSplit = (value: string) => {
+    setSplit(value);
+    // Re-cut every PDF from the pages already read; teacher edits to those rows are redone
+    setRows(items => sources.flatMap(source => {
+      const existing = items.filter(row => row.sourceKey === source.key);
+      return source.file.type === 'application/pdf' && existing.every(row => row.state === 'ready')
+        ? rowsFor(source, value)
+        : existing;
+    }));
+  };
+
+  const sourceOf = (row: BatchRow) => sources.find(s => s.key === row.sourceKey)!;
+  const waiting = rows.filter(row => row.include && (row.state === 'ready' || row.state === 'failed'));
+  const complete = waiting.length > 0 && waiting.every(row => row.studentId && row.assignmentId);
+  const unmatched = rows.filter(row => row.include && !row.studentId).length;
+  const hasPdf = sources.some(s => s.file.type === 'application/pdf' && (s.pageCount ?? 1) > 1);
+
+  // The same student twice in one batch is usually a mismatch worth a second look
+  const claims = new Map<string, number>();
+  for (const row of rows) if (row.include && row.studentId) claims.set(row.studentId, (claims.get(row.studentId) ?? 0) + 1);
+
+  const assignAll = (assignmentId: string) =>
+    setRows(items => items.map(row => (row.state === 'done' ? row : { ...row, assignmentId })));
+
+  const startImport = async () => {
+    setRunning(true);
+    let uploaded = 0;
+    let analysed = 0;
+    for (const row of waiting) {
+      const source = sourceOf(row);
+      update(row.key, { state: 'uploading', progress: 0, error: undefined });
+      try {
+        // Only this paper's pages are sent; the rest of the stack is other students' work
+        const paper = await upload.mutateAsync({
+          input: {
+            studentId: row.studentId,
+            assignmentId: row.assignmentId,
+            fileName: row.pageRange ? `${source.file.name} (${pagesLabel(row.pageRange).toLowerCase()})` : source.file.name,
+            content: row.pageRange ? await extractPdfPages(source.content, row.pageRange) : source.content,
+            thumbnail: source.thumbnail,
+            pageCount: row.pageRange ? row.pageRange.last - row.pageRange.first + 1 : source.pageCount
+          },
+          onProgress: (progress) => update(row.key, { progress })
+        });
+        update(row.key, { state: 'done', progress: 1, paperId: paper.id });
+        uploaded++;
+        if (analyze) {
+          // An upload that could not be queued still counts; "Start AI Analysis" queues it later
+          await analyzePaper.mutateAsync(paper.id).then(() => analysed++, () => undefined);
+        }
+      } catch (error) {
+        update(row.key, { state: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+    }
+    setRunning(false);
+
+    if (uploaded === waiting.length) {
+      toast({
+        title: `${uploaded} ${uploaded === 1 ? 'paper' : 'papers'} imported`,
+        description: analyze ? `${analysed} queued for AI analysis.` : 'They are listed as not analysed until you start AI analysis.'
+      });
+      onClose();
+    } else {
+      toast({
+        title: 'Some papers were not imported',
+        description: `${uploaded} of ${waiting.length} imported. Check the failed rows and try again.`,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open && !running && !reading) onClose(); }}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Batch Import</DialogTitle>
+          <DialogDescription>
+            Add a folder of scanned images (one paper each) or a PDF of the whole stack. Each paper is matched to a
+            student by its file name or the name written at the top of its first page; check the matches before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <PaperDropZone onFiles={addFiles} className="p-6">
+          {(browse) => (
+            <div className="flex flex-col items-center gap-2 text-center">
+              <Layers className="h-6 w-6 text-primary" />
+              <p className="text-sm text-muted-foreground">Drop the scans here, or</p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={browse} disabled={running || !!reading}>Choose Files</Button>
+                <Button variant="outline" size="sm" onClick={() => folderRef.current?.click()} disabled={running || !!reading}>
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  Choose Folder
+                </Button>
+              </div>
+            </div>
+          )}
+        </PaperDropZone>
+        <input
+          ref={folderRef}
+          type="file"
+          className="hidden"
+          // Not in React's input typings, but supported by every current browser
+          {...{ webkitdirectory: '' }}
+          onChange={(e) => {
+            if (e.target.files?.length) addFiles([...e.target.files]);
+            e.target.value = '';
+          }}
+        />
+
+        {reading && (
+          <div className="space-y-1">
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading scan {Math.min(reading.done + 1, reading.total)} of {reading.total}…
+            </p>
+            <Progress value={(reading.done / reading.total) * 100} className="h-1.5" />
+          </div>
+        )}
+
+        {rejected.length > 0 && (
+          <div className="max-h-24 space-y-1 overflow-y-auto rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+            {rejected.map((problem) => <p key={problem}>{problem}</p>)}
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <Label className="text-sm font-medium">
+                {rows.length} {rows.length === 1 ? 'paper' : 'papers'}
+                {unmatched > 0 && <span className="ml-2 font-normal text-warning">{unmatched} without a student</span>}
+              </Label>
+              <div className="flex gap-2">
+                {hasPdf && (
+                  <Select value={split} onValueChange={changeSplit} disabled={running}>
+                    <SelectTrigger className="w-52" aria-label="How to split PDFs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_SPLIT}>Split PDFs at each name</SelectItem>
+                      {[1, 2, 3, 4].map((n) => (
+                        <SelectItem key={n} value={String(n)}>{n} {n === 1 ? 'page' : 'pages'} per paper</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Select onValueChange={assignAll} disabled={running}>
+                  <SelectTrigger className="w-56" aria-label="Assignment for all papers">
+                    <SelectValue placeholder="Set assignment for all" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignments.map((a) => <SelectItem key={a.id} value={a.id}>{a.title}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"><span className="sr-only">Import</span></TableHead>
+                    <TableHead>Scan</TableHead>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Assignment</TableHead>
+                    <TableHead className="w-24">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const source = sourceOf(row);
+                    const locked = running || row.state === 'done' || row.state === 'uploading';
+                    const duplicate = row.include && row.studentId && (claims.get(row.studentId) ?? 0) > 1;
+                    return (
+                      <TableRow key={row.key} className={cn(!row.include && 'opacity-50')}>
+                        <TableCell>
+                          <Checkbox
+                            checked={row.include}
+                            disabled={locked}
+                            aria-label={`Import ${source.file.name}`}
+                            onCheckedChange={(checked) => update(row.key, { include: checked === true })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {source.thumbnail ? (
+                              <img src={source.thumbnail} alt="" className="h-10 w-10 rounded object-cover border" />
+                            ) : (
+                              <div className="flex h-10 w-10 items-center justify-center rounded border bg-muted/30">
+                                <FileText className="h-4 w-4 text-muted-foreground" />
+                              </div>
+                            )}
+                            <div className="min-w-0">
+                              <p className="max-w-48 truncate text-sm font-medium">{source.file.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {row.pageRange ? pagesLabel(row.pageRange) : source.pageCount ? `${source.pageCount} pages` : 'Image'}
+                                {!source.pages && ' · text not read'}
+                              </p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Select value={row.studentId} onValueChange={(studentId) => update(row.key, { studentId })} disabled={locked}>
+                              <SelectTrigger
+                                className={cn('w-40', (!row.studentId || duplicate) && row.include && 'border-warning')}
+                                aria-label={`Student for ${source.file.name}`}
+                              >
+                                <SelectValue placeholder="Student" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {students.map((s) => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                              </SelectContent>
+                            </Select>
+                            {row.studentId === row.match?.studentId ? <MatchBadge match={row.match} /> : !row.studentId && <MatchBadge />}
+                          </div>
+                          {duplicate && <p className="mt-1 text-xs text-warning">Also matched to another scan</p>}
+                        </TableCell>
+                        <TableCell>
+                          <Select value={row.assignmentId} onValueChange={(assignmentId) => update(row.key, { assignmentId })} disabled={locked}>
+                            <SelectTrigger className="w-48" aria-label={`Assignment for ${source.file.name}`}>
+                              <SelectValue placeholder="Assignment" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {assignments.map((a) => <SelectItem key={a.id} value={a.id}>{a.title}</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {row.state === 'uploading' && <Progress value={row.progress * 100} className="h-1.5" />}
+                          {row.state === 'done' && <CheckCircle className="h-4 w-4 text-success" aria-label="Imported" />}
+                          {row.state === 'failed' && (
+                            <span className="flex items-center gap-1 text-xs text-destructive" title={row.error}>
+                              <AlertCircle className="h-3 w-3" />
+                              Failed
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-4 sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Checkbox id="batch-analyze" checked={analyze} onCheckedChange={(checked) => setAnalyze(checked === true)} disabled={running} />
+            <Label htmlFor="batch-analyze" className="text-sm font-normal">Start AI analysis once imported</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={running || !!reading}>Cancel</Button>
+            <Button onClick={startImport} disabled={!complete || running || !!reading}>
+              {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import {waiting.length > 0 ? waiting.length : ''} {waiting.length === 1 ? 'Paper' : 'Papers'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchImportDialog;
@@ -0,0 +1,20 @@
+import React from 'react';
+import type { Permission } from '@/auth/permissions';
+import { useCan } from '@/hooks/use-permissions';
+
+interface CanProps {
+  permission: Permission;
+  /** Render function children always render and decide themselves, e.g. to disable a button. */
+  children: React.ReactNode | ((allowed: boolean) => React.ReactNode);
+  /** Shown instead of node children when the permission is missing. */
+  fallback?: React.ReactNode;
+}
+
+/** Shows an action only to users holding the permission (or lets it disable itself). */
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = useCan(permission);
+  if (typeof children === 'function') return <>{children(allowed)}</>;
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AuthError } from '@/auth/types';
+import { passwordProblems } from '@/auth/passwords';
+import PasswordHints from '@/components/PasswordHints';
+
+const emptyDraft = { current: '', next: '', confirm: '' };
+
+const ChangePasswordDialog = ({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) => {
+  const { user, changePassword } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const mismatch = draft.confirm.length > 0 && draft.confirm !== draft.next;
+  const ready = !!draft.current
+    && passwordProblems(draft.next, { email: user?.email }).length === 0
+    && draft.confirm === draft.next;
+
+  const close = (next: boolean) => {
+    if (!next) setDraft(emptyDraft);
+    onOpenChange(next);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    try {
+      setSaving(true);
+      await changePassword(draft.current, draft.next);
+      toast({ title: "Password changed", description: "Your other devices have been signed out." });
+      close(false);
+    } catch (error) {
+      toast({
+        title: "Could not change password",
+        description: error instanceof AuthError ? error.message : "Please try again in a moment.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change password</DialogTitle>
+          <DialogDescription>Enter your current password, then choose a new one.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input id="current-password" type="password" autoComplete="current-password" value={draft.current} onChange={(e) => setDraft({ ...draft, current: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input id="new-password" type="password" autoComplete="new-password" value={draft.next} onChange={(e) => setDraft({ ...draft, next: e.target.value })} />
+            <PasswordHints password={draft.next} email={user?.email} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm new password</Label>
+            <Input id="confirm-password" type="password" autoComplete="new-password" value={draft.confirm} onChange={(e) => setDraft({ ...draft, confirm: e.target.value })} />
+            {mismatch && <p className="text-xs text-destructive">Passwords do not match.</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving || !ready}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Password
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChangePasswordDialog;
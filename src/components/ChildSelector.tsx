@@ -0,0 +1,37 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useSelectedChild } from '@/contexts/ChildContext';
+
+const initials = (name: string) => name.split(' ').map(n => n[0]).join('');
+
+/** Header control for parents with more than one child at the school. */
+const ChildSelector: React.FC = () => {
+  const { students, selectedChildId, selectChild } = useSelectedChild();
+
+  if (students.length < 2) return null;
+
+  return (
+    <Select value={selectedChildId} onValueChange={selectChild}>
+      <SelectTrigger className="w-52 h-9" aria-label="Select child">
+        <SelectValue placeholder="Select child" />
+      </SelectTrigger>
+      <SelectContent>
+        {students.map((student) => (
+          <SelectItem key={student.id} value={student.id}>
+            <div className="flex items-center gap-2">
+              <Avatar className="h-5 w-5">
+                <AvatarImage src={student.avatar} />
+                <AvatarFallback className="text-[10px]">{initials(student.name)}</AvatarFallback>
+              </Avatar>
+              <span>{student.name}</span>
+              <span className="text-xs text-muted-foreground">{student.grade}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ChildSelector;
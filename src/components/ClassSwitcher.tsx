@@ -0,0 +1,40 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from '@/contexts/AuthContext';
+import { classPath, useActiveClass } from '@/hooks/use-active-class';
+import { findRoute } from '@/routes';
+
+/**
+ * Header control for teachers with several classes; keeps the current page when switching.
+ * Pages about one record of the class (a paper, a student's preview) go up to their list instead.
+ */
+const ClassSwitcher: React.FC = () => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { user } = useAuth();
+  const { classId, classes: taught, page } = useActiveClass();
+
+  if (taught.length < 2) return null;
+
+  const route = findRoute(user?.role, pathname);
+  const target = route?.path.includes(':') ? route.breadcrumb?.parent?.replace(/^\//, '') : page;
+
+  return (
+    <Select value={classId} onValueChange={(next) => navigate(classPath(next, target))}>
+      <SelectTrigger className="w-52 h-9" aria-label="Select class">
+        <SelectValue placeholder="Select class" />
+      </SelectTrigger>
+      <SelectContent>
+        {taught.map((schoolClass) => (
+          <SelectItem key={schoolClass.id} value={schoolClass.id}>
+            <span>{schoolClass.name}</span>
+            <span className="ml-2 text-xs text-muted-foreground">{schoolClass.subject}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ClassSwitcher;
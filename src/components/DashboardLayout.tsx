@@ -1,6 +1,11 @@
 import React from 'react';
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
+import IdleTimeoutDialog from "@/components/IdleTimeoutDialog";
+import ChildSelector from "@/components/ChildSelector";
+import ClassSwitcher from "@/components/ClassSwitcher";
+import PageBreadcrumbs from "@/components/PageBreadcrumbs";
+import { ChildProvider } from "@/contexts/ChildContext";
 import { useAuth } from '@/contexts/AuthContext';
 
 interface DashboardLayoutProps {
@@ -13,32 +18,38 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   if (!user) return null;
 
   return (
-    <SidebarProvider>
-      <div className="min-h-screen flex w-full bg-background">
-        <AppSidebar />
-        <main className="flex-1 flex flex-col">
-          {/* Header */}
-          <header className="border-b border-border/50 bg-card/50 backdrop-blur supports-[backdrop-filter]:bg-card/50">
-            <div className="flex h-16 items-center px-6 gap-4">
-              <SidebarTrigger className="text-muted-foreground hover:text-foreground" />
-              <div className="flex-1">
-                <h2 className="text-sm font-medium text-muted-foreground">
-                  EduBridge • {user.role.charAt(0).toUpperCase() + user.role.slice(1)} Portal
-                </h2>
+    <ChildProvider>
+      <SidebarProvider>
+        <div className="min-h-screen flex w-full bg-background">
+          <AppSidebar />
+          <main className="flex-1 flex flex-col">
+            {/* Header */}
+            <header className="border-b border-border/50 bg-card/50 backdrop-blur supports-[backdrop-filter]:bg-card/50">
+              <div className="flex h-16 items-center px-6 gap-4">
+                <SidebarTrigger className="text-muted-foreground hover:text-foreground" />
+                <div className="flex-1 min-w-0">
+                  <h2 className="text-xs font-medium text-muted-foreground">
+                    EduBridge • {user.role.charAt(0).toUpperCase() + user.role.slice(1)} Portal
+                  </h2>
+                  <PageBreadcrumbs />
+                </div>
+                {user.role === 'teacher' && <ClassSwitcher />}
+                {user.role === 'parent' && <ChildSelector />}
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>Welcome back, {user.name.split(' ')[0]}</span>
+                </div>
               </div>
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <span>Welcome back, {user.name.split(' ')[0]}</span>
-              </div>
-            </div>
-          </header>
+            </header>
 
-          {/* Main Content */}
-          <div className="flex-1 p-6">
-            {children}
-          </div>
-        </main>
-      </div>
-    </SidebarProvider>
+            {/* Main Content */}
+            <div className="flex-1 p-6">
+              {children}
+            </div>
+          </main>
+        </div>
+        <IdleTimeoutDialog />
+      </SidebarProvider>
+    </ChildProvider>
   );
 };
 
@@ -0,0 +1,56 @@
+import React, { useCallback } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimeout } from '@/hooks/use-idle-timeout';
+import { useToast } from '@/hooks/use-toast';
+
+const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+const WARNING_MS = 60 * 1000;
+
+const IdleTimeoutDialog: React.FC = () => {
+  const { isAuthenticated, logout } = useAuth();
+  const { toast } = useToast();
+
+  const handleTimeout = useCallback(() => {
+    logout();
+    toast({
+      title: "Signed out",
+      description: "You were signed out after 15 minutes of inactivity.",
+    });
+  }, [logout, toast]);
+
+  const { warning, remainingMs, stayActive } = useIdleTimeout({
+    enabled: isAuthenticated,
+    timeoutMs: IDLE_TIMEOUT_MS,
+    warningMs: WARNING_MS,
+    onTimeout: handleTimeout
+  });
+
+  return (
+    <AlertDialog open={warning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            For your security you will be signed out in {Math.ceil(remainingMs / 1000)} seconds.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={logout}>Sign out</AlertDialogCancel>
+          <AlertDialogAction onClick={stayActive}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default IdleTimeoutDialog;
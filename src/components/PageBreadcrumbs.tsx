@@ -0,0 +1,40 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { useCurrentRoute } from '@/hooks/use-current-route';
+
+const PageBreadcrumbs: React.FC = () => {
+  const { crumbs } = useCurrentRoute();
+
+  if (!crumbs.length) return null;
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        {crumbs.map((crumb, i) => (
+          <React.Fragment key={`${i}-${crumb.label}`}>
+            {i > 0 && <BreadcrumbSeparator />}
+            <BreadcrumbItem>
+              {crumb.to ? (
+                <BreadcrumbLink asChild>
+                  <Link to={crumb.to}>{crumb.label}</Link>
+                </BreadcrumbLink>
+              ) : (
+                <BreadcrumbPage>{crumb.label}</BreadcrumbPage>
+              )}
+            </BreadcrumbItem>
+          </React.Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+};
+
+export default PageBreadcrumbs;
@@ -0,0 +1,208 @@
+import React, { useId, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge, badgeVariants } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock, MessageSquarePlus, Pencil, Trash2, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import Can from '@/components/Can';
+import { useAuth } from '@/contexts/AuthContext';
+import { ANNOTATION_STAMPS, RUBRIC_TAGS, rubricTagLabel } from '@/domain/annotations';
+import type { Annotation, AnnotationAnchor, Paper } from '@/domain/types';
+import { useToast } from '@/hooks/use-toast';
+import { useCreateAnnotation, useRemoveAnnotation, useUpdateAnnotation } from '@/hooks/use-portal-data';
+
+type AnnotationValues = Pick<Annotation, 'comment' | 'stamp' | 'rubricTags' | 'sharedWithFamily'>;
+
+const NO_STAMP = 'none';
+
+const anchorLabel = (anchor: AnnotationAnchor) =>
+  anchor.kind === 'region' ? `Page ${anchor.page}, marked area` : `Page ${anchor.page}`;
+
+const AnnotationForm = ({
+  title,
+  initial,
+  saving,
+  onSave,
+  onCancel
+}: {
+  title: string;
+  initial: AnnotationValues;
+  saving: boolean;
+  onSave: (values: AnnotationValues) => void;
+  onCancel: () => void;
+}) => {
+  const [comment, setComment] = useState(initial.comment ?? '');
+  const [stamp, setStamp] = useState(initial.stamp || NO_STAMP);
+  const [rubricTags, setRubricTags] = useState(initial.rubricTags);
+  const [sharedWithFamily, setSharedWithFamily] = useState(initial.sharedWithFamily);
+  const sharedId = useId();
+  const empty = !comment.trim() && stamp === NO_STAMP && rubricTags.length === 0;
+
+  const toggleTag = (tag: string) =>
+    setRubricTags(tags => (tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]));
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border border-primary/30 bg-primary/5 p-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        // Cleared fields are sent empty rather than left out, so an edit can remove them
+        onSave({ comment: comment.trim(), stamp: stamp === NO_STAMP ? '' : stamp, rubricTags, sharedWithFamily });
+      }}
+    >
+      <p className="text-sm font-medium">{title}</p>
+      <Select value={stamp} onValueChange={setStamp}>
+        <SelectTrigger aria-label="Stamp"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_STAMP}>No stamp</SelectItem>
+          {ANNOTATION_STAMPS.map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      <Textarea placeholder="Comment" value={comment} onChange={(e) => setComment(e.target.value)} rows={3} />
+      <div className="flex flex-wrap gap-2">
+        {RUBRIC_TAGS.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={rubricTags.includes(key)}
+            className={badgeVariants({ variant: rubricTags.includes(key) ? 'default' : 'outline' })}
+            onClick={() => toggleTag(key)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={sharedId} className="text-sm font-normal">Show to student and parents</Label>
+        <Switch id={sharedId} checked={sharedWithFamily} onCheckedChange={setSharedWithFamily} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" size="sm" disabled={empty || saving}>Save</Button>
+      </div>
+    </form>
+  );
+};
+
+/** The viewer's margin: every note on the paper, and the form for a newly marked one. */
+const PaperAnnotationsPanel = ({
+  paper,
+  annotations,
+  numbers,
+  selectedId,
+  draft,
+  onSelect,
+  onDraftDone
+}: {
+  paper: Paper;
+  /** In display order. */
+  annotations: Annotation[];
+  numbers: Map<string, number>;
+  selectedId?: string;
+  draft: AnnotationAnchor | null;
+  onSelect: (annotation: Annotation) => void;
+  onDraftDone: () => void;
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const create = useCreateAnnotation();
+  const update = useUpdateAnnotation();
+  const remove = useRemoveAnnotation();
+  const [editingId, setEditingId] = useState<string>();
+
+  const failed = (title: string) => () =>
+    toast({ title, description: 'Please try again in a moment.', variant: 'destructive' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquarePlus className="h-5 w-5" />
+          Annotations
+        </CardTitle>
+        <CardDescription>
+          {annotations.length === 0 ? 'No marks on this paper yet.' : `${annotations.length} on this paper`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft && (
+          <AnnotationForm
+            title={`New note · ${anchorLabel(draft)}`}
+            initial={{ rubricTags: [], sharedWithFamily: false }}
+            saving={create.isPending}
+            onCancel={onDraftDone}
+            onSave={(values) => create.mutate(
+              { ...values, paperId: paper.id, authorId: user!.id, anchor: draft },
+              { onSuccess: onDraftDone, onError: failed('Could not save the note') }
+            )}
+          />
+        )}
+
+        {annotations.map((annotation) => editingId === annotation.id ? (
+          <AnnotationForm
+            key={annotation.id}
+            title={`Edit note ${numbers.get(annotation.id)} · ${anchorLabel(annotation.anchor)}`}
+            initial={annotation}
+            saving={update.isPending}
+            onCancel={() => setEditingId(undefined)}
+            onSave={(values) => update.mutate(
+              { id: annotation.id, update: values },
+              { onSuccess: () => setEditingId(undefined), onError: failed('Could not update the note') }
+            )}
+          />
+        ) : (
+          <div
+            key={annotation.id}
+            className={cn(
+              'cursor-pointer space-y-2 rounded-lg border p-3 transition-colors hover:bg-muted/30',
+              annotation.id === selectedId && 'border-destructive/50 bg-destructive/5'
+            )}
+            onClick={() => onSelect(annotation)}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-destructive text-[10px] font-bold text-destructive-foreground">
+                  {numbers.get(annotation.id)}
+                </span>
+                <span className="text-xs text-muted-foreground">{anchorLabel(annotation.anchor)}</span>
+                {annotation.sharedWithFamily
+                  ? <Users className="h-3 w-3 text-muted-foreground" aria-label="Shared with the family" />
+                  : <Lock className="h-3 w-3 text-muted-foreground" aria-label="Only visible to staff" />}
+              </div>
+              <Can permission="papers:annotate">
+                <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Edit note" onClick={() => setEditingId(annotation.id)}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label="Delete note"
+                    disabled={remove.isPending}
+                    onClick={() => remove.mutate(annotation.id, { onError: failed('Could not delete the note') })}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </Can>
+            </div>
+            {annotation.stamp && <Badge variant="destructive">{annotation.stamp}</Badge>}
+            {annotation.comment && <p className="text-sm">{annotation.comment}</p>}
+            {annotation.rubricTags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {annotation.rubricTags.map((tag) => <Badge key={tag} variant="outline" className="text-xs">{rubricTagLabel(tag)}</Badge>)}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaperAnnotationsPanel;
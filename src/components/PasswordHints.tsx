@@ -0,0 +1,37 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { MIN_PASSWORD_LENGTH, passwordProblems } from '@/auth/passwords';
+
+// Live feedback while choosing a password; the service enforces the same rules
+const PasswordHints = ({ password, email }: { password: string; email?: string }) => {
+  if (!password) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        At least {MIN_PASSWORD_LENGTH} characters, mixing letters and numbers.
+      </p>
+    );
+  }
+
+  const problems = passwordProblems(password, { email });
+  if (problems.length === 0) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-success">
+        <Check className="h-3 w-3" />
+        Strong enough
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {problems.map((problem) => (
+        <li key={problem} className="flex items-center gap-1 text-xs text-destructive">
+          <X className="h-3 w-3" />
+          {problem}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PasswordHints;
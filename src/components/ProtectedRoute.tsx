@@ -1,15 +1,17 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
-import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission, type Permission } from '@/auth/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: UserRole[];
+  /** Capability needed to open the route; users without it land on their dashboard. */
+  permission?: Permission;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
-  allowedRoles 
+  permission 
 }) => {
   const { isAuthenticated, user, loading } = useAuth();
   const location = useLocation();
@@ -30,15 +32,9 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // Check if user role is allowed
-  if (allowedRoles && user && !allowedRoles.includes(user.role)) {
-    // Redirect to appropriate dashboard based on role
-    const roleDashboards: Record<UserRole, string> = {
-      teacher: '/dashboard',
-      parent: '/dashboard', 
-      student: '/dashboard'
-    };
-    return <Navigate to={roleDashboards[user.role]} replace />;
+  // Every portal has a /dashboard, so that is the safe landing page
+  if (permission && !hasPermission(user, permission)) {
+    return <Navigate to="/dashboard" replace />;
   }
 
   return <>{children}</>;
@@ -0,0 +1,32 @@
+import React, { Suspense } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import { usePageTitle } from '@/hooks/use-page-title';
+import type { AppRoute } from '@/routes';
+
+// Manifest entries that have no page yet
+const ComingSoon: React.FC<{ title: string; description?: string }> = ({ title, description }) => (
+  <div className="text-center py-12">
+    <h2 className="text-2xl font-bold mb-4">{title}</h2>
+    <p className="text-muted-foreground">Coming soon{description ? ` - ${description}` : ''}</p>
+  </div>
+);
+
+const PageLoading = () => (
+  <div className="flex justify-center py-12">
+    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+  </div>
+);
+
+/** Renders one manifest entry: its page (loaded on first visit), title and permission check. */
+const RoutePage: React.FC<{ route: AppRoute }> = ({ route }) => {
+  usePageTitle(route.title);
+
+  const Page = route.component;
+  const page = Page
+    ? <Suspense fallback={<PageLoading />}><Page /></Suspense>
+    : <ComingSoon title={route.title} description={route.comingSoon} />;
+
+  return route.permission ? <ProtectedRoute permission={route.permission}>{page}</ProtectedRoute> : page;
+};
+
+export default RoutePage;
@@ -0,0 +1,257 @@
+import React, { useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  MAX_RUBRIC_CRITERIA,
+  MAX_RUBRIC_LEVELS,
+  criterionMaxPoints,
+  rubricProblem,
+  rubricTotalPoints
+} from '@/domain/rubrics';
+import type { Rubric, RubricCriterion, RubricLevel } from '@/domain/types';
+import { useToast } from '@/hooks/use-toast';
+import { useCreateRubric, useUpdateRubric } from '@/hooks/use-portal-data';
+
+export type RubricDraft = Pick<Rubric, 'title' | 'subject' | 'shared' | 'criteria'>;
+
+const newCriterion = (): RubricCriterion => ({
+  id: `crit-${crypto.randomUUID().slice(0, 8)}`,
+  name: '',
+  weight: 1,
+  levels: [
+    { label: 'Exemplary', descriptor: '', points: 4 },
+    { label: 'Proficient', descriptor: '', points: 3 },
+    { label: 'Developing', descriptor: '', points: 2 },
+    { label: 'Beginning', descriptor: '', points: 1 }
+  ]
+});
+
+const emptyRubricDraft = (subject = ''): RubricDraft => ({ title: '', subject, shared: false, criteria: [newCriterion()] });
+
+// Number inputs hand back '' while being cleared; keep the draft numeric
+const toNumber = (value: string) => (value === '' ? 0 : Number(value));
+
+const CriterionEditor = ({
+  criterion,
+  onChange,
+  onRemove
+}: {
+  criterion: RubricCriterion;
+  onChange: (criterion: RubricCriterion) => void;
+  onRemove?: () => void;
+}) => {
+  const id = useId();
+  const setLevel = (index: number, change: Partial<RubricLevel>) =>
+    onChange({ ...criterion, levels: criterion.levels.map((l, i) => (i === index ? { ...l, ...change } : l)) });
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-end gap-3">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={`${id}-name`}>Criterion</Label>
+          <Input
+            id={`${id}-name`}
+            placeholder="Organisation"
+            value={criterion.name}
+            onChange={(e) => onChange({ ...criterion, name: e.target.value })}
+          />
+        </div>
+        <div className="w-24 space-y-2">
+          <Label htmlFor={`${id}-weight`}>Weight</Label>
+          <Input
+            id={`${id}-weight`}
+            type="number"
+            min={1}
+            step={1}
+            value={criterion.weight}
+            onChange={(e) => onChange({ ...criterion, weight: toNumber(e.target.value) })}
+          />
+        </div>
+        <p className="w-20 pb-2 text-right text-sm text-muted-foreground">{criterionMaxPoints(criterion)} pts</p>
+        {onRemove && (
+          <Button variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove ${criterion.name || 'criterion'}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {criterion.levels.map((level, i) => (
+          <div key={i} className="grid grid-cols-[9rem_5rem_1fr_auto] items-start gap-2">
+            <Input
+              aria-label="Level"
+              placeholder="Level"
+              value={level.label}
+              onChange={(e) => setLevel(i, { label: e.target.value })}
+            />
+            <Input
+              aria-label={`Points for ${level.label || 'level'}`}
+              type="number"
+              min={0}
+              step={1}
+              value={level.points}
+              onChange={(e) => setLevel(i, { points: toNumber(e.target.value) })}
+            />
+            <Textarea
+              aria-label={`What ${level.label || 'this level'} looks like`}
+              placeholder="What work at this level looks like"
+              rows={1}
+              className="min-h-10"
+              value={level.descriptor}
+              onChange={(e) => setLevel(i, { descriptor: e.target.value })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={criterion.levels.length <= 2}
+              onClick={() => onChange({ ...criterion, levels: criterion.levels.filter((_, j) => j !== i) })}
+              aria-label={`Remove ${level.label || 'level'}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={criterion.levels.length >= MAX_RUBRIC_LEVELS}
+          onClick={() => onChange({ ...criterion, levels: [...criterion.levels, { label: '', descriptor: '', points: 0 }] })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Level
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Writes a new rubric, or changes `rubricId` when given. Without `initial`
+ * the editor starts from a blank rubric for `subject`. Levels can be
+ * entered in any order; the store keeps them highest points first.
+ */
+const RubricEditorDialog = ({
+  rubricId,
+  initial,
+  subject,
+  onClose
+}: {
+  rubricId?: string;
+  initial?: RubricDraft;
+  subject?: string;
+  onClose: () => void;
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const create = useCreateRubric();
+  const update = useUpdateRubric();
+  const [draft, setDraft] = useState<RubricDraft>(() => initial ?? emptyRubricDraft(subject));
+  const id = useId();
+
+  const problem = rubricProblem(draft);
+  const saving = create.isPending || update.isPending;
+
+  const setCriterion = (index: number, criterion: RubricCriterion) =>
+    setDraft({ ...draft, criteria: draft.criteria.map((c, i) => (i === index ? criterion : c)) });
+
+  const handleSave = async () => {
+    try {
+      const { title, subject, shared, criteria } = draft;
+      if (rubricId) await update.mutateAsync({ id: rubricId, update: { title, subject, shared, criteria } });
+      else await create.mutateAsync({ title, subject, shared, criteria, authorId: user!.id });
+      toast({ title: rubricId ? 'Rubric updated' : 'Rubric created', description: `${draft.title} has been saved.` });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Could not save rubric',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rubricId ? 'Edit rubric' : 'New rubric'}</DialogTitle>
+          <DialogDescription>
+            A paper scores the points of the level it reaches on each criterion, times the criterion's weight.
+            Papers already scored keep their scores when the rubric changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_12rem] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-title`}>Title</Label>
+              <Input id={`${id}-title`} placeholder="Narrative Writing" value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-subject`}>Subject</Label>
+              <Input id={`${id}-subject`} placeholder="English" value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor={`${id}-shared`}>Share with other teachers</Label>
+              <p className="text-xs text-muted-foreground">They can attach and copy it; only you can change it.</p>
+            </div>
+            <Switch id={`${id}-shared`} checked={draft.shared} onCheckedChange={(shared) => setDraft({ ...draft, shared })} />
+          </div>
+
+          {draft.criteria.map((criterion, i) => (
+            <CriterionEditor
+              key={criterion.id}
+              criterion={criterion}
+              onChange={(next) => setCriterion(i, next)}
+              onRemove={draft.criteria.length > 1
+                ? () => setDraft({ ...draft, criteria: draft.criteria.filter((_, j) => j !== i) })
+                : undefined}
+            />
+          ))}
+          <Button
+            variant="outline"
+            disabled={draft.criteria.length >= MAX_RUBRIC_CRITERIA}
+            onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, newCriterion()] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Criterion
+          </Button>
+        </div>
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            {problem ? (
+              <>
+                <AlertCircle className="h-4 w-4 text-warning" />
+                {problem}
+              </>
+            ) : (
+              `${rubricTotalPoints(draft)} points in total`
+            )}
+          </p>
+          <Button onClick={handleSave} disabled={saving || !!problem}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Rubric
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RubricEditorDialog;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { rubricPoints, scoreBreakdown } from '@/domain/rubrics';
+import type { Feedback } from '@/domain/types';
+
+// Background and number colour of each criterion tile, in turn
+const TILE_STYLES = [
+  ['bg-primary/5', 'text-primary'],
+  ['bg-warning/5', 'text-warning'],
+  ['bg-muted/20', '']
+];
+
+/**
+ * Per-criterion scores of a paper: the attached rubric's criteria when it
+ * was scored against one, otherwise the fixed grammar, creativity and
+ * handwriting scores. Tiles lead with the overall score; bars leave it to
+ * the caller.
+ */
+const ScoreBreakdown = ({
+  feedback,
+  variant = 'bars'
+}: {
+  feedback: Pick<Feedback, 'aiScore' | 'criteria' | 'rubricScores'>;
+  variant?: 'tiles' | 'bars';
+}) => {
+  const lines = scoreBreakdown(feedback);
+  const points = feedback.rubricScores?.length ? rubricPoints(feedback.rubricScores) : null;
+
+  if (variant === 'tiles') {
+    return (
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <div className="text-center p-3 bg-success/5 rounded-lg">
+          <p className="text-sm text-muted-foreground">Overall Score</p>
+          <p className="text-2xl font-bold text-success">{feedback.aiScore}%</p>
+          {points && <p className="text-xs text-muted-foreground">{points.earned}/{points.max} pts</p>}
+        </div>
+        {lines.map((line, i) => {
+          const [tile, score] = TILE_STYLES[i % TILE_STYLES.length];
+          return (
+            <div key={line.key} className={cn('text-center p-3 rounded-lg', tile)}>
+              <p className="text-sm text-muted-foreground truncate" title={line.label}>{line.label}</p>
+              <p className={cn('text-2xl font-bold', score)}>{line.percent}%</p>
+              {line.detail && <p className="text-xs text-muted-foreground truncate" title={line.detail}>{line.detail}</p>}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line) => (
+        <div key={line.key} className="space-y-1">
+          <div className="flex justify-between gap-2 text-sm">
+            <span>{line.label}</span>
+            <span className="font-medium">{line.percent}%</span>
+          </div>
+          <Progress value={line.percent} className="h-2" />
+          {line.detail && <p className="text-xs text-muted-foreground">{line.detail}</p>}
+        </div>
+      ))}
+      {points && <p className="text-xs text-muted-foreground text-right">{points.earned} of {points.max} points</p>}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
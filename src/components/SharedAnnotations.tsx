@@ -0,0 +1,31 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { rubricTagLabel, sortAnnotations } from '@/domain/annotations';
+import type { Annotation } from '@/domain/types';
+
+/**
+ * A teacher's notes on one paper as the student and their parents see them.
+ * Filters to shared notes itself, so a teacher previewing the portal sees the same.
+ */
+const SharedAnnotations = ({ annotations }: { annotations: Annotation[] }) => {
+  const shared = sortAnnotations(annotations.filter(a => a.sharedWithFamily));
+  if (shared.length === 0) return null;
+
+  return (
+    <div className="space-y-2 border-l-2 border-destructive/40 pl-3">
+      <p className="text-xs font-medium text-muted-foreground">Teacher's notes</p>
+      {shared.map((note) => (
+        <div key={note.id} className="space-y-1">
+          <div className="flex flex-wrap items-center gap-1">
+            {note.stamp && <Badge variant="destructive">{note.stamp}</Badge>}
+            {note.rubricTags.map((tag) => <Badge key={tag} variant="outline" className="text-xs">{rubricTagLabel(tag)}</Badge>)}
+            <span className="text-xs text-muted-foreground">Page {note.anchor.page}</span>
+          </div>
+          {note.comment && <p className="text-sm">{note.comment}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SharedAnnotations;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SIMILARITY_WARNING, schoolYear, schoolYearLabel } from '@/domain/similarity';
+import type { Paper, SimilarityMatch } from '@/domain/types';
+import { useClasses, useSimilarity, useStudentsByIds } from '@/hooks/use-portal-data';
+
+// Words of context either side of a passage
+const CONTEXT_WORDS = 6;
+
+/** One passage in its surroundings, with the shared words marked. */
+const Passage = ({ words, start, end }: { words: string[]; start: number; end: number }) => {
+  const from = Math.max(0, start - CONTEXT_WORDS);
+  const to = Math.min(words.length, end + CONTEXT_WORDS);
+  return (
+    <p className="text-sm leading-relaxed">
+      <span className="text-muted-foreground">
+        {from > 0 && '… '}
+        {words.slice(from, start).join(' ')}{' '}
+      </span>
+      <mark className="rounded bg-destructive/15 px-0.5 text-foreground">{words.slice(start, end).join(' ')}</mark>
+      <span className="text-muted-foreground">
+        {' '}{words.slice(end, to).join(' ')}
+        {to < words.length && ' …'}
+      </span>
+    </p>
+  );
+};
+
+/**
+ * Where a paper's text turns up in other submissions: each matching paper
+ * with its share of this one, and their shared passages side by side.
+ */
+const SimilarityDialog = ({
+  paper,
+  studentName,
+  onClose
+}: {
+  paper: Pick<Paper, 'id' | 'similarity'>;
+  studentName: string;
+  onClose: () => void;
+}) => {
+  const { data: report, isLoading } = useSimilarity(paper);
+  const { data: classes = [] } = useClasses();
+  const students = useStudentsByIds([...new Set(report?.matches.map(m => m.studentId) ?? [])]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = report?.matches.find(m => m.paperId === selectedId) ?? report?.matches[0];
+
+  const describe = (match: SimilarityMatch) => {
+    const className = classes.find(c => c.id === match.classId)?.name ?? 'Another class';
+    return {
+      name: students.find(s => s.id === match.studentId)?.name ?? 'Another student',
+      where: match.source === 'class' ? 'This class'
+        : match.source === 'other-class' ? className
+        : `${className}, ${schoolYearLabel(schoolYear(match.uploadedAt))}`
+    };
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Similar submissions</DialogTitle>
+          <DialogDescription>
+            {report
+              ? `${report.score}% of ${studentName}'s paper also appears in ${report.matches.length} other submission${report.matches.length === 1 ? '' : 's'}. ` +
+                'Shared passages are for you to judge: quotations and set phrases match too.'
+              : `Comparing ${studentName}'s paper with the other submissions…`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {report && report.matches.length === 0 && (
+          <p className="py-12 text-center text-sm text-muted-foreground">No passages match other submissions.</p>
+        )}
+        {report && selected && (
+          <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+            <div className="space-y-2">
+              {report.matches.map((match) => {
+                const { name, where } = describe(match);
+                return (
+                  <button
+                    key={match.paperId}
+                    onClick={() => setSelectedId(match.paperId)}
+                    className={cn(
+                      'w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted/50',
+                      match.paperId === selected.paperId && 'border-primary bg-primary/5'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{name}</span>
+                      <Badge variant={match.score >= SIMILARITY_WARNING ? 'destructive' : 'secondary'}>{match.score}%</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {where} • {match.passages.length} passage{match.passages.length === 1 ? '' : 's'}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-4 px-1 text-sm font-semibold">
+                <span>{studentName}</span>
+                <span>{describe(selected).name}</span>
+              </div>
+              <ScrollArea className="h-[60vh] rounded-lg border">
+                <div className="divide-y">
+                  {selected.passages.map((passage, i) => (
+                    <div key={i} className="grid grid-cols-2 gap-4 p-3">
+                      <Passage words={report.words} start={passage.start} end={passage.end} />
+                      <Passage words={selected.words} start={passage.otherStart} end={passage.otherEnd} />
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SimilarityDialog;
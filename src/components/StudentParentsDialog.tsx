@@ -0,0 +1,130 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, KeyRound, Loader2, Unlink, UserPlus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Student } from '@/domain/types';
+import { useToast } from '@/hooks/use-toast';
+import { useInviteParent, useParentLinks, useRevokeInvitation, useUnlinkParent } from '@/hooks/use-parent-links';
+
+const joinLink = (code: string) => `${window.location.origin}/join?code=${encodeURIComponent(code)}`;
+
+/** Parent access on a student's record: who is linked, and invitation codes waiting to be redeemed. */
+const StudentParentsDialog = ({
+  student,
+  onOpenChange
+}: {
+  student: Student | null;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const studentId = student?.id ?? '';
+  const { toast } = useToast();
+  const { data, isLoading } = useParentLinks(student?.id);
+  const invite = useInviteParent(studentId);
+  const revoke = useRevokeInvitation(studentId);
+  const unlink = useUnlinkParent(studentId);
+
+  const failed = (title: string) => () =>
+    toast({ title, description: "Please try again in a moment.", variant: "destructive" });
+
+  const copy = async (text: string, what: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: `${what} copied` });
+  };
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Parent access for {student?.name}</DialogTitle>
+          <DialogDescription>
+            Give a parent an invitation code. They enter it when creating their account (or from an existing one)
+            to see {student?.name.split(' ')[0]}'s progress and message you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Linked parents</h3>
+              {data?.parents.length ? data.parents.map((parent) => (
+                <div key={parent.userId} className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{parent.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">{parent.email}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={unlink.isPending}
+                    onClick={() => unlink.mutate(parent.userId, { onError: failed("Could not remove parent") })}
+                  >
+                    <Unlink className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                </div>
+              )) : (
+                <p className="text-sm text-muted-foreground">No parent accounts are linked yet.</p>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">Invitation codes</h3>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={invite.isPending}
+                  onClick={() => invite.mutate(undefined, { onError: failed("Could not create invitation") })}
+                >
+                  {invite.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                  New Code
+                </Button>
+              </div>
+              {data?.invitations.length ? data.invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <KeyRound className="h-4 w-4 text-muted-foreground" />
+                  <div className="flex-1">
+                    <p className="font-mono text-sm font-semibold tracking-wider">{invitation.code}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Works once, until {format(invitation.expiresAt, 'MMM d')}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className="hidden sm:inline-flex">Pending</Badge>
+                  <Button variant="ghost" size="icon" aria-label="Copy code" onClick={() => copy(invitation.code, 'Code')}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => copy(joinLink(invitation.code), 'Link')}>
+                    Copy Link
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Revoke code"
+                    disabled={revoke.isPending}
+                    onClick={() => revoke.mutate(invitation.id, { onError: failed("Could not revoke invitation") })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )) : (
+                <p className="text-sm text-muted-foreground">No open invitations.</p>
+              )}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentParentsDialog;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { TOTP_DIGITS } from '@/auth/totp';
+
+// Six-digit authenticator code entry, split 3 + 3 like most authenticator apps show it
+const TotpCodeInput = ({
+  value,
+  onChange,
+  onComplete,
+  disabled
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}) => (
+  <InputOTP
+    maxLength={TOTP_DIGITS}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+  >
+    <InputOTPGroup>
+      {[0, 1, 2].map((index) => <InputOTPSlot key={index} index={index} />)}
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      {[3, 4, 5].map((index) => <InputOTPSlot key={index} index={index} />)}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+export default TotpCodeInput;
@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import type { TotpEnrollment } from '@/auth/types';
+
+// QR code for authenticator apps, with the secret spelled out for manual entry
+const TotpEnrollmentCode = ({ enrollment }: { enrollment: TotpEnrollment }) => {
+  const [qr, setQr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(enrollment.otpauthUri, { margin: 1, width: 176 })
+      .then((url) => { if (!cancelled) setQr(url); })
+      .catch((error) => console.warn('Could not render QR code', error));
+    return () => { cancelled = true; };
+  }, [enrollment.otpauthUri]);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="h-44 w-44 rounded-lg border bg-white p-1">
+        {qr && <img src={qr} alt="QR code for your authenticator app" className="h-full w-full" />}
+      </div>
+      <div className="text-center space-y-1">
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <code className="block rounded bg-muted px-2 py-1 text-xs font-mono break-all">
+          {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+        </code>
+      </div>
+    </div>
+  );
+};
+
+export default TotpEnrollmentCode;
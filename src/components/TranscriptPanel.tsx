@@ -0,0 +1,122 @@
+import React, { useId } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, RotateCw, ScanText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import Can from '@/components/Can';
+import { flaggedWords, isLowConfidence } from '@/domain/ocr';
+import type { OcrPage, Paper } from '@/domain/types';
+import { useToast } from '@/hooks/use-toast';
+import { useTranscribePaper, useTranscript } from '@/hooks/use-portal-data';
+
+const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+/** Outlines the words OCR was unsure of on one page of a scan, for the teacher to check by eye. */
+export const FlaggedWordsLayer = ({ page }: { page?: OcrPage }) => (
+  <div className="pointer-events-none absolute inset-0">
+    {page?.words.filter(isLowConfidence).map((word, i) => (
+      <div
+        key={i}
+        title={`${word.text} (${percent(word.confidence)})`}
+        className="absolute rounded-sm border border-warning bg-warning/20"
+        style={{
+          left: `${word.box.x * 100}%`,
+          top: `${word.box.y * 100}%`,
+          width: `${word.box.width * 100}%`,
+          height: `${word.box.height * 100}%`
+        }}
+      />
+    ))}
+  </div>
+);
+
+/** The text OCR read off the current page, with words it was unsure of highlighted. */
+const TranscriptPanel = ({
+  paper,
+  page,
+  showBoxes,
+  onShowBoxesChange
+}: {
+  paper: Paper;
+  page: number;
+  showBoxes: boolean;
+  onShowBoxesChange: (show: boolean) => void;
+}) => {
+  const { toast } = useToast();
+  const { data: transcript } = useTranscript(paper);
+  const transcribe = useTranscribePaper();
+  const boxesId = useId();
+  const status = paper.transcript?.status;
+  const current = transcript?.pages.find(p => p.page === page);
+  const flagged = current ? flaggedWords([current]) : [];
+
+  const rerun = () => transcribe.mutate(paper.id, {
+    onError: () => toast({ title: 'Could not restart OCR', description: 'Please try again shortly.', variant: 'destructive' })
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ScanText className="h-5 w-5" />
+            Transcript
+          </CardTitle>
+          {transcript && <Badge variant="secondary">{percent(transcript.confidence)} confident</Badge>}
+        </div>
+        <CardDescription>
+          {!paper.file && 'Only uploaded scans are transcribed.'}
+          {status === 'pending' && 'Reading the handwriting…'}
+          {status === 'failed' && `OCR failed: ${paper.transcript?.error ?? 'unknown error'}`}
+          {status === 'complete' && (paper.transcript?.flaggedWords
+            ? `${paper.transcript.flaggedWords} words were hard to read; check them against the scan.`
+            : 'Every word was read clearly.')}
+        </CardDescription>
+      </CardHeader>
+      {paper.file && (
+        <CardContent className="space-y-4">
+          {status === 'pending' && <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />}
+          {current && (
+            <>
+              <p className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded-lg bg-muted/30 p-3 text-sm leading-relaxed">
+                {current.words.map((word, i) => (
+                  <React.Fragment key={i}>
+                    {i > 0 && ' '}
+                    <span
+                      title={`${percent(word.confidence)} confident`}
+                      className={cn(isLowConfidence(word) && 'rounded bg-warning/30 px-0.5 underline decoration-warning decoration-wavy')}
+                    >
+                      {word.text}
+                    </span>
+                  </React.Fragment>
+                ))}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Page {page}: {flagged.length === 0 ? 'nothing flagged' : `${flagged.length} flagged`}
+              </p>
+              {paper.file.contentType !== 'application/pdf' && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={boxesId} className="text-sm font-normal">Outline flagged words on the scan</Label>
+                  <Switch id={boxesId} checked={showBoxes} onCheckedChange={onShowBoxesChange} />
+                </div>
+              )}
+            </>
+          )}
+          {status !== 'pending' && (
+            <Can permission="papers:upload">
+              <Button variant="outline" size="sm" className="w-full" disabled={transcribe.isPending} onClick={rerun}>
+                <RotateCw className="h-4 w-4 mr-2" />
+                Run OCR Again
+              </Button>
+            </Can>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AuthError, type TwoFactorChallenge, type User } from '@/auth/types';
+import { TOTP_DIGITS } from '@/auth/totp';
+import TotpCodeInput from '@/components/TotpCodeInput';
+import TotpEnrollmentCode from '@/components/TotpEnrollmentCode';
+
+// Second sign-in step: an authenticator code, a backup code, or first-time setup when the school requires 2FA
+const TwoFactorLoginStep = ({
+  challenge,
+  onVerified,
+  onCancel
+}: {
+  challenge: TwoFactorChallenge;
+  onVerified: (result: { user: User; backupCodes?: string[] }) => void;
+  onCancel: () => void;
+}) => {
+  const { verifyTwoFactor } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  const enrolling = !!challenge.enrollment;
+
+  const submit = async (value = code) => {
+    if (!value.trim() || verifying) return;
+    try {
+      setVerifying(true);
+      onVerified(await verifyTwoFactor(challenge.challengeToken, value.trim()));
+    } catch (error) {
+      setCode('');
+      const expired = error instanceof AuthError && error.code === 'session_expired';
+      toast({
+        title: "Verification Failed",
+        description: error instanceof AuthError ? error.message : "Please try again in a moment.",
+        variant: "destructive"
+      });
+      if (expired) onCancel();
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="space-y-6">
+      {enrolling ? (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground text-center">
+            Your school requires two-factor authentication. Scan this code with an authenticator app,
+            then enter the {TOTP_DIGITS}-digit code it shows.
+          </p>
+          <TotpEnrollmentCode enrollment={challenge.enrollment!} />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center">
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when you set up two-factor authentication.'
+            : `Enter the ${TOTP_DIGITS}-digit code from your authenticator app.`}
+        </p>
+      )}
+
+      {useBackupCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="backup-code">Backup code</Label>
+          <Input id="backup-code" autoComplete="one-time-code" placeholder="xxxx-xxxx" value={code} onChange={(e) => setCode(e.target.value)} autoFocus />
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <TotpCodeInput value={code} onChange={setCode} onComplete={submit} disabled={verifying} />
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={verifying || !code.trim()}>
+        {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {enrolling ? 'Turn On & Sign In' : 'Verify'}
+      </Button>
+
+      <div className="flex justify-between text-xs">
+        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={onCancel}>
+          Back to sign in
+        </button>
+        {!enrolling && (
+          <button
+            type="button"
+            className="text-primary hover:underline"
+            onClick={() => { setUseBackupCode(!useBackupCode); setCode(''); }}
+          >
+            {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { KeyRound, Loader2, Shield } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AuthError, type TotpEnrollment } from '@/auth/types';
+import TotpCodeInput from '@/components/TotpCodeInput';
+import TotpEnrollmentCode from '@/components/TotpEnrollmentCode';
+import BackupCodeList from '@/components/BackupCodeList';
+
+type Flow = 'enroll' | 'backup-codes' | 'disable';
+
+// Account Security row for turning TOTP two-factor authentication on and off
+const TwoFactorSection = () => {
+  const auth = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const statusKey = ['two-factor', auth.user?.id];
+  const { data: status } = useQuery({ queryKey: statusKey, queryFn: auth.twoFactorStatus, enabled: !!auth.user });
+
+  const [flow, setFlow] = useState<Flow | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [issuedCodes, setIssuedCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setFlow(null);
+    setEnrollment(null);
+    setCode('');
+    setPassword('');
+    setIssuedCodes(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action();
+      queryClient.invalidateQueries({ queryKey: statusKey });
+    } catch (error) {
+      setCode('');
+      toast({
+        title: "Something went wrong",
+        description: error instanceof AuthError ? error.message : "Please try again in a moment.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEnrollment = () => run(async () => {
+    setEnrollment(await auth.startTwoFactorEnrollment());
+    setFlow('enroll');
+  });
+
+  const submit = (value = code) => {
+    if (flow === 'disable') {
+      return run(async () => {
+        await auth.disableTwoFactor(password);
+        toast({ title: "Two-factor authentication turned off" });
+        close();
+      });
+    }
+    if (value.length < 6) return;
+    return run(async () => {
+      setIssuedCodes(flow === 'enroll'
+        ? await auth.confirmTwoFactorEnrollment(value)
+        : await auth.regenerateBackupCodes(value));
+    });
+  };
+
+  const titles: Record<Flow, string> = {
+    enroll: issuedCodes ? 'Save your backup codes' : 'Set up two-factor authentication',
+    'backup-codes': issuedCodes ? 'Your new backup codes' : 'Generate new backup codes',
+    disable: 'Turn off two-factor authentication'
+  };
+
+  const descriptions: Record<Flow, string> = {
+    enroll: issuedCodes
+      ? 'Two-factor authentication is on. You will need a code each time you sign in.'
+      : 'Scan the QR code with an authenticator app, then enter the code it shows.',
+    'backup-codes': issuedCodes
+      ? 'Your previous backup codes no longer work.'
+      : 'Enter a code from your authenticator app. Your current backup codes will stop working.',
+    disable: 'Enter your password to confirm. Signing in will only need your password again.'
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            Two-Factor Authentication
+            {status?.required && <Badge variant="secondary">Required by your school</Badge>}
+          </h4>
+          <p className="text-sm text-muted-foreground">
+            {status?.enabled
+              ? `On · ${status.backupCodesRemaining} backup code${status.backupCodesRemaining === 1 ? '' : 's'} left`
+              : 'Not enabled'}
+          </p>
+        </div>
+        {status?.enabled ? (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setFlow('backup-codes')}>
+              <KeyRound className="h-4 w-4 mr-2" />
+              New Backup Codes
+            </Button>
+            {!status.required && (
+              <Button variant="outline" onClick={() => setFlow('disable')}>
+                Turn Off
+              </Button>
+            )}
+          </div>
+        ) : (
+          <Button variant="outline" onClick={startEnrollment} disabled={busy || !status}>
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Shield className="h-4 w-4 mr-2" />}
+            Enable 2FA
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={flow !== null} onOpenChange={(open) => !open && close()}>
+        {flow && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{titles[flow]}</DialogTitle>
+              <DialogDescription>{descriptions[flow]}</DialogDescription>
+            </DialogHeader>
+
+            {issuedCodes ? (
+              <>
+                <BackupCodeList codes={issuedCodes} />
+                <DialogFooter>
+                  <Button onClick={close}>Done</Button>
+                </DialogFooter>
+              </>
+            ) : (
+              <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="space-y-6">
+                {flow === 'enroll' && enrollment && <TotpEnrollmentCode enrollment={enrollment} />}
+                {flow === 'disable' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="disable-password">Password</Label>
+                    <Input id="disable-password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <TotpCodeInput value={code} onChange={setCode} onComplete={submit} disabled={busy} />
+                  </div>
+                )}
+                <DialogFooter>
+                  <Button type="submit" disabled={busy || (flow === 'disable' ? !password : code.length < 6)}>
+                    {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {flow === 'enroll' ? 'Turn On' : flow === 'disable' ? 'Turn Off' : 'Generate Codes'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            )}
+          </DialogContent>
+        )}
+      </Dialog>
+    </>
+  );
+};
+
+export default TwoFactorSection;
@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, CheckCircle, FileText, Loader2, Upload, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_PAPER_BYTES, PAPER_FILE_ACCEPT, formatBytes, paperFileProblem } from '@/domain/uploads';
+import { countPdfPages, createThumbnail, readFileAsDataUrl } from '@/lib/paper-files';
+import { useToast } from '@/hooks/use-toast';
+import { useAssignments, useStudents, useUploadPaper } from '@/hooks/use-portal-data';
+
+type UploadState = 'ready' | 'uploading' | 'done' | 'failed';
+
+interface QueuedFile {
+  key: string;
+  file: File;
+  studentId: string;
+  assignmentId: string;
+  state: UploadState;
+  progress: number;
+  thumbnail?: string;
+  pageCount?: number;
+  error?: string;
+}
+
+let nextKey = 0;
+
+/** Drop zone accepting PDFs and images; shared by the page and the dialog. */
+export const PaperDropZone = ({
+  onFiles,
+  className,
+  children
+}: {
+  onFiles: (files: File[]) => void;
+  className?: string;
+  children: (browse: () => void) => React.ReactNode;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  return (
+    <div
+      className={cn('border-dashed border-2 rounded-lg transition-colors', dragging ? 'border-primary bg-primary/10' : 'border-primary/30 bg-primary/5', className)}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        if (e.dataTransfer.files.length > 0) onFiles([...e.dataTransfer.files]);
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={PAPER_FILE_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.length) onFiles([...e.target.files]);
+          // Let the same file be picked again after it was removed
+          e.target.value = '';
+        }}
+      />
+      {children(() => inputRef.current?.click())}
+    </div>
+  );
+};
+
+/** Queues scans, assigns each to a student and assignment, and uploads them one at a time. */
+const UploadPapersDialog = ({
+  classId,
+  initialFiles,
+  onClose
+}: {
+  classId: string;
+  initialFiles: File[];
+  onClose: () => void;
+}) => {
+  const { data: students = [] } = useStudents({ classId });
+  const { data: assignments = [] } = useAssignments({ classId });
+  const upload = useUploadPaper();
+  const { toast } = useToast();
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const update = (key: string, change: Partial<QueuedFile>) =>
+    setQueue(items => items.map(item => (item.key === key ? { ...item, ...change } : item)));
+
+  const addFiles = (files: File[]) => {
+    const problems = files.map(paperFileProblem).filter((p): p is string => !!p);
+    const accepted = files.filter(file => !paperFileProblem(file)).map((file): QueuedFile => ({
+      key: `upload-${nextKey++}`,
+      file,
+      studentId: '',
+      assignmentId: '',
+      state: 'ready',
+      progress: 0
+    }));
+    setRejected(problems);
+    setQueue(items => [...items, ...accepted]);
+    // Thumbnails and page counts fill in as they are ready
+    for (const item of accepted) {
+      Promise.all([createThumbnail(item.file), countPdfPages(item.file)])
+        .then(([thumbnail, pageCount]) => update(item.key, { thumbnail, pageCount }))
+        .catch(() => undefined);
+    }
+  };
+
+  // Files dropped on the page before the dialog opened
+  const addedInitial = useRef(false);
+  useEffect(() => {
+    if (addedInitial.current) return;
+    addedInitial.current = true;
+    if (initialFiles.length > 0) addFiles(initialFiles);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const waiting = queue.filter(item => item.state === 'ready' || item.state === 'failed');
+  const complete = waiting.length > 0 && waiting.every(item => item.studentId && item.assignmentId);
+
+  const assignAll = (assignmentId: string) =>
+    setQueue(items => items.map(item => (item.state === 'done' ? item : { ...item, assignmentId })));
+
+  const startUpload = async () => {
+    setRunning(true);
+    let uploaded = 0;
+    for (const item of waiting) {
+      update(item.key, { state: 'uploading', progress: 0, error: undefined });
+      try {
+        await upload.mutateAsync({
+          input: {
+            studentId: item.studentId,
+            assignmentId: item.assignmentId,
+            fileName: item.file.name,
+            content: await readFileAsDataUrl(item.file),
+            thumbnail: item.thumbnail,
+            pageCount: item.pageCount
+          },
+          onProgress: (progress) => update(item.key, { progress })
+        });
+        update(item.key, { state: 'done', progress: 1 });
+        uploaded++;
+      } catch (error) {
+        update(item.key, { state: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+    }
+    setRunning(false);
+
+    if (uploaded === waiting.length) {
+      toast({ title: `${uploaded} ${uploaded === 1 ? 'paper' : 'papers'} uploaded`, description: 'They are listed as pending until analysed.' });
+      onClose();
+    } else {
+      toast({
+        title: 'Some papers were not uploaded',
+        description: `${uploaded} of ${waiting.length} uploaded. Check the failed files and try again.`,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open && !running) onClose(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Upload Student Papers</DialogTitle>
+          <DialogDescription>
+            PDF or image scans up to {formatBytes(MAX_PAPER_BYTES)} each. Choose the student and assignment for every file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <PaperDropZone onFiles={addFiles} className="p-6">
+          {(browse) => (
+            <div className="flex flex-col items-center gap-2 text-center">
+              <Upload className="h-6 w-6 text-primary" />
+              <p className="text-sm text-muted-foreground">Drop more files here, or</p>
+              <Button variant="outline" size="sm" onClick={browse} disabled={running}>Choose Files</Button>
+            </div>
+          )}
+        </PaperDropZone>
+
+        {rejected.length > 0 && (
+          <div className="space-y-1 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+            {rejected.map((problem) => <p key={problem}>{problem}</p>)}
+          </div>
+        )}
+
+        {queue.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label className="text-sm font-medium">{queue.length} {queue.length === 1 ? 'file' : 'files'}</Label>
+              <Select onValueChange={assignAll} disabled={running}>
+                <SelectTrigger className="w-64" aria-label="Assignment for all files">
+                  <SelectValue placeholder="Set assignment for all" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignments.map((a) => <SelectItem key={a.id} value={a.id}>{a.title}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="max-h-80 space-y-2 overflow-y-auto pr-1">
+              {queue.map((item) => {
+                const locked = running || item.state === 'done' || item.state === 'uploading';
+                return (
+                  <div key={item.key} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-center gap-3">
+                      {item.thumbnail ? (
+                        <img src={item.thumbnail} alt="" className="h-12 w-12 rounded object-cover border" />
+                      ) : (
+                        <div className="flex h-12 w-12 items-center justify-center rounded border bg-muted/30">
+                          <FileText className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{item.file.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatBytes(item.file.size)}
+                          {item.pageCount && ` · ${item.pageCount} ${item.pageCount === 1 ? 'page' : 'pages'}`}
+                        </p>
+                      </div>
+                      <Select value={item.studentId} onValueChange={(studentId) => update(item.key, { studentId })} disabled={locked}>
+                        <SelectTrigger className="w-40" aria-label={`Student for ${item.file.name}`}>
+                          <SelectValue placeholder="Student" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {students.map((s) => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <Select value={item.assignmentId} onValueChange={(assignmentId) => update(item.key, { assignmentId })} disabled={locked}>
+                        <SelectTrigger className="w-48" aria-label={`Assignment for ${item.file.name}`}>
+                          <SelectValue placeholder="Assignment" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignments.map((a) => <SelectItem key={a.id} value={a.id}>{a.title}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      {item.state === 'done' ? (
+                        <CheckCircle className="h-4 w-4 shrink-0 text-success" aria-label="Uploaded" />
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          aria-label={`Remove ${item.file.name}`}
+                          disabled={locked}
+                          onClick={() => setQueue(items => items.filter(i => i.key !== item.key))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {item.state === 'uploading' && <Progress value={item.progress * 100} className="h-1.5" />}
+                    {item.state === 'failed' && (
+                      <p className="flex items-center gap-1 text-xs text-destructive">
+                        <AlertCircle className="h-3 w-3" />
+                        {item.error}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={running}>Cancel</Button>
+          <Button onClick={startUpload} disabled={!complete || running}>
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload {waiting.length > 0 ? waiting.length : ''} {waiting.length === 1 ? 'Paper' : 'Papers'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UploadPapersDialog;
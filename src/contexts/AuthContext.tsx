@@ -1,99 +1,384 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-
-export type UserRole = 'teacher' | 'parent' | 'student';
-
-export interface User {
-  id: string;
-  name: string;
-  role: UserRole;
-  email: string;
-  avatar?: string;
-  // Teacher specific
-  classId?: string;
-  subject?: string;
-  // Parent specific
-  children?: string[];
-  // Student specific
-  parentId?: string;
-  grade?: string;
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  AuthError,
+  isTwoFactorChallenge,
+  type AuthSession,
+  type ParentInvitation,
+  type ParentSignUpInput,
+  type SsoProviderSummary,
+  type StudentParentLinks,
+  type TotpEnrollment,
+  type TwoFactorChallenge,
+  type TwoFactorStatus,
+  type User,
+  type UserRole
+} from '@/auth/types';
+import type { Repositories } from '@/domain/repositories';
+import { createAccountStore } from '@/auth/accounts';
+import {
+  activeStaffRule,
+  addToTeacherRoster,
+  createLocalAuthService,
+  schoolMfaTrustRule,
+  studentAccessRule,
+  teacherTwoFactorRule,
+  type AuthService,
+  type NewAccountInput
+} from '@/auth/service';
+import { createHttpAuthService } from '@/auth/http';
+import { STANDIN_MAPPING, createStandInIdp } from '@/auth/idp-standin';
+import { createInvitationStore } from '@/auth/invitations';
+import { pkceChallenge, randomUrlToken } from '@/auth/oidc';
+import { createOutbox } from '@/auth/outbox';
+import { createResetTokenStore } from '@/auth/resets';
+import { createSessionRegistry } from '@/auth/sessions';
+import { createTokenSigner, loadOrCreateSecret } from '@/auth/tokens';
+import { useRepositories } from '@/contexts/RepositoryContext';
+import {
+  LEGACY_USER_KEY,
+  SESSION_STORAGE_KEY,
+  clearStoredSession,
+  readStoredSession,
+  storeSession,
+  type StoredSession
+} from '@/auth/persistence';
+
+export type { User, UserRole } from '@/auth/types';
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string, role: UserRole) => Promise<void>;
+  /**
+   * Resolves with the signed-in user, or with a challenge to pass to verifyTwoFactor
+   * when the account needs a second factor. Rejects with AuthError on bad credentials or lockout.
+   */
+  login: (email: string, password: string) => Promise<User | TwoFactorChallenge>;
+  /** Finishes a challenged sign-in; backup codes are returned when it also completed enrolment. */
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<{ user: User; backupCodes?: string[] }>;
+  /** Ends the session here and in every other open tab. */
   logout: () => void;
+  /** Moves this session to another of the user's portals; rejects if the role is not held. */
+  switchRole: (role: UserRole) => Promise<User>;
+  /** Creates a sign-in account for someone else; administrators only. */
+  provisionAccount: (input: NewAccountInput) => Promise<User>;
+  /** Deletes someone else's sign-in account; administrators only. */
+  removeAccount: (userId: string) => Promise<void>;
+  /** Rejects with AuthError when the current password is wrong or the new one is too weak. */
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /** Sends a reset link to the address if it has an account; never reveals whether it does. */
+  requestPasswordReset: (email: string) => Promise<void>;
+  /** Spends a reset token; the user then signs in with the new password. */
+  resetPassword: (token: string, newPassword: string) => Promise<void>;
+  twoFactorStatus: () => Promise<TwoFactorStatus>;
+  startTwoFactorEnrollment: () => Promise<TotpEnrollment>;
+  /** Returns the backup codes; they cannot be retrieved again later. */
+  confirmTwoFactorEnrollment: (code: string) => Promise<string[]>;
+  regenerateBackupCodes: (code: string) => Promise<string[]>;
+  disableTwoFactor: (password: string) => Promise<void>;
+  ssoProviders: () => Promise<SsoProviderSummary[]>;
+  /**
+   * Resolves with the provider's sign-in page to send the browser to; the provider returns it to
+   * /auth/callback. `returnTo` is the page to open once signed in.
+   */
+  beginSso: (providerId: string, returnTo?: string) => Promise<string>;
+  /**
+   * Finishes single sign-on with the callback's query parameters. Like login, resolves with a
+   * challenge when the account still has to pass its second factor.
+   */
+  completeSso: (callback: { code?: string | null; state?: string | null; error?: string | null }) =>
+    Promise<{ user: User; returnTo: string } | { challenge: TwoFactorChallenge; returnTo: string }>;
+  parentLinks: (studentId: string) => Promise<StudentParentLinks>;
+  inviteParent: (studentId: string) => Promise<ParentInvitation>;
+  revokeInvitation: (studentId: string, invitationId: string) => Promise<void>;
+  unlinkParent: (studentId: string, parentUserId: string) => Promise<void>;
+  /** Creates a parent account from an invitation code and signs it in. */
+  signUpParent: (input: ParentSignUpInput) => Promise<User>;
+  /** Links the signed-in account to the code's student and opens the parent portal. */
+  acceptInvitation: (code: string) => Promise<User>;
   isAuthenticated: boolean;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Mock user data for prototype
-const mockUsers: Record<UserRole, User> = {
-  teacher: {
-    id: 'teacher-1',
-    name: 'Ms. Sarah Johnson',
-    role: 'teacher',
-    email: 'sarah.johnson@edubridge.com',
-    avatar: '/api/placeholder/40/40',
-    classId: 'class-5a',
-    subject: 'English & Literature'
-  },
-  parent: {
-    id: 'parent-1',
-    name: 'Mr. Raj Sharma',
-    role: 'parent',
-    email: 'raj.sharma@gmail.com',
-    avatar: '/api/placeholder/40/40',
-    children: ['student-1']
-  },
-  student: {
-    id: 'student-1',
-    name: 'Aadhya Sharma',
-    role: 'student',
-    email: 'aadhya.sharma@student.edubridge.com',
-    avatar: '/api/placeholder/40/40',
-    parentId: 'parent-1',
-    grade: '5th Grade'
-  }
-};
+// Refresh this long before the access token expires so requests never carry a stale one
+const REFRESH_LEAD_MS = 60 * 1000;
+
+// PKCE verifier, state and nonce for the sign-in in flight, kept for this tab only
+const SSO_PENDING_KEY = 'edubridge-sso-pending';
+
+interface PendingSso {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+}
+
+// Use the local REST backend when configured, otherwise the browser-local account store
+function createDefaultAuthService(repositories: Repositories): AuthService {
+  const apiUrl = import.meta.env.VITE_API_URL;
+  return apiUrl
+    ? createHttpAuthService(apiUrl)
+    : createLocalAuthService({
+        accounts: createAccountStore(localStorage),
+        sessions: createSessionRegistry(localStorage),
+        signer: createTokenSigner(loadOrCreateSecret(localStorage)),
+        resets: createResetTokenStore(localStorage),
+        outbox: createOutbox(localStorage),
+        invitations: createInvitationStore(localStorage)
+      }, {
+        requireTwoFactor: teacherTwoFactorRule(repositories),
+        trustSsoTwoFactor: schoolMfaTrustRule(repositories),
+        // Anyone can sign in as anyone in the stand-in's directory, so it is opt-in
+        sso: import.meta.env.VITE_STANDIN_IDP === 'true'
+          ? [{
+            provider: createStandInIdp(localStorage, { redirectUris: [`${window.location.origin}/auth/callback`] }).provider,
+            mapping: STANDIN_MAPPING
+          }]
+          : [],
+        onSsoAccountCreated: addToTeacherRoster(repositories),
+        canManageStudent: studentAccessRule(repositories),
+        isActive: activeStaffRule(repositories)
+      });
+}
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
+export function AuthProvider({
+  children,
+  authService
+}: {
+  children: React.ReactNode;
+  authService?: AuthService;
+}) {
+  const repositories = useRepositories();
+  const [service] = useState<AuthService>(() => authService ?? createDefaultAuthService(repositories));
   const [user, setUser] = useState<User | null>(null);
+  const [tokens, setTokens] = useState<StoredSession | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const adopt = useCallback((session: AuthSession) => {
+    setUser(session.user);
+    setTokens(storeSession(localStorage, session));
+  }, []);
+
+  const clear = useCallback(() => {
+    setUser(null);
+    setTokens(null);
+    clearStoredSession(localStorage);
+  }, []);
+
+  // Resolve a stored session: trust the access token if it still verifies, else try to refresh
+  const restore = useCallback(async (stored: StoredSession) => {
+    if (stored.accessExpiresAt > Date.now()) {
+      try {
+        setUser(await service.authenticate(stored.accessToken));
+        setTokens(stored);
+        return;
+      } catch {
+        // Fall through to the refresh token
+      }
+    }
+    try {
+      adopt(await service.refresh(stored.refreshToken));
+    } catch {
+      clear();
+    }
+  }, [service, adopt, clear]);
+
   useEffect(() => {
-    // Check if user is already logged in
-    const savedUser = localStorage.getItem('edubridge-user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
+    localStorage.removeItem(LEGACY_USER_KEY);
+    const stored = readStoredSession(localStorage);
+    if (!stored) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
-  }, []);
+    restore(stored).finally(() => setLoading(false));
+  }, [restore]);
+
+  // Silent refresh shortly before the access token lapses
+  useEffect(() => {
+    if (!tokens) return;
+    const timer = window.setTimeout(() => {
+      service.refresh(tokens.refreshToken).then(adopt, (error) => {
+        if (error instanceof AuthError) clear();
+        else console.warn('Session refresh failed', error);
+      });
+    }, Math.max(0, tokens.accessExpiresAt - Date.now() - REFRESH_LEAD_MS));
+    return () => window.clearTimeout(timer);
+  }, [tokens, service, adopt, clear]);
 
-  const login = async (email: string, password: string, role: UserRole) => {
+  // Other tabs write the same key: follow their sign-ins, refreshes and sign-outs
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== null && event.key !== SESSION_STORAGE_KEY) return;
+      const stored = readStoredSession(localStorage);
+      if (!stored) {
+        setUser(null);
+        setTokens(null);
+        return;
+      }
+      service.authenticate(stored.accessToken).then(
+        (next) => {
+          setUser(next);
+          setTokens(stored);
+        },
+        () => restore(stored)
+      );
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [service, restore]);
+
+  const login = async (email: string, password: string) => {
     setLoading(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock authentication - in real app, validate credentials
-    const mockUser = mockUsers[role];
-    setUser(mockUser);
-    localStorage.setItem('edubridge-user', JSON.stringify(mockUser));
-    
-    setLoading(false);
+    try {
+      const result = await service.login(email, password);
+      if (isTwoFactorChallenge(result)) return result;
+      adopt(result);
+      return result.user;
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('edubridge-user');
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const { backupCodes, ...session } = await service.verifyTwoFactor(challengeToken, code);
+    adopt(session);
+    return { user: session.user, backupCodes };
+  };
+
+  const logout = useCallback(() => {
+    const stored = readStoredSession(localStorage);
+    clear();
+    if (stored) {
+      service.logout(stored.refreshToken).catch((error) => console.warn('Failed to revoke session', error));
+    }
+  }, [service, clear]);
+
+  const switchRole = async (role: UserRole) => {
+    if (!tokens) throw new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+    const switched = await service.switchRole(tokens.accessToken, role);
+    setUser(switched);
+    return switched;
+  };
+
+  const provisionAccount = async (input: NewAccountInput) => {
+    if (!tokens) throw new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+    return service.provisionAccount(tokens.accessToken, input);
+  };
+
+  const removeAccount = async (userId: string) => {
+    if (!tokens) throw new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+    await service.removeAccount(tokens.accessToken, userId);
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!tokens) throw new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+    await service.changePassword(tokens.accessToken, currentPassword, newPassword);
+  };
+
+  const requestPasswordReset = (email: string) => service.requestPasswordReset(email);
+
+  const resetPassword = (token: string, newPassword: string) => service.resetPassword(token, newPassword);
+
+  // Account security calls all act on the signed-in session
+  const accessToken = () => {
+    if (!tokens) throw new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+    return tokens.accessToken;
+  };
+
+  const twoFactorStatus = async () => service.twoFactorStatus(accessToken());
+  const startTwoFactorEnrollment = async () => service.startTwoFactorEnrollment(accessToken());
+  const confirmTwoFactorEnrollment = async (code: string) => service.confirmTwoFactorEnrollment(accessToken(), code);
+  const regenerateBackupCodes = async (code: string) => service.regenerateBackupCodes(accessToken(), code);
+  const disableTwoFactor = async (password: string) => service.disableTwoFactor(accessToken(), password);
+
+  const parentLinks = async (studentId: string) => service.parentLinks(accessToken(), studentId);
+  const inviteParent = async (studentId: string) => service.inviteParent(accessToken(), studentId);
+  const revokeInvitation = async (studentId: string, invitationId: string) =>
+    service.revokeInvitation(accessToken(), studentId, invitationId);
+  const unlinkParent = async (studentId: string, parentUserId: string) =>
+    service.unlinkParent(accessToken(), studentId, parentUserId);
+
+  const signUpParent = async (input: ParentSignUpInput) => {
+    const session = await service.signUpParent(input);
+    adopt(session);
+    return session.user;
+  };
+
+  const acceptInvitation = async (code: string) => {
+    const linked = await service.acceptInvitation(accessToken(), code);
+    setUser(linked);
+    return linked;
+  };
+
+  const ssoProviders = () => service.ssoProviders();
+
+  const beginSso = async (providerId: string, returnTo = '/dashboard') => {
+    const pending: PendingSso = {
+      providerId,
+      returnTo,
+      state: randomUrlToken(),
+      nonce: randomUrlToken(),
+      codeVerifier: randomUrlToken(),
+      redirectUri: `${window.location.origin}/auth/callback`
+    };
+    const url = await service.beginSso(providerId, {
+      state: pending.state,
+      nonce: pending.nonce,
+      codeChallenge: await pkceChallenge(pending.codeVerifier),
+      redirectUri: pending.redirectUri
+    });
+    sessionStorage.setItem(SSO_PENDING_KEY, JSON.stringify(pending));
+    return url;
+  };
+
+  const completeSso = async ({ code, state, error }: { code?: string | null; state?: string | null; error?: string | null }) => {
+    const raw = sessionStorage.getItem(SSO_PENDING_KEY);
+    sessionStorage.removeItem(SSO_PENDING_KEY);
+    const pending: PendingSso | null = raw ? JSON.parse(raw) : null;
+    if (error === 'access_denied') throw new AuthError('sso_failed', 'Sign-in was cancelled.');
+    // A state we did not issue means the response belongs to another sign-in, or was forged
+    if (!pending || !code || !state || state !== pending.state) {
+      throw new AuthError('sso_failed', 'Single sign-on could not be completed. Please try again.');
+    }
+    const session = await service.completeSso(pending.providerId, {
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: pending.redirectUri,
+      nonce: pending.nonce
+    });
+    const returnTo = pending.returnTo ?? '/dashboard';
+    if (isTwoFactorChallenge(session)) return { challenge: session, returnTo };
+    adopt(session);
+    return { user: session.user, returnTo };
   };
 
   const value = {
     user,
     login,
     logout,
+    switchRole,
+    provisionAccount,
+    removeAccount,
+    changePassword,
+    requestPasswordReset,
+    resetPassword,
+    verifyTwoFactor,
+    twoFactorStatus,
+    startTwoFactorEnrollment,
+    confirmTwoFactorEnrollment,
+    regenerateBackupCodes,
+    disableTwoFactor,
+    ssoProviders,
+    beginSso,
+    completeSso,
+    parentLinks,
+    inviteParent,
+    revokeInvitation,
+    unlinkParent,
+    signUpParent,
+    acceptInvitation,
     isAuthenticated: !!user,
     loading
   };
@@ -105,10 +390,34 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   );
 }
 
+/**
+ * Shows `user` as the signed-in user to everything below, for a read-only
+ * preview of another portal. Every auth action is refused there, so nothing
+ * in the preview can sign out, switch roles or change the real account.
+ */
+export function PreviewAuthProvider({ user, children }: { user: User; children: React.ReactNode }) {
+  const auth = useAuth();
+  const value = useMemo(() => {
+    const refuse = () => {
+      throw new AuthError('forbidden', 'Previews are read-only.');
+    };
+    const actions = Object.fromEntries(
+      Object.entries(auth).map(([key, entry]) => [key, typeof entry === 'function' ? refuse : entry])
+    ) as unknown as AuthContextType;
+    return { ...actions, user, isAuthenticated: true, loading: false };
+  }, [auth, user]);
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
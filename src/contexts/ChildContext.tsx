@@ -0,0 +1,56 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { Student } from '@/domain/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIsPreview } from '@/contexts/PreviewContext';
+import { useStudentsByIds } from '@/hooks/use-portal-data';
+
+interface ChildContextType {
+  /** The parent's children, in the order of their memberships. */
+  students: Student[];
+  selectedChildId: string | undefined;
+  selectedChild: Student | undefined;
+  selectChild: (studentId: string) => void;
+}
+
+const ChildContext = createContext<ChildContextType | undefined>(undefined);
+
+const selectionKey = (userId: string) => `edubridge-selected-child:${userId}`;
+
+/** Tracks which child the parent portal is showing; remembered per parent across visits. */
+export function ChildProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const preview = useIsPreview();
+  const childIds = user?.children ?? [];
+  const students = useStudentsByIds(childIds);
+  const [selected, setSelected] = useState<string | undefined>(() =>
+    user && !preview ? localStorage.getItem(selectionKey(user.id)) ?? undefined : undefined
+  );
+
+  // Fall back to the first child when the stored choice is not (or no longer) one of theirs
+  const selectedChildId = selected && childIds.includes(selected) ? selected : childIds[0];
+
+  useEffect(() => {
+    if (user && selectedChildId && !preview) localStorage.setItem(selectionKey(user.id), selectedChildId);
+  }, [user, selectedChildId, preview]);
+
+  const value = {
+    students,
+    selectedChildId,
+    selectedChild: students.find(s => s.id === selectedChildId),
+    selectChild: setSelected
+  };
+
+  return (
+    <ChildContext.Provider value={value}>
+      {children}
+    </ChildContext.Provider>
+  );
+}
+
+export function useSelectedChild() {
+  const context = useContext(ChildContext);
+  if (context === undefined) {
+    throw new Error('useSelectedChild must be used within a ChildProvider');
+  }
+  return context;
+}
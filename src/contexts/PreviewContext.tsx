@@ -0,0 +1,31 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import type { User } from '@/auth/types';
+import { readOnlyRepositories } from '@/auth/guard';
+import { PreviewAuthProvider } from '@/contexts/AuthContext';
+import { RepositoryProvider, useRepositories } from '@/contexts/RepositoryContext';
+
+const PreviewContext = createContext(false);
+
+/**
+ * Renders another portal's pages as `user` would see them: reads come from
+ * the real repositories, every write and auth action is refused.
+ */
+export function PreviewProvider({ user, children }: { user: User; children: React.ReactNode }) {
+  const repositories = useRepositories();
+  const readOnly = useMemo(() => readOnlyRepositories(repositories), [repositories]);
+
+  return (
+    <PreviewContext.Provider value={true}>
+      <PreviewAuthProvider user={user}>
+        <RepositoryProvider repositories={readOnly}>
+          {children}
+        </RepositoryProvider>
+      </PreviewAuthProvider>
+    </PreviewContext.Provider>
+  );
+}
+
+/** True inside a preview, where nothing may be saved (not even UI preferences). */
+export function useIsPreview() {
+  return useContext(PreviewContext);
+}
@@ -0,0 +1,67 @@
+import React, { createContext, useContext, useRef, useState } from 'react';
+import type { Repositories } from '@/domain/repositories';
+import { createMemoryRepositories } from '@/domain/memory';
+import { createHttpRepositories } from '@/domain/http';
+import { readStoredSession } from '@/auth/persistence';
+import { auditRepositories } from '@/auth/audit';
+import { guardRepositories } from '@/auth/guard';
+import { useAuth } from '@/contexts/AuthContext';
+
+const RepositoryContext = createContext<Repositories | undefined>(undefined);
+
+// Talk to the local REST backend when VITE_API_URL is set, otherwise use fixtures
+function createDefaultRepositories(): Repositories {
+  const apiUrl = import.meta.env.VITE_API_URL;
+  return apiUrl
+    ? createHttpRepositories(apiUrl, () => readStoredSession(localStorage)?.accessToken)
+    : createMemoryRepositories();
+}
+
+export function RepositoryProvider({
+  children,
+  repositories
+}: {
+  children: React.ReactNode;
+  repositories?: Repositories;
+}) {
+  // Created once per provider so the in-memory store survives re-renders
+  const [value] = useState<Repositories>(() => repositories ?? createDefaultRepositories());
+
+  return (
+    <RepositoryContext.Provider value={value}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+}
+
+/**
+ * Re-provides the repositories with writes checked against the
+ * signed-in user's permissions, and sensitive writes to the
+ * browser-local store audited. Sits inside AuthProvider; the REST
+ * backend repeats the same checks and keeps its own audit log.
+ */
+export function GuardedRepositoryProvider({ children }: { children: React.ReactNode }) {
+  const repositories = useRepositories();
+  const { user } = useAuth();
+  const userRef = useRef(user);
+  userRef.current = user;
+  const [value] = useState<Repositories>(() => {
+    const getUser = () => userRef.current;
+    const audited = import.meta.env.VITE_API_URL ? repositories : auditRepositories(repositories, getUser);
+    return guardRepositories(audited, getUser);
+  });
+
+  return (
+    <RepositoryContext.Provider value={value}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+}
+
+export function useRepositories() {
+  const context = useContext(RepositoryContext);
+  if (context === undefined) {
+    throw new Error('useRepositories must be used within a RepositoryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,60 @@
+import type { Exam, Feedback } from './types';
+
+// ------------------------------------------------------------
+// Student Alerts
+// ------------------------------------------------------------
+// Notifications shown to parents, derived from released feedback
+// and exam trends rather than stored, so they always agree with
+// what the teacher has published.
+// ------------------------------------------------------------
+
+export type AlertType = 'achievement' | 'improvement' | 'attention';
+
+export interface StudentAlert {
+  id: string;
+  studentId: string;
+  type: AlertType;
+  message: string;
+  date: string; // ISO date of the underlying feedback or exam
+}
+
+export function deriveAlerts(studentId: string, feedback: Feedback[], exams: Exam[]): StudentAlert[] {
+  const alerts: StudentAlert[] = [];
+
+  // Drafts are not visible to families until the teacher marks them final
+  for (const f of feedback) {
+    if (f.studentId !== studentId || f.status !== 'final') continue;
+    if (f.aiScore >= 90) {
+      alerts.push({
+        id: `alert-${f.id}`,
+        studentId,
+        type: 'achievement',
+        message: `Excellent work on "${f.submissionTitle}" (${f.aiScore}%)!`,
+        date: f.generatedAt
+      });
+    } else if (f.aiScore < 70) {
+      alerts.push({
+        id: `alert-${f.id}`,
+        studentId,
+        type: 'attention',
+        message: `"${f.submissionTitle}" scored ${f.aiScore}%. Focus area: ${f.improvements[0] ?? 'review the feedback together'}.`,
+        date: f.generatedAt
+      });
+    }
+  }
+
+  for (const exam of exams) {
+    if (exam.studentId !== studentId || exam.trend === 'stable') continue;
+    alerts.push({
+      id: `alert-${exam.id}`,
+      studentId,
+      type: exam.trend === 'up' ? 'improvement' : 'attention',
+      message: exam.trend === 'up'
+        ? `${exam.subject} is improving, ${exam.score}% on the latest exam.`
+        : `${exam.subject} dipped to ${exam.score}% on the latest exam.`,
+      date: exam.date
+    });
+  }
+
+  return alerts.sort((a, b) => b.date.localeCompare(a.date));
+}
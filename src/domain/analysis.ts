@@ -0,0 +1,118 @@
+import { rubricPercent, scoreCriterion } from './rubrics';
+import type { Assignment, Feedback, PaperStatus, Rubric, RubricScore, Transcript } from './types';
+
+// ------------------------------------------------------------
+// Paper Analysis
+// ------------------------------------------------------------
+// The AI stage of the analysis queue, behind a provider so a real
+// model can replace the stand-in. The local provider is like
+// `feedback.regenerate`: scores are invented, except handwriting,
+// which follows how confidently OCR read the scan. With a rubric
+// attached it picks a level per criterion, and the overall score
+// follows from the rubric. It takes a few steps so progress is
+// visible. The teacher always reviews the draft before it is
+// shared.
+// ------------------------------------------------------------
+
+export type FeedbackDraft = Pick<
+  Feedback,
+  'aiScore' | 'criteria' | 'rubricId' | 'rubricScores' | 'summary' | 'strengths' | 'improvements' | 'tags'
+>;
+
+export interface AnalysisInput {
+  assignment: Assignment;
+  /** The rubric attached to the assignment, if any. */
+  rubric?: Rubric;
+  transcript?: Transcript;
+}
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  /** Fraction of the analysis done, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+}
+
+export interface AnalysisProvider {
+  id: string;
+  name: string;
+  analyze(input: AnalysisInput, options?: AnalysisOptions): Promise<FeedbackDraft>;
+}
+
+export const PAPER_STATUS_LABELS: Record<PaperStatus, string> = {
+  pending: 'Not analysed',
+  queued: 'Queued',
+  ocr: 'Reading scan',
+  analyzing: 'Analyzing',
+  'awaiting-review': 'Awaiting review',
+  reviewed: 'Reviewed',
+  failed: 'Failed'
+};
+
+const ACTIVE_STATUSES: readonly PaperStatus[] = ['queued', 'ocr', 'analyzing'];
+
+/** Whether the paper is in the analysis queue, waiting or being worked on. */
+export const isAnalyzing = (status: PaperStatus) => ACTIVE_STATUSES.includes(status);
+
+const STRENGTHS = ['Clear structure', 'Good use of vocabulary', 'Neat presentation', 'Answers stay on topic', 'Shows working clearly'];
+const IMPROVEMENTS = ['Check spelling', 'Add more detail', 'Review punctuation', 'Explain each step', 'Write a stronger conclusion'];
+
+const pick = (options: string[], count: number) =>
+  [...options].sort(() => Math.random() - 0.5).slice(0, count);
+
+const between = (low: number, high: number) => Math.floor(low + Math.random() * (high - low));
+
+/** One of the top two levels of each criterion. */
+export const draftRubricScores = (rubric: Rubric): RubricScore[] =>
+  rubric.criteria.map(criterion =>
+    scoreCriterion(criterion, criterion.levels[between(0, Math.min(2, criterion.levels.length))]));
+
+export function draftFeedback({ assignment, rubric, transcript }: AnalysisInput): FeedbackDraft {
+  const criteria = {
+    grammar: between(70, 96),
+    creativity: between(70, 96),
+    handwriting: transcript ? Math.round(transcript.confidence * 100) : between(70, 96)
+  };
+  const rubricScores = rubric && draftRubricScores(rubric);
+  const aiScore = rubricScores
+    ? rubricPercent(rubricScores)
+    : Math.round((criteria.grammar + criteria.creativity + criteria.handwriting) / 3);
+  return {
+    aiScore,
+    criteria,
+    rubricId: rubric?.id,
+    rubricScores,
+    summary: aiScore >= 85
+      ? `A strong ${assignment.subject.toLowerCase()} submission with a few small points to polish.`
+      : `A solid attempt at ${assignment.title}; the points below will lift it further.`,
+    strengths: pick(STRENGTHS, 2),
+    improvements: pick(IMPROVEMENTS, 2),
+    tags: [assignment.subject.toLowerCase()]
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+const LOCAL_STEPS = 4;
+
+export function createLocalAnalysisProvider({ stepMs = 500 }: { stepMs?: number } = {}): AnalysisProvider {
+  return {
+    id: 'local',
+    name: 'Local stand-in analysis',
+    analyze: async (input, { signal, onProgress } = {}) => {
+      for (let step = 1; step <= LOCAL_STEPS; step++) {
+        await wait(stepMs, signal);
+        onProgress?.(step / LOCAL_STEPS);
+      }
+      return draftFeedback(input);
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import type { Annotation, AnnotationAnchor, CriterionScores } from './types';
+
+// ------------------------------------------------------------
+// Paper Annotations
+// ------------------------------------------------------------
+// The teacher's red pen: stamps and rubric tags offered in the
+// viewer, and the anchor rules both stores enforce.
+// ------------------------------------------------------------
+
+export const ANNOTATION_STAMPS = [
+  'Great metaphor',
+  'Vivid detail',
+  'Well argued',
+  'Neat work',
+  'Needs evidence',
+  'Check spelling',
+  'Check punctuation',
+  'Unclear'
+];
+
+export const RUBRIC_TAGS: { key: keyof CriterionScores; label: string }[] = [
+  { key: 'grammar', label: 'Grammar' },
+  { key: 'creativity', label: 'Creativity' },
+  { key: 'handwriting', label: 'Handwriting' }
+];
+
+export const rubricTagLabel = (tag: string) => RUBRIC_TAGS.find(t => t.key === tag)?.label ?? tag;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+/** Why an anchor is unusable, or undefined when it is fine. */
+export function anchorProblem(anchor: AnnotationAnchor | undefined): string | undefined {
+  if (!anchor || !Number.isInteger(anchor.page) || anchor.page < 1) return 'anchor.page must be a page number from 1';
+  if (anchor.kind === 'page') return undefined;
+  if (anchor.kind !== 'region') return 'anchor.kind must be region or page';
+  const { x, y, width, height } = anchor;
+  if (![x, y, width, height].every(isFraction) || width === 0 || height === 0 || x + width > 1 || y + height > 1) {
+    return 'anchor region must lie within the page (fractions from 0 to 1)';
+  }
+  return undefined;
+}
+
+/** Notes are ordered by page, then top to bottom, so numbering follows the paper. */
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  const top = (a: Annotation) => (a.anchor.kind === 'region' ? a.anchor.y : -1);
+  return [...annotations].sort((a, b) =>
+    a.anchor.page - b.anchor.page || top(a) - top(b) || a.createdAt.localeCompare(b.createdAt));
+}
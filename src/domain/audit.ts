@@ -0,0 +1,56 @@
+import type { AuditAction, AuditEntry } from './types';
+
+// ------------------------------------------------------------
+// Audit Log Formatting
+// ------------------------------------------------------------
+// Labels and the CSV layout shared by the audit viewer and the
+// export handed to compliance reviews.
+// ------------------------------------------------------------
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'feedback.regenerated': 'Feedback regenerated',
+  'feedback.finalized': 'Feedback marked final',
+  'feedback.shared': 'Feedback shared',
+  'settings.api_key_regenerated': 'API key regenerated',
+  'settings.privacy_changed': 'Privacy settings changed',
+  'student.previewed': 'Portal previewed'
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/** "field: old → new" for every field that differs, e.g. "status: draft → final". */
+export function describeChange(entry: Pick<AuditEntry, 'before' | 'after'>): string[] {
+  const keys = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  return keys
+    .filter(key => JSON.stringify(entry.before?.[key]) !== JSON.stringify(entry.after?.[key]))
+    .map(key => `${key}: ${formatValue(entry.before?.[key])} → ${formatValue(entry.after?.[key])}`);
+}
+
+const CSV_COLUMNS = ['timestamp', 'actor_id', 'actor_name', 'actor_role', 'action', 'target_type', 'target_id', 'target_label', 'before', 'after', 'details'];
+
+// RFC 4180 quoting; cells starting with a formula character are prefixed so spreadsheets show them as text
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(e => [
+    e.at,
+    e.actor.id,
+    e.actor.name,
+    e.actor.role,
+    e.action,
+    e.target.type,
+    e.target.id,
+    e.target.label,
+    e.before,
+    e.after,
+    e.details
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
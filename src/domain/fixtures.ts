@@ -0,0 +1,490 @@
+import type {
+  Annotation,
+  Assignment,
+  AuditEntry,
+  Exam,
+  Feedback,
+  Message,
+  OcrWord,
+  Paper,
+  Rubric,
+  SchoolClass,
+  SchoolEvent,
+  SchoolPolicy,
+  Student,
+  Teacher,
+  Transcript,
+  UserSettings
+} from './types';
+
+// ------------------------------------------------------------
+// Seed Fixtures
+// ------------------------------------------------------------
+// One consistent data set shared by every portal. Aadhya's score
+// lives in exactly one place (feedback fb-1); dashboards derive
+// their numbers from it instead of keeping their own copies.
+// ------------------------------------------------------------
+
+export interface DomainSeed {
+  teachers: Teacher[];
+  students: Student[];
+  classes: SchoolClass[];
+  assignments: Assignment[];
+  rubrics: Rubric[];
+  papers: Paper[];
+  feedback: Feedback[];
+  exams: Exam[];
+  events: SchoolEvent[];
+  messages: Message[];
+  settings: UserSettings[];
+  policy: SchoolPolicy;
+  annotations: Annotation[];
+  transcripts: Transcript[];
+  audit: AuditEntry[];
+}
+
+const hoursAgo = (h: number) => new Date(Date.now() - 1000 * 60 * 60 * h).toISOString();
+
+/** Settings a user starts with before saving anything. */
+// Seeded papers have no scan; their transcripts are laid out as one legible page
+const SEEDED_READ_AT = '2024-01-18T16:00:00.000Z';
+const seededTranscript = { status: 'complete', provider: 'local', confidence: 0.92, flaggedWords: 0, updatedAt: SEEDED_READ_AT } as const;
+
+function seedTranscript(paperId: string, text: string): Transcript {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const words: OcrWord[] = text.split('\n').flatMap((line, row) => {
+    let x = 0.08;
+    return line.split(' ').map((word) => {
+      const width = round(0.015 * word.length + 0.01);
+      const box = { x: round(x), y: round(0.08 + row * 0.06), width, height: 0.04 };
+      x += width + 0.015;
+      return { text: word, confidence: 0.92, box };
+    });
+  });
+  return { paperId, provider: 'local', pages: [{ page: 1, text, words }], confidence: 0.92, createdAt: SEEDED_READ_AT };
+}
+
+// Three plant life cycle reports: Aadhya's copies Diya's almost word for word, Kabir's borrows its middle
+const PLANT_REPORT = [
+  'Plants begin their life as a seed.',
+  'When the seed gets water and warmth',
+  'it starts to germinate and a tiny root',
+  'grows down into the soil. Then a shoot',
+  'pushes up towards the sunlight and the',
+  'first leaves open. The leaves use sunlight',
+  'to make food for the plant. As the plant',
+  'grows it makes flowers. Bees carry pollen',
+  'from one flower to another and the flower',
+  'makes new seeds. The seeds are spread by',
+  'wind, water and animals, and the life',
+  'cycle starts all over again.'
+].join('\n');
+
+export function createDefaultSettings(userId: string): UserSettings {
+  return {
+    userId,
+    profile: { name: '', email: '', bio: '', subject: '', grade: '', school: 'Edubridge Academy' },
+    notifications: {
+      emailNotifications: true,
+      pushNotifications: true,
+      newStudentWork: true,
+      aiInsightsReady: true,
+      weeklyReports: true,
+      parentMessages: true,
+      systemUpdates: false
+    },
+    privacy: { shareAnalytics: true, shareProgress: true, publicProfile: false },
+    aiFeedback: {
+      feedbackStyle: 'detailed',
+      focusAreas: ['grammar', 'structure', 'creativity'],
+      customPrompt: '',
+      includeExamples: true,
+      useFormalLanguage: true
+    },
+    api: { apiKey: '', webhookUrl: '', enableIntegration: false }
+  };
+}
+
+/** Policy for a school whose administrators have not changed anything yet. */
+export function createDefaultPolicy(): SchoolPolicy {
+  return {
+    schoolName: 'Edubridge Academy',
+    dataRetention: '1year',
+    allowTeacherApiAccess: true,
+    requireTeacherTwoFactor: false,
+    trustSsoTwoFactor: false,
+    integrations: { 'google-classroom': false, 'microsoft-teams': false, canvas: false },
+    webhookUrl: '',
+    updatedAt: null
+  };
+}
+
+export function createSeed(): DomainSeed {
+  return {
+    teachers: [
+      { id: 'teacher-1', name: 'Ms. Sarah Johnson', email: 'sarah.johnson@edubridge.com', subject: 'English & Literature', active: true },
+      { id: 'teacher-2', name: 'Mr. David Lee', email: 'david.lee@edubridge.com', subject: 'Mathematics', active: true }
+    ],
+    classes: [
+      { id: 'class-5a', name: 'Class 5A', grade: '5th Grade', subject: 'English & Literature', teacherId: 'teacher-1' },
+      { id: 'class-5b', name: 'Class 5B', grade: '5th Grade', subject: 'English & Literature', teacherId: 'teacher-1' }
+    ],
+    students: [
+      { id: 'student-1', name: 'Aadhya Sharma', grade: '5th Grade', classId: 'class-5a', avatar: '/api/placeholder/32/32' },
+      { id: 'student-2', name: 'Arjun Patel', grade: '5th Grade', classId: 'class-5a', avatar: '/api/placeholder/32/32' },
+      { id: 'student-3', name: 'Diya Singh', grade: '5th Grade', classId: 'class-5a', avatar: '/api/placeholder/32/32' },
+      { id: 'student-4', name: 'Kabir Mehta', grade: '5th Grade', classId: 'class-5a', avatar: '/api/placeholder/32/32' },
+      { id: 'student-5', name: 'Ishaan Reddy', grade: '5th Grade', classId: 'class-5b', avatar: '/api/placeholder/32/32' },
+      { id: 'student-6', name: 'Meera Nair', grade: '5th Grade', classId: 'class-5b', avatar: '/api/placeholder/32/32' }
+    ],
+    assignments: [
+      { id: 'asg-1', classId: 'class-5a', title: 'Creative Writing: My Summer', subject: 'English', dueDate: '2024-01-19', status: 'closed', priority: 'medium', rubricId: 'rubric-1' },
+      { id: 'asg-2', classId: 'class-5a', title: 'Problem Set: Fractions & Ratios', subject: 'Math', dueDate: '2024-01-19', status: 'closed', priority: 'medium', rubricId: 'rubric-2' },
+      { id: 'asg-3', classId: 'class-5a', title: 'Report: Plant Life Cycle', subject: 'Science', dueDate: '2024-01-18', status: 'closed', priority: 'medium' },
+      { id: 'asg-4', classId: 'class-5a', title: 'Creative Story', subject: 'English', dueDate: '2024-01-25', status: 'open', priority: 'high', rubricId: 'rubric-1' },
+      { id: 'asg-5', classId: 'class-5a', title: 'Geometry Practice', subject: 'Math', dueDate: '2024-01-28', status: 'open', priority: 'medium', rubricId: 'rubric-2' },
+      { id: 'asg-6', classId: 'class-5a', title: 'Solar System Project', subject: 'Science', dueDate: '2024-02-02', status: 'open', priority: 'low' },
+      { id: 'asg-7', classId: 'class-5b', title: 'Poetry: The Four Seasons', subject: 'English', dueDate: '2024-01-19', status: 'closed', priority: 'medium' },
+      { id: 'asg-8', classId: 'class-5b', title: 'Book Review', subject: 'English', dueDate: '2024-01-30', status: 'open', priority: 'high' }
+    ],
+    rubrics: [
+      {
+        id: 'rubric-1',
+        title: 'Narrative Writing',
+        subject: 'English',
+        authorId: 'teacher-1',
+        shared: true,
+        createdAt: '2024-01-02T09:00:00.000Z',
+        criteria: [
+          {
+            id: 'crit-ideas',
+            name: 'Ideas & Voice',
+            weight: 4,
+            levels: [
+              { label: 'Exemplary', descriptor: 'Original ideas told in a confident, personal voice.', points: 4 },
+              { label: 'Proficient', descriptor: 'Clear ideas with some personal touches.', points: 3 },
+              { label: 'Developing', descriptor: 'Ideas are there but stay general.', points: 2 },
+              { label: 'Beginning', descriptor: 'Few ideas, hard to follow.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-organisation',
+            name: 'Organisation',
+            weight: 3,
+            levels: [
+              { label: 'Exemplary', descriptor: 'Strong opening, logical paragraphs and a satisfying ending.', points: 4 },
+              { label: 'Proficient', descriptor: 'Clear beginning, middle and end.', points: 3 },
+              { label: 'Developing', descriptor: 'Some order, but paragraphs run together.', points: 2 },
+              { label: 'Beginning', descriptor: 'No clear structure.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-language',
+            name: 'Language & Grammar',
+            weight: 4,
+            levels: [
+              { label: 'Exemplary', descriptor: 'Varied sentences with almost no errors.', points: 4 },
+              { label: 'Proficient', descriptor: 'A few errors that do not get in the way.', points: 3 },
+              { label: 'Developing', descriptor: 'Frequent errors; run-on sentences.', points: 2 },
+              { label: 'Beginning', descriptor: 'Errors make the meaning unclear.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-presentation',
+            name: 'Handwriting & Presentation',
+            weight: 1,
+            levels: [
+              { label: 'Exemplary', descriptor: 'Neat and easy to read throughout.', points: 4 },
+              { label: 'Proficient', descriptor: 'Mostly neat and readable.', points: 3 },
+              { label: 'Developing', descriptor: 'Some words are hard to read.', points: 2 },
+              { label: 'Beginning', descriptor: 'Difficult to read.', points: 1 }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'rubric-2',
+        title: 'Problem Solving',
+        subject: 'Math',
+        authorId: 'teacher-2',
+        shared: true,
+        createdAt: '2024-01-03T09:00:00.000Z',
+        criteria: [
+          {
+            id: 'crit-accuracy',
+            name: 'Accuracy',
+            weight: 3,
+            levels: [
+              { label: 'Secure', descriptor: 'All or nearly all answers correct.', points: 4 },
+              { label: 'Expected', descriptor: 'Most answers correct; slips in a few.', points: 3 },
+              { label: 'Working towards', descriptor: 'About half the answers correct.', points: 2 },
+              { label: 'Not yet', descriptor: 'Few correct answers.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-method',
+            name: 'Method',
+            weight: 3,
+            levels: [
+              { label: 'Secure', descriptor: 'Chooses an efficient method every time.', points: 4 },
+              { label: 'Expected', descriptor: 'Uses a correct method for most questions.', points: 3 },
+              { label: 'Working towards', descriptor: 'Method is sometimes unsuitable.', points: 2 },
+              { label: 'Not yet', descriptor: 'No clear method.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-working',
+            name: 'Working Shown',
+            weight: 2,
+            levels: [
+              { label: 'Secure', descriptor: 'Every step is written down and easy to follow.', points: 4 },
+              { label: 'Expected', descriptor: 'Most steps are shown.', points: 3 },
+              { label: 'Working towards', descriptor: 'Steps are skipped; answers appear from nowhere.', points: 2 },
+              { label: 'Not yet', descriptor: 'Only answers are given.', points: 1 }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'rubric-3',
+        title: 'Science Report',
+        subject: 'Science',
+        authorId: 'teacher-1',
+        shared: false,
+        createdAt: '2024-01-05T09:00:00.000Z',
+        criteria: [
+          {
+            id: 'crit-understanding',
+            name: 'Scientific Understanding',
+            weight: 2,
+            levels: [
+              { label: 'Strong', descriptor: 'Explains the process accurately in their own words.', points: 3 },
+              { label: 'Secure', descriptor: 'Describes the process with minor gaps.', points: 2 },
+              { label: 'Emerging', descriptor: 'Lists facts without explaining them.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-diagrams',
+            name: 'Diagrams & Labels',
+            weight: 1,
+            levels: [
+              { label: 'Strong', descriptor: 'Clear, accurate and fully labelled.', points: 3 },
+              { label: 'Secure', descriptor: 'Accurate with some labels missing.', points: 2 },
+              { label: 'Emerging', descriptor: 'Missing or inaccurate.', points: 1 }
+            ]
+          },
+          {
+            id: 'crit-conclusion',
+            name: 'Conclusion',
+            weight: 1,
+            levels: [
+              { label: 'Strong', descriptor: 'Sums up what was learned and why it matters.', points: 3 },
+              { label: 'Secure', descriptor: 'Restates the main points.', points: 2 },
+              { label: 'Emerging', descriptor: 'Missing or unrelated.', points: 1 }
+            ]
+          }
+        ]
+      }
+    ],
+    papers: [
+      { id: 'paper-1', studentId: 'student-1', assignmentId: 'asg-1', classId: 'class-5a', uploadedAt: '2024-01-20', status: 'reviewed', feedbackId: 'fb-1' },
+      { id: 'paper-2', studentId: 'student-2', assignmentId: 'asg-2', classId: 'class-5a', uploadedAt: '2024-01-19', status: 'awaiting-review', feedbackId: 'fb-2' },
+      { id: 'paper-3', studentId: 'student-3', assignmentId: 'asg-3', classId: 'class-5a', uploadedAt: '2024-01-18', status: 'reviewed', feedbackId: 'fb-3', transcript: seededTranscript },
+      { id: 'paper-4', studentId: 'student-4', assignmentId: 'asg-1', classId: 'class-5a', uploadedAt: '2024-01-19', status: 'reviewed', feedbackId: 'fb-4' },
+      { id: 'paper-5', studentId: 'student-2', assignmentId: 'asg-1', classId: 'class-5a', uploadedAt: '2024-01-20', status: 'pending' },
+      { id: 'paper-6', studentId: 'student-5', assignmentId: 'asg-7', classId: 'class-5b', uploadedAt: '2024-01-19', status: 'reviewed', feedbackId: 'fb-5' },
+      { id: 'paper-7', studentId: 'student-6', assignmentId: 'asg-7', classId: 'class-5b', uploadedAt: '2024-01-20', status: 'pending' },
+      { id: 'paper-8', studentId: 'student-1', assignmentId: 'asg-3', classId: 'class-5a', uploadedAt: '2024-01-18', status: 'pending', transcript: seededTranscript },
+      { id: 'paper-9', studentId: 'student-4', assignmentId: 'asg-3', classId: 'class-5a', uploadedAt: '2024-01-18', status: 'pending', transcript: seededTranscript }
+    ],
+    feedback: [
+      {
+        id: 'fb-1',
+        paperId: 'paper-1',
+        studentId: 'student-1',
+        classId: 'class-5a',
+        subject: 'English',
+        submissionTitle: 'Creative Writing: My Summer',
+        aiScore: 92,
+        criteria: { grammar: 88, creativity: 95, handwriting: 85 },
+        rubricId: 'rubric-1',
+        rubricScores: [
+          { criterionId: 'crit-ideas', criterion: 'Ideas & Voice', level: 'Exemplary', points: 16, maxPoints: 16 },
+          { criterionId: 'crit-organisation', criterion: 'Organisation', level: 'Exemplary', points: 12, maxPoints: 12 },
+          { criterionId: 'crit-language', criterion: 'Language & Grammar', level: 'Proficient', points: 12, maxPoints: 16 },
+          { criterionId: 'crit-presentation', criterion: 'Handwriting & Presentation', level: 'Exemplary', points: 4, maxPoints: 4 }
+        ],
+        summary: 'Excellent creative expression with minor grammar improvements needed.',
+        strengths: ['Vivid imagery', 'Strong narrative voice', 'Excellent structure'],
+        improvements: ['Minor grammar corrections', 'Expand conclusion'],
+        generatedAt: hoursAgo(1),
+        status: 'final',
+        tags: ['writing', 'creativity']
+      },
+      {
+        id: 'fb-2',
+        paperId: 'paper-2',
+        studentId: 'student-2',
+        classId: 'class-5a',
+        subject: 'Math',
+        submissionTitle: 'Problem Set: Fractions & Ratios',
+        aiScore: 78,
+        criteria: { grammar: 80, creativity: 74, handwriting: 79 },
+        rubricId: 'rubric-2',
+        rubricScores: [
+          { criterionId: 'crit-accuracy', criterion: 'Accuracy', level: 'Expected', points: 9, maxPoints: 12 },
+          { criterionId: 'crit-method', criterion: 'Method', level: 'Secure', points: 12, maxPoints: 12 },
+          { criterionId: 'crit-working', criterion: 'Working Shown', level: 'Working towards', points: 4, maxPoints: 8 }
+        ],
+        summary: 'Sound method throughout; show intermediate steps to avoid slips.',
+        strengths: ['Correct methodology', 'Good logical progression'],
+        improvements: ['Improve fraction simplification speed', 'Show intermediate steps'],
+        generatedAt: hoursAgo(5),
+        status: 'draft',
+        tags: ['math', 'practice']
+      },
+      {
+        id: 'fb-3',
+        paperId: 'paper-3',
+        studentId: 'student-3',
+        classId: 'class-5a',
+        subject: 'Science',
+        submissionTitle: 'Report: Plant Life Cycle',
+        aiScore: 85,
+        criteria: { grammar: 90, creativity: 82, handwriting: 89 },
+        summary: 'Good scientific reasoning, work on conclusion clarity.',
+        strengths: ['Clear explanation', 'Accurate diagrams'],
+        improvements: ['Add sources', 'Clarify germination stage'],
+        generatedAt: hoursAgo(24),
+        status: 'final',
+        tags: ['science', 'report']
+      },
+      {
+        id: 'fb-4',
+        paperId: 'paper-4',
+        studentId: 'student-4',
+        classId: 'class-5a',
+        subject: 'English',
+        submissionTitle: 'Creative Writing: My Summer',
+        aiScore: 65,
+        criteria: { grammar: 62, creativity: 70, handwriting: 60 },
+        rubricId: 'rubric-1',
+        rubricScores: [
+          { criterionId: 'crit-ideas', criterion: 'Ideas & Voice', level: 'Proficient', points: 12, maxPoints: 16 },
+          { criterionId: 'crit-organisation', criterion: 'Organisation', level: 'Proficient', points: 9, maxPoints: 12 },
+          { criterionId: 'crit-language', criterion: 'Language & Grammar', level: 'Developing', points: 8, maxPoints: 16 },
+          { criterionId: 'crit-presentation', criterion: 'Handwriting & Presentation', level: 'Developing', points: 2, maxPoints: 4 }
+        ],
+        summary: 'Good ideas held back by sentence structure and legibility.',
+        strengths: ['Original ideas'],
+        improvements: ['Sentence structure', 'Handwriting legibility', 'Paragraphing'],
+        generatedAt: hoursAgo(30),
+        status: 'final',
+        tags: ['writing']
+      },
+      {
+        id: 'fb-5',
+        paperId: 'paper-6',
+        studentId: 'student-5',
+        classId: 'class-5b',
+        subject: 'English',
+        submissionTitle: 'Poetry: The Four Seasons',
+        aiScore: 88,
+        criteria: { grammar: 84, creativity: 93, handwriting: 86 },
+        summary: 'Lively imagery and a confident rhythm; tighten the final stanza.',
+        strengths: ['Rich imagery', 'Consistent rhythm'],
+        improvements: ['Tighten the final stanza', 'Check comma usage'],
+        generatedAt: hoursAgo(8),
+        status: 'final',
+        tags: ['writing', 'poetry']
+      }
+    ],
+    exams: [
+      { id: 'exam-1', studentId: 'student-1', subject: 'English', score: 92, date: '2024-01-15', trend: 'up' },
+      { id: 'exam-2', studentId: 'student-1', subject: 'Math', score: 88, date: '2024-01-10', trend: 'up' },
+      { id: 'exam-3', studentId: 'student-1', subject: 'Science', score: 85, date: '2024-01-08', trend: 'stable' },
+      { id: 'exam-4', studentId: 'student-1', subject: 'Social Studies', score: 90, date: '2024-01-05', trend: 'up' },
+      { id: 'exam-5', studentId: 'student-2', subject: 'English', score: 76, date: '2024-01-15', trend: 'up' },
+      { id: 'exam-6', studentId: 'student-2', subject: 'Math', score: 70, date: '2024-01-10', trend: 'stable' },
+      { id: 'exam-7', studentId: 'student-3', subject: 'English', score: 84, date: '2024-01-15', trend: 'up' },
+      { id: 'exam-8', studentId: 'student-3', subject: 'Science', score: 80, date: '2024-01-08', trend: 'stable' },
+      { id: 'exam-9', studentId: 'student-4', subject: 'English', score: 64, date: '2024-01-15', trend: 'down' },
+      { id: 'exam-10', studentId: 'student-4', subject: 'Math', score: 58, date: '2024-01-10', trend: 'stable' },
+      { id: 'exam-11', studentId: 'student-5', subject: 'English', score: 86, date: '2024-01-15', trend: 'up' },
+      { id: 'exam-12', studentId: 'student-6', subject: 'English', score: 91, date: '2024-01-15', trend: 'stable' }
+    ],
+    events: [
+      { id: 'event-1', classId: 'class-5a', title: 'Parent-Teacher Meeting', date: '2024-01-25', type: 'meeting' },
+      { id: 'event-2', classId: 'class-5a', title: 'Science Project Due', date: '2024-01-28', type: 'assignment' },
+      { id: 'event-3', classId: 'class-5a', title: 'Math Quiz', date: '2024-01-30', type: 'assessment' },
+      { id: 'event-4', classId: 'class-5b', title: 'Poetry Recital', date: '2024-01-26', type: 'assessment' }
+    ],
+    messages: [
+      {
+        id: 'msg-1',
+        fromUserId: 'parent-1',
+        toUserId: 'teacher-1',
+        studentId: 'student-1',
+        body: 'Thank you for the detailed feedback on the summer essay. Aadhya loved it!',
+        sentAt: hoursAgo(20),
+        readAt: hoursAgo(18)
+      },
+      {
+        id: 'msg-2',
+        fromUserId: 'teacher-1',
+        toUserId: 'parent-1',
+        studentId: 'student-1',
+        body: 'My pleasure! Ten minutes of handwriting practice a day would help her even more.',
+        sentAt: hoursAgo(17),
+        readAt: null
+      }
+    ],
+    settings: [
+      {
+        ...createDefaultSettings('teacher-1'),
+        profile: {
+          name: 'Ms. Sarah Johnson',
+          email: 'sarah.johnson@edubridge.com',
+          bio: 'English teacher with 8+ years of experience, focused on creative writing and literature analysis.',
+          subject: 'English & Literature',
+          grade: '5th Grade',
+          school: 'Edubridge Academy'
+        },
+        api: { apiKey: 'sk_edb_2f8a9d1c7b3e5f4a6d2c8b9e7d6f3a2e1d0c9b8a7', webhookUrl: '', enableIntegration: false }
+      }
+    ],
+    policy: createDefaultPolicy(),
+    annotations: [
+      {
+        id: 'note-1', paperId: 'paper-1', studentId: 'student-1', classId: 'class-5a', authorId: 'teacher-1',
+        anchor: { kind: 'page', page: 1 }, stamp: 'Great metaphor',
+        comment: '"The sun was a lazy cat on the porch" sets the mood of the whole story.',
+        rubricTags: ['creativity'], sharedWithFamily: true, createdAt: hoursAgo(2)
+      },
+      {
+        id: 'note-2', paperId: 'paper-1', studentId: 'student-1', classId: 'class-5a', authorId: 'teacher-1',
+        anchor: { kind: 'page', page: 1 }, stamp: 'Check punctuation',
+        comment: 'Run-on sentence in the second paragraph; talk through splitting it in class.',
+        rubricTags: ['grammar'], sharedWithFamily: false, createdAt: hoursAgo(2)
+      }
+    ],
+    transcripts: [
+      seedTranscript('paper-3', PLANT_REPORT),
+      seedTranscript('paper-8', PLANT_REPORT.replace('a tiny root', 'a small root').replace('starts all over again.', 'begins again.')),
+      seedTranscript('paper-9', [
+        'My report is about the life cycle of a',
+        'bean plant that we grew in class. First',
+        'we soaked the bean overnight. When the',
+        'seed gets water and warmth it starts to',
+        'germinate and a tiny root grows down into',
+        'the soil. Then a shoot pushes up towards',
+        'the sunlight and the first leaves open.',
+        'After three weeks our plant was taller',
+        'than my ruler and it had six leaves.',
+        'I learned that plants need light, water',
+        'and air to stay healthy.'
+      ].join('\n'))
+    ],
+    audit: []
+  };
+}
@@ -0,0 +1,185 @@
+import type { Repositories } from './repositories';
+
+// ------------------------------------------------------------
+// HTTP Repositories
+// ------------------------------------------------------------
+// Talks to the local REST backend (server/, contract in
+// server/openapi.yaml). Errors come back as
+// `{ error: { code, message } }` and are surfaced as ApiError.
+// Data routes need a bearer token; callers pass a token source.
+// ------------------------------------------------------------
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+type Query = Record<string, string | undefined>;
+
+interface RequestOptions {
+  query?: Query;
+  body?: unknown;
+  /** Overrides the client's token source for this call. */
+  accessToken?: string;
+  /** Reports how much of the body has been sent, from 0 to 1. */
+  onUploadProgress?: (fraction: number) => void;
+}
+
+export type ApiRequest = <T>(method: string, path: string, options?: RequestOptions) => Promise<T>;
+
+/** Supplies the bearer token for each request; undefined sends none. */
+export type AccessTokenSource = () => string | undefined;
+
+// fetch cannot observe an upload, so requests that want progress go through XMLHttpRequest
+function sendWithProgress(
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string },
+  onProgress: (fraction: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method, url);
+    for (const [name, value] of Object.entries(init.headers)) xhr.setRequestHeader(name, value);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      onProgress(1);
+      resolve(new Response(xhr.status === 204 ? null : xhr.responseText, { status: xhr.status }));
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.send(init.body ?? null);
+  });
+}
+
+/** JSON request helper shared by every HTTP-backed service. */
+export function createApiClient(baseUrl: string, getAccessToken: AccessTokenSource = () => undefined): ApiRequest {
+  return async <T>(method: string, path: string, { query, body, accessToken, onUploadProgress }: RequestOptions = {}): Promise<T> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) params.set(key, value);
+    }
+    const search = params.toString();
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const token = accessToken ?? getAccessToken();
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const url = `${baseUrl}${path}${search ? `?${search}` : ''}`;
+    const init = { method, headers, body: body === undefined ? undefined : JSON.stringify(body) };
+    const response = onUploadProgress ? await sendWithProgress(url, init, onUploadProgress) : await fetch(url, init);
+    const payload = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new ApiError(
+        response.status,
+        payload?.error?.code ?? 'http_error',
+        payload?.error?.message ?? `Request failed with status ${response.status}`,
+        payload?.error?.details
+      );
+    }
+    return payload as T;
+  };
+}
+
+export function createHttpRepositories(baseUrl: string, getAccessToken?: AccessTokenSource): Repositories {
+  const request = createApiClient(baseUrl, getAccessToken);
+
+  // Single-resource lookups resolve to undefined on 404, matching the in-memory store
+  const getOptional = async <T>(path: string): Promise<T | undefined> => {
+    try {
+      return await request<T>('GET', path);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return undefined;
+      throw error;
+    }
+  };
+
+  const id = encodeURIComponent;
+
+  return {
+    teachers: {
+      list: () => request('GET', '/teachers'),
+      get: (teacherId) => getOptional(`/teachers/${id(teacherId)}`),
+      create: (input) => request('POST', '/teachers', { body: input }),
+      update: (teacherId, update) => request('PATCH', `/teachers/${id(teacherId)}`, { body: update })
+    },
+    students: {
+      list: (filter = {}) => request('GET', '/students', { query: filter }),
+      get: (studentId) => getOptional(`/students/${id(studentId)}`),
+      create: (input) => request('POST', '/students', { body: input }),
+      update: (studentId, update) => request('PATCH', `/students/${id(studentId)}`, { body: update })
+    },
+    classes: {
+      list: (filter = {}) => request('GET', '/classes', { query: filter }),
+      get: (classId) => getOptional(`/classes/${id(classId)}`),
+      create: (input) => request('POST', '/classes', { body: input }),
+      update: (classId, update) => request('PATCH', `/classes/${id(classId)}`, { body: update })
+    },
+    assignments: {
+      list: (filter = {}) => request('GET', '/assignments', { query: filter }),
+      update: (assignmentId, update) => request('PATCH', `/assignments/${id(assignmentId)}`, { body: update })
+    },
+    rubrics: {
+      list: (filter = {}) => request('GET', '/rubrics', { query: { ...filter } }),
+      get: (rubricId) => getOptional(`/rubrics/${id(rubricId)}`),
+      create: (input) => request('POST', '/rubrics', { body: input }),
+      update: (rubricId, update) => request('PATCH', `/rubrics/${id(rubricId)}`, { body: update }),
+      remove: (rubricId) => request('DELETE', `/rubrics/${id(rubricId)}`)
+    },
+    papers: {
+      list: (filter = {}) => request('GET', '/papers', { query: { ...filter } }),
+      get: (paperId) => getOptional(`/papers/${id(paperId)}`),
+      upload: (input, { onProgress } = {}) => request('POST', '/papers', { body: input, onUploadProgress: onProgress }),
+      getFile: async (paperId) => (await getOptional<{ content: string }>(`/papers/${id(paperId)}/file`))?.content,
+      getTranscript: (paperId) => getOptional(`/papers/${id(paperId)}/transcript`),
+      getSimilarity: (paperId) => getOptional(`/papers/${id(paperId)}/similarity`),
+      transcribe: (paperId) => request('POST', `/papers/${id(paperId)}/transcribe`),
+      recognize: (input) => request('POST', '/ocr', { body: input }),
+      analyze: (paperId) => request('POST', `/papers/${id(paperId)}/analyze`),
+      cancelAnalysis: (paperId) => request('POST', `/papers/${id(paperId)}/cancel-analysis`)
+    },
+    annotations: {
+      list: (filter = {}) => request('GET', '/annotations', { query: { ...filter } }),
+      create: (input) => request('POST', '/annotations', { body: input }),
+      update: (annotationId, update) => request('PATCH', `/annotations/${id(annotationId)}`, { body: update }),
+      remove: (annotationId) => request('DELETE', `/annotations/${id(annotationId)}`)
+    },
+    feedback: {
+      list: (filter = {}) => request('GET', '/feedback', { query: { ...filter } }),
+      get: (feedbackId) => getOptional(`/feedback/${id(feedbackId)}`),
+      regenerate: (feedbackId) => request('POST', `/feedback/${id(feedbackId)}/regenerate`),
+      finalize: (feedbackId) => request('POST', `/feedback/${id(feedbackId)}/finalize`)
+    },
+    exams: {
+      list: (filter = {}) => request('GET', '/exams', { query: { ...filter } })
+    },
+    events: {
+      list: (filter = {}) => request('GET', '/events', { query: filter })
+    },
+    messages: {
+      list: (filter) => request('GET', '/messages', { query: filter }),
+      send: (input) => request('POST', '/messages', { body: input }),
+      markRead: (messageId) => request('POST', `/messages/${id(messageId)}/read`)
+    },
+    settings: {
+      get: (userId) => request('GET', `/settings/${id(userId)}`),
+      update: (userId, update) => request('PATCH', `/settings/${id(userId)}`, { body: update })
+    },
+    school: {
+      getPolicy: () => request('GET', '/school/policy'),
+      updatePolicy: (update) => request('PATCH', '/school/policy', { body: update })
+    },
+    audit: {
+      list: (filter = {}) => request('GET', '/audit', { query: { ...filter } }),
+      // The backend attributes the entry to the signed-in caller
+      record: (entry) => request('POST', '/audit', { body: entry })
+    }
+  };
+}
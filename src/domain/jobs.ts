@@ -0,0 +1,104 @@
+// ------------------------------------------------------------
+// Job Queue
+// ------------------------------------------------------------
+// Runs background work one id at a time per job, with at most
+// `concurrency` jobs in flight. A failed attempt is retried after
+// an exponential backoff (`backoffMs`, then twice that, ...) until
+// `maxAttempts` is reached. Cancelling aborts the running attempt
+// through its signal and drops any scheduled retry; the attempt
+// keeps its slot until it settles. The queue only schedules: the
+// caller records progress and outcomes itself.
+// ------------------------------------------------------------
+
+export interface JobContext {
+  signal: AbortSignal;
+  /** 1 for the first attempt. */
+  attempt: number;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+  run: (id: string, context: JobContext) => Promise<void>;
+  /** An attempt failed and another is scheduled after `delayMs`. */
+  onRetry?: (id: string, error: unknown, attempt: number, delayMs: number) => void;
+  /** The last attempt failed. */
+  onFail?: (id: string, error: unknown) => void;
+}
+
+export interface JobQueue {
+  /** Queues the job unless it is already queued, running or waiting to retry. */
+  enqueue(id: string): void;
+  /** Stops the job wherever it is; false if it was not in the queue. */
+  cancel(id: string): boolean;
+  has(id: string): boolean;
+}
+
+export function createJobQueue({ concurrency, maxAttempts, backoffMs, run, onRetry, onFail }: JobQueueOptions): JobQueue {
+  const waiting: string[] = [];
+  const running = new Map<string, AbortController>();
+  const retries = new Map<string, ReturnType<typeof setTimeout>>();
+  const attempts = new Map<string, number>();
+
+  // A cancelled attempt stays in `running` until it settles: it still takes a slot, but the job is no longer queued
+  const active = (id: string) => running.has(id) && !running.get(id)!.signal.aborted;
+  const has = (id: string) => waiting.includes(id) || active(id) || retries.has(id);
+
+  const start = (id: string) => {
+    const attempt = (attempts.get(id) ?? 0) + 1;
+    attempts.set(id, attempt);
+    const controller = new AbortController();
+    running.set(id, controller);
+
+    const current = () => running.get(id) === controller && !controller.signal.aborted;
+    run(id, { signal: controller.signal, attempt })
+      .then(() => { if (current()) attempts.delete(id); }, (error: unknown) => {
+        // Cancelled jobs have already been cleaned up by cancel()
+        if (!current()) return;
+        if (attempt < maxAttempts) {
+          const delayMs = backoffMs * 2 ** (attempt - 1);
+          retries.set(id, setTimeout(() => {
+            retries.delete(id);
+            waiting.push(id);
+            pump();
+          }, delayMs));
+          onRetry?.(id, error, attempt, delayMs);
+        } else {
+          attempts.delete(id);
+          onFail?.(id, error);
+        }
+      })
+      .finally(() => {
+        if (running.get(id) === controller) running.delete(id);
+        pump();
+      });
+  };
+
+  // A job enqueued again after cancelling waits for its previous attempt to settle
+  const pump = () => {
+    for (let i = 0; running.size < concurrency && i < waiting.length;) {
+      if (running.has(waiting[i])) i++;
+      else start(waiting.splice(i, 1)[0]);
+    }
+  };
+
+  return {
+    enqueue: (id) => {
+      if (has(id)) return;
+      waiting.push(id);
+      pump();
+    },
+    cancel: (id) => {
+      const found = has(id);
+      const index = waiting.indexOf(id);
+      if (index >= 0) waiting.splice(index, 1);
+      clearTimeout(retries.get(id));
+      retries.delete(id);
+      running.get(id)?.abort();
+      attempts.delete(id);
+      return found;
+    },
+    has
+  };
+}
@@ -0,0 +1,152 @@
+import type { Assignment, OcrPage, PageRange, Student } from './types';
+
+// ------------------------------------------------------------
+// Batch Import Matching
+// ------------------------------------------------------------
+// Guesses who wrote each scan in a batch and which assignment it
+// answers, from the file name or the name written at the top of
+// the first page. Matching is fuzzy (edit distance on normalised
+// words) because OCR misreads letters and teachers abbreviate
+// file names; every guess is reviewed by the teacher before any
+// paper is created.
+// ------------------------------------------------------------
+
+export type MatchSource = 'filename' | 'page';
+
+export interface StudentMatch {
+  studentId: string;
+  /** 0-1; 1 is an exact match. */
+  score: number;
+  source: MatchSource;
+}
+
+/** Scores below this are not trusted as a match. */
+export const MIN_MATCH_SCORE = 0.8;
+
+/** Lines at the top of a page searched for a student's name. */
+const NAME_LINES = 3;
+
+/** Lower-case words without accents, digits or punctuation; camelCase is split. */
+export function nameWords(value: string): string[] {
+  return value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for identical strings, falling towards 0 as more letters differ. */
+export function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+// Best score of `name` against any run of consecutive words in `words`
+function bestWindowScore(name: string[], words: string[]): number {
+  let best = 0;
+  for (let start = 0; start + name.length <= words.length; start++) {
+    best = Math.max(best, similarity(name.join(' '), words.slice(start, start + name.length).join(' ')));
+  }
+  return best;
+}
+
+/**
+ * The student whose full name, or failing that first name, appears in
+ * `text`. A first name alone only counts when no classmate shares it,
+ * and a match is refused when two students score the same.
+ */
+export function matchStudent(text: string, students: Student[], source: MatchSource): StudentMatch | undefined {
+  const words = nameWords(text);
+  if (words.length === 0) return undefined;
+
+  const firstNames = new Map<string, number>();
+  for (const student of students) {
+    const first = nameWords(student.name)[0];
+    if (first) firstNames.set(first, (firstNames.get(first) ?? 0) + 1);
+  }
+
+  const scored = students.map((student) => {
+    const name = nameWords(student.name);
+    const full = bestWindowScore(name, words);
+    // A lone first name is weaker evidence than the full name
+    const first = name.length > 1 && firstNames.get(name[0]) === 1 ? bestWindowScore(name.slice(0, 1), words) * 0.9 : 0;
+    return { studentId: student.id, score: Math.max(full, first), source };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scored;
+  if (!best || best.score < MIN_MATCH_SCORE) return undefined;
+  if (second && second.score === best.score) return undefined;
+  return best;
+}
+
+/** Matches the student from a file name such as `aadhya_sharma-essay.jpg`. */
+export const matchStudentByFileName = (fileName: string, students: Student[]) =>
+  matchStudent(fileName.replace(/\.[^.]+$/, ''), students, 'filename');
+
+/** Matches the student from the name written at the top of a page. */
+export const matchStudentOnPage = (page: OcrPage, students: Student[]) =>
+  matchStudent(page.text.split('\n').slice(0, NAME_LINES).join(' '), students, 'page');
+
+/** The assignment whose title shares the largest share of its words with the file name, if one clearly does. */
+export function matchAssignment(fileName: string, assignments: Assignment[]): Assignment | undefined {
+  const words = nameWords(fileName.replace(/\.[^.]+$/, ''));
+  const scored = assignments.map((assignment) => {
+    const title = nameWords(assignment.title).filter(w => w.length > 2);
+    const hits = title.filter(t => words.some(w => similarity(t, w) >= MIN_MATCH_SCORE)).length;
+    return { assignment, score: title.length === 0 ? 0 : hits / title.length };
+  }).sort((a, b) => b.score - a.score);
+  const [best, second] = scored;
+  if (!best || best.score === 0 || (second && second.score === best.score)) return undefined;
+  return best.assignment;
+}
+
+export interface PdfSubmission {
+  pages: PageRange;
+  match?: StudentMatch;
+}
+
+/**
+ * Splits a batch-scanned PDF into one submission per student. With
+ * `pagesPerPaper` the stack is cut at fixed intervals; otherwise a new
+ * submission starts on every page with a student's name at the top,
+ * and pages before the first name form a submission of their own.
+ */
+export function splitBatch(pages: OcrPage[], students: Student[], pagesPerPaper?: number): PdfSubmission[] {
+  const ordered = [...pages].sort((a, b) => a.page - b.page);
+  const last = ordered.length > 0 ? ordered[ordered.length - 1].page : 0;
+
+  if (pagesPerPaper) {
+    const submissions: PdfSubmission[] = [];
+    for (let first = 1; first <= last; first += pagesPerPaper) {
+      const page = ordered.find(p => p.page === first);
+      submissions.push({
+        pages: { first, last: Math.min(last, first + pagesPerPaper - 1) },
+        match: page && matchStudentOnPage(page, students)
+      });
+    }
+    return submissions;
+  }
+
+  const submissions: PdfSubmission[] = [];
+  for (const page of ordered) {
+    const match = matchStudentOnPage(page, students);
+    const current = submissions[submissions.length - 1];
+    if (!current || match) submissions.push({ pages: { first: page.page, last: page.page }, match });
+    else current.pages.last = page.page;
+  }
+  return submissions;
+}
@@ -0,0 +1,617 @@
+import { createDefaultSettings, createSeed, type DomainSeed } from './fixtures';
+import { MAX_PAPER_PAGES, MAX_THUMBNAIL_LENGTH, paperFileProblem, parseDataUrl } from './uploads';
+import { anchorProblem } from './annotations';
+import { createLocalAnalysisProvider, draftRubricScores, isAnalyzing, type AnalysisProvider } from './analysis';
+import { createJobQueue } from './jobs';
+import { createLocalOcrProvider, flaggedWords, transcriptConfidence, type OcrProvider } from './ocr';
+import { extractPdfPages } from './pdf-pages';
+import { rubricPercent, rubricProblem, sortRubricLevels } from './rubrics';
+import { compareSubmissions, comparisonPool } from './similarity';
+import type { AnalysisProgress, Annotation, Assignment, Feedback, Paper, Rubric } from './types';
+import {
+  NotFoundError,
+  TIMEFRAME_DAYS,
+  ValidationError,
+  type ClassScopedFilter,
+  type FeedbackFilter,
+  type Repositories
+} from './repositories';
+
+// ------------------------------------------------------------
+// In-Memory Repositories
+// ------------------------------------------------------------
+// Prototype backing store. Every call resolves after a short
+// simulated latency and returns copies, so callers can never
+// mutate the store behind React Query's back. The local REST
+// backend reuses this module and persists via `onChange`.
+// ------------------------------------------------------------
+
+/** Keeps uploaded scans out of the store itself, keyed by paper id. */
+export interface FileStore {
+  put(key: string, content: string): Promise<void>;
+  get(key: string): Promise<string | undefined>;
+}
+
+export function createMemoryFileStore(): FileStore {
+  const files = new Map<string, string>();
+  return {
+    put: async (key, content) => { files.set(key, content); },
+    get: async (key) => files.get(key)
+  };
+}
+
+export interface MemoryOptions {
+  latencyMs?: number;
+  /** Called with the whole store after every successful write. */
+  onChange?: (db: DomainSeed) => void;
+  files?: FileStore;
+  /** Reads uploaded scans; defaults to the deterministic local stand-in. */
+  ocr?: OcrProvider;
+  /** Drafts feedback in the analysis queue; defaults to the local stand-in. */
+  analysis?: AnalysisProvider;
+  /** Analysis queue tuning; see domain/jobs.ts. */
+  queue?: { concurrency?: number; maxAttempts?: number; backoffMs?: number };
+}
+
+export const createId = (prefix: string) => `${prefix}-${crypto.randomUUID().slice(0, 8)}`;
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+// OCR allocates a result for every page, so the count a client claims has to be bounded
+const checkPageCount = (pageCount: number | undefined) => {
+  if (pageCount !== undefined && !(Number.isInteger(pageCount) && pageCount > 0 && pageCount <= MAX_PAPER_PAGES)) {
+    throw new ValidationError(`pageCount must be a whole number of pages, at most ${MAX_PAPER_PAGES}`);
+  }
+};
+
+export function createMemoryRepositories(
+  seed: DomainSeed = createSeed(),
+  {
+    latencyMs = 400,
+    onChange,
+    files = createMemoryFileStore(),
+    ocr = createLocalOcrProvider(),
+    analysis = createLocalAnalysisProvider(),
+    queue: { concurrency = 2, maxAttempts = 3, backoffMs = 2000 } = {}
+  }: MemoryOptions = {}
+): Repositories {
+  const db = clone(seed);
+
+  const commit = <T>(value: T): Promise<T> => {
+    onChange?.(db);
+    return respond(value);
+  };
+
+  const respond = async <T>(value: T): Promise<T> => {
+    if (latencyMs > 0) await new Promise(r => setTimeout(r, latencyMs));
+    return clone(value);
+  };
+
+  const studentIdsInClass = (classId: string) =>
+    new Set(db.students.filter(s => s.classId === classId).map(s => s.id));
+
+  const matchesScope = (item: { classId: string; studentId: string }, filter: ClassScopedFilter = {}) =>
+    (!filter.classId || item.classId === filter.classId) &&
+    (!filter.studentId || item.studentId === filter.studentId);
+
+  const withinTimeframe = (iso: string, filter: FeedbackFilter = {}) =>
+    !filter.timeframe ||
+    Date.now() - new Date(iso).getTime() <= TIMEFRAME_DAYS[filter.timeframe] * 24 * 60 * 60 * 1000;
+
+  const findFeedback = (id: string) => {
+    const item = db.feedback.find(f => f.id === id);
+    if (!item) throw new NotFoundError('Feedback', id);
+    return item;
+  };
+
+  const findOrThrow = <T extends { id: string }>(items: T[], entity: string, id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) throw new NotFoundError(entity, id);
+    return item;
+  };
+
+  const requireText = (value: string | undefined, field: string) => {
+    if (value !== undefined && !value.trim()) throw new ValidationError(`${field} must not be empty`);
+  };
+
+  const requireClass = (classId: string | undefined) => {
+    if (classId !== undefined && !db.classes.some(c => c.id === classId)) throw new ValidationError(`Unknown class ${classId}`);
+  };
+
+  const requireTeacher = (teacherId: string | undefined) => {
+    if (teacherId !== undefined && !db.teachers.some(t => t.id === teacherId)) throw new ValidationError(`Unknown teacher ${teacherId}`);
+  };
+
+  const requireAnnotationContent = (annotation: Pick<Annotation, 'anchor' | 'comment' | 'stamp' | 'rubricTags'>) => {
+    const problem = anchorProblem(annotation.anchor);
+    if (problem) throw new ValidationError(problem);
+    if (!annotation.comment?.trim() && !annotation.stamp?.trim() && annotation.rubricTags.length === 0) {
+      throw new ValidationError('An annotation needs a comment, a stamp or a rubric tag');
+    }
+  };
+
+  const requireRubric = (rubric: Pick<Rubric, 'title' | 'subject' | 'criteria'>) => {
+    const problem = rubricProblem(rubric);
+    if (problem) throw new ValidationError(problem);
+  };
+
+  const rubricOf = (assignment: Assignment) => db.rubrics.find(r => r.id === assignment.rubricId);
+
+  const similarityReport = (paper: Paper) => {
+    const transcript = db.transcripts.find(t => t.paperId === paper.id);
+    return transcript && compareSubmissions(paper, transcript, comparisonPool(paper, db.papers, db.assignments), db.transcripts);
+  };
+
+  const updateSimilarity = (paper: Paper) => {
+    const report = similarityReport(paper);
+    if (report) paper.similarity = { score: report.score, matches: report.matches.length, checkedAt: report.checkedAt };
+  };
+
+  // A newly read paper changes the scores of the papers it is compared with, too
+  const recheckSimilarity = (paper: Paper) => {
+    updateSimilarity(paper);
+    for (const other of db.papers) {
+      if (other.id !== paper.id && comparisonPool(other, [paper], db.assignments).length > 0) updateSimilarity(other);
+    }
+  };
+
+  // OCR runs in flight per paper, so the analysis queue can wait on one started by upload
+  const transcriptions = new Map<string, Promise<void>>();
+
+  // Runs in the background: the paper shows `pending` until the provider answers or `signal` aborts
+  const startTranscription = (paper: Paper, content: string, signal?: AbortSignal) => {
+    const { contentType, pageCount } = paper.file!;
+    paper.transcript = { status: 'pending', provider: ocr.id, updatedAt: new Date().toISOString() };
+    const running = ocr.recognize({ content, contentType, pageCount }, { signal })
+      .then((pages) => {
+        const confidence = transcriptConfidence(pages);
+        const now = new Date().toISOString();
+        db.transcripts = [
+          ...db.transcripts.filter(t => t.paperId !== paper.id),
+          { paperId: paper.id, provider: ocr.id, pages, confidence, createdAt: now }
+        ];
+        paper.transcript = { status: 'complete', provider: ocr.id, confidence, flaggedWords: flaggedWords(pages).length, updatedAt: now };
+        recheckSimilarity(paper);
+      })
+      .catch((error: unknown) => {
+        paper.transcript = {
+          status: 'failed',
+          provider: ocr.id,
+          error: error instanceof Error ? error.message : 'OCR failed',
+          updatedAt: new Date().toISOString()
+        };
+      })
+      .finally(() => {
+        transcriptions.delete(paper.id);
+        onChange?.(db);
+      });
+    transcriptions.set(paper.id, running);
+    return running;
+  };
+
+  // ------------------------------------------------------------
+  // Analysis Queue
+  // ------------------------------------------------------------
+  // Each job takes a paper through OCR (reusing a transcript that
+  // is done or in flight) and the analysis provider, and leaves a
+  // draft for the teacher. Progress lives on the paper, so lists
+  // that poll papers see it move.
+  // ------------------------------------------------------------
+
+  const setAnalysis = (paper: Paper, change: Partial<AnalysisProgress>) => {
+    paper.analysis = { progress: 0, attempt: 0, maxAttempts, ...paper.analysis, ...change, updatedAt: new Date().toISOString() };
+    onChange?.(db);
+  };
+
+  const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Analysis failed');
+
+  const runAnalysis = async (paperId: string, { signal, attempt }: { signal: AbortSignal; attempt: number }) => {
+    const paper = db.papers.find(p => p.id === paperId);
+    if (!paper) return;
+    const assignment = findOrThrow(db.assignments, 'Assignment', paper.assignmentId);
+
+    paper.status = 'ocr';
+    setAnalysis(paper, { attempt, progress: 0.05, retryAt: undefined });
+    if (paper.file && paper.transcript?.status !== 'complete') {
+      const inFlight = transcriptions.get(paper.id);
+      if (inFlight) await inFlight;
+      else {
+        const content = await files.get(paper.id);
+        if (!content) throw new Error('The scan could not be found');
+        await startTranscription(paper, content, signal);
+      }
+      if (paper.transcript?.status === 'failed') throw new Error(`OCR failed: ${paper.transcript.error}`);
+    }
+    signal.throwIfAborted();
+
+    paper.status = 'analyzing';
+    setAnalysis(paper, { progress: 0.3 });
+    const draft = await analysis.analyze(
+      { assignment, rubric: rubricOf(assignment), transcript: db.transcripts.find(t => t.paperId === paper.id) },
+      { signal, onProgress: (fraction) => setAnalysis(paper, { progress: Math.round((0.3 + 0.7 * fraction) * 100) / 100 }) }
+    );
+    signal.throwIfAborted();
+
+    const generatedAt = new Date().toISOString();
+    const existing = db.feedback.find(f => f.id === paper.feedbackId);
+    if (existing) Object.assign(existing, draft, { generatedAt, status: 'draft' });
+    else {
+      const item: Feedback = {
+        ...draft,
+        id: createId('fb'),
+        paperId: paper.id,
+        studentId: paper.studentId,
+        classId: paper.classId,
+        subject: assignment.subject,
+        submissionTitle: assignment.title,
+        generatedAt,
+        status: 'draft'
+      };
+      db.feedback.push(item);
+      paper.feedbackId = item.id;
+    }
+    paper.status = 'awaiting-review';
+    setAnalysis(paper, { progress: 1, error: undefined });
+  };
+
+  const analysisQueue = createJobQueue({
+    concurrency,
+    maxAttempts,
+    backoffMs,
+    run: runAnalysis,
+    onRetry: (paperId, error, _attempt, delayMs) => {
+      const paper = db.papers.find(p => p.id === paperId);
+      if (!paper) return;
+      paper.status = 'queued';
+      setAnalysis(paper, { error: errorMessage(error), retryAt: new Date(Date.now() + delayMs).toISOString() });
+    },
+    onFail: (paperId, error) => {
+      const paper = db.papers.find(p => p.id === paperId);
+      if (!paper) return;
+      paper.status = 'failed';
+      setAnalysis(paper, { error: errorMessage(error), retryAt: undefined });
+    }
+  });
+
+  // Stored scores may predate papers or assignments changed since, so every paper is checked on start
+  for (const paper of db.papers) updateSimilarity(paper);
+
+  // Jobs interrupted by a restart start over
+  for (const paper of db.papers) {
+    if (isAnalyzing(paper.status)) {
+      paper.status = 'queued';
+      analysisQueue.enqueue(paper.id);
+    }
+  }
+
+  const findSettings = (userId: string) =>
+    db.settings.find(s => s.userId === userId) ?? createDefaultSettings(userId);
+
+  return {
+    teachers: {
+      list: () => respond([...db.teachers].sort((a, b) => a.name.localeCompare(b.name))),
+      get: (id) => respond(db.teachers.find(t => t.id === id)),
+      create: async (input) => {
+        requireText(input.name, 'name');
+        requireText(input.email, 'email');
+        if (db.teachers.some(t => t.id === input.id)) throw new ValidationError(`Teacher ${input.id} already exists`);
+        const teacher = { ...input, active: true };
+        db.teachers.push(teacher);
+        return commit(teacher);
+      },
+      update: async (id, update) => {
+        requireText(update.name, 'name');
+        const teacher = Object.assign(findOrThrow(db.teachers, 'Teacher', id), update, { id });
+        return commit(teacher);
+      }
+    },
+    students: {
+      list: (filter = {}) => respond(db.students.filter(s => !filter.classId || s.classId === filter.classId)),
+      get: (id) => respond(db.students.find(s => s.id === id)),
+      create: async (input) => {
+        requireText(input.name, 'name');
+        requireClass(input.classId);
+        const student = { ...input, id: createId('student') };
+        db.students.push(student);
+        return commit(student);
+      },
+      update: async (id, update) => {
+        requireText(update.name, 'name');
+        requireClass(update.classId);
+        const student = Object.assign(findOrThrow(db.students, 'Student', id), update, { id });
+        return commit(student);
+      }
+    },
+    classes: {
+      list: (filter = {}) => respond(db.classes.filter(c => !filter.teacherId || c.teacherId === filter.teacherId)),
+      get: (id) => respond(db.classes.find(c => c.id === id)),
+      create: async (input) => {
+        requireText(input.name, 'name');
+        requireTeacher(input.teacherId);
+        const schoolClass = { ...input, id: createId('class') };
+        db.classes.push(schoolClass);
+        return commit(schoolClass);
+      },
+      update: async (id, update) => {
+        requireText(update.name, 'name');
+        requireTeacher(update.teacherId);
+        const schoolClass = Object.assign(findOrThrow(db.classes, 'Class', id), update, { id });
+        return commit(schoolClass);
+      }
+    },
+    assignments: {
+      list: (filter = {}) => respond(db.assignments.filter(a => !filter.classId || a.classId === filter.classId)),
+      update: async (id, update) => {
+        const assignment = findOrThrow(db.assignments, 'Assignment', id);
+        if (update.rubricId === null) delete assignment.rubricId;
+        else if (update.rubricId !== undefined) {
+          if (!db.rubrics.some(r => r.id === update.rubricId)) throw new ValidationError(`Unknown rubric ${update.rubricId}`);
+          assignment.rubricId = update.rubricId;
+        }
+        return commit(assignment);
+      }
+    },
+    rubrics: {
+      list: (filter = {}) => respond(
+        db.rubrics
+          .filter(r => (!filter.authorId || r.authorId === filter.authorId) && (!filter.subject || r.subject === filter.subject))
+          .sort((a, b) => a.title.localeCompare(b.title))
+      ),
+      get: (id) => respond(db.rubrics.find(r => r.id === id)),
+      create: async (input) => {
+        requireRubric(input);
+        requireTeacher(input.authorId);
+        const rubric: Rubric = { ...sortRubricLevels(input), id: createId('rubric'), createdAt: new Date().toISOString() };
+        db.rubrics.push(rubric);
+        return commit(rubric);
+      },
+      update: async (id, update) => {
+        const rubric = findOrThrow(db.rubrics, 'Rubric', id);
+        const next = { ...rubric, ...update, id, authorId: rubric.authorId };
+        requireRubric(next);
+        Object.assign(rubric, sortRubricLevels(next), { updatedAt: new Date().toISOString() });
+        return commit(rubric);
+      },
+      remove: async (id) => {
+        const rubric = findOrThrow(db.rubrics, 'Rubric', id);
+        const users = db.assignments.filter(a => a.rubricId === id);
+        if (users.length > 0) {
+          throw new ValidationError(`${rubric.title} is attached to ${users.map(a => a.title).join(', ')}; detach it first`);
+        }
+        db.rubrics = db.rubrics.filter(r => r.id !== id);
+        await commit(undefined);
+      }
+    },
+    papers: {
+      list: (filter) => respond(db.papers.filter(p => matchesScope(p, filter))),
+      get: (id) => respond(db.papers.find(p => p.id === id)),
+      upload: async (input, { onProgress } = {}) => {
+        const student = db.students.find(s => s.id === input.studentId);
+        if (!student) throw new ValidationError(`Unknown student ${input.studentId}`);
+        const assignment = db.assignments.find(a => a.id === input.assignmentId);
+        if (!assignment || assignment.classId !== student.classId) {
+          throw new ValidationError(`Assignment ${input.assignmentId} is not set for ${student.name}'s class`);
+        }
+        requireText(input.fileName, 'fileName');
+        const content = parseDataUrl(input.content);
+        if (!content) throw new ValidationError('content must be a base64 data URL');
+        const problem = paperFileProblem({ name: input.fileName, type: content.contentType, size: content.size });
+        if (problem) throw new ValidationError(problem);
+        if (input.thumbnail !== undefined &&
+          (!parseDataUrl(input.thumbnail)?.contentType.startsWith('image/') || input.thumbnail.length > MAX_THUMBNAIL_LENGTH)) {
+          throw new ValidationError('thumbnail must be a small image data URL');
+        }
+        checkPageCount(input.pageCount);
+        const range = input.pageRange;
+        if (range) {
+          if (content.contentType !== 'application/pdf') throw new ValidationError('pageRange only applies to PDFs');
+          if (!Number.isInteger(range.first) || !Number.isInteger(range.last) || range.first < 1 || range.last < range.first ||
+            range.last > MAX_PAPER_PAGES || (input.pageCount !== undefined && range.last > input.pageCount)) {
+            throw new ValidationError('pageRange must be pages of the file, first to last');
+          }
+        }
+        // A paper cut from a batch PDF keeps only its own pages, never its classmates'
+        const stored = range ? await extractPdfPages(input.content, range) : input.content;
+
+        const paper: Paper = {
+          id: createId('paper'),
+          studentId: student.id,
+          assignmentId: assignment.id,
+          classId: student.classId,
+          uploadedAt: new Date().toISOString().slice(0, 10),
+          status: 'pending',
+          file: {
+            name: input.fileName,
+            contentType: content.contentType,
+            size: range ? parseDataUrl(stored)!.size : content.size,
+            pageCount: range ? range.last - range.first + 1 : input.pageCount,
+            thumbnail: input.thumbnail,
+            pageRange: range
+          }
+        };
+        await files.put(paper.id, stored);
+        db.papers.push(paper);
+        startTranscription(paper, stored);
+        onProgress?.(1);
+        return commit(paper);
+      },
+      getFile: async (id) => respond(db.papers.some(p => p.id === id && p.file) ? await files.get(id) : undefined),
+      getTranscript: (id) => respond(db.transcripts.find(t => t.paperId === id)),
+      getSimilarity: (id) => {
+        const paper = db.papers.find(p => p.id === id);
+        return respond(paper && similarityReport(paper));
+      },
+      transcribe: async (id) => {
+        const paper = findOrThrow(db.papers, 'Paper', id);
+        const content = paper.file && await files.get(id);
+        if (!content) throw new ValidationError(`Paper ${id} has no scan to read`);
+        startTranscription(paper, content);
+        return commit(paper);
+      },
+      recognize: async (input) => {
+        const content = parseDataUrl(input.content);
+        if (!content || content.contentType !== input.contentType) throw new ValidationError('content must be a base64 data URL');
+        const problem = paperFileProblem({ name: 'The scan', type: content.contentType, size: content.size });
+        if (problem) throw new ValidationError(problem);
+        checkPageCount(input.pageCount);
+        return respond(await ocr.recognize(input));
+      },
+      analyze: async (id) => {
+        const paper = findOrThrow(db.papers, 'Paper', id);
+        if (paper.status !== 'pending' && paper.status !== 'failed') {
+          throw new ValidationError(`Paper ${id} is ${paper.status}; only new or failed papers can be analysed`);
+        }
+        paper.status = 'queued';
+        paper.analysis = { progress: 0, attempt: 0, maxAttempts, updatedAt: new Date().toISOString() };
+        analysisQueue.enqueue(id);
+        return commit(paper);
+      },
+      cancelAnalysis: async (id) => {
+        const paper = findOrThrow(db.papers, 'Paper', id);
+        if (!isAnalyzing(paper.status)) throw new ValidationError(`Paper ${id} is not being analysed`);
+        analysisQueue.cancel(id);
+        paper.status = 'pending';
+        delete paper.analysis;
+        return commit(paper);
+      }
+    },
+    annotations: {
+      list: (filter = {}) => respond(
+        db.annotations
+          .filter(a => (!filter.paperId || a.paperId === filter.paperId) && (!filter.studentId || a.studentId === filter.studentId))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      ),
+      create: async (input) => {
+        const paper = db.papers.find(p => p.id === input.paperId);
+        if (!paper) throw new ValidationError(`Unknown paper ${input.paperId}`);
+        requireAnnotationContent(input);
+        const annotation: Annotation = {
+          ...input,
+          id: createId('note'),
+          studentId: paper.studentId,
+          classId: paper.classId,
+          createdAt: new Date().toISOString()
+        };
+        db.annotations.push(annotation);
+        return commit(annotation);
+      },
+      update: async (id, update) => {
+        const annotation = findOrThrow(db.annotations, 'Annotation', id);
+        requireAnnotationContent({ ...annotation, ...update });
+        Object.assign(annotation, update, { id, updatedAt: new Date().toISOString() });
+        return commit(annotation);
+      },
+      remove: async (id) => {
+        findOrThrow(db.annotations, 'Annotation', id);
+        db.annotations = db.annotations.filter(a => a.id !== id);
+        await commit(undefined);
+      }
+    },
+    feedback: {
+      list: (filter) => respond(db.feedback.filter(f => matchesScope(f, filter) && withinTimeframe(f.generatedAt, filter))),
+      get: (id) => respond(db.feedback.find(f => f.id === id)),
+      regenerate: async (id) => {
+        const item = findFeedback(id);
+        const paper = db.papers.find(p => p.id === item.paperId);
+        // The queued analysis would overwrite this result when it finishes
+        if (paper && isAnalyzing(paper.status)) throw new ValidationError(`Paper ${paper.id} is being analysed; cancel it first`);
+        const assignment = paper && db.assignments.find(a => a.id === paper.assignmentId);
+        const rubric = assignment && rubricOf(assignment);
+        if (rubric) {
+          item.rubricId = rubric.id;
+          item.rubricScores = draftRubricScores(rubric);
+          item.aiScore = rubricPercent(item.rubricScores);
+        } else {
+          delete item.rubricId;
+          delete item.rubricScores;
+          item.aiScore = Math.floor(75 + Math.random() * 20);
+        }
+        item.generatedAt = new Date().toISOString();
+        item.status = 'draft';
+        // Legibility comes from how confidently the scan was read, when it has been
+        const transcript = db.transcripts.find(t => t.paperId === item.paperId);
+        if (transcript) item.criteria.handwriting = Math.round(transcript.confidence * 100);
+        if (paper) paper.status = 'awaiting-review';
+        return commit(item);
+      },
+      finalize: async (id) => {
+        const item = findFeedback(id);
+        item.status = 'final';
+        const paper = db.papers.find(p => p.id === item.paperId);
+        if (paper) paper.status = 'reviewed';
+        return commit(item);
+      }
+    },
+    exams: {
+      list: (filter = {}) => {
+        const inClass = filter.classId ? studentIdsInClass(filter.classId) : null;
+        return respond(db.exams.filter(e =>
+          (!inClass || inClass.has(e.studentId)) &&
+          (!filter.studentId || e.studentId === filter.studentId)
+        ));
+      }
+    },
+    events: {
+      list: (filter = {}) => respond(db.events.filter(e => !filter.classId || e.classId === filter.classId))
+    },
+    messages: {
+      list: ({ userId }) => respond(
+        db.messages
+          .filter(m => m.fromUserId === userId || m.toUserId === userId)
+          .sort((a, b) => a.sentAt.localeCompare(b.sentAt))
+      ),
+      send: async (input) => {
+        if (!input.body.trim()) throw new ValidationError('Message body must not be empty');
+        const message = { ...input, id: createId('msg'), sentAt: new Date().toISOString(), readAt: null };
+        db.messages.push(message);
+        return commit(message);
+      },
+      markRead: async (id) => {
+        const message = db.messages.find(m => m.id === id);
+        if (!message) throw new NotFoundError('Message', id);
+        message.readAt ??= new Date().toISOString();
+        return commit(message);
+      }
+    },
+    settings: {
+      get: (userId) => respond(findSettings(userId)),
+      update: async (userId, update) => {
+        const next = { ...findSettings(userId), ...update, userId };
+        db.settings = [...db.settings.filter(s => s.userId !== userId), next];
+        return commit(next);
+      }
+    },
+    school: {
+      getPolicy: () => respond(db.policy),
+      updatePolicy: async (update) => {
+        requireText(update.schoolName, 'schoolName');
+        db.policy = {
+          ...db.policy,
+          ...update,
+          integrations: { ...db.policy.integrations, ...update.integrations },
+          updatedAt: new Date().toISOString()
+        };
+        return commit(db.policy);
+      }
+    },
+    audit: {
+      list: (filter = {}) => respond(
+        db.audit
+          .filter(e =>
+            (!filter.action || e.action === filter.action) &&
+            (!filter.actorId || e.actor.id === filter.actorId) &&
+            (!filter.targetType || e.target.type === filter.targetType) &&
+            (!filter.targetId || e.target.id === filter.targetId) &&
+            (!filter.from || e.at >= filter.from) &&
+            (!filter.to || e.at <= filter.to))
+          .sort((a, b) => b.at.localeCompare(a.at))
+      ),
+      record: async (entry, actor) => {
+        if (!actor) throw new ValidationError('Audit entries need an actor');
+        const item = { ...entry, id: createId('audit'), at: new Date().toISOString(), actor };
+        db.audit.push(item);
+        return commit(item);
+      }
+    }
+  };
+}
@@ -0,0 +1,147 @@
+import type { OcrPage, OcrWord, Transcript } from './types';
+
+// ------------------------------------------------------------
+// OCR Providers
+// ------------------------------------------------------------
+// Reads the text off uploaded scans. The store runs a provider
+// after every upload and keeps the transcript beside the paper.
+// The local provider is a deterministic stand-in: it does not
+// read the scan, but derives plausible handwriting results from
+// its bytes, so the same file always gives the same transcript.
+// A real engine is plugged in behind the HTTP provider.
+// ------------------------------------------------------------
+
+export interface OcrInput {
+  /** The scan as a base64 data URL. */
+  content: string;
+  contentType: string;
+  pageCount?: number;
+}
+
+export interface OcrOptions {
+  /** Aborts the read, e.g. when its analysis job is cancelled. */
+  signal?: AbortSignal;
+}
+
+export interface OcrProvider {
+  id: string;
+  name: string;
+  recognize(input: OcrInput, options?: OcrOptions): Promise<OcrPage[]>;
+}
+
+/** How long the HTTP provider waits for the service before giving up, so a hung service cannot stall a paper. */
+export const OCR_TIMEOUT_MS = 60 * 1000;
+
+/** Words read with less confidence than this are flagged for the teacher to check. */
+export const LOW_CONFIDENCE = 0.6;
+
+export const isLowConfidence = (word: OcrWord) => word.confidence < LOW_CONFIDENCE;
+
+export const flaggedWords = (pages: OcrPage[]) => pages.flatMap(p => p.words.filter(isLowConfidence));
+
+/** Mean word confidence across the transcript, 0 when nothing was read. */
+export function transcriptConfidence(pages: OcrPage[]): number {
+  const words = pages.flatMap(p => p.words);
+  return words.length === 0 ? 0 : words.reduce((sum, w) => sum + w.confidence, 0) / words.length;
+}
+
+export const transcriptText = (transcript: Pick<Transcript, 'pages'>) =>
+  transcript.pages.map(p => p.text).join('\n\n');
+
+// FNV-1a over a sample of the content; enough to tell scans apart
+function hashContent(content: string): number {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(content.length / 4096));
+  for (let i = 0; i < content.length; i += step) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small seeded generator, so output depends only on the seed
+function seededRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const VOCABULARY = (
+  'the summer was warm and bright we went to the beach with my family every morning ' +
+  'I saw the waves crash on the sand my brother built a castle and a crab walked past ' +
+  'in the evening grandmother told stories about her village the stars were shining ' +
+  'plants need water sunlight and soil to grow the seed becomes a small shoot then leaves ' +
+  'fractions show parts of a whole one half is bigger than one quarter because'
+).split(' ');
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function createLocalOcrProvider(): OcrProvider {
+  return {
+    id: 'local',
+    name: 'Local stand-in OCR',
+    recognize: async ({ content, pageCount = 1 }, { signal } = {}) => {
+      signal?.throwIfAborted();
+      const random = seededRandom(hashContent(content));
+      return Array.from({ length: pageCount }, (_, i): OcrPage => {
+        const words: OcrWord[] = [];
+        const lines: string[] = [];
+        const lineCount = 8 + Math.floor(random() * 7);
+        for (let line = 0; line < lineCount; line++) {
+          const y = 0.08 + line * 0.06;
+          const lineWords: string[] = [];
+          let x = 0.08 + random() * 0.03;
+          while (x < 0.8) {
+            const text = VOCABULARY[Math.floor(random() * VOCABULARY.length)];
+            const width = 0.015 * text.length + 0.01;
+            // Mostly legible, with the occasional smudged word a teacher should check
+            const confidence = random() < 0.08 ? 0.3 + random() * 0.3 : 0.7 + random() * 0.29;
+            words.push({ text, confidence: round(confidence), box: { x: round(x), y: round(y), width: round(width), height: 0.04 } });
+            lineWords.push(text);
+            x += width + 0.015;
+          }
+          lines.push(lineWords.join(' '));
+        }
+        return { page: i + 1, text: lines.join('\n'), words };
+      });
+    }
+  };
+}
+
+/**
+ * An external OCR service. It receives `{ contentType, content, pageCount }`
+ * as JSON and answers `{ pages: OcrPage[] }` within `timeoutMs`.
+ */
+export function createHttpOcrProvider({ url, apiKey, name = 'OCR service', timeoutMs = OCR_TIMEOUT_MS }: {
+  url: string;
+  apiKey?: string;
+  name?: string;
+  timeoutMs?: number;
+}): OcrProvider {
+  return {
+    id: 'http',
+    name,
+    recognize: async (input, { signal } = {}) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(input),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+      }).catch((error: unknown) => {
+        throw timeout.aborted ? new Error(`OCR service did not answer within ${Math.round(timeoutMs / 1000)} seconds`) : error;
+      });
+      if (!response.ok) throw new Error(`OCR service answered ${response.status}`);
+      const payload = (await response.json()) as { pages?: unknown };
+      if (!Array.isArray(payload?.pages)) throw new Error('OCR service returned no pages');
+      return payload.pages as OcrPage[];
+    }
+  };
+}
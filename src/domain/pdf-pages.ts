@@ -0,0 +1,278 @@
+import { ValidationError } from './repositories';
+import type { PageRange } from './types';
+
+// ------------------------------------------------------------
+// PDF Page Extraction
+// ------------------------------------------------------------
+// Cuts one paper's pages out of a batch-scanned PDF, so the
+// paper stores (and shows to its family) nothing of the other
+// students' pages. Only as much of the format is read as that
+// takes: the objects, including those packed in compressed
+// object streams, and the page tree. The chosen pages and
+// everything they use are copied unchanged into a new file;
+// other pages are never pulled in, even when linked to.
+// ------------------------------------------------------------
+
+interface PdfObject {
+  gen: number;
+  /** Source between `obj` and `endobj`, stream data included. */
+  body: string;
+}
+
+// Attributes a page takes from its ancestors when it does not set them itself
+const INHERITED = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+// Never copied by following a reference: other pages, the old tree, and cross-reference data
+const NOT_FOLLOWED = new Set(['Page', 'Pages', 'Catalog', 'ObjStm', 'XRef']);
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const REF = /(\d+)\s+(\d+)\s+R(?![^\s()<>[\]{}/%])/g;
+
+const unreadable = () => new ValidationError('The pages of this PDF could not be read; upload each paper as its own file');
+
+function skipSpace(s: string, i: number): number {
+  while (i < s.length) {
+    if (WHITESPACE.includes(s[i])) i++;
+    else if (s[i] === '%') while (i < s.length && s[i] !== '\n' && s[i] !== '\r') i++;
+    else break;
+  }
+  return i;
+}
+
+// Index just past the value starting at `i`; references (`12 0 R`) count as one value
+function skipValue(s: string, i: number): number {
+  i = skipSpace(s, i);
+  if (s.startsWith('<<', i)) {
+    i += 2;
+    for (;;) {
+      i = skipSpace(s, i);
+      if (i >= s.length) throw unreadable();
+      if (s.startsWith('>>', i)) return i + 2;
+      i = skipValue(s, i);
+    }
+  }
+  if (s[i] === '[') {
+    i++;
+    for (;;) {
+      i = skipSpace(s, i);
+      if (i >= s.length) throw unreadable();
+      if (s[i] === ']') return i + 1;
+      i = skipValue(s, i);
+    }
+  }
+  if (s[i] === '<') {
+    const end = s.indexOf('>', i);
+    if (end < 0) throw unreadable();
+    return end + 1;
+  }
+  if (s[i] === '(') {
+    let depth = 0;
+    for (; i < s.length; i++) {
+      if (s[i] === '\\') i++;
+      else if (s[i] === '(') depth++;
+      else if (s[i] === ')' && --depth === 0) return i + 1;
+    }
+    throw unreadable();
+  }
+  const ref = /\d+\s+\d+\s+R(?![^\s()<>[\]{}/%])/y;
+  ref.lastIndex = i;
+  if (ref.test(s)) return ref.lastIndex;
+  const start = i;
+  if (s[i] === '/') i++;
+  while (i < s.length && !WHITESPACE.includes(s[i]) && !DELIMITERS.includes(s[i])) i++;
+  if (i === start) throw unreadable();
+  return i;
+}
+
+/** Top-level entries of the dictionary starting at `i`, values as source text. */
+function readDict(s: string, i: number): Map<string, string> {
+  const entries = new Map<string, string>();
+  i = skipSpace(s, i);
+  if (!s.startsWith('<<', i)) return entries;
+  i += 2;
+  for (;;) {
+    i = skipSpace(s, i);
+    if (i >= s.length) throw unreadable();
+    if (s.startsWith('>>', i)) return entries;
+    const keyEnd = skipValue(s, i);
+    const key = s.slice(i, keyEnd);
+    if (!key.startsWith('/')) throw unreadable();
+    const valueStart = skipSpace(s, keyEnd);
+    i = skipValue(s, valueStart);
+    entries.set(key.slice(1), s.slice(valueStart, i));
+  }
+}
+
+const refTo = (value: string | undefined) => {
+  const match = value && /^(\d+)\s+\d+\s+R$/.exec(value);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Where the data of the stream after the dictionary ending at `dictEnd` starts and ends
+function streamBounds(s: string, dictEnd: number, dict: Map<string, string>): [number, number] {
+  let start = skipSpace(s, dictEnd) + 'stream'.length;
+  start += s.startsWith('\r\n', start) ? 2 : s[start] === '\n' ? 1 : 0;
+  // The length is usually right there; an indirect or wrong one means searching for the end
+  const length = Number(dict.get('Length'));
+  if (Number.isInteger(length) && s.startsWith('endstream', skipSpace(s, start + length))) return [start, start + length];
+  const end = s.indexOf('endstream', start);
+  if (end < 0) throw unreadable();
+  return [start, s[end - 1] === '\n' ? end - (s[end - 2] === '\r' ? 2 : 1) : end];
+}
+
+const isStream = (s: string, dictEnd: number) => s.startsWith('stream', skipSpace(s, dictEnd));
+
+const toBytes = (binary: string) => Uint8Array.from(binary, c => c.charCodeAt(0));
+
+function toBinary(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return binary;
+}
+
+async function inflate(data: string): Promise<string> {
+  const stream = new Blob([toBytes(data)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return toBinary(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+// Every object in the file, later definitions (incremental updates) replacing earlier ones
+async function readObjects(pdf: string): Promise<Map<number, PdfObject>> {
+  const found: { at: number; num: number; object: PdfObject }[] = [];
+  const packed: { at: number; dict: Map<string, string>; data: [number, number] }[] = [];
+  const header = /(\d+)\s+(\d+)\s+obj(?![^\s()<>[\]{}/%])/g;
+  for (let match; (match = header.exec(pdf));) {
+    const start = match.index + match[0].length;
+    const dictEnd = skipValue(pdf, start);
+    const dict = readDict(pdf, start);
+    // Streams are skipped by their length, so their data is never mistaken for objects
+    const data = isStream(pdf, dictEnd) ? streamBounds(pdf, dictEnd, dict) : undefined;
+    const end = pdf.indexOf('endobj', data ? data[1] : dictEnd);
+    if (end < 0) throw unreadable();
+    found.push({ at: match.index, num: Number(match[1]), object: { gen: Number(match[2]), body: pdf.slice(start, end) } });
+    if (data && dict.get('Type') === '/ObjStm') packed.push({ at: match.index, dict, data });
+    header.lastIndex = end + 'endobj'.length;
+  }
+
+  // Object streams hold plain (non-stream) objects: a header of number/offset pairs, then the objects
+  for (const { at, dict, data: [start, end] } of packed) {
+    const filter = dict.get('Filter')?.replace(/[[\]\s]/g, '');
+    if ((filter && filter !== '/FlateDecode') || dict.has('DecodeParms')) throw unreadable();
+    const data = filter ? await inflate(pdf.slice(start, end)) : pdf.slice(start, end);
+    const first = Number(dict.get('First'));
+    const pairs = data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let k = 0; k + 1 < pairs.length; k += 2) {
+      const offset = first + pairs[k + 1];
+      found.push({ at: at + 1, num: pairs[k], object: { gen: 0, body: ` ${data.slice(offset, skipValue(data, offset))} ` } });
+    }
+  }
+
+  found.sort((a, b) => a.at - b.at);
+  return new Map(found.map(({ num, object }) => [num, object]));
+}
+
+interface PageNode {
+  num: number;
+  dict: Map<string, string>;
+  inherited: Map<string, string>;
+}
+
+// Pages in reading order, each with the attributes it inherits from the tree above it
+function readPageTree(objects: Map<number, PdfObject>, root: number): PageNode[] {
+  const pages: PageNode[] = [];
+  const seen = new Set<number>();
+  const visit = (num: number, inherited: Map<string, string>) => {
+    const object = objects.get(num);
+    if (!object || seen.has(num)) return;
+    seen.add(num);
+    const dict = readDict(object.body, 0);
+    if (!dict.has('Kids')) {
+      if (dict.size > 0) pages.push({ num, dict, inherited });
+      return;
+    }
+    const passed = new Map(inherited);
+    for (const key of INHERITED) if (dict.has(key)) passed.set(key, dict.get(key)!);
+    let kids = dict.get('Kids')!;
+    const kidsRef = refTo(kids);
+    if (kidsRef !== undefined) kids = objects.get(kidsRef)?.body ?? '';
+    for (const [, kid] of kids.matchAll(REF)) visit(Number(kid), passed);
+  };
+  const catalog = objects.get(root);
+  const tree = catalog && refTo(readDict(catalog.body, 0).get('Pages'));
+  if (tree === undefined) throw unreadable();
+  visit(tree, new Map());
+  return pages;
+}
+
+function findRoot(pdf: string, objects: Map<number, PdfObject>): number {
+  if (/\/Encrypt\s*(\d|<<)/.test(pdf)) throw new ValidationError('Encrypted PDFs cannot be split into papers');
+  const roots = [...pdf.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+  if (roots.length > 0) return Number(roots[roots.length - 1][1]);
+  for (const [num, object] of objects) {
+    if (readDict(object.body, 0).get('Type') === '/Catalog') return num;
+  }
+  throw unreadable();
+}
+
+/**
+ * A new PDF holding only `range` (1-based, inclusive) of the PDF in the base64 data URL, as a
+ * data URL. Throws ValidationError when the file cannot be read or is shorter than the range.
+ */
+export async function extractPdfPages(content: string, range: PageRange): Promise<string> {
+  const pdf = atob(content.slice(content.indexOf(',') + 1));
+  const objects = await readObjects(pdf);
+  const pages = readPageTree(objects, findRoot(pdf, objects));
+  if (range.last > pages.length) {
+    throw new ValidationError(`pageRange ends at page ${range.last}, but the PDF has ${pages.length} pages`);
+  }
+
+  const top = Math.max(0, ...objects.keys());
+  const treeNum = top + 1;
+  const catalogNum = top + 2;
+  const output = new Map<number, PdfObject>();
+  const queue: number[] = [];
+  const follow = (text: string) => {
+    for (const [, num] of text.matchAll(REF)) queue.push(Number(num));
+  };
+
+  const chosen = pages.slice(range.first - 1, range.last);
+  for (const { num, dict, inherited } of chosen) {
+    const entries = new Map([...inherited, ...dict]);
+    entries.set('Parent', `${treeNum} 0 R`);
+    const body = `\n<<\n${[...entries].map(([key, value]) => `/${key} ${value}`).join('\n')}\n>>\n`;
+    output.set(num, { gen: objects.get(num)!.gen, body });
+    entries.delete('Parent');
+    follow([...entries.values()].join(' '));
+  }
+  // Everything the pages use, down to fonts and images; a stream's data is not searched for references
+  while (queue.length > 0) {
+    const num = queue.pop()!;
+    const object = objects.get(num);
+    if (!object || output.has(num)) continue;
+    if (NOT_FOLLOWED.has(readDict(object.body, 0).get('Type')?.slice(1) ?? '')) continue;
+    output.set(num, object);
+    follow(object.body.slice(0, skipValue(object.body, 0)));
+  }
+  output.set(treeNum, {
+    gen: 0,
+    body: `\n<< /Type /Pages /Count ${chosen.length} /Kids [${chosen.map(p => `${p.num} ${objects.get(p.num)!.gen} R`).join(' ')}] >>\n`
+  });
+  output.set(catalogNum, { gen: 0, body: `\n<< /Type /Catalog /Pages ${treeNum} 0 R >>\n` });
+
+  const version = /^%PDF-(\d\.\d)/.exec(pdf)?.[1] ?? '1.4';
+  let file = `%PDF-${version}\n%\xE2\xE3\xCF\xD3\n`;
+  const offsets = new Map<number, number>();
+  for (const [num, object] of [...output].sort(([a], [b]) => a - b)) {
+    offsets.set(num, file.length);
+    file += `${num} ${object.gen} obj${object.body}endobj\n`;
+  }
+  const xref = file.length;
+  file += `xref\n0 ${catalogNum + 1}\n0000000000 65535 f \n`;
+  for (let num = 1; num <= catalogNum; num++) {
+    const at = offsets.get(num);
+    file += at === undefined
+      ? '0000000000 65535 f \n'
+      : `${String(at).padStart(10, '0')} ${String(output.get(num)!.gen).padStart(5, '0')} n \n`;
+  }
+  file += `trailer\n<< /Size ${catalogNum + 1} /Root ${catalogNum} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return `data:application/pdf;base64,${btoa(file)}`;
+}
@@ -0,0 +1,21 @@
+import type { DataRetention, IntegrationId } from './types';
+
+// ------------------------------------------------------------
+// School Policy Labels
+// ------------------------------------------------------------
+// Display names shared by the admin policy page and the read-only
+// view teachers get in their settings.
+// ------------------------------------------------------------
+
+export const RETENTION_LABELS: Record<DataRetention, string> = {
+  '30days': '30 Days',
+  '90days': '90 Days',
+  '1year': '1 Year',
+  forever: 'Forever'
+};
+
+export const INTEGRATION_LABELS: Record<IntegrationId, string> = {
+  'google-classroom': 'Google Classroom',
+  'microsoft-teams': 'Microsoft Teams',
+  canvas: 'Canvas LMS'
+};
@@ -0,0 +1,260 @@
+import type {
+  Annotation,
+  Assignment,
+  AuditAction,
+  AuditActor,
+  AuditEntry,
+  Exam,
+  Feedback,
+  Message,
+  OcrPage,
+  PageRange,
+  Paper,
+  Rubric,
+  SchoolClass,
+  SchoolEvent,
+  SchoolPolicy,
+  SimilarityReport,
+  Student,
+  Teacher,
+  Transcript,
+  UserSettings
+} from './types';
+import type { OcrInput } from './ocr';
+
+// ------------------------------------------------------------
+// Repository Interfaces
+// ------------------------------------------------------------
+// Pages depend on these contracts only. The in-memory
+// implementation (memory.ts) backs the prototype; a network
+// implementation (http.ts) talks to the local REST backend in
+// server/ and is selected via RepositoryProvider.
+// ------------------------------------------------------------
+
+export interface ClassScopedFilter {
+  classId?: string;
+  studentId?: string;
+}
+
+export type Timeframe = '7d' | '30d' | '90d';
+
+export interface FeedbackFilter extends ClassScopedFilter {
+  timeframe?: Timeframe;
+}
+
+export type NewStudentInput = Omit<Student, 'id'>;
+/** Moving a student to another class is an update of `classId` (an enrolment change). */
+export type StudentUpdate = Partial<Omit<Student, 'id'>>;
+
+export interface StudentRepository {
+  list(filter?: { classId?: string }): Promise<Student[]>;
+  get(id: string): Promise<Student | undefined>;
+  create(input: NewStudentInput): Promise<Student>;
+  update(id: string, update: StudentUpdate): Promise<Student>;
+}
+
+export type NewClassInput = Omit<SchoolClass, 'id'>;
+export type ClassUpdate = Partial<NewClassInput>;
+
+export interface ClassRepository {
+  list(filter?: { teacherId?: string }): Promise<SchoolClass[]>;
+  get(id: string): Promise<SchoolClass | undefined>;
+  create(input: NewClassInput): Promise<SchoolClass>;
+  update(id: string, update: ClassUpdate): Promise<SchoolClass>;
+}
+
+/** The id is the teacher's account id, so the directory entry and sign-in line up. */
+export type NewTeacherInput = Omit<Teacher, 'active'>;
+export type TeacherUpdate = Partial<Omit<Teacher, 'id'>>;
+
+export interface TeacherRepository {
+  list(): Promise<Teacher[]>;
+  get(id: string): Promise<Teacher | undefined>;
+  create(input: NewTeacherInput): Promise<Teacher>;
+  update(id: string, update: TeacherUpdate): Promise<Teacher>;
+}
+
+/** `rubricId: null` detaches the assignment's rubric. */
+export interface AssignmentUpdate {
+  rubricId?: string | null;
+}
+
+export interface AssignmentRepository {
+  list(filter?: { classId?: string }): Promise<Assignment[]>;
+  /** Papers already scored keep the rubric scores they were given. */
+  update(id: string, update: AssignmentUpdate): Promise<Assignment>;
+}
+
+export type NewRubricInput = Omit<Rubric, 'id' | 'createdAt' | 'updatedAt'>;
+export type RubricUpdate = Partial<Omit<NewRubricInput, 'authorId'>>;
+
+export interface RubricRepository {
+  /** Alphabetical by title. */
+  list(filter?: { authorId?: string; subject?: string }): Promise<Rubric[]>;
+  get(id: string): Promise<Rubric | undefined>;
+  create(input: NewRubricInput): Promise<Rubric>;
+  update(id: string, update: RubricUpdate): Promise<Rubric>;
+  /** Refused while an assignment is marked against the rubric. */
+  remove(id: string): Promise<void>;
+}
+
+export interface PaperUpload {
+  studentId: string;
+  assignmentId: string;
+  fileName: string;
+  /** The scan as a base64 data URL; its type and size are checked against domain/uploads.ts. */
+  content: string;
+  /** JPEG data URL made by the browser, for images. */
+  thumbnail?: string;
+  /** Pages in the whole file. */
+  pageCount?: number;
+  /** For a batch-scanned PDF: the pages that belong to this paper. Only those are stored. */
+  pageRange?: PageRange;
+}
+
+export interface UploadOptions {
+  /** Fraction of the content sent so far, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+}
+
+export interface PaperRepository {
+  list(filter?: ClassScopedFilter): Promise<Paper[]>;
+  get(id: string): Promise<Paper | undefined>;
+  /** Stores a new scan for the student's class and starts OCR; the paper starts out `pending`. */
+  upload(input: PaperUpload, options?: UploadOptions): Promise<Paper>;
+  /** The uploaded scan as a data URL; undefined for papers without one. */
+  getFile(id: string): Promise<string | undefined>;
+  /** Text read from the scan; undefined until OCR has completed. */
+  getTranscript(id: string): Promise<Transcript | undefined>;
+  /** The paper's text compared with other submissions of the task; undefined until OCR has completed. */
+  getSimilarity(id: string): Promise<SimilarityReport | undefined>;
+  /** Runs OCR on the scan again (it runs once by itself after upload); resolves once it has started. */
+  transcribe(id: string): Promise<Paper>;
+  /** Reads a scan without storing it, so a batch can be matched to students before upload. */
+  recognize(input: OcrInput): Promise<OcrPage[]>;
+  /** Queues a `pending` or `failed` paper for OCR and AI analysis; it ends `awaiting-review` with draft feedback. */
+  analyze(id: string): Promise<Paper>;
+  /** Takes a paper out of the analysis queue, back to `pending`. */
+  cancelAnalysis(id: string): Promise<Paper>;
+}
+
+export interface AnnotationFilter {
+  paperId?: string;
+  studentId?: string;
+}
+
+export type NewAnnotationInput = Pick<Annotation, 'paperId' | 'authorId' | 'anchor' | 'rubricTags' | 'sharedWithFamily'> &
+  Partial<Pick<Annotation, 'comment' | 'stamp'>>;
+export type AnnotationUpdate = Partial<Pick<Annotation, 'anchor' | 'comment' | 'stamp' | 'rubricTags' | 'sharedWithFamily'>>;
+
+export interface AnnotationRepository {
+  /** Oldest first. */
+  list(filter?: AnnotationFilter): Promise<Annotation[]>;
+  /** Needs a comment, a stamp or a rubric tag; the student and class come from the paper. */
+  create(input: NewAnnotationInput): Promise<Annotation>;
+  update(id: string, update: AnnotationUpdate): Promise<Annotation>;
+  remove(id: string): Promise<void>;
+}
+
+export interface FeedbackRepository {
+  list(filter?: FeedbackFilter): Promise<Feedback[]>;
+  get(id: string): Promise<Feedback | undefined>;
+  /** Re-runs AI analysis; the result is always a draft again. */
+  regenerate(id: string): Promise<Feedback>;
+  /** Approves feedback and marks the underlying paper as reviewed. */
+  finalize(id: string): Promise<Feedback>;
+}
+
+export interface ExamRepository {
+  list(filter?: ClassScopedFilter): Promise<Exam[]>;
+}
+
+export interface EventRepository {
+  list(filter?: { classId?: string }): Promise<SchoolEvent[]>;
+}
+
+export interface SendMessageInput {
+  fromUserId: string;
+  toUserId: string;
+  studentId?: string;
+  body: string;
+}
+
+export interface MessageRepository {
+  /** Messages sent to or by the user, oldest first. */
+  list(filter: { userId: string }): Promise<Message[]>;
+  send(input: SendMessageInput): Promise<Message>;
+  markRead(id: string): Promise<Message>;
+}
+
+export type SettingsUpdate = Partial<Omit<UserSettings, 'userId'>>;
+
+export interface SettingsRepository {
+  /** Returns stored settings, or the defaults for users who never saved any. */
+  get(userId: string): Promise<UserSettings>;
+  /** Replaces the given sections wholesale; omitted sections are kept. */
+  update(userId: string, update: SettingsUpdate): Promise<UserSettings>;
+}
+
+export type PolicyUpdate = Partial<Omit<SchoolPolicy, 'updatedAt' | 'integrations'>> & {
+  integrations?: Partial<SchoolPolicy['integrations']>;
+};
+
+export interface SchoolRepository {
+  getPolicy(): Promise<SchoolPolicy>;
+  /** Replaces the given fields; `integrations` is merged per integration. */
+  updatePolicy(update: PolicyUpdate): Promise<SchoolPolicy>;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'at' | 'actor'>;
+
+export interface AuditFilter {
+  action?: AuditAction;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  /** ISO timestamps; both ends are inclusive. */
+  from?: string;
+  to?: string;
+}
+
+/** Append-only: there is deliberately no way to change or remove an entry. */
+export interface AuditRepository {
+  /** Newest first. */
+  list(filter?: AuditFilter): Promise<AuditEntry[]>;
+  /** Appends an entry attributed to `actor`. */
+  record(entry: NewAuditEntry, actor?: AuditActor): Promise<AuditEntry>;
+}
+
+export interface Repositories {
+  teachers: TeacherRepository;
+  students: StudentRepository;
+  classes: ClassRepository;
+  assignments: AssignmentRepository;
+  rubrics: RubricRepository;
+  papers: PaperRepository;
+  annotations: AnnotationRepository;
+  feedback: FeedbackRepository;
+  exams: ExamRepository;
+  events: EventRepository;
+  messages: MessageRepository;
+  settings: SettingsRepository;
+  school: SchoolRepository;
+  audit: AuditRepository;
+}
+
+export const TIMEFRAME_DAYS: Record<Timeframe, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(entity: string, id: string) {
+    super(`${entity} ${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
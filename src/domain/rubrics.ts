@@ -0,0 +1,100 @@
+import { RUBRIC_TAGS } from './annotations';
+import type { Feedback, Rubric, RubricCriterion, RubricLevel, RubricScore } from './types';
+
+// ------------------------------------------------------------
+// Rubrics
+// ------------------------------------------------------------
+// A rubric lists criteria, each with performance levels worth
+// some points and a weight that multiplies them. A paper's score
+// on a criterion is the level it reached times the weight, and
+// its overall score is the share of the rubric's total points it
+// earned. Feedback written before rubrics existed (or for an
+// assignment without one) keeps the fixed criteria scores.
+// ------------------------------------------------------------
+
+export const MAX_RUBRIC_CRITERIA = 10;
+export const MAX_RUBRIC_LEVELS = 6;
+
+const topPoints = (levels: RubricLevel[]) => Math.max(0, ...levels.map(l => l.points));
+
+export const criterionMaxPoints = (criterion: RubricCriterion) => topPoints(criterion.levels) * criterion.weight;
+
+export const rubricTotalPoints = (rubric: Pick<Rubric, 'criteria'>) =>
+  rubric.criteria.reduce((total, criterion) => total + criterionMaxPoints(criterion), 0);
+
+/** The rubric with each criterion's levels ordered highest points first. */
+export function sortRubricLevels<T extends Pick<Rubric, 'criteria'>>(rubric: T): T {
+  return {
+    ...rubric,
+    criteria: rubric.criteria.map(c => ({ ...c, levels: [...c.levels].sort((a, b) => b.points - a.points) }))
+  };
+}
+
+/** Why a rubric cannot be saved, or undefined when it is fine. */
+export function rubricProblem(rubric: Pick<Rubric, 'title' | 'subject' | 'criteria'>): string | undefined {
+  if (!rubric.title?.trim()) return 'A rubric needs a title';
+  if (!rubric.subject?.trim()) return 'A rubric needs a subject';
+  if (!Array.isArray(rubric.criteria) || rubric.criteria.length === 0) return 'A rubric needs at least one criterion';
+  if (rubric.criteria.length > MAX_RUBRIC_CRITERIA) return `A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria`;
+  const ids = new Set<string>();
+  for (const criterion of rubric.criteria) {
+    if (!criterion.id || ids.has(criterion.id)) return 'Every criterion needs its own id';
+    ids.add(criterion.id);
+    if (!criterion.name?.trim()) return 'Every criterion needs a name';
+    if (!Number.isInteger(criterion.weight) || criterion.weight < 1) return `${criterion.name}: weight must be a whole number from 1`;
+    if (!Array.isArray(criterion.levels) || criterion.levels.length < 2 || criterion.levels.length > MAX_RUBRIC_LEVELS) {
+      return `${criterion.name}: give from 2 to ${MAX_RUBRIC_LEVELS} levels`;
+    }
+    for (const level of criterion.levels) {
+      if (!level.label?.trim()) return `${criterion.name}: every level needs a label`;
+      if (typeof level.descriptor !== 'string') return `${criterion.name}: level descriptors must be text`;
+      if (!Number.isInteger(level.points) || level.points < 0) return `${criterion.name}: points must be whole numbers from 0`;
+    }
+    if (new Set(criterion.levels.map(l => l.points)).size !== criterion.levels.length) {
+      return `${criterion.name}: each level needs different points`;
+    }
+    if (topPoints(criterion.levels) === 0) return `${criterion.name}: the top level must be worth some points`;
+  }
+  return undefined;
+}
+
+/** Records that a paper reached `level` on `criterion`. */
+export const scoreCriterion = (criterion: RubricCriterion, level: RubricLevel): RubricScore => ({
+  criterionId: criterion.id,
+  criterion: criterion.name,
+  level: level.label,
+  points: level.points * criterion.weight,
+  maxPoints: criterionMaxPoints(criterion)
+});
+
+export const rubricPoints = (scores: RubricScore[]) => ({
+  earned: scores.reduce((total, s) => total + s.points, 0),
+  max: scores.reduce((total, s) => total + s.maxPoints, 0)
+});
+
+/** Overall score (0-100): the share of the available points that were earned. */
+export function rubricPercent(scores: RubricScore[]): number {
+  const { earned, max } = rubricPoints(scores);
+  return max === 0 ? 0 : Math.round((earned / max) * 100);
+}
+
+export interface ScoreLine {
+  key: string;
+  label: string;
+  percent: number;
+  /** Level and points, for rubric scores. */
+  detail?: string;
+}
+
+/** Per-criterion scores to display: the rubric's when the feedback was scored against one, else the fixed criteria. */
+export function scoreBreakdown(feedback: Pick<Feedback, 'criteria' | 'rubricScores'>): ScoreLine[] {
+  if (feedback.rubricScores?.length) {
+    return feedback.rubricScores.map(score => ({
+      key: score.criterionId,
+      label: score.criterion,
+      percent: score.maxPoints === 0 ? 0 : Math.round((score.points / score.maxPoints) * 100),
+      detail: `${score.level} • ${score.points}/${score.maxPoints} pts`
+    }));
+  }
+  return RUBRIC_TAGS.map(({ key, label }) => ({ key, label, percent: feedback.criteria[key] }));
+}
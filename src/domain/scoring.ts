@@ -0,0 +1,63 @@
+import type { Exam, Feedback } from './types';
+
+// ------------------------------------------------------------
+// Score Derivations
+// ------------------------------------------------------------
+// Pure helpers that turn raw feedback/exams into the numbers the
+// dashboards show, so every portal computes them the same way.
+// ------------------------------------------------------------
+
+export type PerformanceStatus = 'excellent' | 'good' | 'needs-attention';
+
+export function letterGrade(score: number): string {
+  if (score >= 90) return 'A';
+  if (score >= 85) return 'A-';
+  if (score >= 80) return 'B+';
+  if (score >= 75) return 'B';
+  if (score >= 70) return 'B-';
+  if (score >= 65) return 'C+';
+  if (score >= 60) return 'C';
+  return 'D';
+}
+
+export function performanceStatus(score: number): PerformanceStatus {
+  if (score >= 90) return 'excellent';
+  if (score >= 75) return 'good';
+  return 'needs-attention';
+}
+
+export function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Most recent feedback for a student, or undefined if none exists yet. */
+export function latestFeedbackFor(studentId: string, feedback: Feedback[]): Feedback | undefined {
+  return feedback
+    .filter(f => f.studentId === studentId)
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))[0];
+}
+
+/** Exams sorted newest first. */
+export function sortExams(exams: Exam[]): Exam[] {
+  return [...exams].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Average percentage change between each student's two most recent
+ * exams. Students with fewer than two exams are ignored.
+ */
+export function improvementRate(exams: Exam[]): number {
+  const byStudent = new Map<string, Exam[]>();
+  for (const exam of exams) {
+    byStudent.set(exam.studentId, [...(byStudent.get(exam.studentId) ?? []), exam]);
+  }
+  const changes: number[] = [];
+  for (const list of byStudent.values()) {
+    const [latest, previous] = sortExams(list);
+    if (latest && previous && previous.score > 0) {
+      changes.push(((latest.score - previous.score) / previous.score) * 100);
+    }
+  }
+  return Math.round(average(changes) * 10) / 10;
+}
@@ -0,0 +1,202 @@
+import { transcriptText } from './ocr';
+import type {
+  Assignment,
+  Paper,
+  SimilarityMatch,
+  SimilarityPassage,
+  SimilarityReport,
+  SimilaritySource,
+  Transcript
+} from './types';
+
+// ------------------------------------------------------------
+// Similarity Detection
+// ------------------------------------------------------------
+// Compares what papers say, as read by OCR. Each text is cut
+// into overlapping runs of words (shingles) and hashed; a few
+// of the hashes, chosen by winnowing, fingerprint the text so
+// papers sharing none are skipped. For the rest, runs of equal
+// shingles are the matching passages, and a paper's score is
+// the share of its words inside a passage found elsewhere.
+// Submissions are compared with the rest of the assignment and
+// with any other class or earlier year that set an assignment
+// of the same title and subject.
+// ------------------------------------------------------------
+
+/** Words per shingle: shorter runs match on common phrases, longer ones miss light rewording. */
+export const SHINGLE_WORDS = 5;
+
+/** Papers scoring at least this (percent) are flagged for the teacher to look at. */
+export const SIMILARITY_WARNING = 40;
+
+// Winnowing window: any passage of SHINGLE_WORDS + WINNOW_WINDOW - 1 words leaves a fingerprint
+const WINNOW_WINDOW = 4;
+
+interface SimilarityText {
+  /** Words as read, for display. */
+  words: string[];
+  /** Hash of the shingle starting at each word. */
+  shingles: number[];
+  fingerprints: Set<number>;
+}
+
+// Case, punctuation and accents are not evidence of copying
+const normalizeWord = (word: string) =>
+  word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// FNV-1a
+function hashWords(words: string[]): number {
+  let hash = 0x811c9dc5;
+  for (const char of words.join(' ')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The smallest hash of every window (the rightmost on ties); short texts keep all of theirs. */
+function winnow(hashes: number[]): Set<number> {
+  if (hashes.length <= WINNOW_WINDOW) return new Set(hashes);
+  const fingerprints = new Set<number>();
+  for (let start = 0; start + WINNOW_WINDOW <= hashes.length; start++) {
+    let min = start;
+    for (let i = start + 1; i < start + WINNOW_WINDOW; i++) if (hashes[i] <= hashes[min]) min = i;
+    fingerprints.add(hashes[min]);
+  }
+  return fingerprints;
+}
+
+function prepareText(text: string): SimilarityText {
+  const words: string[] = [];
+  const terms: string[] = [];
+  for (const word of text.split(/\s+/)) {
+    const term = normalizeWord(word);
+    if (!term) continue;
+    words.push(word);
+    terms.push(term);
+  }
+  const shingles: number[] = [];
+  for (let i = 0; i + SHINGLE_WORDS <= terms.length; i++) shingles.push(hashWords(terms.slice(i, i + SHINGLE_WORDS)));
+  return { words, shingles, fingerprints: winnow(shingles) };
+}
+
+const sharesFingerprint = (a: SimilarityText, b: SimilarityText) => [...a.fingerprints].some(f => b.fingerprints.has(f));
+
+/**
+ * Passages `text` shares with `other`, longest first claim: each run of
+ * equal shingles is extended as far as both texts agree, and a part of
+ * `text` belongs to one passage at most.
+ */
+function matchingPassages(text: SimilarityText, other: SimilarityText): SimilarityPassage[] {
+  const positions = new Map<number, number[]>();
+  other.shingles.forEach((hash, j) => {
+    const at = positions.get(hash);
+    if (at) at.push(j);
+    else positions.set(hash, [j]);
+  });
+
+  const passages: SimilarityPassage[] = [];
+  let i = 0;
+  while (i < text.shingles.length) {
+    let best = { length: 0, at: -1 };
+    for (const j of positions.get(text.shingles[i]) ?? []) {
+      let length = 1;
+      while (i + length < text.shingles.length && text.shingles[i + length] === other.shingles[j + length]) length++;
+      if (length > best.length) best = { length, at: j };
+    }
+    if (best.length === 0) {
+      i++;
+      continue;
+    }
+    const words = best.length + SHINGLE_WORDS - 1;
+    passages.push({ start: i, end: i + words, otherStart: best.at, otherEnd: best.at + words });
+    // Carry on after the passage; the next one may overlap its last shingle's words
+    i += best.length;
+  }
+  return passages;
+}
+
+/** Words of a `wordCount`-word text inside any of the passages. */
+function coveredWords(passages: SimilarityPassage[], wordCount: number): Set<number> {
+  const covered = new Set<number>();
+  for (const passage of passages) for (let w = passage.start; w < Math.min(passage.end, wordCount); w++) covered.add(w);
+  return covered;
+}
+
+const percentOf = (part: number, whole: number) => (whole === 0 ? 0 : Math.round((part / whole) * 100));
+
+const sameTask = (a: Assignment, b: Assignment) =>
+  a.subject === b.subject && a.title.trim().toLowerCase() === b.title.trim().toLowerCase();
+
+/** The school year an ISO date falls in, named by the calendar year it starts in (from August). */
+export function schoolYear(isoDate: string): number {
+  const [year, month] = isoDate.split('-').map(Number);
+  return month >= 8 ? year : year - 1;
+}
+
+/** "2023–24" */
+export const schoolYearLabel = (year: number) => `${year}–${String((year + 1) % 100).padStart(2, '0')}`;
+
+/**
+ * The submissions `paper` is compared with: the rest of its assignment,
+ * and papers for assignments of the same title and subject in other
+ * classes and earlier years. Later years are left to compare themselves.
+ */
+export function comparisonPool(paper: Paper, papers: Paper[], assignments: Assignment[]): { paper: Paper; source: SimilaritySource }[] {
+  const assignment = assignments.find(a => a.id === paper.assignmentId);
+  if (!assignment) return [];
+  const year = schoolYear(paper.uploadedAt);
+  return papers.flatMap(other => {
+    if (other.id === paper.id || other.studentId === paper.studentId) return [];
+    const otherAssignment = assignments.find(a => a.id === other.assignmentId);
+    if (!otherAssignment || (other.assignmentId !== assignment.id && !sameTask(otherAssignment, assignment))) return [];
+    const otherYear = schoolYear(other.uploadedAt);
+    if (otherYear > year) return [];
+    const source: SimilaritySource = otherYear < year ? 'prior-year' : other.classId === paper.classId ? 'class' : 'other-class';
+    return [{ paper: other, source }];
+  });
+}
+
+/**
+ * Compares a paper's transcript with those of its comparison pool.
+ * Papers without a transcript yet are skipped.
+ */
+export function compareSubmissions(
+  paper: Paper,
+  transcript: Transcript,
+  pool: { paper: Paper; source: SimilaritySource }[],
+  transcripts: Transcript[],
+  checkedAt = new Date().toISOString()
+): SimilarityReport {
+  const text = prepareText(transcriptText(transcript));
+  const matches: SimilarityMatch[] = [];
+  const covered = new Set<number>();
+  for (const { paper: other, source } of pool) {
+    const otherTranscript = transcripts.find(t => t.paperId === other.id);
+    if (!otherTranscript) continue;
+    const otherText = prepareText(transcriptText(otherTranscript));
+    if (!sharesFingerprint(text, otherText)) continue;
+    const passages = matchingPassages(text, otherText);
+    if (passages.length === 0) continue;
+    const words = coveredWords(passages, text.words.length);
+    words.forEach(w => covered.add(w));
+    matches.push({
+      paperId: other.id,
+      studentId: other.studentId,
+      classId: other.classId,
+      assignmentId: other.assignmentId,
+      uploadedAt: other.uploadedAt,
+      source,
+      score: percentOf(words.size, text.words.length),
+      words: otherText.words,
+      passages
+    });
+  }
+  return {
+    paperId: paper.id,
+    score: percentOf(covered.size, text.words.length),
+    words: text.words,
+    matches: matches.sort((a, b) => b.score - a.score),
+    checkedAt
+  };
+}
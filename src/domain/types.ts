@@ -0,0 +1,371 @@
+// ------------------------------------------------------------
+// Domain Model
+// ------------------------------------------------------------
+// Shared shapes for everything the portals display. Pages should
+// never define their own copies of these; they read them through
+// the repository hooks in `@/hooks/use-portal-data`.
+// ------------------------------------------------------------
+
+export interface Student {
+  id: string;
+  name: string;
+  grade: string;            // Display grade level, e.g. "5th Grade"
+  classId: string;
+  avatar?: string;
+}
+
+export interface Teacher {
+  id: string;               // Same id as the teacher's sign-in account
+  name: string;
+  email: string;
+  subject: string;
+  active: boolean;          // Inactive teachers keep their history but cannot sign in or get new classes
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string;             // e.g. "Class 5A"
+  grade: string;
+  subject: string;
+  teacherId: string;
+}
+
+export type AssignmentStatus = 'open' | 'closed';
+export type AssignmentPriority = 'high' | 'medium' | 'low';
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  title: string;
+  subject: string;
+  dueDate: string;          // ISO date (YYYY-MM-DD)
+  status: AssignmentStatus;
+  priority: AssignmentPriority;
+  rubricId?: string;        // Rubric the work is marked against, if one is attached
+}
+
+/** One performance band of a criterion, e.g. "Proficient". */
+export interface RubricLevel {
+  label: string;
+  descriptor: string;       // What work at this level looks like
+  points: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  weight: number;           // Whole-number multiplier on the level's points
+  levels: RubricLevel[];    // Highest points first
+}
+
+export interface Rubric {
+  id: string;
+  title: string;
+  subject: string;
+  authorId: string;         // Teacher who wrote it; only they can change it
+  shared: boolean;          // Whether other teachers can see and attach it
+  criteria: RubricCriterion[];
+  createdAt: string;        // ISO timestamp
+  updatedAt?: string;
+}
+
+/**
+ * The level a paper reached on one criterion. Names and points are copied
+ * from the rubric when the paper is scored, so later edits to the rubric do
+ * not rewrite feedback that was already given.
+ */
+export interface RubricScore {
+  criterionId: string;
+  criterion: string;
+  level: string;
+  points: number;           // Level points times the criterion's weight
+  maxPoints: number;
+}
+
+/**
+ * pending → queued → ocr → analyzing → awaiting-review → reviewed. A paper
+ * whose analysis gave up is `failed`; cancelling returns it to `pending`.
+ */
+export type PaperStatus = 'pending' | 'queued' | 'ocr' | 'analyzing' | 'awaiting-review' | 'reviewed' | 'failed';
+
+export interface PaperFile {
+  name: string;
+  contentType: string;      // One of ACCEPTED_PAPER_TYPES (domain/uploads.ts)
+  size: number;             // Bytes
+  pageCount?: number;       // PDFs only; pages of this paper, not of the whole file
+  thumbnail?: string;       // Small JPEG data URL; images only
+  pageRange?: PageRange;    // Pages of the batch-scanned PDF this paper was cut from; only those are stored
+}
+
+/** Pages `first` to `last` (1-based, inclusive) of a PDF. */
+export interface PageRange {
+  first: number;
+  last: number;
+}
+
+/** A box on a page, as fractions (0-1) of its width and height. */
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrWord {
+  text: string;
+  box: PageBox;
+  confidence: number;       // 0-1
+}
+
+export interface OcrPage {
+  page: number;
+  text: string;             // Lines separated by newlines
+  words: OcrWord[];
+}
+
+/** Text read from a paper's scan, kept apart from the paper because of its size. */
+export interface Transcript {
+  paperId: string;
+  provider: string;
+  pages: OcrPage[];
+  confidence: number;       // Mean word confidence, 0-1
+  createdAt: string;        // ISO timestamp
+}
+
+export type TranscriptStatus = 'pending' | 'complete' | 'failed';
+
+/** Where the paper's OCR stands, shown in paper lists without loading the transcript. */
+export interface TranscriptSummary {
+  status: TranscriptStatus;
+  provider: string;
+  confidence?: number;
+  flaggedWords?: number;    // Words below LOW_CONFIDENCE (domain/ocr.ts)
+  error?: string;
+  updatedAt: string;        // ISO timestamp
+}
+
+/** How much of a paper's text turns up in other submissions, shown in paper lists. */
+export interface SimilaritySummary {
+  score: number;            // Percent of the paper's words inside passages found elsewhere, 0-100
+  matches: number;          // Submissions sharing at least one passage
+  checkedAt: string;        // ISO timestamp
+}
+
+/** Where a matching submission comes from, relative to the paper checked. */
+export type SimilaritySource = 'class' | 'other-class' | 'prior-year';
+
+/** Word ranges (start inclusive, end exclusive) of the same passage in two papers. */
+export interface SimilarityPassage {
+  start: number;
+  end: number;
+  otherStart: number;
+  otherEnd: number;
+}
+
+export interface SimilarityMatch {
+  paperId: string;
+  studentId: string;
+  classId: string;
+  assignmentId: string;
+  uploadedAt: string;       // ISO date (YYYY-MM-DD)
+  source: SimilaritySource;
+  score: number;            // Percent of the checked paper's words found in this one
+  words: string[];          // This paper's words as read, which the passages index
+  passages: SimilarityPassage[];
+}
+
+export interface SimilarityReport {
+  paperId: string;
+  score: number;
+  words: string[];          // The checked paper's words as read
+  matches: SimilarityMatch[]; // Highest score first
+  checkedAt: string;        // ISO timestamp
+}
+
+/** The latest analysis run of a paper, for progress and error reporting. */
+export interface AnalysisProgress {
+  progress: number;         // 0-1 across all stages
+  attempt: number;          // 1-based; 0 while still queued
+  maxAttempts: number;
+  error?: string;           // Why the last attempt failed
+  retryAt?: string;         // ISO timestamp of the next attempt, while waiting to retry
+  updatedAt: string;        // ISO timestamp
+}
+
+export interface Paper {
+  id: string;
+  studentId: string;
+  assignmentId: string;
+  classId: string;
+  uploadedAt: string;       // ISO date (YYYY-MM-DD)
+  status: PaperStatus;
+  feedbackId?: string;      // Set once AI analysis has produced feedback
+  file?: PaperFile;         // Absent on seeded papers, which have no scan
+  transcript?: TranscriptSummary;
+  similarity?: SimilaritySummary; // Set once the transcript has been compared
+  analysis?: AnalysisProgress;
+}
+
+/** Where on a paper an annotation points. Region coordinates are fractions (0-1) of the page. */
+export type AnnotationAnchor =
+  | ({ kind: 'region'; page: number } & PageBox)
+  | { kind: 'page'; page: number };
+
+export interface Annotation {
+  id: string;
+  paperId: string;
+  studentId: string;
+  classId: string;
+  authorId: string;
+  anchor: AnnotationAnchor;
+  comment?: string;
+  stamp?: string;           // Short praise or correction, e.g. "Great metaphor"
+  rubricTags: string[];     // Criteria the mark relates to, e.g. "grammar"
+  sharedWithFamily: boolean;
+  createdAt: string;        // ISO timestamp
+  updatedAt?: string;
+}
+
+export type FeedbackStatus = 'draft' | 'final';
+
+export interface CriterionScores {
+  grammar: number;
+  creativity: number;
+  handwriting: number;
+}
+
+export interface Feedback {
+  id: string;
+  paperId: string;
+  studentId: string;
+  classId: string;
+  subject: string;
+  submissionTitle: string;
+  aiScore: number;          // Overall score (0-100); the single source for a student's score
+  criteria: CriterionScores;
+  rubricId?: string;        // Set when the assignment had a rubric at scoring time
+  rubricScores?: RubricScore[];
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+  generatedAt: string;      // ISO timestamp
+  status: FeedbackStatus;
+  tags: string[];
+}
+
+export type Trend = 'up' | 'down' | 'stable';
+
+export interface Exam {
+  id: string;
+  studentId: string;
+  subject: string;
+  score: number;
+  date: string;             // ISO date (YYYY-MM-DD)
+  trend: Trend;
+}
+
+export type EventType = 'meeting' | 'assignment' | 'assessment';
+
+export interface SchoolEvent {
+  id: string;
+  classId: string;
+  title: string;
+  date: string;             // ISO date (YYYY-MM-DD)
+  type: EventType;
+}
+
+export interface Message {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  studentId?: string;       // Student the conversation is about, if any
+  body: string;
+  sentAt: string;           // ISO timestamp
+  readAt: string | null;
+}
+
+export type DataRetention = '30days' | '90days' | '1year' | 'forever';
+export type FeedbackStyle = 'detailed' | 'concise' | 'simple';
+
+export interface UserSettings {
+  userId: string;
+  profile: {
+    name: string;
+    email: string;
+    bio?: string;
+    subject: string;
+    grade: string;
+    school: string;
+  };
+  notifications: {
+    emailNotifications: boolean;
+    pushNotifications: boolean;
+    newStudentWork: boolean;
+    aiInsightsReady: boolean;
+    weeklyReports: boolean;
+    parentMessages: boolean;
+    systemUpdates: boolean;
+  };
+  privacy: {
+    shareAnalytics: boolean;
+    shareProgress: boolean;
+    publicProfile: boolean;
+  };
+  aiFeedback: {
+    feedbackStyle: FeedbackStyle;
+    focusAreas: string[];
+    customPrompt?: string;
+    includeExamples: boolean;
+    useFormalLanguage: boolean;
+  };
+  api: {
+    apiKey?: string;
+    webhookUrl?: string;
+    enableIntegration: boolean;
+  };
+}
+
+export type IntegrationId = 'google-classroom' | 'microsoft-teams' | 'canvas';
+
+/** School-wide rules set by administrators; teachers see these read-only. */
+export interface SchoolPolicy {
+  schoolName: string;
+  dataRetention: DataRetention;
+  /** Whether teachers may turn on personal API keys in their settings. */
+  allowTeacherApiAccess: boolean;
+  /** Teachers see student records, so the school can make 2FA mandatory for them. */
+  requireTeacherTwoFactor: boolean;
+  /** Whether a school sign-in counts as the second factor, for schools whose IdP enforces MFA. */
+  trustSsoTwoFactor: boolean;
+  integrations: Record<IntegrationId, boolean>;
+  webhookUrl: string;
+  updatedAt: string | null; // ISO timestamp of the last change
+}
+
+/** Actions written to the audit log. */
+export type AuditAction =
+  | 'feedback.regenerated'
+  | 'feedback.finalized'
+  | 'feedback.shared'
+  | 'settings.api_key_regenerated'
+  | 'settings.privacy_changed'
+  | 'student.previewed';
+
+export interface AuditActor {
+  id: string;
+  name: string;
+  role: string;
+}
+
+/** One append-only record of who did what to which record, and when. */
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actor: AuditActor;
+  action: AuditAction;
+  target: { type: string; id: string; label?: string };
+  /** The fields the action changed, as they were before and after it; secrets are masked. */
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  details?: Record<string, string>;
+}
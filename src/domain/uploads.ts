@@ -0,0 +1,55 @@
+// ------------------------------------------------------------
+// Paper Upload Rules
+// ------------------------------------------------------------
+// Which scans a teacher may upload, shared by the upload dialog
+// (to reject files before reading them) and the stores (which
+// check again, since the backend cannot trust the browser).
+// Content travels as base64 data URLs so uploads fit the JSON
+// API like every other write.
+// ------------------------------------------------------------
+
+export const ACCEPTED_PAPER_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'] as const;
+
+export const MAX_PAPER_BYTES = 10 * 1024 * 1024;
+
+/** Longest PDF accepted, a whole class stack included; OCR works through every page. */
+export const MAX_PAPER_PAGES = 200;
+
+/** Thumbnails are stored on the paper record, so they have to stay small. */
+export const MAX_THUMBNAIL_LENGTH = 100 * 1024;
+
+/** For the file picker's `accept` attribute. */
+export const PAPER_FILE_ACCEPT = [...ACCEPTED_PAPER_TYPES, '.pdf', '.jpg', '.jpeg', '.png', '.webp'].join(',');
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/** Why a file cannot be uploaded as a paper, or undefined when it can. */
+export function paperFileProblem(file: { name: string; type: string; size: number }): string | undefined {
+  if (!(ACCEPTED_PAPER_TYPES as readonly string[]).includes(file.type)) {
+    return `${file.name} is not a PDF or an image (JPEG, PNG or WebP).`;
+  }
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > MAX_PAPER_BYTES) {
+    return `${file.name} is ${formatBytes(file.size)}; papers can be at most ${formatBytes(MAX_PAPER_BYTES)}.`;
+  }
+  return undefined;
+}
+
+export interface DataUrlParts {
+  contentType: string;
+  /** Decoded length in bytes. */
+  size: number;
+}
+
+/** Content type and decoded size of a base64 data URL, or undefined if it is not one. */
+export function parseDataUrl(value: string): DataUrlParts | undefined {
+  const match = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/.exec(value);
+  if (!match || match[2].length % 4 !== 0) return undefined;
+  const [, contentType, base64] = match;
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return { contentType, size: (base64.length / 4) * 3 - padding };
+}
@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import { useMatch } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClasses } from '@/hooks/use-portal-data';
+
+// ------------------------------------------------------------
+// Active Class
+// ------------------------------------------------------------
+// Teacher pages live under /classes/:classId/<page>, so the URL
+// is the source of truth for which class is shown. Outside those
+// URLs the last class visited (or the first one taught) is used.
+// The classes taught come from the school roster, so a class an
+// administrator reassigns moves between workspaces immediately.
+// ------------------------------------------------------------
+
+export const classPath = (classId: string, page = 'dashboard') =>
+  `/classes/${encodeURIComponent(classId)}/${page}`;
+
+const lastClassKey = (userId: string) => `edubridge-active-class:${userId}`;
+
+export function useActiveClass() {
+  const { user } = useAuth();
+  const match = useMatch('/classes/:classId/*');
+  const isTeacher = user?.role === 'teacher';
+  const { data: classes = [], isLoading } = useClasses({ teacherId: isTeacher ? user.id : undefined });
+  const taught = isTeacher ? classes : [];
+  const classIds = taught.map(c => c.id);
+
+  const requested = match?.params.classId;
+  const remembered = user ? localStorage.getItem(lastClassKey(user.id)) : null;
+  const requestedIsTaught = !!requested && classIds.includes(requested);
+  const classId = requestedIsTaught ? requested : remembered && classIds.includes(remembered) ? remembered : classIds[0];
+
+  useEffect(() => {
+    if (user && requestedIsTaught) localStorage.setItem(lastClassKey(user.id), requested!);
+  }, [user, requested, requestedIsTaught]);
+
+  return {
+    classId,
+    classIds,
+    /** The classes this teacher teaches, in roster order. */
+    classes: taught,
+    /** True until the roster has loaded; class URLs cannot be judged before then. */
+    loading: isTeacher && isLoading,
+    /** The page within the class workspace, e.g. "papers"; undefined off class URLs. */
+    page: match ? match.params['*'] || 'dashboard' : undefined,
+    /** True when the URL names a class this teacher does not teach. */
+    isForeignClass: isTeacher && !isLoading && !!requested && !requestedIsTaught
+  };
+}
@@ -0,0 +1,47 @@
+import { useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { classPath, useActiveClass } from '@/hooks/use-active-class';
+import { HOME_PATH, findRoute, routesFor, type AppRoute } from '@/routes';
+
+export interface Crumb {
+  label: string;
+  /** Omitted for the page being shown. */
+  to?: string;
+}
+
+// ------------------------------------------------------------
+// Current Route
+// ------------------------------------------------------------
+// The manifest entry for the URL and the breadcrumb trail leading
+// to it: the portal's home (or the class, on class-scoped
+// pages), then any parent pages named in the entry's breadcrumb.
+// ------------------------------------------------------------
+
+export function useCurrentRoute(): { route?: AppRoute; crumbs: Crumb[] } {
+  const { user } = useAuth();
+  const { pathname } = useLocation();
+  const { classId, classes } = useActiveClass();
+
+  const route = findRoute(user?.role, pathname);
+  if (!user || !route) return { route, crumbs: [] };
+
+  const portal = routesFor(user.role);
+  const byPath = (path: string) => portal.find(r => r.path === path);
+  const link = (r: AppRoute) => (r.classScoped && classId ? classPath(classId, r.path.slice(1)) : r.path);
+  const label = (r: AppRoute) => r.breadcrumb?.label ?? r.title;
+
+  const trail: AppRoute[] = [];
+  for (let r: AppRoute | undefined = route; r && !trail.includes(r); r = r.breadcrumb?.parent ? byPath(r.breadcrumb.parent) : undefined) {
+    trail.unshift(r);
+  }
+
+  // Class pages start from the class itself, whose dashboard is the portal's home
+  const crumbs: Crumb[] = [];
+  const home = byPath(HOME_PATH);
+  const className = classes.find(c => c.id === classId)?.name;
+  if (route.classScoped && className) crumbs.push({ label: className, to: classPath(classId!) });
+  else if (home && trail[0] !== home) crumbs.push({ label: label(home), to: link(home) });
+  trail.forEach((r, i) => crumbs.push(i === trail.length - 1 ? { label: label(r) } : { label: label(r), to: link(r) }));
+
+  return { route, crumbs };
+}
@@ -0,0 +1,63 @@
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useRepositories } from '@/contexts/RepositoryContext';
+import type { Feedback } from '@/domain/types';
+import { downloadFile } from '@/lib/download';
+import {
+  createFeedbackReportZip,
+  feedbackReportFileName,
+  renderFeedbackReport,
+  type FeedbackReportData
+} from '@/lib/feedback-report';
+
+/**
+ * Downloads printable reports of the given feedback: a PDF for a single
+ * paper, or one ZIP of PDFs when an `archiveName` is given or there are
+ * several. The student, class, paper and notes are fetched as each report
+ * is built.
+ */
+export function useDownloadFeedbackReports() {
+  const repos = useRepositories();
+  return useMutation({
+    mutationFn: async ({ feedback, archiveName }: { feedback: Feedback[]; archiveName?: string }) => {
+      if (feedback.length === 0) throw new Error('There is no feedback to export yet.');
+      const classIds = [...new Set(feedback.map(f => f.classId))];
+      const [policy, teachers, rubrics, classes, students, assignments] = await Promise.all([
+        repos.school.getPolicy(),
+        repos.teachers.list(),
+        repos.rubrics.list(),
+        Promise.all(classIds.map(id => repos.classes.get(id))),
+        Promise.all(classIds.map(classId => repos.students.list({ classId }))).then(lists => lists.flat()),
+        Promise.all(classIds.map(classId => repos.assignments.list({ classId }))).then(lists => lists.flat())
+      ]);
+
+      const reports = await Promise.all(feedback.map(async (fb): Promise<FeedbackReportData> => {
+        const [paper, annotations] = await Promise.all([
+          repos.papers.get(fb.paperId),
+          repos.annotations.list({ paperId: fb.paperId })
+        ]);
+        const schoolClass = classes.find(c => c?.id === fb.classId);
+        return {
+          schoolName: policy.schoolName,
+          feedback: fb,
+          student: students.find(s => s.id === fb.studentId),
+          schoolClass,
+          teacher: teachers.find(t => t.id === schoolClass?.teacherId),
+          assignment: assignments.find(a => a.id === paper?.assignmentId),
+          paper,
+          rubric: rubrics.find(r => r.id === fb.rubricId),
+          annotations
+        };
+      }));
+
+      const generatedAt = new Date();
+      if (reports.length === 1 && !archiveName) {
+        downloadFile(feedbackReportFileName(reports[0]), renderFeedbackReport(reports[0], generatedAt), 'application/pdf');
+      } else {
+        const name = `${archiveName ?? 'Feedback reports'} ${format(generatedAt, 'yyyy-MM-dd')}.zip`;
+        downloadFile(name, createFeedbackReportZip(reports, generatedAt), 'application/zip');
+      }
+      return reports.length;
+    }
+  });
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// ------------------------------------------------------------
+// Idle Timeout
+// ------------------------------------------------------------
+// Tracks user activity across every open tab (the last activity
+// time is shared through localStorage) and reports when the
+// warning window opens and when the idle limit is reached.
+// ------------------------------------------------------------
+
+const LAST_ACTIVITY_KEY = 'edubridge-last-activity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+// Activity is written at most this often; a precise timestamp is not needed
+const WRITE_THROTTLE_MS = 5000;
+
+export interface IdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  /** How long before the timeout the warning is shown. */
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, onTimeout }: IdleTimeoutOptions) {
+  const [remainingMs, setRemainingMs] = useState(timeoutMs);
+  // Kept in a ref so a new callback identity does not restart the clock
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const markActive = useCallback(() => {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+    setRemainingMs(timeoutMs);
+  }, [timeoutMs]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    markActive();
+
+    let lastWrite = Date.now();
+    const onActivity = () => {
+      if (Date.now() - lastWrite < WRITE_THROTTLE_MS) return;
+      // Once the warning shows, only an explicit choice in the dialog counts
+      if (readLastActivity() + timeoutMs - Date.now() <= warningMs) return;
+      lastWrite = Date.now();
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(lastWrite));
+    };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, onActivity, { passive: true }));
+
+    const interval = window.setInterval(() => {
+      const remaining = readLastActivity() + timeoutMs - Date.now();
+      setRemainingMs(Math.max(0, remaining));
+      if (remaining <= 0) onTimeoutRef.current();
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, onActivity));
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, markActive]);
+
+  return {
+    warning: enabled && remainingMs <= warningMs,
+    remainingMs,
+    /** Explicitly resets the idle clock, e.g. from a "stay signed in" button. */
+    stayActive: markActive
+  };
+}
@@ -0,0 +1,21 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { createHttpOutbox } from '@/auth/http';
+import { createOutbox, type OutboxReader } from '@/auth/outbox';
+
+// Same source the auth service writes to: the backend's outbox or this browser's
+function createDefaultOutbox(): OutboxReader {
+  const apiUrl = import.meta.env.VITE_API_URL;
+  return apiUrl ? createHttpOutbox(apiUrl) : createOutbox(localStorage);
+}
+
+/** Mail delivered to the local outbox stand-in, newest first. Fails when the backend does not serve one. */
+export function useOutbox(to?: string) {
+  const [outbox] = useState(createDefaultOutbox);
+  return useQuery({
+    queryKey: ['outbox', to ?? null],
+    queryFn: () => outbox.list({ to }),
+    retry: false,
+    refetchInterval: (query) => (query.state.status === 'error' ? false : 5000)
+  });
+}
@@ -0,0 +1,10 @@
+import { useEffect } from 'react';
+
+export const APP_TITLE = 'EduBridge';
+
+/** Shows "<title> · EduBridge" in the browser tab while the page is mounted. */
+export function usePageTitle(title?: string) {
+  useEffect(() => {
+    document.title = title ? `${title} · ${APP_TITLE}` : APP_TITLE;
+  }, [title]);
+}
@@ -0,0 +1,42 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Parent links and invitations are held by the auth service, not the repositories
+const parentLinksKey = (studentId: string) => ['parent-links', studentId] as const;
+
+/** Linked parents and open invitation codes shown on a student's record. */
+export function useParentLinks(studentId: string | undefined) {
+  const { parentLinks } = useAuth();
+  return useQuery({
+    queryKey: parentLinksKey(studentId ?? ''),
+    queryFn: () => parentLinks(studentId!),
+    enabled: !!studentId
+  });
+}
+
+export function useInviteParent(studentId: string) {
+  const { inviteParent } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => inviteParent(studentId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: parentLinksKey(studentId) })
+  });
+}
+
+export function useRevokeInvitation(studentId: string) {
+  const { revokeInvitation } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (invitationId: string) => revokeInvitation(studentId, invitationId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: parentLinksKey(studentId) })
+  });
+}
+
+export function useUnlinkParent(studentId: string) {
+  const { unlinkParent } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (parentUserId: string) => unlinkParent(studentId, parentUserId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: parentLinksKey(studentId) })
+  });
+}
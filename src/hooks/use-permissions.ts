@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission, permissionsOf, type Permission } from '@/auth/permissions';
+
+/** Every capability of the signed-in user in their active portal. */
+export function usePermissions() {
+  const { user } = useAuth();
+  return useMemo(() => permissionsOf(user), [user]);
+}
+
+export function useCan(permission: Permission) {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+}
@@ -0,0 +1,538 @@
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRepositories } from '@/contexts/RepositoryContext';
+import type {
+  AnnotationFilter,
+  AnnotationUpdate,
+  AssignmentUpdate,
+  AuditFilter,
+  ClassScopedFilter,
+  ClassUpdate,
+  FeedbackFilter,
+  NewAnnotationInput,
+  NewAuditEntry,
+  NewClassInput,
+  NewRubricInput,
+  NewStudentInput,
+  NewTeacherInput,
+  PaperUpload,
+  PolicyUpdate,
+  RubricUpdate,
+  SendMessageInput,
+  SettingsUpdate,
+  StudentUpdate,
+  TeacherUpdate
+} from '@/domain/repositories';
+import { isAnalyzing } from '@/domain/analysis';
+import type { OcrInput } from '@/domain/ocr';
+import type { Paper } from '@/domain/types';
+
+// ------------------------------------------------------------
+// Portal Data Hooks
+// ------------------------------------------------------------
+// React Query wrappers around the repositories. Query keys are
+// grouped per entity so a mutation can invalidate every view of
+// that entity (teacher, parent and student dashboards alike).
+// ------------------------------------------------------------
+
+export const queryKeys = {
+  teachers: () => ['teachers'] as const,
+  students: (filter: { classId?: string } = {}) => ['students', filter] as const,
+  student: (id: string) => ['students', 'detail', id] as const,
+  classes: (filter: { teacherId?: string } = {}) => ['classes', filter] as const,
+  class: (id: string) => ['classes', 'detail', id] as const,
+  assignments: (filter: { classId?: string } = {}) => ['assignments', filter] as const,
+  rubrics: (filter: { authorId?: string; subject?: string } = {}) => ['rubrics', filter] as const,
+  papers: (filter: ClassScopedFilter = {}) => ['papers', filter] as const,
+  paper: (id: string) => ['papers', 'detail', id] as const,
+  // Keyed by when OCR last finished, so a fresh run is fetched again
+  transcript: (id: string, updatedAt = '') => ['papers', 'transcript', id, updatedAt] as const,
+  // Keyed by when the paper was last compared, so a changed score fetches the passages again
+  similarity: (id: string, checkedAt = '') => ['papers', 'similarity', id, checkedAt] as const,
+  // Outside ['papers'] so refreshing paper lists does not download scans again
+  paperFile: (id: string) => ['paper-files', id] as const,
+  annotations: (filter: AnnotationFilter = {}) => ['annotations', filter] as const,
+  feedback: (filter: FeedbackFilter = {}) => ['feedback', filter] as const,
+  exams: (filter: ClassScopedFilter = {}) => ['exams', filter] as const,
+  events: (filter: { classId?: string } = {}) => ['events', filter] as const,
+  messages: (userId: string) => ['messages', userId] as const,
+  settings: (userId: string) => ['settings', userId] as const,
+  policy: () => ['school', 'policy'] as const,
+  audit: (filter: AuditFilter = {}) => ['audit', filter] as const
+};
+
+export function useTeachers() {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.teachers(),
+    queryFn: () => repos.teachers.list()
+  });
+}
+
+export function useStudents(filter: { classId?: string } = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.students(filter),
+    queryFn: () => repos.students.list(filter)
+  });
+}
+
+export function useStudent(id: string | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.student(id ?? ''),
+    queryFn: () => repos.students.get(id!),
+    enabled: !!id
+  });
+}
+
+export function useClasses(filter: { teacherId?: string } = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.classes(filter),
+    queryFn: () => repos.classes.list(filter)
+  });
+}
+
+export function useClass(id: string | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.class(id ?? ''),
+    queryFn: () => repos.classes.get(id!),
+    enabled: !!id
+  });
+}
+
+export function useAssignments(filter: { classId?: string } = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.assignments(filter),
+    queryFn: () => repos.assignments.list(filter)
+  });
+}
+
+export function useRubrics(filter: { authorId?: string; subject?: string } = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.rubrics(filter),
+    queryFn: () => repos.rubrics.list(filter)
+  });
+}
+
+// OCR and the analysis queue run in the background; keep checking until they settle
+const PAPER_POLL_MS = 2000;
+const working = (paper: Paper | undefined) =>
+  !!paper && (paper.transcript?.status === 'pending' || isAnalyzing(paper.status));
+
+export function usePapers(filter: ClassScopedFilter = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.papers(filter),
+    queryFn: () => repos.papers.list(filter),
+    refetchInterval: (query) => (query.state.data?.some(working) ? PAPER_POLL_MS : false)
+  });
+}
+
+export function usePaper(id: string | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.paper(id ?? ''),
+    queryFn: () => repos.papers.get(id!),
+    enabled: !!id,
+    refetchInterval: (query) => (working(query.state.data) ? PAPER_POLL_MS : false)
+  });
+}
+
+/** The uploaded scan as a data URL; scans never change, so it is fetched once. */
+export function usePaperFile(id: string | undefined, enabled = true) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.paperFile(id ?? ''),
+    queryFn: () => repos.papers.getFile(id!),
+    enabled: !!id && enabled,
+    staleTime: Infinity
+  });
+}
+
+/** The OCR transcript of a paper's scan, fetched once OCR has finished. */
+export function useTranscript(paper: Paper | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.transcript(paper?.id ?? '', paper?.transcript?.updatedAt),
+    queryFn: () => repos.papers.getTranscript(paper!.id),
+    enabled: paper?.transcript?.status === 'complete',
+    staleTime: Infinity
+  });
+}
+
+/** Passages a paper shares with other submissions, fetched once its transcript has been compared. */
+export function useSimilarity(paper: Pick<Paper, 'id' | 'similarity'> | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.similarity(paper?.id ?? '', paper?.similarity?.checkedAt),
+    queryFn: () => repos.papers.getSimilarity(paper!.id),
+    enabled: !!paper?.similarity,
+    staleTime: Infinity
+  });
+}
+
+export function useFeedback(filter: FeedbackFilter = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.feedback(filter),
+    queryFn: () => repos.feedback.list(filter)
+  });
+}
+
+export function useExams(filter: ClassScopedFilter = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.exams(filter),
+    queryFn: () => repos.exams.list(filter)
+  });
+}
+
+export function useEvents(filter: { classId?: string } = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.events(filter),
+    queryFn: () => repos.events.list(filter)
+  });
+}
+
+/** Students by id, in the given order; unresolved ids are skipped. */
+export function useStudentsByIds(ids: string[]) {
+  const repos = useRepositories();
+  const results = useQueries({
+    queries: ids.map(id => ({ queryKey: queryKeys.student(id), queryFn: () => repos.students.get(id) }))
+  });
+  return results.flatMap(r => (r.data ? [r.data] : []));
+}
+
+/**
+ * Feedback and exams for several students at once (e.g. a parent's
+ * children). Shares cache entries with useFeedback/useExams.
+ */
+export function useStudentRecords(studentIds: string[]) {
+  const repos = useRepositories();
+  const feedback = useQueries({
+    queries: studentIds.map(studentId => ({
+      queryKey: queryKeys.feedback({ studentId }),
+      queryFn: () => repos.feedback.list({ studentId })
+    }))
+  });
+  const exams = useQueries({
+    queries: studentIds.map(studentId => ({
+      queryKey: queryKeys.exams({ studentId }),
+      queryFn: () => repos.exams.list({ studentId })
+    }))
+  });
+  return studentIds.map((studentId, i) => ({
+    studentId,
+    feedback: feedback[i].data ?? [],
+    exams: exams[i].data ?? []
+  }));
+}
+
+/** Events for several classes, de-duplicated and sorted by date. */
+export function useEventsForClasses(classIds: string[]) {
+  const repos = useRepositories();
+  const results = useQueries({
+    queries: [...new Set(classIds)].map(classId => ({
+      queryKey: queryKeys.events({ classId }),
+      queryFn: () => repos.events.list({ classId })
+    }))
+  });
+  return results
+    .flatMap(r => r.data ?? [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function useUploadPaper() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ input, onProgress }: { input: PaperUpload; onProgress?: (fraction: number) => void }) =>
+      repos.papers.upload(input, { onProgress }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['papers'] })
+  });
+}
+
+export function useTranscribePaper() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (paperId: string) => repos.papers.transcribe(paperId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['papers'] })
+  });
+}
+
+export function useAnalyzePaper() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (paperId: string) => repos.papers.analyze(paperId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['papers'] })
+  });
+}
+
+export function useCancelAnalysis() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (paperId: string) => repos.papers.cancelAnalysis(paperId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['papers'] })
+  });
+}
+
+/** Reads a scan without uploading it; nothing is cached, as batch import uses each result once. */
+export function useRecognizeScan() {
+  const repos = useRepositories();
+  return useMutation({
+    mutationFn: (input: OcrInput) => repos.papers.recognize(input)
+  });
+}
+
+export function useAnnotations(filter: AnnotationFilter = {}, enabled = true) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.annotations(filter),
+    queryFn: () => repos.annotations.list(filter),
+    enabled
+  });
+}
+
+export function useCreateAnnotation() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: NewAnnotationInput) => repos.annotations.create(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['annotations'] })
+  });
+}
+
+export function useUpdateAnnotation() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: AnnotationUpdate }) => repos.annotations.update(id, update),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['annotations'] })
+  });
+}
+
+export function useRemoveAnnotation() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => repos.annotations.remove(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['annotations'] })
+  });
+}
+
+export function useUpdateAssignment() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: AssignmentUpdate }) => repos.assignments.update(id, update),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assignments'] })
+  });
+}
+
+export function useCreateRubric() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: NewRubricInput) => repos.rubrics.create(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rubrics'] })
+  });
+}
+
+export function useUpdateRubric() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: RubricUpdate }) => repos.rubrics.update(id, update),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rubrics'] })
+  });
+}
+
+export function useRemoveRubric() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => repos.rubrics.remove(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rubrics'] })
+  });
+}
+
+// Feedback changes also move paper status, so both caches are refreshed
+function useInvalidateFeedback() {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['feedback'] }),
+    queryClient.invalidateQueries({ queryKey: ['papers'] })
+  ]);
+}
+
+export function useRegenerateFeedback() {
+  const repos = useRepositories();
+  const invalidate = useInvalidateFeedback();
+  return useMutation({
+    mutationFn: (id: string) => repos.feedback.regenerate(id),
+    onSuccess: invalidate
+  });
+}
+
+export function useFinalizeFeedback() {
+  const repos = useRepositories();
+  const invalidate = useInvalidateFeedback();
+  return useMutation({
+    mutationFn: (id: string) => repos.feedback.finalize(id),
+    onSuccess: invalidate
+  });
+}
+
+export function useMessages(userId: string | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.messages(userId ?? ''),
+    queryFn: () => repos.messages.list({ userId: userId! }),
+    enabled: !!userId
+  });
+}
+
+export function useSendMessage() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: SendMessageInput) => repos.messages.send(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['messages'] })
+  });
+}
+
+export function useMarkMessageRead() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => repos.messages.markRead(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['messages'] })
+  });
+}
+
+export function useSettings(userId: string | undefined) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.settings(userId ?? ''),
+    queryFn: () => repos.settings.get(userId!),
+    enabled: !!userId
+  });
+}
+
+export function useUpdateSettings(userId: string | undefined) {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (update: SettingsUpdate) => repos.settings.update(userId!, update),
+    onSuccess: (settings) => queryClient.setQueryData(queryKeys.settings(settings.userId), settings)
+  });
+}
+
+export function useSchoolPolicy() {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.policy(),
+    queryFn: () => repos.school.getPolicy()
+  });
+}
+
+export function useUpdateSchoolPolicy() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (update: PolicyUpdate) => repos.school.updatePolicy(update),
+    onSuccess: (policy) => queryClient.setQueryData(queryKeys.policy(), policy)
+  });
+}
+
+export function useAuditLog(filter: AuditFilter = {}) {
+  const repos = useRepositories();
+  return useQuery({
+    queryKey: queryKeys.audit(filter),
+    queryFn: () => repos.audit.list(filter)
+  });
+}
+
+/** Reports an action only the browser sees (e.g. sharing or a portal preview) to the audit log. */
+export function useRecordAudit() {
+  const repos = useRepositories();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entry: NewAuditEntry) => repos.audit.record(entry),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['audit'] })
+  });
+}
+
+// ------------------------------------------------------------
+// School Administration
+// ------------------------------------------------------------
+// Roster writes invalidate the whole entity, since a teacher or
+// enrolment change shows up in every class-scoped view.
+// ------------------------------------------------------------
+
+function useInvalidate(entity: string) {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: [entity] });
+}
+
+export function useCreateTeacher() {
+  const repos = useRepositories();
+  const invalidate = useInvalidate('teachers');
+  return useMutation({
+    mutationFn: (input: NewTeacherInput) => repos.teachers.create(input),
+    onSuccess: invalidate
+  });
+}
+
+export function useUpdateTeacher() {
+  const repos = useRepositories();
+  const invalidate = useInvalidate('teachers');
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: TeacherUpdate }) => repos.teachers.update(id, update),
+    onSuccess: invalidate
+  });
+}
+
+export function useCreateClass() {
+  const repos = useRepositories();
+  const invalidate = useInvalidate('classes');
+  return useMutation({
+    mutationFn: (input: NewClassInput) => repos.classes.create(input),
+    onSuccess: invalidate
+  });
+}
+
+export function useUpdateClass() {
+  const repos = useRepositories();
+  const invalidate = useInvalidate('classes');
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: ClassUpdate }) => repos.classes.update(id, update),
+    onSuccess: invalidate
+  });
+}
+
+export function useCreateStudent() {
+  const repos = useRepositories();
+  const invalidate = useInvalidate('students');
+  return useMutation({
+    mutationFn: (input: NewStudentInput) => repos.students.create(input),
+    onSuccess: invalidate
+  });
+}
+
+export function useUpdateStudent() {
+  const repos = useRepositories();
+  const invalidate = useInvalidate('students');
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: StudentUpdate }) => repos.students.update(id, update),
+    onSuccess: invalidate
+  });
+}
@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+/**
+ * Follows a URL handed back by an identity provider: pages of this app
+ * are opened through the router so in-memory state survives, anything
+ * else with a full page load.
+ */
+export function useRedirect() {
+  const navigate = useNavigate();
+  return useCallback((url: string) => {
+    const target = new URL(url, window.location.origin);
+    if (target.origin === window.location.origin) {
+      navigate(`${target.pathname}${target.search}`, { replace: true });
+    } else {
+      window.location.assign(target.toString());
+    }
+  }, [navigate]);
+}
@@ -0,0 +1,17 @@
+import { useState } from 'react';
+import { createHttpStandInIdp } from '@/auth/http';
+import { createStandInIdp } from '@/auth/idp-standin';
+
+// The provider the auth service redeems codes with: the backend's, or this browser's
+function createDefaultStandInIdp() {
+  const apiUrl = import.meta.env.VITE_API_URL;
+  return apiUrl ? createHttpStandInIdp(apiUrl) : createStandInIdp(localStorage, {
+    redirectUris: [`${window.location.origin}/auth/callback`]
+  });
+}
+
+/** Directory and sign-in of the development identity provider. */
+export function useStandInIdp() {
+  const [idp] = useState(createDefaultStandInIdp);
+  return idp;
+}
@@ -0,0 +1,207 @@
+import { format, parseISO } from 'date-fns';
+import { rubricTagLabel, sortAnnotations } from '@/domain/annotations';
+import { rubricPoints, scoreBreakdown } from '@/domain/rubrics';
+import type { Annotation, Assignment, Feedback, Paper, Rubric, SchoolClass, Student, Teacher } from '@/domain/types';
+import { A4, createPdfDocument, wrapText, type PdfColor, type PdfFont, type PdfPage } from '@/lib/pdf';
+import { createZip } from '@/lib/zip';
+
+// ------------------------------------------------------------
+// Feedback Reports
+// ------------------------------------------------------------
+// The printable PDF of one paper's feedback, and a ZIP of many.
+// Only notes the teacher shared with the family are printed, so
+// a report can be handed to the family as it is.
+// ------------------------------------------------------------
+
+export interface FeedbackReportData {
+  schoolName: string;
+  feedback: Feedback;
+  student?: Student;
+  schoolClass?: SchoolClass;
+  teacher?: Teacher;
+  assignment?: Assignment;
+  paper?: Paper;
+  /** Names the rubric; the scores themselves are copied on the feedback. */
+  rubric?: Rubric;
+  annotations: Annotation[];
+}
+
+// The app's theme colours (--primary, --success, --warning), darkened where text needs contrast on white
+const BRAND: PdfColor = [0.3, 0.32, 0.9];
+const SUCCESS: PdfColor = [0.09, 0.6, 0.4];
+const WARNING: PdfColor = [0.8, 0.52, 0.02];
+const INK: PdfColor = [0.1, 0.11, 0.15];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.87, 0.88, 0.91];
+const TINT: PdfColor = [0.94, 0.95, 0.99];
+const WHITE: PdfColor = [1, 1, 1];
+
+const MARGIN = 50;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+// Lowest baseline for content; the footer sits below it
+const CONTENT_BOTTOM = A4.height - 60;
+
+const formatDate = (iso: string | undefined) => (iso ? format(parseISO(iso), 'd MMMM yyyy') : '—');
+
+/** E.g. "Emma Wilson - Creative Writing My Summer.pdf", without characters file systems refuse. */
+export function feedbackReportFileName(data: Pick<FeedbackReportData, 'feedback' | 'student'>): string {
+  const name = `${data.student?.name ?? 'Student'} - ${data.feedback.submissionTitle}`;
+  return `${name.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim()}.pdf`;
+}
+
+export function renderFeedbackReport(data: FeedbackReportData, generatedAt = new Date()): Uint8Array {
+  const { schoolName, feedback, student, schoolClass, teacher, assignment, paper, rubric } = data;
+  const studentName = student?.name ?? 'Student';
+  const doc = createPdfDocument({
+    title: `${feedback.submissionTitle} - ${studentName}`,
+    author: teacher?.name ?? schoolName,
+    subject: `Feedback report from ${schoolName}`,
+    createdAt: generatedAt
+  });
+  const pages: PdfPage[] = [];
+  let page: PdfPage;
+  let y = 0;
+
+  const startPage = () => {
+    page = doc.addPage();
+    pages.push(page);
+    if (pages.length === 1) {
+      page.rect(0, 0, page.width, 96, { fill: BRAND });
+      page.text(MARGIN, 46, schoolName, { size: 20, font: 'bold', color: WHITE });
+      page.text(MARGIN, 70, 'Feedback Report', { size: 12, color: WHITE });
+      page.text(page.width - MARGIN, 46, 'EduBridge', { size: 11, font: 'bold', color: WHITE, align: 'right' });
+      page.text(page.width - MARGIN, 70, `Printed ${format(generatedAt, 'd MMMM yyyy')}`, { size: 9, color: WHITE, align: 'right' });
+      y = 130;
+    } else {
+      page.rect(0, 0, page.width, 6, { fill: BRAND });
+      page.text(MARGIN, 32, `${schoolName} • ${studentName} • ${feedback.submissionTitle}`, { size: 9, color: MUTED });
+      y = 60;
+    }
+  };
+
+  /** Moves to a new page unless `height` more points fit on this one. */
+  const room = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) startPage();
+  };
+
+  const paragraph = (text: string, { size = 10.5, font = 'regular' as PdfFont, color = INK, indent = 0, bullet = false } = {}) => {
+    const lineHeight = size * 1.4;
+    wrapText(text, CONTENT_WIDTH - indent - (bullet ? 14 : 0), size, font).forEach((line, i) => {
+      room(lineHeight);
+      y += lineHeight;
+      if (bullet && i === 0) page.text(MARGIN + indent, y, '•', { size, color });
+      page.text(MARGIN + indent + (bullet ? 14 : 0), y, line, { size, font, color });
+    });
+  };
+
+  const heading = (text: string, color = INK) => {
+    // Keep a heading with at least the first lines beneath it
+    room(60);
+    y += 26;
+    page.text(MARGIN, y, text, { size: 13, font: 'bold', color });
+    y += 6;
+    page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { stroke: RULE, lineWidth: 0.75 });
+    y += 4;
+  };
+
+  startPage();
+
+  // Title and details
+  for (const line of wrapText(feedback.submissionTitle, CONTENT_WIDTH, 18, 'bold')) {
+    y += 24;
+    page.text(MARGIN, y, line, { size: 18, font: 'bold', color: INK });
+  }
+  const details: [string, string][] = [
+    ['Student', studentName],
+    ['Class', schoolClass ? `${schoolClass.name} (${schoolClass.grade})` : student?.grade ?? '—'],
+    ['Teacher', teacher?.name ?? '—'],
+    ['Subject', assignment?.subject ?? feedback.subject],
+    ['Due', formatDate(assignment?.dueDate)],
+    ['Submitted', formatDate(paper?.uploadedAt)],
+    ['Feedback', feedback.status === 'final' ? 'Reviewed by the teacher' : 'Draft, not yet reviewed'],
+    ['Written', formatDate(feedback.generatedAt)],
+    ['Pages', paper?.file ? String(paper.file.pageCount ?? 1) : '—']
+  ];
+  const columnWidth = CONTENT_WIDTH / 3;
+  y += 14;
+  details.forEach(([label, value], i) => {
+    const x = MARGIN + (i % 3) * columnWidth;
+    const top = y + Math.floor(i / 3) * 34;
+    page.text(x, top + 10, label.toUpperCase(), { size: 7.5, font: 'bold', color: MUTED });
+    page.text(x, top + 24, wrapText(value, columnWidth - 10, 10.5)[0], { size: 10.5, color: INK });
+  });
+  y += Math.ceil(details.length / 3) * 34 + 10;
+
+  // Overall score
+  const points = feedback.rubricScores?.length ? rubricPoints(feedback.rubricScores) : null;
+  page.rect(MARGIN, y, CONTENT_WIDTH, 64, { fill: TINT });
+  page.text(MARGIN + 16, y + 22, 'OVERALL SCORE', { size: 7.5, font: 'bold', color: MUTED });
+  page.text(MARGIN + 16, y + 50, `${feedback.aiScore}%`, { size: 26, font: 'bold', color: BRAND });
+  const basis = points
+    ? [`${points.earned} of ${points.max} points`, rubric ? `on the ${rubric.title} rubric` : 'on the assignment rubric']
+    : ['Scored on grammar, creativity', 'and handwriting'];
+  basis.forEach((line, i) => page.text(MARGIN + CONTENT_WIDTH - 16, y + 28 + i * 15, line, { size: 10, color: INK, align: 'right' }));
+  y += 64;
+
+  heading(points ? 'Rubric Scores' : 'Criteria');
+  for (const line of scoreBreakdown(feedback)) {
+    room(line.detail ? 40 : 28);
+    y += 16;
+    page.text(MARGIN, y, line.label, { size: 10.5, font: 'bold', color: INK });
+    page.text(MARGIN + CONTENT_WIDTH, y, `${line.percent}%`, { size: 10.5, font: 'bold', color: INK, align: 'right' });
+    y += 6;
+    page.rect(MARGIN, y, CONTENT_WIDTH, 6, { fill: TINT });
+    page.rect(MARGIN, y, (CONTENT_WIDTH * Math.min(100, Math.max(0, line.percent))) / 100, 6, { fill: BRAND });
+    y += 6;
+    if (line.detail) {
+      y += 12;
+      page.text(MARGIN, y, line.detail, { size: 9, color: MUTED });
+    }
+  }
+
+  heading('Summary');
+  paragraph(feedback.summary);
+
+  if (feedback.strengths.length > 0) {
+    heading('Strengths', SUCCESS);
+    feedback.strengths.forEach(strength => paragraph(strength, { bullet: true }));
+  }
+  if (feedback.improvements.length > 0) {
+    heading('Next Steps', WARNING);
+    feedback.improvements.forEach(improvement => paragraph(improvement, { bullet: true }));
+  }
+
+  const notes = sortAnnotations(data.annotations.filter(a => a.sharedWithFamily));
+  if (notes.length > 0) {
+    heading("Teacher's Notes");
+    notes.forEach((note, i) => {
+      if (i > 0) y += 6;
+      const where = note.anchor.kind === 'region' ? `Page ${note.anchor.page}, marked on the scan` : `Page ${note.anchor.page}`;
+      paragraph(note.stamp ? `${where} — ${note.stamp}` : where, { font: 'bold' });
+      if (note.comment) paragraph(note.comment);
+      if (note.rubricTags.length > 0) paragraph(`About: ${note.rubricTags.map(rubricTagLabel).join(', ')}`, { size: 9, color: MUTED });
+    });
+  }
+
+  // Footers go on last, once the page count is known
+  pages.forEach((p, i) => {
+    const footer = A4.height - 36;
+    p.line(MARGIN, footer - 12, MARGIN + CONTENT_WIDTH, footer - 12, { stroke: RULE, lineWidth: 0.75 });
+    p.text(MARGIN, footer, `${schoolName} • Feedback report for ${studentName}`, { size: 8, color: MUTED });
+    p.text(MARGIN + CONTENT_WIDTH, footer, `Page ${i + 1} of ${pages.length}`, { size: 8, color: MUTED, align: 'right' });
+  });
+
+  return doc.toBytes();
+}
+
+/** One PDF per report in a single ZIP; students with two reports of the same name get a numbered copy. */
+export function createFeedbackReportZip(reports: FeedbackReportData[], generatedAt = new Date()): Uint8Array {
+  const used = new Set<string>();
+  return createZip(reports.map(report => {
+    const fileName = feedbackReportFileName(report);
+    let name = fileName;
+    for (let n = 2; used.has(name); n++) name = fileName.replace(/\.pdf$/, ` (${n}).pdf`);
+    used.add(name);
+    return { name, content: renderFeedbackReport(report, generatedAt), modifiedAt: generatedAt };
+  }));
+}
@@ -0,0 +1,52 @@
+import { MAX_THUMBNAIL_LENGTH } from '@/domain/uploads';
+
+const THUMBNAIL_SIZE = 240;
+
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Browsers only open PDFs in a frame from a blob URL, not from a data URL. */
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob();
+}
+
+/**
+ * A JPEG of at most 240px on the long side, for images. PDFs get no
+ * thumbnail: rendering a page needs a PDF engine the app does not ship.
+ */
+export async function createThumbnail(file: File): Promise<string | undefined> {
+  if (!file.type.startsWith('image/')) return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    // Scans with transparency would otherwise turn black as JPEG
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const thumbnail = canvas.toDataURL('image/jpeg', 0.75);
+    return thumbnail.length <= MAX_THUMBNAIL_LENGTH ? thumbnail : undefined;
+  } catch {
+    // Undecodable images still upload; the paper just shows an icon
+    return undefined;
+  }
+}
+
+/** Counts page objects in a PDF; undefined when they are hidden in compressed object streams. */
+export async function countPdfPages(file: File): Promise<number | undefined> {
+  if (file.type !== 'application/pdf') return undefined;
+  const text = new TextDecoder('latin1').decode(await file.arrayBuffer());
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  return pages > 0 ? pages : undefined;
+}
@@ -0,0 +1,220 @@
+// ------------------------------------------------------------
+// PDF Writer
+// ------------------------------------------------------------
+// Just enough of PDF 1.4 to print reports from the browser: A4
+// pages with text in the standard Helvetica fonts, rectangles
+// and lines. Standard fonts are built into every PDF reader, so
+// nothing is embedded, but text is limited to the WinAnsi
+// character set; other characters print as "?".
+// ------------------------------------------------------------
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+/** RGB, each channel from 0 to 1. */
+export type PdfColor = [number, number, number];
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  /** Which end of the text `x` is; defaults to the left. */
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+/**
+ * A page to draw on. Coordinates are in points from the top-left corner,
+ * growing down and to the right; `y` of text is its baseline.
+ */
+export interface PdfPage {
+  readonly width: number;
+  readonly height: number;
+  text(x: number, y: number, text: string, options?: PdfTextOptions): void;
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, options?: Omit<PdfShapeOptions, 'fill'>): void;
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  createdAt?: Date;
+}
+
+// Advance widths (1/1000 em) of the printable ASCII characters, space to tilde, from the Adobe font metrics
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+
+// Accented letters and other characters past ASCII are close enough to this
+const DEFAULT_WIDTH = 556;
+
+// Punctuation that WinAnsi places where Latin-1 has control codes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const BLACK: PdfColor = [0, 0, 0];
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+/** The text as WinAnsi bytes, one character per byte (as a binary string). */
+function encodeText(text: string): string {
+  let bytes = '';
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) bytes += char;
+    else if (WIN_ANSI_EXTRAS[char]) bytes += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else if (char === '\t' || char === '\n' || char === '\r') bytes += ' ';
+    else bytes += '?';
+  }
+  return bytes;
+}
+
+/** A PDF literal string, e.g. `(Page \(1\))`. */
+const literal = (text: string) => `(${encodeText(text).replace(/[\\()]/g, m => `\\${m}`)})`;
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const color = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+/** Width of `text` in points when set in `font` at `size`. */
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  let units = 0;
+  for (const byte of encodeText(text)) {
+    const code = byte.charCodeAt(0);
+    units += code >= 0x20 && code <= 0x7e ? WIDTHS[font][code - 0x20] : DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Breaks `text` into lines no wider than `maxWidth`, at spaces where it
+ * can and mid-word for words too long for a line. Newlines start a new line.
+ */
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      // A word wider than the line is split wherever it overflows
+      for (const char of word) {
+        if (line && textWidth(line + char, size, font) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// D:YYYYMMDDHHmmSSZ, in UTC
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export function createPdfDocument(info: PdfInfo = {}) {
+  const pages: { page: PdfPage; operators: string[] }[] = [];
+
+  const addPage = (): PdfPage => {
+    const operators: string[] = [];
+    const { width, height } = A4;
+    const page: PdfPage = {
+      width,
+      height,
+      text(x, y, text, { size = 11, font = 'regular', color: fill = BLACK, align = 'left' }: PdfTextOptions = {}) {
+        const offset = align === 'left' ? 0 : textWidth(text, size, font) / (align === 'center' ? 2 : 1);
+        operators.push(`BT /${FONT_NAMES[font]} ${num(size)} Tf ${color(fill)} rg ${num(x - offset)} ${num(height - y)} Td ${literal(text)} Tj ET`);
+      },
+      rect(x, y, rectWidth, rectHeight, { fill, stroke, lineWidth = 1 }) {
+        if (!fill && !stroke) return;
+        const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+        operators.push(
+          `q ${fill ? `${color(fill)} rg ` : ''}${stroke ? `${color(stroke)} RG ${num(lineWidth)} w ` : ''}` +
+          `${num(x)} ${num(height - y - rectHeight)} ${num(rectWidth)} ${num(rectHeight)} re ${paint} Q`
+        );
+      },
+      line(x1, y1, x2, y2, { stroke = BLACK, lineWidth = 1 }: PdfShapeOptions = {}) {
+        operators.push(`q ${color(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S Q`);
+      }
+    };
+    pages.push({ page, operators });
+    return page;
+  };
+
+  /** The finished file. A document without pages gets one blank page, as readers expect at least one. */
+  const toBytes = (): Uint8Array => {
+    if (pages.length === 0) addPage();
+    // Objects 1-5 are fixed; each page then takes two: the page and its content stream
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Producer (EduBridge) /CreationDate (${pdfDate(info.createdAt ?? new Date())})` +
+        `${info.title ? ` /Title ${literal(info.title)}` : ''}` +
+        `${info.author ? ` /Author ${literal(info.author)}` : ''}` +
+        `${info.subject ? ` /Subject ${literal(info.subject)}` : ''} >>`
+    ];
+    pages.forEach(({ operators }, i) => {
+      const content = operators.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(A4.width)} ${num(A4.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Every character below is one byte, so string lengths are byte offsets
+    let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, i) => {
+      const offset = file.length;
+      file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = file.length;
+    file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Uint8Array.from(file, char => char.charCodeAt(0));
+  };
+
+  return {
+    addPage,
+    get pageCount() {
+      return pages.length;
+    },
+    toBytes
+  };
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
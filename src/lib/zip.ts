@@ -0,0 +1,108 @@
+// ------------------------------------------------------------
+// ZIP Writer
+// ------------------------------------------------------------
+// Bundles files into one ZIP archive without compressing them
+// (the "stored" method), which every unzip tool reads. File
+// names are written as UTF-8.
+// ------------------------------------------------------------
+
+export interface ZipEntry {
+  name: string;
+  content: Uint8Array;
+  modifiedAt?: Date;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time as unzip tools expect; the format starts in 1980
+function dosDateTime(date: Date) {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+/** The archive holding `entries`, in order. Names must be unique; use "/" for folders. */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = new Set<string>();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    if (names.has(entry.name)) throw new Error(`Duplicate file name in ZIP: ${entry.name}`);
+    names.add(entry.name);
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.content);
+    const { time, date } = dosDateTime(entry.modifiedAt ?? new Date());
+    const size = entry.content.length;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);          // Version needed to extract (2.0)
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(8, 0, true);           // Stored
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, size, true);
+    header.setUint32(22, size, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);          // No extra field
+    local.push(new Uint8Array(header.buffer), name, entry.content);
+
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, 20, true);          // Version made by
+    record.setUint16(6, 20, true);          // Version needed to extract
+    record.setUint16(8, UTF8_FLAG, true);
+    record.setUint16(10, 0, true);
+    record.setUint16(12, time, true);
+    record.setUint16(14, date, true);
+    record.setUint32(16, crc, true);
+    record.setUint32(20, size, true);
+    record.setUint32(24, size, true);
+    record.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    record.setUint32(42, offset, true);
+    central.push(new Uint8Array(record.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Inbox, Loader2, Mail } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import AuthLayout from '@/components/AuthLayout';
+
+const ForgotPassword = () => {
+  const { requestPasswordReset } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    try {
+      setSending(true);
+      await requestPasswordReset(email.trim());
+      setSentTo(email.trim());
+    } catch {
+      toast({ title: "Could not send reset link", description: "Please try again in a moment.", variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+        <CardHeader className="text-center">
+          <CardTitle>Forgot your password?</CardTitle>
+          <CardDescription>
+            Enter your account email and we'll send you a link to choose a new one
+          </CardDescription>
+        </CardHeader>
+
+        {sentTo ? (
+          <CardContent className="space-y-4 text-center">
+            {/* Same message whether or not the address has an account */}
+            <p className="text-sm text-muted-foreground">
+              If <strong>{sentTo}</strong> belongs to an EduBridge account, a reset link is on its way.
+              The link works once and expires after 30 minutes.
+            </p>
+            <Button asChild variant="outline" className="w-full">
+              <Link to={`/outbox?to=${encodeURIComponent(sentTo)}`}>
+                <Inbox className="h-4 w-4 mr-2" />
+                Open the local outbox
+              </Link>
+            </Button>
+          </CardContent>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Enter your email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={sending || !email.trim()}>
+                {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Reset Link
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+
+      <Link to="/login" className="flex items-center justify-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="h-4 w-4" />
+        Back to sign in
+      </Link>
+    </AuthLayout>
+  );
+};
+
+export default ForgotPassword;
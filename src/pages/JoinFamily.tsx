@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AuthError } from '@/auth/types';
+import { passwordProblems } from '@/auth/passwords';
+import AuthLayout from '@/components/AuthLayout';
+import PasswordHints from '@/components/PasswordHints';
+
+// Parents redeem a teacher's invitation code here: by creating an account, or from the one they are signed in to
+const JoinFamily = () => {
+  const { user, isAuthenticated, signUpParent, acceptInvitation } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [draft, setDraft] = useState({ code: searchParams.get('code') ?? '', name: '', email: '', password: '', confirm: '' });
+  const [saving, setSaving] = useState(false);
+
+  const mismatch = draft.confirm.length > 0 && draft.confirm !== draft.password;
+  const ready = isAuthenticated
+    ? !!draft.code.trim()
+    : !!draft.code.trim() && !!draft.name.trim() && !!draft.email.trim()
+      && passwordProblems(draft.password, { email: draft.email }).length === 0 && draft.confirm === draft.password;
+
+  const set = (field: keyof typeof draft) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft({ ...draft, [field]: e.target.value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    try {
+      setSaving(true);
+      if (isAuthenticated) {
+        await acceptInvitation(draft.code.trim());
+        toast({ title: "Child linked", description: "Their progress now appears in your parent portal." });
+      } else {
+        await signUpParent({ code: draft.code.trim(), name: draft.name.trim(), email: draft.email.trim(), password: draft.password });
+        toast({ title: "Welcome to EduBridge!", description: "Your parent account is ready." });
+      }
+      navigate('/dashboard', { replace: true });
+    } catch (error) {
+      toast({
+        title: isAuthenticated ? "Could not link child" : "Could not create account",
+        description: error instanceof AuthError ? error.message : "Please try again in a moment.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+        <CardHeader className="text-center">
+          <CardTitle>{isAuthenticated ? 'Link your child' : 'Create a parent account'}</CardTitle>
+          <CardDescription>
+            {isAuthenticated
+              ? `Signed in as ${user?.email}. Enter the invitation code from your child's teacher.`
+              : "Enter the invitation code from your child's teacher to follow their progress"}
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invitation-code">Invitation code</Label>
+              <Input
+                id="invitation-code"
+                placeholder="XXXX-XXXX"
+                autoComplete="off"
+                className="font-mono uppercase tracking-wider"
+                value={draft.code}
+                onChange={set('code')}
+              />
+            </div>
+            {!isAuthenticated && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="parent-name">Your name</Label>
+                  <Input id="parent-name" autoComplete="name" value={draft.name} onChange={set('name')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="parent-email">Email</Label>
+                  <Input id="parent-email" type="email" autoComplete="email" value={draft.email} onChange={set('email')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="parent-password">Password</Label>
+                  <Input id="parent-password" type="password" autoComplete="new-password" value={draft.password} onChange={set('password')} />
+                  <PasswordHints password={draft.password} email={draft.email} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="parent-confirm">Confirm password</Label>
+                  <Input id="parent-confirm" type="password" autoComplete="new-password" value={draft.confirm} onChange={set('confirm')} />
+                  {mismatch && <p className="text-xs text-destructive">Passwords do not match.</p>}
+                </div>
+              </>
+            )}
+          </CardContent>
+          <CardFooter className="flex-col gap-3">
+            <Button type="submit" className="w-full" disabled={saving || !ready}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isAuthenticated ? 'Link Child' : 'Create Account'}
+            </Button>
+            {!isAuthenticated && (
+              <p className="text-xs text-center text-muted-foreground">
+                Already have an account? Sign in first, then open this page again.
+              </p>
+            )}
+          </CardFooter>
+        </form>
+      </Card>
+
+      <Link
+        to={isAuthenticated ? '/dashboard' : '/login'}
+        className="flex items-center justify-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {isAuthenticated ? 'Back to your portal' : 'Back to sign in'}
+      </Link>
+    </AuthLayout>
+  );
+};
+
+export default JoinFamily;
@@ -1,26 +1,44 @@
 import React, { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, UserRole } from '@/contexts/AuthContext';
-import { GraduationCap, Users, BookOpen, Mail, Lock } from 'lucide-react';
+import { GraduationCap, Users, BookOpen, Mail, Lock, ShieldCheck, Building2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useRedirect } from '@/hooks/use-redirect';
+import { AuthError, isTwoFactorChallenge, type TwoFactorChallenge, type User } from '@/auth/types';
+import TwoFactorLoginStep from '@/components/TwoFactorLoginStep';
+import BackupCodeList from '@/components/BackupCodeList';
+import { returnPath } from '@/routes';
 
 const Login = () => {
-  const { login, isAuthenticated, loading } = useAuth();
+  const { login, isAuthenticated, loading, ssoProviders, beginSso } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [selectedRole, setSelectedRole] = useState<UserRole>('teacher');
   const [isLoggingIn, setIsLoggingIn] = useState(false);
+  // Set while the second factor is pending, and kept until newly issued backup codes are acknowledged
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
   const { toast } = useToast();
+  const redirect = useRedirect();
+  // The page ProtectedRoute sent us here from, opened again once signed in
+  const returnTo = returnPath(useLocation().state);
+  const { data: providers = [] } = useQuery({ queryKey: ['sso-providers'], queryFn: ssoProviders });
 
-  if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+  if (isAuthenticated && !challenge) {
+    return <Navigate to={returnTo} replace />;
   }
 
+  const welcome = (signedIn: User) => toast({
+    title: "Welcome to EduBridge!",
+    description: `Successfully logged in as ${signedIn.role}.`,
+  });
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -35,15 +53,23 @@ const Login = () => {
 
     try {
       setIsLoggingIn(true);
-      await login(email, password, selectedRole);
-      toast({
-        title: "Welcome to EduBridge!",
-        description: `Successfully logged in as ${selectedRole}.`,
-      });
+      // The portal is decided by the account, not by the selected tab
+      const result = await login(email, password);
+      if (isTwoFactorChallenge(result)) {
+        setChallenge(result);
+        return;
+      }
+      welcome(result);
     } catch (error) {
+      const locked = error instanceof AuthError && error.code === 'account_locked';
+      const minutes = locked ? Math.max(1, Math.ceil((error.retryAfterMs ?? 0) / 60000)) : 0;
       toast({
         title: "Login Failed",
-        description: "Please check your credentials and try again.",
+        description: locked
+          ? `Too many failed attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+          : error instanceof AuthError && error.code === 'account_disabled'
+            ? error.message
+            : "Please check your credentials and try again.",
         variant: "destructive"
       });
     } finally {
@@ -51,16 +77,32 @@ const Login = () => {
     }
   };
 
+  const handleSso = async (providerId: string) => {
+    try {
+      setIsLoggingIn(true);
+      redirect(await beginSso(providerId, returnTo));
+    } catch {
+      toast({
+        title: "Single Sign-On Unavailable",
+        description: "Please try again or sign in with your password.",
+        variant: "destructive"
+      });
+      setIsLoggingIn(false);
+    }
+  };
+
   const roleIcons = {
     teacher: BookOpen,
     parent: Users,
-    student: GraduationCap
+    student: GraduationCap,
+    admin: ShieldCheck
   };
 
   const demoCredentials = {
     teacher: { email: 'teacher@demo.com', password: 'demo123' },
     parent: { email: 'parent@demo.com', password: 'demo123' },
-    student: { email: 'student@demo.com', password: 'demo123' }
+    student: { email: 'student@demo.com', password: 'demo123' },
+    admin: { email: 'admin@demo.com', password: 'demo123' }
   };
 
   return (
@@ -84,94 +126,159 @@ const Login = () => {
         {/* Login Form */}
         <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
           <CardHeader className="text-center">
-            <CardTitle>Welcome Back</CardTitle>
+            <CardTitle>{backupCodes ? 'Save Your Backup Codes' : challenge ? 'Two-Factor Authentication' : 'Welcome Back'}</CardTitle>
             <CardDescription>
-              Choose your role and sign in to continue
+              {backupCodes
+                ? 'Two-factor authentication is now on'
+                : challenge ? 'One more step to confirm it is you' : 'Sign in to continue to your portal'}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            {/* Role Selection */}
-            <Tabs value={selectedRole} onValueChange={(value) => setSelectedRole(value as UserRole)}>
-              <TabsList className="grid w-full grid-cols-3 bg-muted/50">
-                <TabsTrigger value="teacher" className="flex items-center gap-2">
-                  <BookOpen className="h-4 w-4" />
-                  Teacher
-                </TabsTrigger>
-                <TabsTrigger value="parent" className="flex items-center gap-2">
-                  <Users className="h-4 w-4" />
-                  Parent
-                </TabsTrigger>
-                <TabsTrigger value="student" className="flex items-center gap-2">
-                  <GraduationCap className="h-4 w-4" />
-                  Student
-                </TabsTrigger>
-              </TabsList>
-
-              {/* Form for each role */}
-              {(['teacher', 'parent', 'student'] as UserRole[]).map((role) => (
-                <TabsContent key={role} value={role} className="space-y-4">
-                  <form onSubmit={handleLogin} className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="email">Email</Label>
-                      <div className="relative">
-                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="email"
-                          type="email"
-                          placeholder={`Enter your ${role} email`}
-                          value={email}
-                          onChange={(e) => setEmail(e.target.value)}
-                          className="pl-10"
-                        />
-                      </div>
-                    </div>
+            {backupCodes ? (
+              <div className="space-y-4">
+                <BackupCodeList codes={backupCodes} />
+                <Button className="w-full" onClick={() => { setBackupCodes(null); setChallenge(null); }}>
+                  I've Saved Them, Continue
+                </Button>
+              </div>
+            ) : challenge ? (
+              <TwoFactorLoginStep
+                challenge={challenge}
+                onCancel={() => { setChallenge(null); setPassword(''); }}
+                onVerified={({ user: signedIn, backupCodes: codes }) => {
+                  welcome(signedIn);
+                  if (codes) setBackupCodes(codes);
+                  else setChallenge(null);
+                }}
+              />
+            ) : (
+              <>
+                {/* Role Selection */}
+                <Tabs value={selectedRole} onValueChange={(value) => setSelectedRole(value as UserRole)}>
+                  <TabsList className="grid w-full grid-cols-4 bg-muted/50">
+                    <TabsTrigger value="teacher" className="flex items-center gap-2">
+                      <BookOpen className="h-4 w-4" />
+                      Teacher
+                    </TabsTrigger>
+                    <TabsTrigger value="parent" className="flex items-center gap-2">
+                      <Users className="h-4 w-4" />
+                      Parent
+                    </TabsTrigger>
+                    <TabsTrigger value="student" className="flex items-center gap-2">
+                      <GraduationCap className="h-4 w-4" />
+                      Student
+                    </TabsTrigger>
+                    <TabsTrigger value="admin" className="flex items-center gap-2">
+                      <ShieldCheck className="h-4 w-4" />
+                      Admin
+                    </TabsTrigger>
+                  </TabsList>
+
+                  {/* Form for each role */}
+                  {(['teacher', 'parent', 'student', 'admin'] as UserRole[]).map((role) => (
+                    <TabsContent key={role} value={role} className="space-y-4">
+                      <form onSubmit={handleLogin} className="space-y-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="email">Email</Label>
+                          <div className="relative">
+                            <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              id="email"
+                              type="email"
+                              placeholder={`Enter your ${role} email`}
+                              value={email}
+                              onChange={(e) => setEmail(e.target.value)}
+                              className="pl-10"
+                            />
+                          </div>
+                        </div>
                     
-                    <div className="space-y-2">
-                      <Label htmlFor="password">Password</Label>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="password"
-                          type="password"
-                          placeholder="Enter your password"
-                          value={password}
-                          onChange={(e) => setPassword(e.target.value)}
-                          className="pl-10"
-                        />
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="password">Password</Label>
+                            <Link to="/forgot-password" className="text-xs text-primary hover:underline">
+                              Forgot password?
+                            </Link>
+                          </div>
+                          <div className="relative">
+                            <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              id="password"
+                              type="password"
+                              placeholder="Enter your password"
+                              value={password}
+                              onChange={(e) => setPassword(e.target.value)}
+                              className="pl-10"
+                            />
+                          </div>
+                        </div>
+
+                        <Button
+                          type="submit"
+                          className="w-full bg-gradient-to-r from-primary to-success hover:from-primary-hover hover:to-success/90 text-white font-medium"
+                          disabled={isLoggingIn || loading}
+                        >
+                          {isLoggingIn ? 'Signing in...' : 'Sign In'}
+                        </Button>
+                      </form>
+
+                      {role === 'parent' && (
+                        <p className="text-center text-sm text-muted-foreground">
+                          Have an invitation code?{' '}
+                          <Link to="/join" className="text-primary hover:underline">Create a parent account</Link>
+                        </p>
+                      )}
+
+                      {/* Demo Credentials */}
+                      <div className="bg-muted/30 p-3 rounded-lg border border-dashed border-muted-foreground/30">
+                        <p className="text-sm font-medium text-muted-foreground mb-2">Demo Credentials:</p>
+                        <div className="text-xs text-muted-foreground space-y-1">
+                          <p><strong>Email:</strong> {demoCredentials[role].email}</p>
+                          <p><strong>Password:</strong> {demoCredentials[role].password}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEmail(demoCredentials[role].email);
+                            setPassword(demoCredentials[role].password);
+                          }}
+                          className="mt-2 h-8 text-xs"
+                        >
+                          Use Demo Credentials
+                        </Button>
                       </div>
-                    </div>
+                    </TabsContent>
+                  ))}
+                </Tabs>
 
-                    <Button
-                      type="submit"
-                      className="w-full bg-gradient-to-r from-primary to-success hover:from-primary-hover hover:to-success/90 text-white font-medium"
-                      disabled={isLoggingIn || loading}
-                    >
-                      {isLoggingIn ? 'Signing in...' : 'Sign In'}
-                    </Button>
-                  </form>
-
-                  {/* Demo Credentials */}
-                  <div className="bg-muted/30 p-3 rounded-lg border border-dashed border-muted-foreground/30">
-                    <p className="text-sm font-medium text-muted-foreground mb-2">Demo Credentials:</p>
-                    <div className="text-xs text-muted-foreground space-y-1">
-                      <p><strong>Email:</strong> {demoCredentials[role].email}</p>
-                      <p><strong>Password:</strong> {demoCredentials[role].password}</p>
+                {/* School accounts (OpenID Connect) */}
+                {providers.length > 0 && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-3 text-xs uppercase text-muted-foreground">
+                      <div className="h-px flex-1 bg-border" />
+                      or continue with
+                      <div className="h-px flex-1 bg-border" />
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        setEmail(demoCredentials[role].email);
-                        setPassword(demoCredentials[role].password);
-                      }}
-                      className="mt-2 h-8 text-xs"
-                    >
-                      Use Demo Credentials
-                    </Button>
+                    {providers.map((provider) => (
+                      <Button
+                        key={provider.id}
+                        variant="outline"
+                        className="w-full"
+                        disabled={isLoggingIn || loading}
+                        onClick={() => handleSso(provider.id)}
+                      >
+                        <Building2 className="mr-2 h-4 w-4" />
+                        {provider.name}
+                      </Button>
+                    ))}
+                    <p className="text-xs text-center text-muted-foreground">
+                      Teachers and staff can use their school Google or Microsoft account.
+                    </p>
                   </div>
-                </TabsContent>
-              ))}
-            </Tabs>
+                )}
+              </>
+            )}
           </CardContent>
         </Card>
 
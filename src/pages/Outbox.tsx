@@ -0,0 +1,69 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ExternalLink, Inbox } from 'lucide-react';
+import { useOutbox } from '@/hooks/use-outbox';
+import AuthLayout from '@/components/AuthLayout';
+
+// Development stand-in for an email inbox: shows what EduBridge would have mailed
+const Outbox = () => {
+  const [searchParams] = useSearchParams();
+  const to = searchParams.get('to') ?? undefined;
+  const { data: messages = [], isLoading, isError } = useOutbox(to);
+
+  return (
+    <AuthLayout>
+      <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Local Outbox
+          </CardTitle>
+          <CardDescription>
+            {to ? `Mail sent to ${to}` : 'All mail sent by this environment'}; nothing is delivered for real
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isError && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              This server does not share its outbox. It is only available in development, with EDUBRIDGE_DEV_OUTBOX=true.
+            </p>
+          )}
+          {!isLoading && !isError && messages.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No mail yet</p>
+          )}
+          {messages.map((message) => (
+            <div key={message.id} className="rounded-lg border p-4 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium">{message.subject}</h3>
+                <Badge variant="secondary" className="shrink-0">
+                  {formatDistanceToNow(new Date(message.sentAt), { addSuffix: true })}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">To: {message.to}</p>
+              <p className="text-sm">{message.body}</p>
+              {message.link && (
+                <Button asChild size="sm" variant="outline">
+                  <Link to={message.link}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open link
+                  </Link>
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Link to="/login" className="flex items-center justify-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="h-4 w-4" />
+        Back to sign in
+      </Link>
+    </AuthLayout>
+  );
+};
+
+export default Outbox;
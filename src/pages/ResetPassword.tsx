@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AuthError } from '@/auth/types';
+import { passwordProblems } from '@/auth/passwords';
+import AuthLayout from '@/components/AuthLayout';
+import PasswordHints from '@/components/PasswordHints';
+
+const ResetPassword = () => {
+  const { resetPassword } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const mismatch = confirm.length > 0 && confirm !== password;
+  const ready = passwordProblems(password).length === 0 && confirm === password;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    try {
+      setSaving(true);
+      await resetPassword(token, password);
+      toast({ title: "Password updated", description: "Sign in with your new password." });
+      navigate('/login', { replace: true });
+    } catch (error) {
+      toast({
+        title: "Could not reset password",
+        description: error instanceof AuthError ? error.message : "Please try again in a moment.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+        <CardHeader className="text-center">
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>
+            {token ? 'Every device signed in to your account will be signed out' : 'This link is missing its reset token'}
+          </CardDescription>
+        </CardHeader>
+
+        {token ? (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input id="new-password" type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                <PasswordHints password={password} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input id="confirm-password" type="password" autoComplete="new-password" value={confirm} onChange={(e) => setConfirm(e.target.value)} />
+                {mismatch && <p className="text-xs text-destructive">Passwords do not match.</p>}
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={saving || !ready}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reset Password
+              </Button>
+            </CardFooter>
+          </form>
+        ) : (
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link to="/forgot-password">Request a new link</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+
+      <Link to="/login" className="flex items-center justify-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="h-4 w-4" />
+        Back to sign in
+      </Link>
+    </AuthLayout>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AuthError, type TwoFactorChallenge, type User } from '@/auth/types';
+import AuthLayout from '@/components/AuthLayout';
+import TwoFactorLoginStep from '@/components/TwoFactorLoginStep';
+import BackupCodeList from '@/components/BackupCodeList';
+
+// Where the identity provider sends the browser back with a code (or an error)
+const SsoCallback = () => {
+  const { completeSso } = useAuth();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [returnTo, setReturnTo] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+  // Set while the second factor is pending, and kept until newly issued backup codes are acknowledged
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  // Codes are single-use, so the exchange must run once even if the effect does not
+  const started = useRef(false);
+
+  const welcome = useCallback((signedIn: User) => toast({
+    title: "Welcome to EduBridge!",
+    description: `Successfully logged in as ${signedIn.role}.`
+  }), [toast]);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    completeSso({
+      code: searchParams.get('code'),
+      state: searchParams.get('state'),
+      error: searchParams.get('error')
+    }).then(
+      (result) => {
+        setReturnTo(result.returnTo);
+        if ('challenge' in result) {
+          setChallenge(result.challenge);
+          return;
+        }
+        welcome(result.user);
+        setDone(true);
+      },
+      (error) => setFailure(error instanceof AuthError ? error.message : "Single sign-on is unavailable right now.")
+    );
+  }, [completeSso, searchParams, welcome]);
+
+  if (done && returnTo) return <Navigate to={returnTo} replace />;
+
+  if (challenge) {
+    return (
+      <AuthLayout>
+        <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+          <CardHeader className="text-center">
+            <CardTitle>{backupCodes ? 'Save Your Backup Codes' : 'Two-Factor Authentication'}</CardTitle>
+            <CardDescription>
+              {backupCodes ? 'Two-factor authentication is now on' : 'One more step to confirm it is you'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {backupCodes ? (
+              <div className="space-y-4">
+                <BackupCodeList codes={backupCodes} />
+                <Button className="w-full" onClick={() => setDone(true)}>
+                  I've Saved Them, Continue
+                </Button>
+              </div>
+            ) : (
+              <TwoFactorLoginStep
+                challenge={challenge}
+                onCancel={() => { setChallenge(null); setFailure('Sign-in was cancelled.'); }}
+                onVerified={({ user: signedIn, backupCodes: codes }) => {
+                  welcome(signedIn);
+                  if (codes) setBackupCodes(codes);
+                  else setDone(true);
+                }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout>
+      <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+        <CardHeader className="text-center">
+          <CardTitle>{failure ? 'Sign-in failed' : 'Signing you in'}</CardTitle>
+          <CardDescription>
+            {failure ?? <Loader2 className="mx-auto mt-2 h-5 w-5 animate-spin" />}
+          </CardDescription>
+        </CardHeader>
+        {failure && (
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link to="/login">Back to sign in</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default SsoCallback;
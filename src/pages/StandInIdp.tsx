@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Building2, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useRedirect } from '@/hooks/use-redirect';
+import { useStandInIdp } from '@/hooks/use-standin-idp';
+import type { StandInAuthorizeParams } from '@/auth/idp-standin';
+import AuthLayout from '@/components/AuthLayout';
+
+const PARAM_NAMES: (keyof StandInAuthorizeParams)[] = [
+  'client_id', 'redirect_uri', 'response_type', 'state', 'nonce', 'code_challenge', 'code_challenge_method'
+];
+
+const initials = (name: string) => name.split(' ').map(part => part[0]).join('').slice(0, 2);
+
+// Sign-in page of the development identity provider: pick who to be instead of typing a password
+const StandInIdp = () => {
+  const idp = useStandInIdp();
+  const redirect = useRedirect();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [pending, setPending] = useState<string | null>(null);
+  const { data: directory = [], isLoading, isError } = useQuery({
+    queryKey: ['idp-directory'],
+    queryFn: () => idp.directory(),
+    retry: false
+  });
+
+  const params = Object.fromEntries(
+    PARAM_NAMES.map(name => [name, searchParams.get(name) ?? ''])
+  ) as unknown as StandInAuthorizeParams;
+
+  const choose = async (sub: string | null) => {
+    try {
+      setPending(sub ?? 'cancel');
+      redirect(await idp.authorize(params, sub));
+    } catch (error) {
+      toast({
+        title: "Sign-in request rejected",
+        description: error instanceof Error ? error.message : "The request from the application is not valid.",
+        variant: "destructive"
+      });
+      setPending(null);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <Card className="border-0 shadow-xl bg-card/50 backdrop-blur">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Building2 className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <CardTitle>School Account</CardTitle>
+          <CardDescription>Choose an account to continue to EduBridge</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading && <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />}
+          {isError && (
+            <p className="text-sm text-center text-muted-foreground">
+              The stand-in school sign-in is turned off. Start the server with EDUBRIDGE_STANDIN_IDP=true to use it.
+            </p>
+          )}
+          {directory.map((person) => (
+            <button
+              key={person.sub}
+              type="button"
+              onClick={() => choose(person.sub)}
+              disabled={pending !== null}
+              className="flex w-full items-center gap-3 rounded-lg border p-3 text-left transition-colors hover:bg-muted/50 disabled:opacity-60"
+            >
+              <Avatar className="h-9 w-9">
+                <AvatarFallback>{initials(person.name)}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium">{person.name}</p>
+                <p className="truncate text-xs text-muted-foreground">{person.email}</p>
+              </div>
+              {pending === person.sub
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <div className="flex flex-wrap justify-end gap-1">
+                    {person.groups.map(group => <Badge key={group} variant="secondary" className="text-xs">{group}</Badge>)}
+                  </div>}
+            </button>
+          ))}
+        </CardContent>
+        <CardFooter className="flex-col gap-2">
+          <Button variant="ghost" className="w-full" disabled={pending !== null} onClick={() => choose(null)}>
+            Cancel
+          </Button>
+          <p className="text-xs text-center text-muted-foreground">
+            Development stand-in for the school's Google or Microsoft sign-in.
+          </p>
+        </CardFooter>
+      </Card>
+    </AuthLayout>
+  );
+};
+
+export default StandInIdp;
@@ -0,0 +1,168 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Award, FileText, GraduationCap, School, TrendingUp, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClasses, useExams, useFeedback, usePapers, useStudents, useTeachers } from '@/hooks/use-portal-data';
+import { average, improvementRate, latestFeedbackFor, performanceStatus } from '@/domain/scoring';
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'excellent': return 'bg-success text-success-foreground';
+    case 'good': return 'bg-primary text-primary-foreground';
+    case 'needs-attention': return 'bg-warning text-warning-foreground';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+const AdminDashboard = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: teachers = [] } = useTeachers();
+  const { data: classes = [] } = useClasses();
+  const { data: students = [] } = useStudents();
+  const { data: papers = [] } = usePapers();
+  const { data: feedback = [] } = useFeedback();
+  const { data: exams = [] } = useExams();
+
+  // Class averages use each student's latest feedback, like the teacher dashboard
+  const latestScores = (classStudents: { id: string }[]) => classStudents
+    .map(s => latestFeedbackFor(s.id, feedback)?.aiScore)
+    .filter((score): score is number => score !== undefined);
+
+  const classRows = classes.map(schoolClass => {
+    const classStudents = students.filter(s => s.classId === schoolClass.id);
+    const ids = new Set(classStudents.map(s => s.id));
+    const scores = latestScores(classStudents);
+    const averageScore = Math.round(average(scores) * 10) / 10;
+    return {
+      ...schoolClass,
+      teacherName: teachers.find(t => t.id === schoolClass.teacherId)?.name ?? 'Unassigned',
+      studentCount: classStudents.length,
+      papersToReview: papers.filter(p => p.classId === schoolClass.id && p.status !== 'reviewed').length,
+      averageScore,
+      improvement: improvementRate(exams.filter(e => ids.has(e.studentId))),
+      status: scores.length > 0 ? performanceStatus(averageScore) : 'pending'
+    };
+  });
+
+  const stats = {
+    teachers: teachers.filter(t => t.active).length,
+    classes: classes.length,
+    students: students.length,
+    averageScore: Math.round(average(latestScores(students)) * 10) / 10,
+    papersToReview: papers.filter(p => p.status !== 'reviewed').length,
+    improvementRate: improvementRate(exams)
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Welcome back, {user?.name}!</h1>
+        <p className="text-muted-foreground">
+          School-wide performance across every class and teacher.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        <Card className="bg-gradient-to-br from-primary/5 to-primary/10 border-primary/20">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Students</CardTitle>
+            <Users className="h-5 w-5 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.students}</div>
+            <p className="text-xs text-muted-foreground">
+              In {stats.classes} classes with {stats.teachers} active teachers
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-warning/5 to-warning/10 border-warning/20">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Papers to Review</CardTitle>
+            <FileText className="h-5 w-5 text-warning" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.papersToReview}</div>
+            <p className="text-xs text-muted-foreground">Across all classes</p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-success/5 to-success/10 border-success/20">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Average Score</CardTitle>
+            <Award className="h-5 w-5 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.averageScore}%</div>
+            <p className="text-xs text-muted-foreground">Latest feedback, school-wide</p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-success/5 to-success/10 border-success/20">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Improvement</CardTitle>
+            <TrendingUp className="h-5 w-5 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.improvementRate >= 0 ? '+' : ''}{stats.improvementRate}%</div>
+            <p className="text-xs text-muted-foreground">Between each student's last two exams</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <School className="h-5 w-5" />
+                Class Performance
+              </CardTitle>
+              <CardDescription>How each class is doing and what is waiting for review</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/classes')}>
+              Manage Classes
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {classRows.length === 0 && <p className="text-sm text-muted-foreground">No classes yet.</p>}
+          {classRows.map((row) => (
+            <div key={row.id} className="flex items-center gap-4 p-4 rounded-lg border border-border/50">
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold">{row.name}</p>
+                  <Badge variant="outline">{row.subject}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <GraduationCap className="h-3 w-3" />
+                  {row.teacherName} · {row.studentCount} students · {row.papersToReview} papers to review
+                </p>
+              </div>
+              <div className="w-40 space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Average</span>
+                  <span className="font-bold">{row.averageScore}%</span>
+                </div>
+                <Progress value={row.averageScore} />
+              </div>
+              <div className="w-20 text-right text-sm">
+                {row.improvement >= 0 ? '+' : ''}{row.improvement}%
+              </div>
+              <Badge className={getStatusColor(row.status)}>
+                {row.status.replace('-', ' ')}
+              </Badge>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminDashboard;
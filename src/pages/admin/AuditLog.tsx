@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, ScrollText, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import type { AuditFilter } from '@/domain/repositories';
+import type { AuditAction } from '@/domain/types';
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, auditEntriesToCsv, describeChange } from '@/domain/audit';
+import { ROLE_LABELS } from '@/auth/roles';
+import type { UserRole } from '@/auth/types';
+import { useAuditLog } from '@/hooks/use-portal-data';
+import { downloadFile } from '@/lib/download';
+
+const ALL = 'all';
+
+// Date inputs give calendar days; the range covers both days completely in local time
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+const AuditLog = () => {
+  const [action, setAction] = useState<AuditAction | typeof ALL>(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [search, setSearch] = useState('');
+
+  const filter: AuditFilter = {
+    action: action === ALL ? undefined : action,
+    actorId: actorId === ALL ? undefined : actorId,
+    from: startOfDay(fromDay),
+    to: endOfDay(toDay)
+  };
+  const { data: entries = [], isLoading } = useAuditLog(filter);
+  // Everyone who appears in the log, for the actor filter
+  const { data: everything = [] } = useAuditLog();
+
+  const actors = useMemo(
+    () => [...new Map(everything.map(e => [e.actor.id, e.actor])).values()].sort((a, b) => a.name.localeCompare(b.name)),
+    [everything]
+  );
+
+  const term = search.trim().toLowerCase();
+  const shown = term
+    ? entries.filter(e =>
+        [e.actor.name, e.target.label, e.target.id, ...describeChange(e)].some(text => text?.toLowerCase().includes(term)))
+    : entries;
+
+  const exportCsv = () =>
+    downloadFile(`edubridge-audit-${format(new Date(), 'yyyy-MM-dd')}.csv`, auditEntriesToCsv(shown), 'text/csv;charset=utf-8');
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Who changed feedback, sharing, API keys and privacy settings, and when. Entries cannot be edited or removed.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ScrollText className="h-5 w-5" />
+                Recorded Actions
+              </CardTitle>
+              <CardDescription>{shown.length} {shown.length === 1 ? 'entry' : 'entries'}, newest first</CardDescription>
+            </div>
+            <Button variant="outline" onClick={exportCsv} disabled={shown.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="audit-search"
+                  className="pl-9"
+                  placeholder="Person, student or change"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={(value) => setAction(value as AuditAction | typeof ALL)}>
+                <SelectTrigger aria-label="Action"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {AUDIT_ACTIONS.map((a) => <SelectItem key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Person</Label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger aria-label="Person"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Everyone</SelectItem>
+                  {actors.map((a) => <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+          ) : shown.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">No recorded actions match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((entry) => {
+                  const changes = describeChange(entry);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{format(new Date(entry.at), 'MMM d, yyyy HH:mm:ss')}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{entry.actor.name}</p>
+                        <p className="text-xs text-muted-foreground">{ROLE_LABELS[entry.actor.role as UserRole] ?? entry.actor.role}</p>
+                      </TableCell>
+                      <TableCell><Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</Badge></TableCell>
+                      <TableCell>
+                        <p>{entry.target.label ?? entry.target.id}</p>
+                        <p className="text-xs text-muted-foreground">{entry.target.type} · {entry.target.id}</p>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {changes.map((change) => <p key={change} className="font-mono">{change}</p>)}
+                        {entry.details && Object.entries(entry.details).map(([key, value]) => <p key={key}>{key}: {value}</p>)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, UserPlus, Users } from 'lucide-react';
+import type { Student } from '@/domain/types';
+import { useToast } from '@/hooks/use-toast';
+import { useClasses, useCreateStudent, useStudents, useUpdateStudent } from '@/hooks/use-portal-data';
+import StudentParentsDialog from '@/components/StudentParentsDialog';
+
+const ALL_CLASSES = 'all';
+
+const Enrolments = () => {
+  const { toast } = useToast();
+  const { data: classes = [] } = useClasses();
+  const { data: students = [] } = useStudents();
+  const createStudent = useCreateStudent();
+  const updateStudent = useUpdateStudent();
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+  const [draft, setDraft] = useState({ name: '', classId: '' });
+  const [parentsFor, setParentsFor] = useState<Student | null>(null);
+
+  const shown = classFilter === ALL_CLASSES ? students : students.filter(s => s.classId === classFilter);
+  const classById = (id: string) => classes.find(c => c.id === id);
+
+  const moveStudent = async (id: string, classId: string) => {
+    try {
+      const student = await updateStudent.mutateAsync({ id, update: { classId } });
+      toast({ title: "Enrolment updated", description: `${student.name} moved to ${classById(classId)?.name ?? 'the new class'}.` });
+    } catch {
+      toast({ title: "Could not move student", description: "Please try again in a moment.", variant: "destructive" });
+    }
+  };
+
+  // New students take the grade of the class they join
+  const handleEnrol = async () => {
+    const schoolClass = classById(draft.classId);
+    if (!draft.name.trim() || !schoolClass) return;
+    try {
+      await createStudent.mutateAsync({ name: draft.name.trim(), classId: schoolClass.id, grade: schoolClass.grade });
+      toast({ title: "Student enrolled", description: `${draft.name.trim()} joined ${schoolClass.name}.` });
+      setDraft({ name: '', classId: draft.classId });
+    } catch {
+      toast({ title: "Could not enrol student", description: "Please try again in a moment.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Enrolments</h1>
+        <p className="text-muted-foreground">Enrol new students and move students between classes</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Enrol a Student
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="student-name">Student name</Label>
+              <Input id="student-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="w-full md:w-56 space-y-2">
+              <Label>Class</Label>
+              <Select value={draft.classId} onValueChange={(classId) => setDraft({ ...draft, classId })}>
+                <SelectTrigger aria-label="Class">
+                  <SelectValue placeholder="Select a class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleEnrol} disabled={createStudent.isPending || !draft.name.trim() || !draft.classId}>
+              {createStudent.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enrol
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Students
+              </CardTitle>
+              <CardDescription>Changing a student's class moves their future work to that class</CardDescription>
+            </div>
+            <Select value={classFilter} onValueChange={setClassFilter}>
+              <SelectTrigger className="w-48" aria-label="Filter by class">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLASSES}>All classes</SelectItem>
+                {classes.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead className="w-56">Class</TableHead>
+                <TableHead className="text-right">Parents</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((student) => (
+                <TableRow key={student.id}>
+                  <TableCell className="font-medium">{student.name}</TableCell>
+                  <TableCell>{student.grade}</TableCell>
+                  <TableCell>
+                    <Select value={student.classId} onValueChange={(classId) => moveStudent(student.id, classId)}>
+                      <SelectTrigger className="h-9" aria-label={`Class for ${student.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {classes.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => setParentsFor(student)}>
+                      Parent Access
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <StudentParentsDialog student={parentsFor} onOpenChange={(open) => { if (!open) setParentsFor(null); }} />
+    </div>
+  );
+};
+
+export default Enrolments;
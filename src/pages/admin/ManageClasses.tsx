@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Pencil, Plus, School } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useClasses, useCreateClass, useStudents, useTeachers, useUpdateClass } from '@/hooks/use-portal-data';
+import type { NewClassInput } from '@/domain/repositories';
+
+const emptyDraft: NewClassInput = { name: '', grade: '', subject: '', teacherId: '' };
+
+const ManageClasses = () => {
+  const { toast } = useToast();
+  const { data: classes = [] } = useClasses();
+  const { data: teachers = [] } = useTeachers();
+  const { data: students = [] } = useStudents();
+  const createClass = useCreateClass();
+  const updateClass = useUpdateClass();
+  // null: dialog closed; '' : creating a new class; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NewClassInput>(emptyDraft);
+
+  const saving = createClass.isPending || updateClass.isPending;
+  const complete = draft.name.trim() && draft.grade.trim() && draft.subject.trim() && draft.teacherId;
+  // Inactive teachers keep existing classes but are not offered for new assignments
+  const assignable = teachers.filter(t => t.active || t.id === draft.teacherId);
+
+  const openCreate = () => {
+    setDraft(emptyDraft);
+    setEditingId('');
+  };
+
+  const openEdit = (id: string) => {
+    const { name, grade, subject, teacherId } = classes.find(c => c.id === id)!;
+    setDraft({ name, grade, subject, teacherId });
+    setEditingId(id);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editingId) {
+        await updateClass.mutateAsync({ id: editingId, update: draft });
+      } else {
+        await createClass.mutateAsync(draft);
+      }
+      toast({ title: editingId ? "Class updated" : "Class created", description: `${draft.name} has been saved.` });
+      setEditingId(null);
+    } catch {
+      toast({ title: "Could not save class", description: "Please check the details and try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Classes</h1>
+          <p className="text-muted-foreground">Create classes and assign the teacher responsible for each</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Class
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <School className="h-5 w-5" />
+            All Classes
+          </CardTitle>
+          <CardDescription>Reassigning a class moves it to the new teacher's workspace straight away</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Teacher</TableHead>
+                <TableHead>Students</TableHead>
+                <TableHead className="text-right">Edit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {classes.map((schoolClass) => (
+                <TableRow key={schoolClass.id}>
+                  <TableCell className="font-medium">{schoolClass.name}</TableCell>
+                  <TableCell>{schoolClass.grade}</TableCell>
+                  <TableCell>{schoolClass.subject}</TableCell>
+                  <TableCell>{teachers.find(t => t.id === schoolClass.teacherId)?.name ?? 'Unassigned'}</TableCell>
+                  <TableCell>{students.filter(s => s.classId === schoolClass.id).length}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(schoolClass.id)} aria-label={`Edit ${schoolClass.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && setEditingId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit class' : 'New class'}</DialogTitle>
+            <DialogDescription>The assigned teacher sees this class in their class switcher.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="class-name">Name</Label>
+              <Input id="class-name" placeholder="Class 6A" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="class-grade">Grade</Label>
+                <Input id="class-grade" placeholder="6th Grade" value={draft.grade} onChange={(e) => setDraft({ ...draft, grade: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="class-subject">Subject</Label>
+                <Input id="class-subject" value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Teacher</Label>
+              <Select value={draft.teacherId} onValueChange={(teacherId) => setDraft({ ...draft, teacherId })}>
+                <SelectTrigger aria-label="Teacher">
+                  <SelectValue placeholder="Select a teacher" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignable.map((teacher) => (
+                    <SelectItem key={teacher.id} value={teacher.id}>
+                      {teacher.name}
+                      <span className="ml-2 text-xs text-muted-foreground">{teacher.subject}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={saving || !complete}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Class
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ManageClasses;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, GraduationCap, Loader2, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { AuthError } from '@/auth/types';
+import { useClasses, useCreateTeacher, useTeachers, useUpdateTeacher } from '@/hooks/use-portal-data';
+
+const emptyDraft = { name: '', email: '', subject: '' };
+
+// Shown once to the administrator, who passes it on to the new teacher
+// Always mixes letters and digits, so it passes the strength rules whatever the random part holds
+const temporaryPassword = () => `edb-${crypto.randomUUID().slice(0, 8)}-${crypto.getRandomValues(new Uint32Array(1))[0] % 90 + 10}`;
+
+const ManageTeachers = () => {
+  const { provisionAccount, removeAccount } = useAuth();
+  const { toast } = useToast();
+  const { data: teachers = [] } = useTeachers();
+  const { data: classes = [] } = useClasses();
+  const createTeacher = useCreateTeacher();
+  const updateTeacher = useUpdateTeacher();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [issued, setIssued] = useState<{ email: string; password: string } | null>(null);
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setDraft(emptyDraft);
+    setIssued(null);
+  };
+
+  // The sign-in account is created first so the directory entry can reuse its id
+  const handleAdd = async () => {
+    const name = draft.name.trim();
+    const email = draft.email.trim();
+    const subject = draft.subject.trim();
+    if (!name || !email || !subject) return;
+    setSaving(true);
+    try {
+      const password = temporaryPassword();
+      const account = await provisionAccount({
+        email,
+        password,
+        user: { name, email, subject, role: 'teacher', memberships: [{ role: 'teacher' }] }
+      });
+      try {
+        await createTeacher.mutateAsync({ id: account.id, name, email, subject });
+      } catch (error) {
+        // An account without a directory entry would be orphaned, so it is taken back
+        await removeAccount(account.id).catch((cleanup) => console.warn('Failed to remove account', cleanup));
+        throw error;
+      }
+      setIssued({ email, password });
+    } catch (error) {
+      toast({
+        title: "Could not add teacher",
+        description: error instanceof AuthError && error.code === 'email_taken'
+          ? "An account with this email already exists."
+          : error instanceof AuthError && error.code === 'weak_password'
+            ? error.message
+            : "Please try again in a moment.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (id: string, active: boolean) => {
+    try {
+      await updateTeacher.mutateAsync({ id, update: { active } });
+    } catch {
+      toast({ title: "Could not update teacher", description: "Please try again in a moment.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Teachers</h1>
+          <p className="text-muted-foreground">Add teaching staff and see who teaches which class</p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add Teacher
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GraduationCap className="h-5 w-5" />
+            Teaching Staff
+          </CardTitle>
+          <CardDescription>Inactive teachers keep their classes and history but cannot sign in or be assigned new classes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Classes</TableHead>
+                <TableHead className="text-right">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teachers.map((teacher) => (
+                <TableRow key={teacher.id}>
+                  <TableCell className="font-medium">{teacher.name}</TableCell>
+                  <TableCell>{teacher.email}</TableCell>
+                  <TableCell>{teacher.subject}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {classes.filter(c => c.teacherId === teacher.id).map(c => (
+                        <Badge key={c.id} variant="outline">{c.name}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Switch
+                      checked={teacher.active}
+                      onCheckedChange={(active) => toggleActive(teacher.id, active)}
+                      aria-label={`${teacher.name} is active`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{issued ? 'Teacher added' : 'Add a teacher'}</DialogTitle>
+            <DialogDescription>
+              {issued
+                ? 'Share these sign-in details with the teacher. The password is not shown again.'
+                : 'Creates a teacher account with a temporary password.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {issued ? (
+            <div className="space-y-2 rounded-lg bg-muted/30 p-4 text-sm">
+              <p><strong>Email:</strong> {issued.email}</p>
+              <div className="flex items-center justify-between">
+                <p><strong>Temporary password:</strong> <code>{issued.password}</code></p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigator.clipboard.writeText(issued.password)}
+                  aria-label="Copy password"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="teacher-name">Name</Label>
+                <Input id="teacher-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="teacher-email">Email</Label>
+                <Input id="teacher-email" type="email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="teacher-subject">Subject</Label>
+                <Input id="teacher-subject" value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {issued ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : (
+              <Button onClick={handleAdd} disabled={saving || !draft.name.trim() || !draft.email.trim() || !draft.subject.trim()}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Account
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ManageTeachers;
@@ -0,0 +1,258 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from '@/hooks/use-toast';
+import { useSchoolPolicy, useUpdateSchoolPolicy } from '@/hooks/use-portal-data';
+import { INTEGRATION_LABELS, RETENTION_LABELS } from '@/domain/policy';
+import type { DataRetention, IntegrationId } from '@/domain/types';
+
+const policyFormSchema = z.object({
+  schoolName: z.string().min(2, { message: "School name is required" }),
+  dataRetention: z.enum(['30days', '90days', '1year', 'forever']),
+  allowTeacherApiAccess: z.boolean(),
+  requireTeacherTwoFactor: z.boolean(),
+  trustSsoTwoFactor: z.boolean(),
+  integrations: z.object({
+    'google-classroom': z.boolean(),
+    'microsoft-teams': z.boolean(),
+    canvas: z.boolean()
+  }),
+  webhookUrl: z.string().url().optional().or(z.literal(''))
+});
+
+type PolicyFormValues = z.infer<typeof policyFormSchema>;
+
+const SchoolPolicies = () => {
+  const { toast } = useToast();
+  const { data: policy } = useSchoolPolicy();
+  const updatePolicy = useUpdateSchoolPolicy();
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues: {
+      schoolName: '',
+      dataRetention: '1year',
+      allowTeacherApiAccess: true,
+      requireTeacherTwoFactor: false,
+      trustSsoTwoFactor: false,
+      integrations: { 'google-classroom': false, 'microsoft-teams': false, canvas: false },
+      webhookUrl: ''
+    }
+  });
+
+  useEffect(() => {
+    if (!policy) return;
+    const { updatedAt: _updatedAt, ...values } = policy;
+    form.reset(values);
+  }, [policy, form]);
+
+  const onSubmit = async (data: PolicyFormValues) => {
+    try {
+      await updatePolicy.mutateAsync(data);
+      toast({
+        title: "School policy saved",
+        description: `Data retention is now ${RETENTION_LABELS[data.dataRetention].toLowerCase()} for every teacher.`,
+      });
+    } catch {
+      toast({ title: "Could not save policy", description: "Please try again shortly.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Policies & Integrations</h1>
+        <p className="text-muted-foreground">
+          School-wide rules that apply to every teacher; teachers see them read-only in their settings
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            School Policy
+          </CardTitle>
+          <CardDescription>
+            {policy?.updatedAt
+              ? `Last changed ${formatDistanceToNow(new Date(policy.updatedAt), { addSuffix: true })}`
+              : 'Using the default policy'}
+          </CardDescription>
+        </CardHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardContent className="space-y-6">
+              <FormField
+                control={form.control}
+                name="schoolName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>School Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Separator />
+
+              <FormField
+                control={form.control}
+                name="dataRetention"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data Retention Period</FormLabel>
+                    <div className="grid grid-cols-4 gap-3">
+                      {(Object.keys(RETENTION_LABELS) as DataRetention[]).map((value) => (
+                        <Button
+                          key={value}
+                          type="button"
+                          variant={field.value === value ? 'default' : 'outline'}
+                          onClick={() => field.onChange(value)}
+                          className="w-full"
+                        >
+                          {RETENTION_LABELS[value]}
+                        </Button>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      How long EduBridge stores student work and AI feedback for the whole school
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Separator />
+
+              <div className="space-y-4">
+                <h3 className="text-sm font-medium">Security</h3>
+                <FormField
+                  control={form.control}
+                  name="requireTeacherTwoFactor"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Require Two-Factor Authentication for Teachers</FormLabel>
+                        <FormDescription>
+                          Teachers can see student records; those without 2FA set it up at their next sign-in
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="trustSsoTwoFactor"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Trust School Sign-In for Two-Factor</FormLabel>
+                        <FormDescription>
+                          Skip the EduBridge code after a school account sign-in. Only turn on if your school's sign-in enforces MFA
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <h3 className="text-sm font-medium">Integrations</h3>
+                <FormField
+                  control={form.control}
+                  name="allowTeacherApiAccess"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Allow Teacher API Keys</FormLabel>
+                        <FormDescription>
+                          Let teachers turn on personal API access in their settings
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {(Object.keys(INTEGRATION_LABELS) as IntegrationId[]).map((id) => (
+                  <FormField
+                    key={id}
+                    control={form.control}
+                    name={`integrations.${id}`}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                        <div className="space-y-0.5">
+                          <FormLabel>{INTEGRATION_LABELS[id]}</FormLabel>
+                          <FormDescription>Connect every class to {INTEGRATION_LABELS[id]}</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+
+                <FormField
+                  control={form.control}
+                  name="webhookUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>School Webhook URL (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://your-school.edu/edubridge-webhook" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Receives school-wide notifications such as new reports
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </CardContent>
+
+            <CardFooter>
+              <Button type="submit" disabled={updatePolicy.isPending}>
+                {updatePolicy.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Policy
+              </Button>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default SchoolPolicies;
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { AlertTriangle, Award, Calendar, Clock, TrendingUp, UserPlus, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useSelectedChild } from '@/contexts/ChildContext';
+import { useEventsForClasses, useStudentRecords } from '@/hooks/use-portal-data';
+import { average, latestFeedbackFor } from '@/domain/scoring';
+import { deriveAlerts } from '@/domain/alerts';
+
+const getAlertIcon = (type: string) => {
+  switch (type) {
+    case 'achievement': return <Award className="h-4 w-4 text-success" />;
+    case 'improvement': return <TrendingUp className="h-4 w-4 text-primary" />;
+    case 'attention': return <AlertTriangle className="h-4 w-4 text-warning" />;
+    default: return <Clock className="h-4 w-4 text-muted-foreground" />;
+  }
+};
+
+const FamilyOverview = () => {
+  const navigate = useNavigate();
+  const { students, selectChild } = useSelectedChild();
+  const records = useStudentRecords(students.map(s => s.id));
+  const events = useEventsForClasses(students.map(s => s.classId));
+
+  const summaries = students.map((student, i) => {
+    const { exams } = records[i];
+    // Families only see feedback the teacher has released
+    const feedback = records[i].feedback.filter(f => f.status === 'final');
+    return {
+      student,
+      latestScore: latestFeedbackFor(student.id, feedback)?.aiScore ?? 0,
+      overallProgress: Math.round(average([...feedback.map(f => f.aiScore), ...exams.map(e => e.score)])),
+      alerts: deriveAlerts(student.id, feedback, exams)
+    };
+  });
+
+  const alerts = summaries
+    .flatMap(s => s.alerts.map(alert => ({ ...alert, childName: s.student.name })))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const childNamesForClass = (classId: string) =>
+    students.filter(s => s.classId === classId).map(s => s.name.split(' ')[0]);
+
+  const openChild = (studentId: string) => {
+    selectChild(studentId);
+    navigate('/dashboard');
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Family Overview</h1>
+          <p className="text-muted-foreground">
+            Alerts and upcoming events for all of your children in one place
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/join">
+            <UserPlus className="mr-2 h-4 w-4" />
+            Link Another Child
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+        {summaries.map(({ student, latestScore, overallProgress, alerts: childAlerts }) => (
+          <Card key={student.id}>
+            <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+              <Avatar className="h-10 w-10">
+                <AvatarImage src={student.avatar} />
+                <AvatarFallback>{student.name.split(' ').map(n => n[0]).join('')}</AvatarFallback>
+              </Avatar>
+              <div>
+                <CardTitle className="text-lg">{student.name}</CardTitle>
+                <CardDescription>{student.grade}</CardDescription>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Latest score</span>
+                <span className="font-bold">{latestScore}%</span>
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Overall progress</span>
+                  <span>{overallProgress}%</span>
+                </div>
+                <Progress value={overallProgress} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Badge variant="outline">
+                  {childAlerts.filter(a => a.type === 'attention').length} need attention
+                </Badge>
+                <Button variant="ghost" size="sm" onClick={() => openChild(student.id)}>
+                  Open dashboard
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              All Alerts
+            </CardTitle>
+            <CardDescription>Updates across every child, newest first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {alerts.length === 0 && <p className="text-sm text-muted-foreground">No updates right now.</p>}
+            {alerts.map((alert) => (
+              <div key={alert.id} className="flex items-start gap-3 p-3 rounded-lg bg-muted/20">
+                {getAlertIcon(alert.type)}
+                <div className="flex-1">
+                  <p className="text-sm">{alert.message}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(alert.date), { addSuffix: true })}
+                  </p>
+                </div>
+                <Badge variant="secondary">{alert.childName.split(' ')[0]}</Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Upcoming Events
+            </CardTitle>
+            <CardDescription>Dates from every child's class calendar</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {events.length === 0 && <p className="text-sm text-muted-foreground">No upcoming events.</p>}
+            {events.map((event) => (
+              <div key={event.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/20">
+                <div className="w-2 h-8 bg-primary rounded-full"></div>
+                <div className="flex-1">
+                  <p className="font-medium text-sm">{event.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {event.date} · {childNamesForClass(event.classId).join(', ')}
+                  </p>
+                </div>
+                <Badge variant="outline" className="capitalize">
+                  {event.type}
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default FamilyOverview;
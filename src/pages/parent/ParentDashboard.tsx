@@ -1,4 +1,5 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -13,52 +14,36 @@ import {
   MessageSquare,
   Calendar
 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
-
-// Mock data for parent dashboard
-const childData = {
-  name: "Aadhya Sharma",
-  grade: "5th Grade",
-  currentScore: 92,
-  overallProgress: 85,
-  recentExams: [
-    { subject: "English", score: 92, date: "2024-01-15", trend: "up" },
-    { subject: "Math", score: 88, date: "2024-01-10", trend: "up" },
-    { subject: "Science", score: 85, date: "2024-01-08", trend: "stable" },
-    { subject: "Social Studies", score: 90, date: "2024-01-05", trend: "up" }
-  ],
-  strengths: ["Creative Writing", "Problem Solving", "Active Participation"],
-  improvements: ["Handwriting", "Time Management"],
-  upcomingEvents: [
-    { title: "Parent-Teacher Meeting", date: "2024-01-25", type: "meeting" },
-    { title: "Science Project Due", date: "2024-01-28", type: "assignment" },
-    { title: "Math Quiz", date: "2024-01-30", type: "assessment" }
-  ]
-};
-
-const alerts = [
-  {
-    id: 1,
-    type: "improvement",
-    message: "Handwriting has improved by 15% this week!",
-    time: "2 hours ago"
-  },
-  {
-    id: 2,
-    type: "attention",
-    message: "Consider practicing math problems for 10 minutes daily",
-    time: "1 day ago"
-  },
-  {
-    id: 3,
-    type: "achievement",
-    message: "Excellent performance in creative writing assignment!",
-    time: "3 days ago"
-  }
-];
+import { useSelectedChild } from '@/contexts/ChildContext';
+import { useEvents, useExams, useFeedback, useStudent } from '@/hooks/use-portal-data';
+import { average, latestFeedbackFor, sortExams } from '@/domain/scoring';
+import { deriveAlerts } from '@/domain/alerts';
 
 const ParentDashboard = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { selectedChildId: childId } = useSelectedChild();
+  const { data: child } = useStudent(childId);
+  const { data: allFeedback = [] } = useFeedback({ studentId: childId });
+  const { data: exams = [] } = useExams({ studentId: childId });
+  const { data: events = [] } = useEvents({ classId: child?.classId });
+  // Families only see feedback the teacher has released
+  const feedback = allFeedback.filter(f => f.status === 'final');
+  const alerts = childId ? deriveAlerts(childId, feedback, exams).slice(0, 3) : [];
+
+  // Scores are derived from the same feedback the teacher edits in AI Feedback
+  const latest = childId ? latestFeedbackFor(childId, feedback) : undefined;
+  const childData = {
+    name: child?.name ?? 'your child',
+    currentScore: latest?.aiScore ?? 0,
+    overallProgress: Math.round(average([...feedback.map(f => f.aiScore), ...exams.map(e => e.score)])),
+    recentExams: sortExams(exams),
+    strengths: latest?.strengths ?? [],
+    improvements: latest?.improvements ?? [],
+    upcomingEvents: events
+  };
 
   const getTrendIcon = (trend: string) => {
     switch (trend) {
@@ -136,8 +121,8 @@ const ParentDashboard = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {childData.recentExams.map((exam, index) => (
-              <div key={index} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+            {childData.recentExams.map((exam) => (
+              <div key={exam.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
                 <div className="flex items-center gap-3">
                   <div className="w-2 h-8 bg-primary rounded-full"></div>
                   <div>
@@ -190,7 +175,10 @@ const ParentDashboard = () => {
               </div>
             </div>
 
-            <Button className="w-full bg-gradient-to-r from-primary to-success text-white">
+            <Button
+              className="w-full bg-gradient-to-r from-primary to-success text-white"
+              onClick={() => navigate('/progress')}
+            >
               View Detailed Report
             </Button>
           </CardContent>
@@ -208,12 +196,17 @@ const ParentDashboard = () => {
             <CardDescription>Important updates and notifications</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
+            {alerts.length === 0 && (
+              <p className="text-sm text-muted-foreground">No new updates for {childData.name}.</p>
+            )}
             {alerts.map((alert) => (
               <div key={alert.id} className="flex items-start gap-3 p-3 rounded-lg bg-muted/20">
                 {getAlertIcon(alert.type)}
                 <div className="flex-1">
                   <p className="text-sm">{alert.message}</p>
-                  <p className="text-xs text-muted-foreground mt-1">{alert.time}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(alert.date), { addSuffix: true })}
+                  </p>
                 </div>
               </div>
             ))}
@@ -229,8 +222,8 @@ const ParentDashboard = () => {
             <CardDescription>Important dates and deadlines</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            {childData.upcomingEvents.map((event, index) => (
-              <div key={index} className="flex items-center gap-3 p-3 rounded-lg bg-muted/20">
+            {childData.upcomingEvents.map((event) => (
+              <div key={event.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/20">
                 <div className="w-2 h-8 bg-primary rounded-full"></div>
                 <div className="flex-1">
                   <p className="font-medium text-sm">{event.title}</p>
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare, Send } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSelectedChild } from '@/contexts/ChildContext';
+import { useClass, useMarkMessageRead, useMessages, useSendMessage } from '@/hooks/use-portal-data';
+import Can from '@/components/Can';
+
+const ParentMessages = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { selectedChild, selectedChildId: childId } = useSelectedChild();
+  const { data: schoolClass } = useClass(selectedChild?.classId);
+  const { data: messages = [] } = useMessages(user?.id);
+  const sendMessage = useSendMessage();
+  const markRead = useMarkMessageRead();
+  const [draft, setDraft] = useState('');
+
+  // One conversation per child, with that child's class teacher
+  const thread = messages
+    .filter(m => m.studentId === childId)
+    .sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+  const teacherId = schoolClass?.teacherId;
+  const name = selectedChild?.name ?? 'your child';
+
+  // Opening the thread counts as reading it
+  const unreadIds = thread.filter(m => m.toUserId === user?.id && m.readAt === null).map(m => m.id);
+  const unreadKey = unreadIds.join(',');
+  useEffect(() => {
+    if (!unreadKey) return;
+    unreadKey.split(',').forEach(id => markRead.mutate(id));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [unreadKey]);
+
+  const handleSend = async () => {
+    if (!user || !teacherId || !draft.trim()) return;
+    try {
+      await sendMessage.mutateAsync({ fromUserId: user.id, toUserId: teacherId, studentId: childId, body: draft.trim() });
+      setDraft('');
+    } catch {
+      toast({
+        title: "Message not sent",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Messages</h1>
+        <p className="text-muted-foreground">
+          Talk with {name}'s teacher{schoolClass ? ` in ${schoolClass.name}` : ''}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Conversation about {name}
+          </CardTitle>
+          <CardDescription>Messages are visible to you and the class teacher</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            {thread.length === 0 && (
+              <p className="text-sm text-muted-foreground">No messages yet. Start the conversation below.</p>
+            )}
+            {thread.map((message) => {
+              const mine = message.fromUserId === user?.id;
+              return (
+                <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[75%] rounded-lg p-3 ${mine ? 'bg-primary/10' : 'bg-muted/40'}`}>
+                    <p className="text-sm">{message.body}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {mine ? 'You' : 'Class teacher'} · {formatDistanceToNow(new Date(message.sentAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <Can permission="messages:send">
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={`Write to ${name}'s teacher...`}
+                rows={3}
+              />
+              <div className="flex justify-end">
+                <Button onClick={handleSend} disabled={!draft.trim() || !teacherId || sendMessage.isPending}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Send
+                </Button>
+              </div>
+            </div>
+          </Can>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ParentMessages;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { BookOpen, FileText, TrendingUp } from 'lucide-react';
+import SharedAnnotations from '@/components/SharedAnnotations';
+import { useSelectedChild } from '@/contexts/ChildContext';
+import { useAnnotations, useExams, useFeedback } from '@/hooks/use-portal-data';
+import { average, letterGrade, sortExams } from '@/domain/scoring';
+
+const criteriaLabels = [
+  { key: 'grammar', label: 'Grammar' },
+  { key: 'creativity', label: 'Creativity' },
+  { key: 'handwriting', label: 'Handwriting' }
+] as const;
+
+const ParentProgress = () => {
+  const { selectedChild, selectedChildId: childId } = useSelectedChild();
+  const { data: exams = [] } = useExams({ studentId: childId });
+  const { data: allFeedback = [] } = useFeedback({ studentId: childId });
+  const { data: annotations = [] } = useAnnotations({ studentId: childId }, !!childId);
+
+  // Families only see feedback the teacher has released
+  const feedback = allFeedback
+    .filter(f => f.status === 'final')
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+  const name = selectedChild?.name ?? 'your child';
+
+  // Exams grouped per subject, newest first within each subject
+  const subjects = [...new Set(exams.map(e => e.subject))].map(subject => {
+    const subjectExams = sortExams(exams.filter(e => e.subject === subject));
+    return { subject, latest: subjectExams[0], average: Math.round(average(subjectExams.map(e => e.score))) };
+  });
+
+  const criteriaAverages = criteriaLabels.map(({ key, label }) => ({
+    label,
+    value: Math.round(average(feedback.map(f => f.criteria[key])))
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Detailed Progress</h1>
+        <p className="text-muted-foreground">
+          Subject results and writing feedback for {name}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              Subjects
+            </CardTitle>
+            <CardDescription>Latest exam score and average per subject</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {subjects.length === 0 && <p className="text-sm text-muted-foreground">No exam results yet.</p>}
+            {subjects.map(({ subject, latest, average: subjectAverage }) => (
+              <div key={subject} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{subject}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">avg {subjectAverage}%</span>
+                    <Badge variant="outline">{latest.score}% · {letterGrade(latest.score)}</Badge>
+                  </div>
+                </div>
+                <Progress value={latest.score} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Writing Skills
+            </CardTitle>
+            <CardDescription>Average across all released AI feedback</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {feedback.length === 0 && <p className="text-sm text-muted-foreground">No feedback released yet.</p>}
+            {feedback.length > 0 && criteriaAverages.map(({ label, value }) => (
+              <div key={label} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{label}</span>
+                  <span>{value}%</span>
+                </div>
+                <Progress value={value} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Feedback History
+          </CardTitle>
+          <CardDescription>Every graded submission, newest first</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {feedback.length === 0 && <p className="text-sm text-muted-foreground">Nothing here yet.</p>}
+          {feedback.map((item) => (
+            <div key={item.id} className="p-4 rounded-lg bg-muted/30 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{item.submissionTitle}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {item.subject} · {new Date(item.generatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="text-xl font-bold">{item.aiScore}%</span>
+              </div>
+              <p className="text-sm">{item.summary}</p>
+              <SharedAnnotations annotations={annotations.filter(a => a.paperId === item.paperId)} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ParentProgress;
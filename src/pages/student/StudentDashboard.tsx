@@ -12,28 +12,23 @@ import {
   TrendingUp,
   Award,
   Lightbulb,
-  CheckCircle
+  CheckCircle,
+  PenLine
 } from 'lucide-react';
+import SharedAnnotations from '@/components/SharedAnnotations';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAnnotations, useAssignments, useExams, useFeedback, usePapers, useStudent } from '@/hooks/use-portal-data';
+import { latestFeedbackFor } from '@/domain/scoring';
 
-// Mock data for student dashboard
-const studentData = {
-  name: "Aadhya Sharma",
-  grade: "5th Grade",
-  overallScore: 92,
+// Goals, achievements and tips are not part of the domain model yet
+const engagement = {
   weeklyGoal: 85,
   weeklyProgress: 78,
-  recentScores: [88, 92, 85, 90, 94],
   achievements: [
     { title: "Creative Writer", icon: "✍️", date: "This week" },
     { title: "Math Explorer", icon: "🔢", date: "Last week" },
     { title: "Perfect Attendance", icon: "⭐", date: "This month" }
   ],
-  upcomingAssignments: [
-    { subject: "English", title: "Creative Story", dueDate: "Jan 25", priority: "high" },
-    { subject: "Math", title: "Geometry Practice", dueDate: "Jan 28", priority: "medium" },
-    { subject: "Science", title: "Solar System Project", dueDate: "Feb 2", priority: "low" }
-  ],
   aiSuggestions: [
     "Great job on your creative writing! Try writing for 10 minutes daily to improve further.",
     "Your math scores are improving. Practice multiplication tables for better speed.",
@@ -41,8 +36,50 @@ const studentData = {
   ]
 };
 
+const formatDueDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
 const StudentDashboard = () => {
   const { user } = useAuth();
+  const studentId = user?.studentId;
+  const { data: student } = useStudent(studentId);
+  const { data: allFeedback = [] } = useFeedback({ studentId });
+  const { data: exams = [] } = useExams({ studentId });
+  const { data: papers = [] } = usePapers({ studentId });
+  const { data: assignments = [] } = useAssignments({ classId: student?.classId });
+  const { data: annotations = [] } = useAnnotations({ studentId }, !!studentId);
+
+  // Students only see feedback the teacher has released
+  const feedback = allFeedback.filter(f => f.status === 'final');
+
+  // Notes the teacher shared on papers whose feedback has been released, newest first
+  const notedFeedback = feedback
+    .filter(f => annotations.some(a => a.paperId === f.paperId && a.sharedWithFamily))
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+
+  // Open assignments this student has not handed in yet
+  const submitted = new Set(papers.map(p => p.assignmentId));
+  const upcomingAssignments = assignments
+    .filter(a => a.status === 'open' && !submitted.has(a.id))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  // Last five graded results, oldest first, from exams and AI feedback
+  const recentScores = [
+    ...exams.map(e => ({ date: e.date, score: e.score })),
+    ...feedback.map(f => ({ date: f.generatedAt, score: f.aiScore }))
+  ]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-5)
+    .map(r => r.score);
+
+  const studentData = {
+    ...engagement,
+    name: student?.name ?? user?.name,
+    grade: student?.grade ?? user?.grade,
+    overallScore: (studentId ? latestFeedbackFor(studentId, feedback)?.aiScore : undefined) ?? 0,
+    recentScores,
+    upcomingAssignments
+  };
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -166,6 +203,27 @@ const StudentDashboard = () => {
         </Card>
       </div>
 
+      {/* Teacher's Notes */}
+      {notedFeedback.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PenLine className="h-5 w-5" />
+              Notes From Your Teacher
+            </CardTitle>
+            <CardDescription>What your teacher marked on your work</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {notedFeedback.map((item) => (
+              <div key={item.id} className="p-4 rounded-lg bg-muted/30 space-y-2">
+                <p className="font-medium">{item.submissionTitle}</p>
+                <SharedAnnotations annotations={annotations.filter(a => a.paperId === item.paperId)} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Upcoming Assignments */}
       <Card>
         <CardHeader>
@@ -177,8 +235,8 @@ const StudentDashboard = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {studentData.upcomingAssignments.map((assignment, index) => (
-              <div key={index} className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/30 transition-colors">
+            {studentData.upcomingAssignments.map((assignment) => (
+              <div key={assignment.id} className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/30 transition-colors">
                 <div className="flex items-center gap-4">
                   <div className="w-2 h-10 bg-primary rounded-full"></div>
                   <div>
@@ -187,7 +245,7 @@ const StudentDashboard = () => {
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
-                  <span className="text-sm font-medium">Due: {assignment.dueDate}</span>
+                  <span className="text-sm font-medium">Due: {formatDueDate(assignment.dueDate)}</span>
                   <Badge className={getPriorityColor(assignment.priority)}>
                     {assignment.priority}
                   </Badge>
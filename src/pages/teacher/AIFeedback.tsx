@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -8,6 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import {
   RefreshCw,
   Sparkles,
@@ -19,15 +20,25 @@ import {
   Loader2,
   History,
   Tag,
-  User
+  User,
+  Eye,
+  ListChecks,
+  Download
 } from 'lucide-react';
+import { classPath, useActiveClass } from '@/hooks/use-active-class';
+import Can from '@/components/Can';
+import ScoreBreakdown from '@/components/ScoreBreakdown';
+import { useDownloadFeedbackReports } from '@/hooks/use-feedback-reports';
+import { useFeedback, useFinalizeFeedback, useRecordAudit, useRegenerateFeedback, useRubrics, useStudents } from '@/hooks/use-portal-data';
+import type { Feedback } from '@/domain/types';
+import type { Timeframe } from '@/domain/repositories';
 
 // ------------------------------------------------------------
 // AI Feedback Page (Teacher Portal)
 // ------------------------------------------------------------
 // This page is the teacher's hub for viewing AI-generated feedback
 // on student submissions and class performance. It demonstrates:
-// 1. Example usage of React Query with mocked asynchronous data.
+// 1. React Query via the shared repository hooks (use-portal-data).
 // 2. UI patterns: summary metrics, filters, searchable list, detail panel.
 // 3. Extensible architecture for later integration with a real backend / LLM.
 // ------------------------------------------------------------
@@ -35,76 +46,9 @@ import {
 // ---------------------------
 // Types
 // ---------------------------
-interface FeedbackItem {
-  id: string;                    // Unique ID for the feedback entry
-  studentName: string;           // Student the feedback belongs to
-  subject: string;               // Subject / category
-  submissionTitle: string;       // Title of the work (essay, report, etc.)
-  aiScore: number;               // Overall AI quality or proficiency score (0-100)
-  strengths: string[];           // Bullet points of strengths
-  improvements: string[];        // Bullet points of suggested improvements
-  generatedAt: string;           // ISO date string when feedback was generated
-  status: 'draft' | 'final';     // Whether teacher has finalized / approved
-  tags: string[];                // Helpful classification tags
-}
-
-// ---------------------------
-// Mock Async Data Fetch
-// ---------------------------
-// In a real implementation this would call your backend API
-// (e.g., /api/feedback?classId=...&timeframe=...) and likely
-// support pagination + server-side filtering.
-async function fetchFeedback(): Promise<FeedbackItem[]> {
-  // Simulate network latency
-  await new Promise(r => setTimeout(r, 600));
-  return [
-    {
-      id: 'fb-1',
-      studentName: 'Aadhya Sharma',
-      subject: 'English',
-      submissionTitle: 'Creative Writing: My Summer',
-      aiScore: 92,
-      strengths: ['Vivid imagery', 'Strong narrative voice', 'Excellent structure'],
-      improvements: ['Minor grammar corrections', 'Expand conclusion'],
-      generatedAt: new Date(Date.now() - 1000 * 60 * 60).toISOString(),
-      status: 'final',
-      tags: ['writing', 'creativity']
-    },
-    {
-      id: 'fb-2',
-      studentName: 'Arjun Patel',
-      subject: 'Math',
-      submissionTitle: 'Problem Set: Fractions & Ratios',
-      aiScore: 78,
-      strengths: ['Correct methodology', 'Good logical progression'],
-      improvements: ['Improve fraction simplification speed', 'Show intermediate steps'],
-      generatedAt: new Date(Date.now() - 1000 * 60 * 60 * 5).toISOString(),
-      status: 'draft',
-      tags: ['math', 'practice']
-    },
-    {
-      id: 'fb-3',
-      studentName: 'Diya Singh',
-      subject: 'Science',
-      submissionTitle: 'Report: Plant Life Cycle',
-      aiScore: 85,
-      strengths: ['Clear explanation', 'Accurate diagrams'],
-      improvements: ['Add sources', 'Clarify germination stage'],
-      generatedAt: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(),
-      status: 'final',
-      tags: ['science', 'report']
-    }
-  ];
-}
-
-// ---------------------------
-// Mock Mutation: Regenerate Feedback
-// ---------------------------
-// Simulates an AI re-generation action. In a real system you would
-// POST to an endpoint that triggers your model pipeline.
-async function regenerateFeedback(id: string): Promise<{ id: string; newScore: number; timestamp: string; }>{
-  await new Promise(r => setTimeout(r, 900));
-  return { id, newScore: Math.floor(75 + Math.random() * 20), timestamp: new Date().toISOString() };
+// Feedback joined with the student's display name for list rendering
+interface FeedbackItem extends Feedback {
+  studentName: string;
 }
 
 const AIFeedback: React.FC = () => {
@@ -112,31 +56,29 @@ const AIFeedback: React.FC = () => {
   const [search, setSearch] = useState('');
   const [subjectFilter, setSubjectFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<'all' | 'draft' | 'final'>('all');
+  const [timeframe, setTimeframe] = useState<Timeframe>('30d'); // Server-side filter
   const [selectedId, setSelectedId] = useState<string | null>(null); // Currently focused feedback item
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { classId } = useActiveClass();
+  const classFilter = { classId };
 
   // Fetch data using React Query (cached + status flags)
-  const { data, isLoading, isRefetching, refetch } = useQuery({
-    queryKey: ['ai-feedback'],
-    queryFn: fetchFeedback
-  });
+  const { data: feedback, isLoading, isRefetching, refetch } = useFeedback({ ...classFilter, timeframe });
+  const { data: students = [] } = useStudents(classFilter);
+  const { data: rubrics = [] } = useRubrics();
 
-  // Mutation for re-generating / improving a feedback entry
-  const regenMutation = useMutation({
-    mutationFn: regenerateFeedback,
-    onSuccess: (result) => {
-      // Optimistically update the existing cached list with new score + updated timestamp
-      queryClient.setQueryData<FeedbackItem[]>(['ai-feedback'], (old) => {
-        if (!old) return old;
-        return old.map(item => item.id === result.id ? { ...item, aiScore: result.newScore, generatedAt: result.timestamp, status: 'draft' } : item);
-      });
-      toast({ title: 'Feedback regenerated', description: 'AI provided an updated analysis.' });
-    },
-    onError: () => {
-      toast({ title: 'Regeneration failed', description: 'Please try again shortly.', variant: 'destructive' });
-    }
-  });
+  const data = useMemo<FeedbackItem[] | undefined>(() => feedback?.map(item => ({
+    ...item,
+    studentName: students.find(s => s.id === item.studentId)?.name ?? 'Unknown student'
+  })), [feedback, students]);
+
+  // Mutation for re-generating / improving a feedback entry. The shared
+  // hooks invalidate feedback + papers so every dashboard picks up the new score.
+  const regenMutation = useRegenerateFeedback();
+  const finalizeMutation = useFinalizeFeedback();
+  const shareMutation = useRecordAudit();
+  const reportMutation = useDownloadFeedbackReports();
 
   // Compute derived filtered list (memoized for basic perf)
   const filtered = useMemo(() => {
@@ -151,6 +93,8 @@ const AIFeedback: React.FC = () => {
 
   // Selected item for detail view (right panel)
   const selected = filtered.find(f => f.id === selectedId) || filtered[0] || null;
+  // Rubrics another teacher has not shared are not listed; their scores still show
+  const selectedRubric = selected?.rubricScores?.length ? rubrics.find(r => r.id === selected.rubricId) : undefined;
 
   // Simple aggregations for summary cards
   const summary = useMemo(() => {
@@ -164,7 +108,42 @@ const AIFeedback: React.FC = () => {
 
   // Handler: trigger regeneration for selected item
   const handleRegenerate = (id: string) => {
-    regenMutation.mutate(id);
+    regenMutation.mutate(id, {
+      onSuccess: () => toast({ title: 'Feedback regenerated', description: 'AI provided an updated analysis.' }),
+      onError: (error) => toast({
+        title: 'Regeneration failed',
+        description: error instanceof Error ? error.message : 'Please try again shortly.',
+        variant: 'destructive'
+      })
+    });
+  };
+
+  // Handler: print the selected feedback as a PDF
+  const handleExport = (item: Feedback) => {
+    reportMutation.mutate({ feedback: [item] }, {
+      onSuccess: () => toast({ title: 'Report downloaded', description: 'The PDF is in your downloads.' }),
+      onError: () => toast({ title: 'Could not create the report', description: 'Please try again shortly.', variant: 'destructive' })
+    });
+  };
+
+  // Handler: approve feedback so it can be shared with student & parent
+  const handleFinalize = (id: string) => {
+    finalizeMutation.mutate(id, {
+      onSuccess: () => toast({ title: 'Marked final', description: 'Feedback is ready for student.' }),
+      onError: () => toast({ title: 'Could not finalize', description: 'Please try again shortly.', variant: 'destructive' })
+    });
+  };
+
+  // Handler: sharing happens in the browser, so it is reported to the audit log from here
+  const handleShare = (item: FeedbackItem) => {
+    shareMutation.mutate({
+      action: 'feedback.shared',
+      target: { type: 'feedback', id: item.id, label: item.studentName },
+      details: { sharedWith: 'student, parent', status: item.status }
+    }, {
+      onSuccess: () => toast({ title: 'Shared', description: 'Feedback shared with student & parent.' }),
+      onError: () => toast({ title: 'Could not share', description: 'Please try again shortly.', variant: 'destructive' })
+    });
   };
 
   return (
@@ -265,10 +244,10 @@ const AIFeedback: React.FC = () => {
                     </SelectContent>
                   </Select>
                 </div>
-                {/* Placeholder for timeframe (future API parameter) */}
+                {/* Timeframe (passed through to the repository / API) */}
                 <div className="space-y-1">
                   <p className="text-xs font-medium text-muted-foreground">Timeframe</p>
-                  <Select defaultValue="30d">
+                  <Select value={timeframe} onValueChange={v => setTimeframe(v as Timeframe)}>
                     <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
                     <SelectContent>
                       <SelectItem value="7d">Last 7d</SelectItem>
@@ -345,6 +324,15 @@ const AIFeedback: React.FC = () => {
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
+                {/* Per-criterion scores, from the assignment's rubric when it has one */}
+                <div>
+                  <h3 className="text-sm font-semibold mb-2 flex items-center gap-2 text-primary">
+                    <ListChecks className="h-4 w-4" />
+                    {selectedRubric ? `Rubric: ${selectedRubric.title}` : selected.rubricScores?.length ? 'Rubric Scores' : 'Criteria'}
+                  </h3>
+                  <ScoreBreakdown feedback={selected} />
+                </div>
+                <Separator />
                 {/* Strengths */}
                 <div>
                   <h3 className="text-sm font-semibold mb-2 flex items-center gap-2 text-success">
@@ -367,19 +355,51 @@ const AIFeedback: React.FC = () => {
                 <Separator />
                 {/* Actions */}
                 <div className="flex flex-wrap gap-2">
-                  <Button size="sm" variant="outline" disabled={regenMutation.isPending} onClick={() => handleRegenerate(selected.id)}>
-                    {regenMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
-                    Regenerate
-                  </Button>
-                  <Button size="sm" onClick={() => toast({ title: 'Marked final', description: 'Feedback is ready for student.' })} disabled={selected.status === 'final'}>
-                    Mark Final
-                  </Button>
-                  <Button size="sm" variant="secondary" onClick={() => toast({ title: 'Export queued', description: 'Report export will download shortly.' })}>
+                  <Can permission="feedback:regenerate">
+                    {(allowed) => (
+                      <Button size="sm" variant="outline" disabled={!allowed || regenMutation.isPending} onClick={() => handleRegenerate(selected.id)}>
+                        {regenMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                        Regenerate
+                      </Button>
+                    )}
+                  </Can>
+                  <Can permission="feedback:finalize">
+                    {(allowed) => (
+                      <Button size="sm" onClick={() => handleFinalize(selected.id)} disabled={!allowed || selected.status === 'final' || finalizeMutation.isPending}>
+                        Mark Final
+                      </Button>
+                    )}
+                  </Can>
+                  <Button size="sm" variant="secondary" disabled={reportMutation.isPending} onClick={() => handleExport(selected)}>
+                    {reportMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
                     Export Report
                   </Button>
-                  <Button size="sm" variant="ghost" onClick={() => toast({ title: 'Shared', description: 'Feedback shared with student & parent.' })}>
-                    Share
-                  </Button>
+                  {/* Check what the student and parent will see before sharing */}
+                  <Can permission="students:preview">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost">
+                          <Eye className="h-4 w-4 mr-2" />
+                          Preview
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuItem onClick={() => navigate(`${classPath(classId!, `preview/${selected.studentId}`)}?as=parent`)}>
+                          View as parent
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => navigate(`${classPath(classId!, `preview/${selected.studentId}`)}?as=student`)}>
+                          View as student
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </Can>
+                  <Can permission="feedback:share">
+                    {(allowed) => (
+                      <Button size="sm" variant="ghost" disabled={!allowed || shareMutation.isPending} onClick={() => handleShare(selected)}>
+                        Share
+                      </Button>
+                    )}
+                  </Can>
                 </div>
                 <p className="text-[11px] text-muted-foreground">Generated {new Date(selected.generatedAt).toLocaleString()}</p>
               </CardContent>
@@ -409,7 +429,7 @@ const AIFeedback: React.FC = () => {
         </CardHeader>
         <CardContent>
           <ul className="text-xs list-disc list-inside space-y-1 text-muted-foreground">
-            <li>Integrate backend: Replace mock fetch with real endpoint + pagination.</li>
+            <li>Integrate backend: Swap the in-memory repositories for a network implementation + pagination.</li>
             <li>LLM pipeline: Provide submission text → store raw AI JSON → map to UI.</li>
             <li>Teacher edits: Allow inline editing & version history for transparency.</li>
             <li>Comparison mode: Select two students to diff strengths & gaps.</li>
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users } from 'lucide-react';
+import type { Student } from '@/domain/types';
+import { useActiveClass } from '@/hooks/use-active-class';
+import { useStudents } from '@/hooks/use-portal-data';
+import Can from '@/components/Can';
+import StudentParentsDialog from '@/components/StudentParentsDialog';
+
+const initials = (name: string) => name.split(' ').map(n => n[0]).join('');
+
+const ClassStudents = () => {
+  const { classId, classes } = useActiveClass();
+  const activeClass = classes.find(c => c.id === classId);
+  const { data: students = [] } = useStudents({ classId });
+  const [parentsFor, setParentsFor] = useState<Student | null>(null);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Students</h1>
+        <p className="text-muted-foreground">
+          Everyone enrolled in {activeClass?.name ?? 'this class'}, and the parents who can follow their progress
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Class Roster
+          </CardTitle>
+          <CardDescription>Enrolments are managed by your school administrator</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead className="text-right">Parents</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {students.map((student) => (
+                <TableRow key={student.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={student.avatar} />
+                        <AvatarFallback className="text-xs">{initials(student.name)}</AvatarFallback>
+                      </Avatar>
+                      <span className="font-medium">{student.name}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{student.grade}</TableCell>
+                  <TableCell className="text-right">
+                    <Can permission="parents:invite">
+                      <Button variant="outline" size="sm" onClick={() => setParentsFor(student)}>
+                        Parent Access
+                      </Button>
+                    </Can>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <StudentParentsDialog student={parentsFor} onOpenChange={(open) => { if (!open) setParentsFor(null); }} />
+    </div>
+  );
+};
+
+export default ClassStudents;
@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  Loader2,
+  MoveHorizontal,
+  RotateCw,
+  SquareDashedMousePointer,
+  StickyNote,
+  ZoomIn,
+  ZoomOut
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import AnnotationLayer from '@/components/AnnotationLayer';
+import Can from '@/components/Can';
+import PaperAnnotationsPanel from '@/components/PaperAnnotationsPanel';
+import ScoreBreakdown from '@/components/ScoreBreakdown';
+import TranscriptPanel, { FlaggedWordsLayer } from '@/components/TranscriptPanel';
+import { sortAnnotations } from '@/domain/annotations';
+import type { AnnotationAnchor } from '@/domain/types';
+import { formatBytes } from '@/domain/uploads';
+import { classPath, useActiveClass } from '@/hooks/use-active-class';
+import { useAnnotations, useAssignments, useFeedback, usePaper, usePaperFile, useStudent, useTranscript } from '@/hooks/use-portal-data';
+import { dataUrlToBlob } from '@/lib/paper-files';
+import { downloadFile } from '@/lib/download';
+
+// ------------------------------------------------------------
+// Paper Viewer (Teacher Portal)
+// ------------------------------------------------------------
+// Shows an uploaded scan next to its AI review. Images are drawn
+// directly; PDFs open in the browser's own PDF renderer at the
+// selected page and zoom, since the app ships no PDF engine, so
+// their page strip shows numbers rather than previews. Teachers
+// mark regions of images, or whole pages, with notes, and check
+// the words OCR could not read confidently.
+// ------------------------------------------------------------
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+const PaperViewer = () => {
+  const { paperId } = useParams();
+  const { classId } = useActiveClass();
+  const { data: paper, isLoading } = usePaper(paperId);
+  const { data: content, isLoading: fileLoading } = usePaperFile(paperId, !!paper?.file);
+  const { data: student } = useStudent(paper?.studentId);
+  const { data: assignments = [] } = useAssignments({ classId: paper?.classId });
+  const { data: feedback = [] } = useFeedback({ studentId: paper?.studentId });
+  const { data: annotations = [] } = useAnnotations({ paperId }, !!paperId);
+  const { data: transcript } = useTranscript(paper);
+
+  const [page, setPage] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const [fitWidth, setFitWidth] = useState(true);
+  const [rotation, setRotation] = useState(0);
+  const [naturalWidth, setNaturalWidth] = useState<number>();
+  const [pdfUrl, setPdfUrl] = useState<string>();
+  const [drawing, setDrawing] = useState(false);
+  const [draft, setDraft] = useState<AnnotationAnchor | null>(null);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [showWordBoxes, setShowWordBoxes] = useState(false);
+
+  const file = paper?.file;
+  const isPdf = file?.contentType === 'application/pdf';
+
+  useEffect(() => {
+    if (!content || !isPdf) return;
+    let url: string | undefined;
+    let cancelled = false;
+    dataUrlToBlob(content).then((blob) => {
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      setPdfUrl(url);
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [content, isPdf]);
+
+  if (isLoading) {
+    return <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>;
+  }
+
+  if (!paper || paper.classId !== classId) {
+    return (
+      <div className="text-center py-12">
+        <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="font-semibold mb-2">Paper not found</h3>
+        <p className="text-muted-foreground mb-4">It may belong to another class.</p>
+        <Button variant="outline" asChild>
+          <Link to={classPath(classId ?? '', 'papers')}>Back to papers</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const review = feedback.find(f => f.id === paper.feedbackId);
+  const assignment = assignments.find(a => a.id === paper.assignmentId);
+  // Unknown PDF lengths let the teacher page on; the browser stops at the last page
+  const pageCount = isPdf ? file?.pageCount : 1;
+  const pages = Array.from({ length: pageCount ?? page }, (_, i) => i + 1);
+  const zoomIndex = ZOOM_STEPS.indexOf(zoom);
+
+  const changeZoom = (step: number) => {
+    setFitWidth(false);
+    setZoom(ZOOM_STEPS[Math.min(ZOOM_STEPS.length - 1, Math.max(0, zoomIndex + step))]);
+  };
+
+  const download = async () => {
+    if (content && file) downloadFile(file.name, await dataUrlToBlob(content), file.contentType);
+  };
+
+  const transform = rotation ? { transform: `rotate(${rotation}deg)` } : undefined;
+
+  const notes = sortAnnotations(annotations);
+  const numbers = new Map(notes.map((note, i) => [note.id, i + 1]));
+  const notesOnPage = (n: number) => notes.filter(note => note.anchor.page === n).length;
+
+  const startDraft = (anchor: AnnotationAnchor) => {
+    setDrawing(false);
+    setSelectedId(undefined);
+    setDraft(anchor);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{assignment?.title ?? 'Student paper'}</h1>
+          <p className="text-muted-foreground">
+            by {student?.name ?? 'Unknown student'} • Uploaded {paper.uploadedAt}
+            {file && ` • ${file.name} (${formatBytes(file.size)})`}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to={classPath(paper.classId, 'papers')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All Papers
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_22rem]">
+        <Card className="min-w-0">
+          <CardHeader className="pb-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="icon" aria-label="Previous page" disabled={!file || page <= 1} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="min-w-24 text-center text-sm">
+                Page {page}{pageCount ? ` of ${pageCount}` : ''}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Next page"
+                disabled={!file || (pageCount !== undefined && page >= pageCount)}
+                onClick={() => setPage(page + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+
+              <div className="mx-2 h-6 w-px bg-border" />
+
+              <Button variant="outline" size="icon" aria-label="Zoom out" disabled={!file || (!fitWidth && zoomIndex === 0)} onClick={() => changeZoom(-1)}>
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <span className="w-16 text-center text-sm">{fitWidth ? 'Fit' : `${Math.round(zoom * 100)}%`}</span>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Zoom in"
+                disabled={!file || (!fitWidth && zoomIndex === ZOOM_STEPS.length - 1)}
+                onClick={() => changeZoom(1)}
+              >
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+              <Button variant={fitWidth ? 'secondary' : 'outline'} size="sm" disabled={!file} onClick={() => setFitWidth(true)}>
+                <MoveHorizontal className="h-4 w-4 mr-2" />
+                Fit Width
+              </Button>
+              <Button variant="outline" size="sm" disabled={!file} onClick={() => setRotation((rotation + 90) % 360)}>
+                <RotateCw className="h-4 w-4 mr-2" />
+                Rotate
+              </Button>
+
+              <Can permission="papers:annotate">
+                <div className="mx-2 h-6 w-px bg-border" />
+                {!isPdf && (
+                  <Button
+                    variant={drawing ? 'secondary' : 'outline'}
+                    size="sm"
+                    disabled={!content}
+                    onClick={() => { setDraft(null); setDrawing(!drawing); }}
+                  >
+                    <SquareDashedMousePointer className="h-4 w-4 mr-2" />
+                    {drawing ? 'Drag to Mark' : 'Mark Area'}
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => startDraft({ kind: 'page', page })}>
+                  <StickyNote className="h-4 w-4 mr-2" />
+                  Page Note
+                </Button>
+              </Can>
+
+              <Button variant="outline" size="sm" className="ml-auto" disabled={!content} onClick={download}>
+                <Download className="h-4 w-4 mr-2" />
+                Original
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            <div className="h-[70vh] overflow-auto rounded-lg bg-muted/30 p-4">
+              {!file ? (
+                <div className="flex h-full flex-col items-center justify-center text-center text-muted-foreground">
+                  <FileText className="h-12 w-12 mb-4" />
+                  <p>No scan was uploaded for this paper.</p>
+                </div>
+              ) : fileLoading || (isPdf && !pdfUrl) ? (
+                <div className="flex h-full items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+              ) : isPdf ? (
+                <iframe
+                  // Remounted per page and zoom: the built-in viewer only reads them from the URL on load
+                  key={`${page}-${fitWidth ? 'fit' : zoom}`}
+                  title={file.name}
+                  src={`${pdfUrl}#page=${page}&${fitWidth ? 'view=FitH' : `zoom=${Math.round(zoom * 100)}`}`}
+                  className="h-full w-full rounded border-0 bg-white transition-transform"
+                  style={transform}
+                />
+              ) : (
+                <div className="flex min-h-full items-center justify-center">
+                  {/* Marks sit in the same rotated box as the scan, so they turn with it */}
+                  <div
+                    className="relative shrink-0 transition-transform"
+                    style={{ ...transform, width: fitWidth || !naturalWidth ? '100%' : naturalWidth * zoom }}
+                  >
+                    <img
+                      src={content}
+                      alt={`${student?.name ?? 'Student'}'s paper`}
+                      className="block w-full bg-white shadow-sm"
+                      draggable={false}
+                      onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+                    />
+                    {showWordBoxes && <FlaggedWordsLayer page={transcript?.pages.find(p => p.page === page)} />}
+                    <AnnotationLayer
+                      page={page}
+                      annotations={notes}
+                      numbers={numbers}
+                      selectedId={selectedId}
+                      draft={draft}
+                      drawing={drawing}
+                      onSelect={setSelectedId}
+                      onDraw={startDraft}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {file && (
+              <div className="flex gap-2 overflow-x-auto pb-1" aria-label="Pages">
+                {pages.map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => setPage(n)}
+                    aria-current={n === page ? 'page' : undefined}
+                    className={cn(
+                      'relative flex h-20 w-16 shrink-0 flex-col items-center justify-center gap-1 rounded border bg-background text-xs',
+                      n === page ? 'border-primary ring-2 ring-primary/30' : 'hover:border-primary/50'
+                    )}
+                  >
+                    {notesOnPage(n) > 0 && (
+                      <span
+                        className="absolute -right-1.5 -top-1.5 z-10 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground"
+                        aria-label={`${notesOnPage(n)} annotations`}
+                      >
+                        {notesOnPage(n)}
+                      </span>
+                    )}
+                    {!isPdf && file.thumbnail ? (
+                      <img src={file.thumbnail} alt="" className="h-full w-full rounded object-cover" />
+                    ) : (
+                      <>
+                        <FileText className="h-5 w-5 text-muted-foreground" />
+                        {n}
+                      </>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <PaperAnnotationsPanel
+            paper={paper}
+            annotations={notes}
+            numbers={numbers}
+            selectedId={selectedId}
+            draft={draft}
+            onSelect={(note) => { setSelectedId(note.id); setPage(note.anchor.page); }}
+            onDraftDone={() => setDraft(null)}
+          />
+          <TranscriptPanel paper={paper} page={page} showBoxes={showWordBoxes} onShowBoxesChange={setShowWordBoxes} />
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>AI Review</CardTitle>
+                {review && (
+                  <Badge variant={review.status === 'final' ? 'default' : 'secondary'} className="capitalize">{review.status}</Badge>
+                )}
+              </div>
+              <CardDescription>
+                {review ? review.submissionTitle : 'This paper has not been analysed yet.'}
+              </CardDescription>
+            </CardHeader>
+            {review && (
+              <CardContent className="space-y-5">
+                <div className="text-center p-3 bg-success/5 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Overall Score</p>
+                  <p className="text-3xl font-bold text-success">{review.aiScore}%</p>
+                </div>
+                <ScoreBreakdown feedback={review} />
+                <div className="bg-muted/30 p-3 rounded-lg">
+                  <p className="text-sm font-medium mb-1">Summary</p>
+                  <p className="text-sm text-muted-foreground">{review.summary}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-1 text-success">Strengths</p>
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                    {review.strengths.map((s) => <li key={s}>{s}</li>)}
+                  </ul>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-1 text-warning">To improve</p>
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                    {review.improvements.map((s) => <li key={s}>{s}</li>)}
+                  </ul>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaperViewer;
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Eye, X } from 'lucide-react';
+import type { User } from '@/auth/types';
+import { ChildProvider } from '@/contexts/ChildContext';
+import { PreviewProvider } from '@/contexts/PreviewContext';
+import { classPath, useActiveClass } from '@/hooks/use-active-class';
+import { useParentLinks } from '@/hooks/use-parent-links';
+import { useRecordAudit, useStudent } from '@/hooks/use-portal-data';
+import ParentDashboard from '@/pages/parent/ParentDashboard';
+import StudentDashboard from '@/pages/student/StudentDashboard';
+
+// ------------------------------------------------------------
+// Portal Preview (Teacher Portal)
+// ------------------------------------------------------------
+// Shows a student's dashboard, or their parent's, exactly as they
+// would see it, so a teacher can check feedback before sharing.
+// The preview runs as a stand-in user over read-only repositories
+// and ignores clicks; every preview opened is audited.
+// ------------------------------------------------------------
+
+type Audience = 'parent' | 'student';
+
+const PortalPreview = () => {
+  const { studentId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const audience: Audience = searchParams.get('as') === 'student' ? 'student' : 'parent';
+  const { classId } = useActiveClass();
+  const { data: student, isLoading } = useStudent(studentId);
+  const { data: links } = useParentLinks(studentId);
+  const { mutate: recordAudit } = useRecordAudit();
+  const inClass = !!student && student.classId === classId;
+
+  // The parent's real name when one is linked; the preview shows one child either way
+  const parentName = links?.parents[0]?.name;
+  const previewUser = useMemo<User | null>(() => {
+    if (!student) return null;
+    return audience === 'parent'
+      ? {
+          id: `preview-parent-${student.id}`,
+          name: parentName ?? `${student.name.split(' ')[0]}'s parent`,
+          role: 'parent',
+          memberships: [{ role: 'parent', studentId: student.id }],
+          email: '',
+          children: [student.id]
+        }
+      : {
+          id: `preview-student-${student.id}`,
+          name: student.name,
+          role: 'student',
+          memberships: [{ role: 'student', studentId: student.id }],
+          email: '',
+          avatar: student.avatar,
+          studentId: student.id,
+          grade: student.grade
+        };
+  }, [student, audience, parentName]);
+
+  // Once per student and audience, even if the effect runs twice
+  const recorded = useRef<string | null>(null);
+  useEffect(() => {
+    if (!inClass || recorded.current === `${student.id}:${audience}`) return;
+    recorded.current = `${student.id}:${audience}`;
+    recordAudit({
+      action: 'student.previewed',
+      target: { type: 'student', id: student.id, label: student.name },
+      details: { audience }
+    });
+  }, [inClass, student, audience, recordAudit]);
+
+  if (isLoading) return null;
+
+  if (!inClass || !previewUser) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-4">Student Not Found</h2>
+        <p className="text-muted-foreground mb-6">You can only preview the portals of students in this class.</p>
+        <Button asChild variant="outline"><Link to={classPath(classId!, 'students')}>Back to Students</Link></Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-4 rounded-lg border border-warning/40 bg-warning/10 px-4 py-3">
+        <Eye className="h-5 w-5 text-warning" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">
+            Previewing as {audience === 'parent' ? previewUser.name : student.name}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Read-only: this is what they see when they sign in. Nothing here can be changed.
+          </p>
+        </div>
+        <Tabs value={audience} onValueChange={(value) => setSearchParams({ as: value }, { replace: true })}>
+          <TabsList>
+            <TabsTrigger value="parent">Parent view</TabsTrigger>
+            <TabsTrigger value="student">Student view</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button asChild size="sm" variant="outline">
+          <Link to={classPath(classId!, 'feedback')}>
+            <X className="h-4 w-4 mr-2" />
+            Exit preview
+          </Link>
+        </Button>
+      </div>
+
+      <PreviewProvider user={previewUser}>
+        <ChildProvider>
+          {/* A disabled fieldset also blocks keyboard activation of buttons inside */}
+          <fieldset disabled aria-label="Read-only preview" className="pointer-events-none select-none min-w-0">
+            {audience === 'parent' ? <ParentDashboard /> : <StudentDashboard />}
+          </fieldset>
+        </ChildProvider>
+      </PreviewProvider>
+    </div>
+  );
+};
+
+export default PortalPreview;
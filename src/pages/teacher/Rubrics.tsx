@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList, Copy, Lock, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import Can from '@/components/Can';
+import RubricEditorDialog, { type RubricDraft } from '@/components/RubricEditorDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { criterionMaxPoints, rubricTotalPoints } from '@/domain/rubrics';
+import type { Rubric } from '@/domain/types';
+import { useActiveClass } from '@/hooks/use-active-class';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useAssignments,
+  useRemoveRubric,
+  useRubrics,
+  useTeachers,
+  useUpdateAssignment
+} from '@/hooks/use-portal-data';
+
+const NO_RUBRIC = 'none';
+
+/** The criteria of a rubric laid out as a grid of levels, as students would see it on paper. */
+const RubricGrid = ({ rubric }: { rubric: Rubric }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead className="w-48">Criterion</TableHead>
+        <TableHead>Levels</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rubric.criteria.map((criterion) => (
+        <TableRow key={criterion.id}>
+          <TableCell className="align-top">
+            <p className="font-medium">{criterion.name}</p>
+            <p className="text-xs text-muted-foreground">
+              ×{criterion.weight} • up to {criterionMaxPoints(criterion)} pts
+            </p>
+          </TableCell>
+          <TableCell>
+            <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${criterion.levels.length}, minmax(0, 1fr))` }}>
+              {criterion.levels.map((level) => (
+                <div key={level.label} className="rounded-md bg-muted/30 p-2">
+                  <p className="text-xs font-semibold">{level.label} • {level.points}</p>
+                  <p className="text-xs text-muted-foreground">{level.descriptor}</p>
+                </div>
+              ))}
+            </div>
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const Rubrics = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { classId, classes } = useActiveClass();
+  const activeClass = classes.find(c => c.id === classId);
+  const { data: rubrics = [] } = useRubrics();
+  const { data: assignments = [] } = useAssignments({ classId });
+  const { data: teachers = [] } = useTeachers();
+  const updateAssignment = useUpdateAssignment();
+  const removeRubric = useRemoveRubric();
+  // Open editor: the rubric being changed (none when writing a new one) and its starting values
+  const [editor, setEditor] = useState<{ rubricId?: string; initial?: RubricDraft } | null>(null);
+
+  const authorName = (rubric: Rubric) =>
+    rubric.authorId === user?.id ? 'You' : teachers.find(t => t.id === rubric.authorId)?.name ?? 'Another teacher';
+
+  const attach = (assignmentId: string, rubricId: string) => updateAssignment.mutate(
+    { id: assignmentId, update: { rubricId: rubricId === NO_RUBRIC ? null : rubricId } },
+    {
+      onSuccess: (assignment) => toast({
+        title: rubricId === NO_RUBRIC ? 'Rubric detached' : 'Rubric attached',
+        description: `New analyses of ${assignment.title} will ${rubricId === NO_RUBRIC ? 'use the standard criteria' : 'score against it'}; scored papers keep their scores.`
+      }),
+      onError: () => toast({ title: 'Could not change the rubric', description: 'Please try again shortly.', variant: 'destructive' })
+    }
+  );
+
+  const edit = ({ id, title, subject, shared, criteria }: Rubric) =>
+    setEditor({ rubricId: id, initial: { title, subject, shared, criteria } });
+
+  const duplicate = ({ title, subject, criteria }: Rubric) =>
+    setEditor({ initial: { title: `${title} (copy)`, subject, shared: false, criteria } });
+
+  const remove = (rubric: Rubric) => removeRubric.mutate(rubric.id, {
+    onSuccess: () => toast({ title: 'Rubric deleted', description: `${rubric.title} has been removed.` }),
+    onError: (error) => toast({ title: 'Could not delete rubric', description: error.message, variant: 'destructive' })
+  });
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Rubrics</h1>
+          <p className="text-muted-foreground">
+            Write marking rubrics, reuse the ones colleagues share, and choose which one each assignment is marked against
+          </p>
+        </div>
+        <Can permission="rubrics:manage">
+          <Button onClick={() => setEditor({})}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Rubric
+          </Button>
+        </Can>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Assignments in {activeClass?.name ?? 'this class'}
+          </CardTitle>
+          <CardDescription>AI analysis scores each paper against its assignment's rubric</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Assignment</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="w-72">Rubric</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.map((assignment) => (
+                <TableRow key={assignment.id}>
+                  <TableCell className="font-medium">{assignment.title}</TableCell>
+                  <TableCell>{assignment.subject}</TableCell>
+                  <TableCell>{assignment.dueDate}</TableCell>
+                  <TableCell>
+                    <Can permission="rubrics:manage">
+                      {(allowed) => (
+                        <Select
+                          value={assignment.rubricId ?? NO_RUBRIC}
+                          onValueChange={(rubricId) => attach(assignment.id, rubricId)}
+                          disabled={!allowed || updateAssignment.isPending}
+                        >
+                          <SelectTrigger aria-label={`Rubric for ${assignment.title}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_RUBRIC}>No rubric</SelectItem>
+                            {/* A colleague's rubric that is no longer shared stays selected */}
+                            {assignment.rubricId && !rubrics.some(r => r.id === assignment.rubricId) && (
+                              <SelectItem value={assignment.rubricId} disabled>Unshared rubric</SelectItem>
+                            )}
+                            {rubrics.map((rubric) => (
+                              <SelectItem key={rubric.id} value={rubric.id}>
+                                {rubric.title}
+                                <span className="ml-2 text-xs text-muted-foreground">{rubric.subject}</span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </Can>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {assignments.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">No assignments in this class yet.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rubric Library</CardTitle>
+          <CardDescription>Your rubrics and the ones other teachers have shared</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rubrics.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No rubrics yet. Write one to start marking against it.</p>
+          ) : (
+            <Accordion type="multiple">
+              {rubrics.map((rubric) => {
+                const mine = rubric.authorId === user?.id;
+                const usedBy = assignments.filter(a => a.rubricId === rubric.id).length;
+                return (
+                  <AccordionItem key={rubric.id} value={rubric.id}>
+                    <div className="flex items-center gap-2">
+                      <AccordionTrigger className="flex-1 hover:no-underline">
+                        <div className="flex flex-1 flex-wrap items-center gap-2 text-left">
+                          <span className="font-medium">{rubric.title}</span>
+                          <Badge variant="secondary">{rubric.subject}</Badge>
+                          {rubric.shared ? (
+                            <Badge variant="outline" className="gap-1"><Users className="h-3 w-3" /> Shared</Badge>
+                          ) : (
+                            <Badge variant="outline" className="gap-1"><Lock className="h-3 w-3" /> Private</Badge>
+                          )}
+                          <span className="text-xs font-normal text-muted-foreground">
+                            {authorName(rubric)} • {rubric.criteria.length} criteria • {rubricTotalPoints(rubric)} pts
+                            {usedBy > 0 && ` • used by ${usedBy} assignment${usedBy === 1 ? '' : 's'} here`}
+                          </span>
+                        </div>
+                      </AccordionTrigger>
+                      <Can permission="rubrics:manage">
+                        <div className="flex items-center">
+                          <Button variant="ghost" size="sm" onClick={() => duplicate(rubric)} aria-label={`Copy ${rubric.title}`}>
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          {mine && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => edit(rubric)}
+                                aria-label={`Edit ${rubric.title}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={removeRubric.isPending}
+                                onClick={() => remove(rubric)}
+                                aria-label={`Delete ${rubric.title}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </Can>
+                    </div>
+                    <AccordionContent>
+                      <RubricGrid rubric={rubric} />
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          )}
+        </CardContent>
+      </Card>
+
+      {editor && <RubricEditorDialog {...editor} subject={activeClass?.subject} onClose={() => setEditor(null)} />}
+    </div>
+  );
+};
+
+export default Rubrics;
@@ -1,8 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
 import { 
   Upload, 
   FileText, 
@@ -12,78 +15,119 @@ import {
   Filter,
   CheckCircle,
   Clock,
-  AlertCircle
+  AlertCircle,
+  ScanText,
+  RotateCw,
+  Layers,
+  Loader2,
+  XCircle,
+  FileArchive,
+  Copy
 } from 'lucide-react';
-
-// Mock data for student papers
-const mockPapers = [
-  {
-    id: 1,
-    studentName: "Aadhya Sharma",
-    subject: "English Essay",
-    uploadDate: "2024-01-20",
-    status: "reviewed",
-    aiScore: 92,
-    grammarScore: 88,
-    creativityScore: 95,
-    handwritingScore: 85,
-    feedback: "Excellent creative expression with minor grammar improvements needed."
-  },
-  {
-    id: 2,
-    studentName: "Arjun Patel",
-    subject: "Math Problem Set",
-    uploadDate: "2024-01-19",
-    status: "pending",
-    aiScore: null,
-    grammarScore: null,
-    creativityScore: null,
-    handwritingScore: null,
-    feedback: null
-  },
-  {
-    id: 3,
-    studentName: "Diya Singh",
-    subject: "Science Report", 
-    uploadDate: "2024-01-18",
-    status: "in-progress",
-    aiScore: 87,
-    grammarScore: 90,
-    creativityScore: 82,
-    handwritingScore: 89,
-    feedback: "Good scientific reasoning, work on conclusion clarity."
-  }
-];
+import { classPath, useActiveClass } from '@/hooks/use-active-class';
+import Can from '@/components/Can';
+import BatchImportDialog from '@/components/BatchImportDialog';
+import ScoreBreakdown from '@/components/ScoreBreakdown';
+import SimilarityDialog from '@/components/SimilarityDialog';
+import UploadPapersDialog, { PaperDropZone } from '@/components/UploadPapersDialog';
+import { PAPER_STATUS_LABELS, isAnalyzing } from '@/domain/analysis';
+import { SIMILARITY_WARNING } from '@/domain/similarity';
+import type { Feedback, Paper, PaperStatus } from '@/domain/types';
+import { formatBytes } from '@/domain/uploads';
+import { useDownloadFeedbackReports } from '@/hooks/use-feedback-reports';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useAnalyzePaper,
+  useAssignments,
+  useCancelAnalysis,
+  useFeedback,
+  useFinalizeFeedback,
+  usePapers,
+  useStudents,
+  useTranscribePaper
+} from '@/hooks/use-portal-data';
 
 const StudentPapers = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  // Files waiting in the upload dialog; null while it is closed
+  const [uploadFiles, setUploadFiles] = useState<File[] | null>(null);
+  const [batchOpen, setBatchOpen] = useState(false);
+  // Paper whose matching passages are open
+  const [comparing, setComparing] = useState<(Paper & { studentName: string }) | null>(null);
+  const { classId, classes } = useActiveClass();
+  const classFilter = { classId };
+  const { data: papers = [] } = usePapers(classFilter);
+  const { data: students = [] } = useStudents(classFilter);
+  const { data: assignments = [] } = useAssignments(classFilter);
+  const { data: feedback = [], refetch: refetchFeedback } = useFeedback(classFilter);
+  const finalizeMutation = useFinalizeFeedback();
+  const transcribeMutation = useTranscribePaper();
+  const analyzeMutation = useAnalyzePaper();
+  const cancelMutation = useCancelAnalysis();
+  const reportMutation = useDownloadFeedbackReports();
+  const { toast } = useToast();
+
+  // The analysis queue creates feedback in the background; fetch it once a paper points at it
+  const missingFeedback = papers.some(p => p.feedbackId && !feedback.some(f => f.id === p.feedbackId));
+  useEffect(() => {
+    if (missingFeedback) refetchFeedback();
+  }, [missingFeedback, refetchFeedback]);
+
+  // Join each paper with its student, assignment and feedback for display
+  const paperRows = papers.map(paper => {
+    const fb = feedback.find(f => f.id === paper.feedbackId);
+    return {
+      ...paper,
+      studentName: students.find(s => s.id === paper.studentId)?.name ?? 'Unknown student',
+      subject: assignments.find(a => a.id === paper.assignmentId)?.title ?? 'Untitled assignment',
+      uploadDate: paper.uploadedAt,
+      review: fb ?? null,
+      feedback: fb?.summary ?? null,
+      feedbackStatus: fb?.status ?? null
+    };
+  });
 
-  const filteredPapers = mockPapers.filter(paper => {
+  const filteredPapers = paperRows.filter(paper => {
     const matchesSearch = paper.studentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          paper.subject.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || paper.status === statusFilter;
     return matchesSearch && matchesStatus;
   });
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: PaperStatus) => {
     switch (status) {
       case 'reviewed': return <CheckCircle className="h-4 w-4 text-success" />;
-      case 'in-progress': return <Clock className="h-4 w-4 text-warning" />;
+      case 'awaiting-review': return <Clock className="h-4 w-4 text-warning" />;
       case 'pending': return <AlertCircle className="h-4 w-4 text-muted-foreground" />;
-      default: return <Clock className="h-4 w-4" />;
+      case 'failed': return <XCircle className="h-4 w-4 text-destructive" />;
+      default: return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: PaperStatus) => {
     switch (status) {
       case 'reviewed': return 'bg-success/10 text-success border-success/20';
-      case 'in-progress': return 'bg-warning/10 text-warning border-warning/20';
+      case 'awaiting-review': return 'bg-warning/10 text-warning border-warning/20';
       case 'pending': return 'bg-muted/10 text-muted-foreground border-muted/20';
-      default: return 'bg-muted text-muted-foreground';
+      case 'failed': return 'bg-destructive/10 text-destructive border-destructive/20';
+      default: return 'bg-primary/10 text-primary border-primary/20';
     }
   };
 
+  const startAnalysis = (paper: { id: string; studentName: string }) => analyzeMutation.mutate(paper.id, {
+    onSuccess: () => toast({ title: 'Queued for analysis', description: `${paper.studentName}'s paper will be ready to review shortly.` }),
+    onError: () => toast({ title: 'Could not queue the paper', description: 'Please try again shortly.', variant: 'destructive' })
+  });
+
+  const downloadReports = (reports: Feedback[], archiveName?: string) => reportMutation.mutate({ feedback: reports, archiveName }, {
+    onSuccess: (count) => toast({
+      title: count === 1 ? 'Report downloaded' : 'Reports downloaded',
+      description: count === 1 ? 'The PDF is in your downloads.' : `${count} PDF reports are in one ZIP file in your downloads.`
+    }),
+    onError: () => toast({ title: 'Could not create the report', description: 'Please try again shortly.', variant: 'destructive' })
+  });
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -94,27 +138,44 @@ const StudentPapers = () => {
             Upload, review, and provide AI-powered feedback on student submissions
           </p>
         </div>
-        <Button className="bg-gradient-to-r from-primary to-success text-white">
-          <Upload className="h-4 w-4 mr-2" />
-          Upload New Papers
-        </Button>
+        <Can permission="papers:upload">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setBatchOpen(true)}>
+              <Layers className="h-4 w-4 mr-2" />
+              Batch Import
+            </Button>
+            <Button className="bg-gradient-to-r from-primary to-success text-white" onClick={() => setUploadFiles([])}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload New Papers
+            </Button>
+          </div>
+        </Can>
       </div>
 
       {/* Upload Area */}
-      <Card className="border-dashed border-2 border-primary/30 bg-primary/5">
-        <CardContent className="flex flex-col items-center justify-center py-12">
-          <div className="bg-primary/10 p-4 rounded-full mb-4">
-            <Upload className="h-8 w-8 text-primary" />
-          </div>
-          <h3 className="font-semibold text-lg mb-2">Upload Student Papers</h3>
-          <p className="text-muted-foreground text-center max-w-sm mb-6">
-            Drag and drop PDF or image files, or click to browse. AI will automatically analyze and provide feedback.
-          </p>
-          <Button className="bg-gradient-to-r from-primary to-success text-white">
-            Choose Files
-          </Button>
-        </CardContent>
-      </Card>
+      <Can permission="papers:upload">
+        <PaperDropZone onFiles={setUploadFiles}>
+          {(browse) => (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="bg-primary/10 p-4 rounded-full mb-4">
+                <Upload className="h-8 w-8 text-primary" />
+              </div>
+              <h3 className="font-semibold text-lg mb-2">Upload Student Papers</h3>
+              <p className="text-muted-foreground text-center max-w-sm mb-6">
+                Drag and drop PDF or image files, or click to browse. AI will automatically analyze and provide feedback.
+              </p>
+              <Button className="bg-gradient-to-r from-primary to-success text-white" onClick={browse}>
+                Choose Files
+              </Button>
+            </div>
+          )}
+        </PaperDropZone>
+      </Can>
+      {uploadFiles && (
+        <UploadPapersDialog classId={classId} initialFiles={uploadFiles} onClose={() => setUploadFiles(null)} />
+      )}
+      {batchOpen && <BatchImportDialog classId={classId} onClose={() => setBatchOpen(false)} />}
+      {comparing && <SimilarityDialog paper={comparing} studentName={comparing.studentName} onClose={() => setComparing(null)} />}
 
       {/* Filters */}
       <div className="flex items-center gap-4">
@@ -135,11 +196,20 @@ const StudentPapers = () => {
             className="px-3 py-2 border rounded-md text-sm bg-background"
           >
             <option value="all">All Status</option>
-            <option value="pending">Pending</option>
-            <option value="in-progress">In Progress</option>
-            <option value="reviewed">Reviewed</option>
+            {(Object.keys(PAPER_STATUS_LABELS) as PaperStatus[]).map((status) => (
+              <option key={status} value={status}>{PAPER_STATUS_LABELS[status]}</option>
+            ))}
           </select>
         </div>
+        <Button
+          variant="outline"
+          className="ml-auto"
+          disabled={feedback.length === 0 || reportMutation.isPending}
+          onClick={() => downloadReports(feedback, `${classes.find(c => c.id === classId)?.name ?? 'Class'} feedback reports`)}
+        >
+          {reportMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileArchive className="h-4 w-4 mr-2" />}
+          Export Class Reports
+        </Button>
       </div>
 
       {/* Papers List */}
@@ -150,42 +220,102 @@ const StudentPapers = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <CardTitle className="flex items-center gap-3">
-                    <FileText className="h-5 w-5 text-primary" />
+                    {paper.file?.thumbnail ? (
+                      <img src={paper.file.thumbnail} alt="" className="h-10 w-10 rounded object-cover border" />
+                    ) : (
+                      <FileText className="h-5 w-5 text-primary" />
+                    )}
                     {paper.subject}
                   </CardTitle>
                   <CardDescription>
                     by {paper.studentName} • Uploaded {paper.uploadDate}
+                    {paper.file && ` • ${paper.file.name} (${formatBytes(paper.file.size)})`}
                   </CardDescription>
+                  {paper.transcript && (
+                    <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                      <ScanText className="h-3 w-3" />
+                      {paper.transcript.status === 'pending' && <span>Reading handwriting…</span>}
+                      {paper.transcript.status === 'complete' && (paper.transcript.flaggedWords ? (
+                        <span className="text-warning">
+                          Transcribed • {paper.transcript.flaggedWords} word{paper.transcript.flaggedWords === 1 ? '' : 's'} to check
+                        </span>
+                      ) : (
+                        <span>Transcribed</span>
+                      ))}
+                      {paper.transcript.status === 'failed' && (
+                        <>
+                          <span className="text-destructive">Could not read the scan</span>
+                          <Can permission="papers:upload">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              disabled={transcribeMutation.isPending}
+                              onClick={() => transcribeMutation.mutate(paper.id, {
+                                onError: () => toast({ title: 'Could not restart OCR', description: 'Please try again shortly.', variant: 'destructive' })
+                              })}
+                            >
+                              <RotateCw className="h-3 w-3 mr-1" />
+                              Retry
+                            </Button>
+                          </Can>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {paper.similarity && (
+                    <Can permission="papers:compare">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn(
+                          'h-7 px-2 text-xs',
+                          paper.similarity.score >= SIMILARITY_WARNING &&
+                            'border-destructive/30 bg-destructive/10 text-destructive hover:bg-destructive/15 hover:text-destructive'
+                        )}
+                        disabled={paper.similarity.matches === 0}
+                        onClick={() => setComparing(paper)}
+                        title={paper.similarity.matches === 0 ? 'No passages match other submissions' : 'Compare with matching submissions'}
+                      >
+                        <Copy className="h-3 w-3 mr-1" />
+                        {paper.similarity.score}% similar
+                      </Button>
+                    </Can>
+                  )}
+                  <Badge className={getStatusColor(paper.status)}>
+                    {getStatusIcon(paper.status)}
+                    <span className="ml-1">{PAPER_STATUS_LABELS[paper.status]}</span>
+                  </Badge>
                 </div>
-                <Badge className={getStatusColor(paper.status)}>
-                  {getStatusIcon(paper.status)}
-                  <span className="ml-1 capitalize">{paper.status.replace('-', ' ')}</span>
-                </Badge>
               </div>
             </CardHeader>
 
             <CardContent className="space-y-4">
-              {paper.aiScore && (
-                <div className="grid grid-cols-4 gap-4">
-                  <div className="text-center p-3 bg-success/5 rounded-lg">
-                    <p className="text-sm text-muted-foreground">Overall Score</p>
-                    <p className="text-2xl font-bold text-success">{paper.aiScore}%</p>
-                  </div>
-                  <div className="text-center p-3 bg-primary/5 rounded-lg">
-                    <p className="text-sm text-muted-foreground">Grammar</p>
-                    <p className="text-2xl font-bold text-primary">{paper.grammarScore}%</p>
-                  </div>
-                  <div className="text-center p-3 bg-warning/5 rounded-lg">
-                    <p className="text-sm text-muted-foreground">Creativity</p>
-                    <p className="text-2xl font-bold text-warning">{paper.creativityScore}%</p>
-                  </div>
-                  <div className="text-center p-3 bg-muted/20 rounded-lg">
-                    <p className="text-sm text-muted-foreground">Handwriting</p>
-                    <p className="text-2xl font-bold">{paper.handwritingScore}%</p>
-                  </div>
+              {isAnalyzing(paper.status) && paper.analysis && (
+                <div className="space-y-1">
+                  <Progress value={paper.analysis.progress * 100} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {paper.analysis.retryAt
+                      ? `Attempt ${paper.analysis.attempt} of ${paper.analysis.maxAttempts} failed (${paper.analysis.error}); retrying shortly`
+                      : paper.status === 'queued' ? 'Waiting for a free slot…' : `${PAPER_STATUS_LABELS[paper.status]}…`}
+                  </p>
                 </div>
               )}
 
+              {paper.status === 'failed' && (
+                <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <p>
+                    Analysis failed after {paper.analysis?.attempt ?? 1} {paper.analysis?.attempt === 1 ? 'attempt' : 'attempts'}:{' '}
+                    {paper.analysis?.error ?? 'unknown error'}
+                  </p>
+                </div>
+              )}
+
+              {paper.review && <ScoreBreakdown feedback={paper.review} variant="tiles" />}
+
               {paper.feedback && (
                 <div className="bg-muted/30 p-4 rounded-lg">
                   <p className="text-sm font-medium mb-2">AI Feedback:</p>
@@ -195,10 +325,48 @@ const StudentPapers = () => {
 
               <div className="flex items-center justify-between pt-2">
                 <div className="flex items-center gap-2">
-                  {paper.status === 'pending' && (
-                    <Button size="sm" className="bg-primary hover:bg-primary/90">
-                      Start AI Analysis
-                    </Button>
+                  {(paper.status === 'pending' || paper.status === 'failed') && (
+                    <Can permission="feedback:regenerate">
+                      <Button
+                        size="sm"
+                        className="bg-primary hover:bg-primary/90"
+                        disabled={analyzeMutation.isPending}
+                        onClick={() => startAnalysis(paper)}
+                      >
+                        {paper.status === 'failed' ? 'Retry Analysis' : 'Start AI Analysis'}
+                      </Button>
+                    </Can>
+                  )}
+                  {isAnalyzing(paper.status) && (
+                    <Can permission="feedback:regenerate">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => cancelMutation.mutate(paper.id, {
+                          onError: () => toast({ title: 'Could not cancel', description: 'Please try again shortly.', variant: 'destructive' })
+                        })}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Cancel Analysis
+                      </Button>
+                    </Can>
+                  )}
+                  {paper.feedbackId && paper.feedbackStatus === 'draft' && (
+                    <Can permission="feedback:finalize">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={finalizeMutation.isPending}
+                        onClick={() => finalizeMutation.mutate(paper.feedbackId!, {
+                          onSuccess: () => toast({ title: 'Marked final', description: `${paper.studentName}'s feedback is ready to share.` }),
+                          onError: () => toast({ title: 'Could not finalize', description: 'Please try again shortly.', variant: 'destructive' })
+                        })}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Mark Final
+                      </Button>
+                    </Can>
                   )}
                   {paper.status === 'reviewed' && (
                     <Button variant="outline" size="sm">
@@ -207,11 +375,18 @@ const StudentPapers = () => {
                   )}
                 </div>
                 <div className="flex items-center gap-2">
-                  <Button variant="outline" size="sm">
-                    <Eye className="h-4 w-4 mr-2" />
-                    View Paper
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={classPath(classId, `papers/${encodeURIComponent(paper.id)}`)}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      View Paper
+                    </Link>
                   </Button>
-                  <Button variant="outline" size="sm">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!paper.review || reportMutation.isPending}
+                    onClick={() => downloadReports([paper.review!])}
+                  >
                     <Download className="h-4 w-4 mr-2" />
                     Download Report
                   </Button>
@@ -13,56 +13,40 @@ import {
   Eye
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-
-// Mock data for teacher dashboard
-const mockStudents = [
-  {
-    id: 1,
-    name: "Aadhya Sharma",
-    lastScore: 92,
-    status: "excellent",
-    grade: "A",
-    recentActivity: "2 hours ago",
-    avatar: "/api/placeholder/32/32"
-  },
-  {
-    id: 2,
-    name: "Arjun Patel",
-    lastScore: 78,
-    status: "good",
-    grade: "B+",
-    recentActivity: "1 day ago",
-    avatar: "/api/placeholder/32/32"
-  },
-  {
-    id: 3,
-    name: "Diya Singh",
-    lastScore: 85,
-    status: "good",
-    grade: "A-",
-    recentActivity: "3 hours ago",
-    avatar: "/api/placeholder/32/32"
-  },
-  {
-    id: 4,
-    name: "Kabir Mehta",
-    lastScore: 65,
-    status: "needs-attention",
-    grade: "C+",
-    recentActivity: "5 hours ago",
-    avatar: "/api/placeholder/32/32"
-  }
-];
-
-const mockStats = {
-  totalStudents: 28,
-  papersToReview: 12,
-  averageScore: 82.5,
-  improvementRate: 15.2
-};
+import { useActiveClass } from '@/hooks/use-active-class';
+import Can from '@/components/Can';
+import { useClass, useExams, useFeedback, usePapers, useStudents } from '@/hooks/use-portal-data';
+import { average, improvementRate, latestFeedbackFor, letterGrade, performanceStatus } from '@/domain/scoring';
 
 const TeacherDashboard = () => {
   const { user } = useAuth();
+  const { classId } = useActiveClass();
+  const classFilter = { classId };
+  const { data: schoolClass } = useClass(classId);
+  const { data: students = [] } = useStudents(classFilter);
+  const { data: papers = [] } = usePapers(classFilter);
+  const { data: feedback = [] } = useFeedback(classFilter);
+  const { data: exams = [] } = useExams(classFilter);
+
+  // Each row's score comes from the student's latest feedback
+  const studentRows = students.map(student => {
+    const latest = latestFeedbackFor(student.id, feedback);
+    return {
+      ...student,
+      lastScore: latest?.aiScore ?? null,
+      grade: latest ? letterGrade(latest.aiScore) : '—',
+      status: latest ? performanceStatus(latest.aiScore) : 'pending',
+      recentActivity: latest ? new Date(latest.generatedAt).toLocaleString() : 'No submissions yet'
+    };
+  });
+
+  const scored = studentRows.filter(s => s.lastScore !== null).map(s => s.lastScore as number);
+  const stats = {
+    totalStudents: students.length,
+    papersToReview: papers.filter(p => p.status !== 'reviewed').length,
+    averageScore: Math.round(average(scored) * 10) / 10,
+    improvementRate: improvementRate(exams)
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -88,7 +72,7 @@ const TeacherDashboard = () => {
       <div className="space-y-2">
         <h1 className="text-3xl font-bold">Welcome back, {user?.name}!</h1>
         <p className="text-muted-foreground">
-          Here's what's happening in your {user?.subject} class today.
+          Here's what's happening in {schoolClass ? `${schoolClass.name} (${schoolClass.subject})` : 'your class'} today.
         </p>
       </div>
 
@@ -100,7 +84,7 @@ const TeacherDashboard = () => {
             <Users className="h-5 w-5 text-primary" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{mockStats.totalStudents}</div>
+            <div className="text-2xl font-bold">{stats.totalStudents}</div>
             <p className="text-xs text-muted-foreground">Active this semester</p>
           </CardContent>
         </Card>
@@ -111,7 +95,7 @@ const TeacherDashboard = () => {
             <FileText className="h-5 w-5 text-warning" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{mockStats.papersToReview}</div>
+            <div className="text-2xl font-bold">{stats.papersToReview}</div>
             <p className="text-xs text-muted-foreground">Awaiting feedback</p>
           </CardContent>
         </Card>
@@ -122,7 +106,7 @@ const TeacherDashboard = () => {
             <Award className="h-5 w-5 text-success" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{mockStats.averageScore}%</div>
+            <div className="text-2xl font-bold">{stats.averageScore}%</div>
             <p className="text-xs text-muted-foreground">Class performance</p>
           </CardContent>
         </Card>
@@ -133,7 +117,7 @@ const TeacherDashboard = () => {
             <TrendingUp className="h-5 w-5 text-success" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">+{mockStats.improvementRate}%</div>
+            <div className="text-2xl font-bold">{stats.improvementRate >= 0 ? '+' : ''}{stats.improvementRate}%</div>
             <p className="text-xs text-muted-foreground">From last month</p>
           </CardContent>
         </Card>
@@ -156,7 +140,7 @@ const TeacherDashboard = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {mockStudents.map((student) => (
+            {studentRows.map((student) => (
               <div
                 key={student.id}
                 className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/30 transition-colors"
@@ -178,7 +162,7 @@ const TeacherDashboard = () => {
                 <div className="flex items-center space-x-6">
                   <div className="text-center">
                     <p className="text-sm font-medium">Last Score</p>
-                    <p className="text-lg font-bold">{student.lastScore}%</p>
+                    <p className="text-lg font-bold">{student.lastScore !== null ? `${student.lastScore}%` : '—'}</p>
                   </div>
 
                   <div className="text-center">
@@ -204,22 +188,24 @@ const TeacherDashboard = () => {
 
       {/* Quick Actions */}
       <div className="grid gap-6 md:grid-cols-2">
-        <Card className="bg-gradient-to-br from-primary/5 to-success/5">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <FileText className="h-5 w-5" />
-              Upload New Papers
-            </CardTitle>
-            <CardDescription>
-              Upload and evaluate student papers with AI assistance
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button className="w-full bg-gradient-to-r from-primary to-success text-white">
-              Start Paper Review
-            </Button>
-          </CardContent>
-        </Card>
+        <Can permission="papers:upload">
+          <Card className="bg-gradient-to-br from-primary/5 to-success/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Upload New Papers
+              </CardTitle>
+              <CardDescription>
+                Upload and evaluate student papers with AI assistance
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full bg-gradient-to-r from-primary to-success text-white">
+                Start Paper Review
+              </Button>
+            </CardContent>
+          </Card>
+        </Can>
 
         <Card className="bg-gradient-to-br from-success/5 to-primary/5">
           <CardHeader>
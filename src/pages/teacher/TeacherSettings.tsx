@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -9,8 +9,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSchoolPolicy, useSettings, useUpdateSettings } from '@/hooks/use-portal-data';
+import { INTEGRATION_LABELS, RETENTION_LABELS } from '@/domain/policy';
+import { useCan } from '@/hooks/use-permissions';
+import ChangePasswordDialog from '@/components/ChangePasswordDialog';
+import TwoFactorSection from '@/components/TwoFactorSection';
+import type { SettingsUpdate } from '@/domain/repositories';
+import type { IntegrationId, UserSettings } from '@/domain/types';
 import {
   Settings,
   User,
@@ -46,6 +54,9 @@ import {
 // 3. Privacy & sharing controls
 // 4. AI feedback customization
 // 5. API integration settings (for advanced users)
+//
+// Data retention and school integrations are set centrally by
+// the school administrator and are only shown here read-only.
 // 
 // The page uses zod for form validation and react-hook-form
 // for form state management, with toast notifications for feedback.
@@ -77,7 +88,6 @@ const privacyFormSchema = z.object({
   shareAnalytics: z.boolean(),
   shareProgress: z.boolean(),
   publicProfile: z.boolean(),
-  dataRetention: z.enum(['30days', '90days', '1year', 'forever']),
 });
 
 const aiFeedbackSchema = z.object({
@@ -107,12 +117,12 @@ const TeacherSettings: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [apiKeyVisible, setApiKeyVisible] = useState(false);
   const [isKeyRegenPending, setIsKeyRegenPending] = useState(false);
+  const [changingPassword, setChangingPassword] = useState(false);
 
   // ---------------------------------
   // Default values for each form 
   // ---------------------------------
-  // In a real app, these would come from an API call to get user settings
-  // Here we use hardcoded defaults based on the mock user
+  // Shown until the stored settings load, then replaced via form.reset()
   const defaultProfileValues: ProfileFormValues = {
     name: user?.name || '',
     email: user?.email || '',
@@ -136,7 +146,6 @@ const TeacherSettings: React.FC = () => {
     shareAnalytics: true,
     shareProgress: true,
     publicProfile: false,
-    dataRetention: '1year',
   };
 
   const defaultAIFeedbackValues: AIFeedbackFormValues = {
@@ -183,79 +192,77 @@ const TeacherSettings: React.FC = () => {
   });
 
   // ---------------------------------
-  // Form Submission Handlers
+  // Load Stored Settings
   // ---------------------------------
-  const onProfileSubmit = async (data: ProfileFormValues) => {
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    toast({
-      title: "Profile updated",
-      description: "Your profile information has been saved.",
+  const { data: settings } = useSettings(user?.id);
+  const updateSettings = useUpdateSettings(user?.id);
+  const { data: policy } = useSchoolPolicy();
+  // Personal API keys need the capability and a school policy that allows them
+  const canManageKeys = useCan('apikeys:manage');
+  const apiLocked = !canManageKeys || (policy ? !policy.allowTeacherApiAccess : false);
+
+  useEffect(() => {
+    if (!settings) return;
+    profileForm.reset({
+      ...settings.profile,
+      // Users who never saved a profile fall back to their account details
+      name: settings.profile.name || user?.name || '',
+      email: settings.profile.email || user?.email || '',
+      subject: settings.profile.subject || user?.subject || ''
     });
-    
-    setIsSubmitting(false);
-  };
+    notificationsForm.reset(settings.notifications);
+    privacyForm.reset(settings.privacy);
+    aiFeedbackForm.reset(settings.aiFeedback);
+    apiSettingsForm.reset(settings.api);
+  }, [settings, user, profileForm, notificationsForm, privacyForm, aiFeedbackForm, apiSettingsForm]);
 
-  const onNotificationsSubmit = async (data: NotificationsFormValues) => {
+  // ---------------------------------
+  // Form Submission Handlers
+  // ---------------------------------
+  // Values are zod-validated, so the casts below only restore the
+  // required-ness that non-strict inference drops.
+  const saveSettings = async (update: SettingsUpdate, success: { title: string; description: string }) => {
     setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 600));
-    
-    toast({
-      title: "Notification preferences saved",
-      description: "Your notification settings have been updated.",
-    });
-    
-    setIsSubmitting(false);
+    try {
+      await updateSettings.mutateAsync(update);
+      toast(success);
+    } catch (error) {
+      toast({
+        title: "Could not save settings",
+        description: "Please try again shortly.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const onPrivacySubmit = async (data: PrivacyFormValues) => {
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 700));
-    
-    toast({
-      title: "Privacy settings updated",
-      description: `Data retention policy set to ${data.dataRetention}.`,
-    });
-    
-    setIsSubmitting(false);
-  };
+  const onProfileSubmit = (data: ProfileFormValues) => saveSettings({ profile: data as UserSettings['profile'] }, {
+    title: "Profile updated",
+    description: "Your profile information has been saved.",
+  });
 
-  const onAIFeedbackSubmit = async (data: AIFeedbackFormValues) => {
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 900));
-    
-    toast({
-      title: "AI feedback preferences updated",
-      description: `Feedback style set to ${data.feedbackStyle} with ${data.focusAreas.length} focus areas.`,
-    });
-    
-    setIsSubmitting(false);
-  };
+  const onNotificationsSubmit = (data: NotificationsFormValues) => saveSettings({ notifications: data as UserSettings['notifications'] }, {
+    title: "Notification preferences saved",
+    description: "Your notification settings have been updated.",
+  });
 
-  const onAPISettingsSubmit = async (data: APISettingsFormValues) => {
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    toast({
-      title: "API settings updated",
-      description: data.enableIntegration 
-        ? "External integrations are now enabled." 
-        : "External integrations are now disabled.",
-    });
-    
-    setIsSubmitting(false);
-  };
+  const onPrivacySubmit = (data: PrivacyFormValues) => saveSettings({ privacy: data as UserSettings['privacy'] }, {
+    title: "Privacy settings updated",
+    description: "Your sharing preferences have been saved.",
+  });
+
+  const onAIFeedbackSubmit = (data: AIFeedbackFormValues) => saveSettings({ aiFeedback: data as UserSettings['aiFeedback'] }, {
+    title: "AI feedback preferences updated",
+    description: `Feedback style set to ${data.feedbackStyle} with ${data.focusAreas.length} focus areas.`,
+  });
+
+  const onAPISettingsSubmit = (data: APISettingsFormValues) => saveSettings({ api: data as UserSettings['api'] }, {
+    title: "API settings updated",
+    description: data.enableIntegration 
+      ? "External integrations are now enabled." 
+      : "External integrations are now disabled.",
+  });
 
   // ---------------------------------
   // Helper functions
@@ -271,19 +278,24 @@ const TeacherSettings: React.FC = () => {
   const regenerateApiKey = async () => {
     setIsKeyRegenPending(true);
     
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
     const newKey = 'sk_edb_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
     
-    apiSettingsForm.setValue('apiKey', newKey);
-    
-    toast({
-      title: "API key regenerated",
-      description: "Your new API key has been created. The old key is now invalid.",
-    });
-    
-    setIsKeyRegenPending(false);
+    try {
+      await updateSettings.mutateAsync({ api: { ...apiSettingsForm.getValues(), apiKey: newKey } as UserSettings['api'] });
+      apiSettingsForm.setValue('apiKey', newKey);
+      toast({
+        title: "API key regenerated",
+        description: "Your new API key has been created. The old key is now invalid.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not regenerate API key",
+        description: "Your existing key is still valid. Please try again shortly.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsKeyRegenPending(false);
+    }
   };
 
   // Focus areas for AI feedback
@@ -463,9 +475,9 @@ const TeacherSettings: React.FC = () => {
               <div className="flex justify-between items-center">
                 <div className="space-y-1">
                   <h4 className="text-sm font-medium">Password</h4>
-                  <p className="text-sm text-muted-foreground">Last changed 2 months ago</p>
+                  <p className="text-sm text-muted-foreground">Changing it signs out your other devices</p>
                 </div>
-                <Button variant="outline" onClick={() => toast({ title: "Coming Soon", description: "Password change functionality is coming soon." })}>
+                <Button variant="outline" onClick={() => setChangingPassword(true)}>
                   <Lock className="h-4 w-4 mr-2" />
                   Change Password
                 </Button>
@@ -473,16 +485,7 @@ const TeacherSettings: React.FC = () => {
 
               <Separator />
 
-              <div className="flex justify-between items-center">
-                <div className="space-y-1">
-                  <h4 className="text-sm font-medium">Two-Factor Authentication</h4>
-                  <p className="text-sm text-muted-foreground">Not enabled</p>
-                </div>
-                <Button variant="outline" onClick={() => toast({ title: "Coming Soon", description: "2FA functionality is coming soon." })}>
-                  <Shield className="h-4 w-4 mr-2" />
-                  Enable 2FA
-                </Button>
-              </div>
+              <TwoFactorSection />
             </CardContent>
           </Card>
         </TabsContent>
@@ -740,54 +743,18 @@ const TeacherSettings: React.FC = () => {
 
                   <div className="space-y-4">
                     <h3 className="text-sm font-medium">Data Retention</h3>
-                    
-                    <FormField
-                      control={privacyForm.control}
-                      name="dataRetention"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Data Retention Period</FormLabel>
-                          <div className="grid grid-cols-4 gap-3">
-                            <Button 
-                              type="button" 
-                              variant={field.value === '30days' ? 'default' : 'outline'}
-                              onClick={() => privacyForm.setValue('dataRetention', '30days')}
-                              className="w-full"
-                            >
-                              30 Days
-                            </Button>
-                            <Button 
-                              type="button" 
-                              variant={field.value === '90days' ? 'default' : 'outline'}
-                              onClick={() => privacyForm.setValue('dataRetention', '90days')}
-                              className="w-full"
-                            >
-                              90 Days
-                            </Button>
-                            <Button 
-                              type="button" 
-                              variant={field.value === '1year' ? 'default' : 'outline'}
-                              onClick={() => privacyForm.setValue('dataRetention', '1year')}
-                              className="w-full"
-                            >
-                              1 Year
-                            </Button>
-                            <Button 
-                              type="button" 
-                              variant={field.value === 'forever' ? 'default' : 'outline'}
-                              onClick={() => privacyForm.setValue('dataRetention', 'forever')}
-                              className="w-full"
-                            >
-                              Forever
-                            </Button>
-                          </div>
-                          <FormDescription>
-                            How long EduBridge will store your students' data and AI feedback
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <p className="text-sm font-medium">Data Retention Period</p>
+                        <p className="text-sm text-muted-foreground">
+                          Managed by your school administrator for all of {policy?.schoolName ?? 'your school'}
+                        </p>
+                      </div>
+                      <Badge variant="secondary">
+                        <Lock className="mr-1 h-3 w-3" />
+                        {policy ? RETENTION_LABELS[policy.dataRetention] : '—'}
+                      </Badge>
+                    </div>
                   </div>
 
                   <div className="rounded-lg bg-muted/50 p-4">
@@ -1017,7 +984,15 @@ const TeacherSettings: React.FC = () => {
             <Form {...apiSettingsForm}>
               <form onSubmit={apiSettingsForm.handleSubmit(onAPISettingsSubmit)}>
                 <CardContent className="space-y-6">
-                  <div className="space-y-4">
+                  {apiLocked && (
+                    <div className="flex items-center gap-2 rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm">
+                      <Lock className="h-4 w-4" />
+                      {canManageKeys
+                        ? 'Personal API access has been turned off by your school administrator.'
+                        : 'Your account cannot manage API keys.'}
+                    </div>
+                  )}
+                  <fieldset disabled={apiLocked} className="space-y-4">
                     <FormField
                       control={apiSettingsForm.control}
                       name="enableIntegration"
@@ -1106,41 +1081,29 @@ const TeacherSettings: React.FC = () => {
                         </FormItem>
                       )}
                     />
-                  </div>
+                  </fieldset>
 
                   <div className="rounded-lg bg-muted/50 p-4">
-                    <h3 className="text-sm font-medium mb-2">Available Integrations</h3>
+                    <h3 className="text-sm font-medium mb-2">School Integrations</h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Managed by your school administrator for every class.
+                    </p>
                     <div className="grid grid-cols-3 gap-3">
-                      <Button
-                        variant="outline"
-                        className="h-24 flex flex-col items-center justify-center gap-2"
-                        onClick={() => toast({ title: "Coming Soon", description: "Google Classroom integration coming soon." })}
-                      >
-                        <img src="/placeholder.svg" alt="Google Classroom" className="h-8 w-8" />
-                        <span className="text-xs">Google Classroom</span>
-                      </Button>
-                      <Button
-                        variant="outline"
-                        className="h-24 flex flex-col items-center justify-center gap-2"
-                        onClick={() => toast({ title: "Coming Soon", description: "Microsoft Teams integration coming soon." })}
-                      >
-                        <img src="/placeholder.svg" alt="Microsoft Teams" className="h-8 w-8" />
-                        <span className="text-xs">Microsoft Teams</span>
-                      </Button>
-                      <Button
-                        variant="outline"
-                        className="h-24 flex flex-col items-center justify-center gap-2"
-                        onClick={() => toast({ title: "Coming Soon", description: "Canvas LMS integration coming soon." })}
-                      >
-                        <img src="/placeholder.svg" alt="Canvas LMS" className="h-8 w-8" />
-                        <span className="text-xs">Canvas LMS</span>
-                      </Button>
+                      {(Object.keys(INTEGRATION_LABELS) as IntegrationId[]).map((id) => (
+                        <div key={id} className="h-28 rounded-lg border bg-background flex flex-col items-center justify-center gap-2">
+                          <img src="/placeholder.svg" alt={INTEGRATION_LABELS[id]} className="h-8 w-8" />
+                          <span className="text-xs">{INTEGRATION_LABELS[id]}</span>
+                          <Badge variant={policy?.integrations[id] ? 'default' : 'outline'} className="text-[10px]">
+                            {policy?.integrations[id] ? 'Connected' : 'Not connected'}
+                          </Badge>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 </CardContent>
 
                 <CardFooter>
-                  <Button type="submit" disabled={isSubmitting}>
+                  <Button type="submit" disabled={isSubmitting || apiLocked}>
                     {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                     Save API Settings
                   </Button>
@@ -1174,6 +1137,8 @@ const TeacherSettings: React.FC = () => {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <ChangePasswordDialog open={changingPassword} onOpenChange={setChangingPassword} />
     </div>
   );
 };
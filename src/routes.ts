@@ -0,0 +1,163 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react';
+import { matchPath } from 'react-router-dom';
+import {
+  Award,
+  BarChart3,
+  BookOpen,
+  ClipboardList,
+  FileText,
+  GraduationCap,
+  Home,
+  MessageSquare,
+  School,
+  ScrollText,
+  Settings,
+  ShieldCheck,
+  TrendingUp,
+  UserPlus,
+  Users,
+  type LucideIcon
+} from 'lucide-react';
+import type { Permission } from '@/auth/permissions';
+import type { UserRole } from '@/auth/types';
+
+// ------------------------------------------------------------
+// Route Manifest
+// ------------------------------------------------------------
+// Every page of the app in one list. App.tsx generates the
+// routes from it, the sidebar its navigation and the header its
+// breadcrumbs, and each page sets the document title from its
+// entry. Pages are loaded lazily, so a portal only downloads the
+// pages it opens. Add new pages here, not in App.tsx.
+// ------------------------------------------------------------
+
+export interface AppRoute {
+  /** Path within the portal, e.g. "/papers". Class-scoped pages are served under /classes/:classId as well. */
+  path: string;
+  /** Portals the page belongs to; omitted for pages reachable without signing in. */
+  roles?: UserRole[];
+  title: string;
+  /** Sidebar icon; pages without one are not listed in the sidebar. */
+  icon?: LucideIcon;
+  /** Routes without a component show `comingSoon` as a placeholder. */
+  component?: LazyExoticComponent<ComponentType>;
+  comingSoon?: string;
+  /** Capability needed to open the page; it is also hidden from the sidebar without it. */
+  permission?: Permission;
+  /** Teacher pages that show one class and live at /classes/:classId/<page>. */
+  classScoped?: boolean;
+  /** Label in the breadcrumb trail (defaults to the title) and the path of the page above this one. */
+  breadcrumb?: { label?: string; parent?: string };
+}
+
+/** Every portal has one; it is the landing page after sign-in and the first breadcrumb. */
+export const HOME_PATH = '/dashboard';
+
+export const ROUTES: AppRoute[] = [
+  // Signed out
+  { path: '/login', title: 'Sign In', component: lazy(() => import('./pages/Login')) },
+  { path: '/forgot-password', title: 'Forgot Password', component: lazy(() => import('./pages/ForgotPassword')) },
+  { path: '/reset-password', title: 'Reset Password', component: lazy(() => import('./pages/ResetPassword')) },
+  { path: '/outbox', title: 'Outbox', component: lazy(() => import('./pages/Outbox')) },
+  { path: '/idp/authorize', title: 'School Account', component: lazy(() => import('./pages/StandInIdp')) },
+  { path: '/auth/callback', title: 'Signing In', component: lazy(() => import('./pages/SsoCallback')) },
+  { path: '/join', title: 'Join as a Parent', component: lazy(() => import('./pages/JoinFamily')) },
+
+  // Teacher portal
+  {
+    path: '/dashboard', roles: ['teacher'], title: 'Class Overview', icon: BarChart3, classScoped: true,
+    component: lazy(() => import('./pages/teacher/TeacherDashboard'))
+  },
+  {
+    path: '/papers', roles: ['teacher'], title: 'Student Papers', icon: FileText, classScoped: true, permission: 'papers:view',
+    component: lazy(() => import('./pages/teacher/StudentPapers'))
+  },
+  {
+    path: '/papers/:paperId', roles: ['teacher'], title: 'Paper Viewer', classScoped: true, permission: 'papers:view',
+    breadcrumb: { label: 'View Paper', parent: '/papers' },
+    component: lazy(() => import('./pages/teacher/PaperViewer'))
+  },
+  {
+    path: '/feedback', roles: ['teacher'], title: 'AI Feedback', icon: TrendingUp, classScoped: true, permission: 'feedback:view',
+    component: lazy(() => import('./pages/teacher/AIFeedback'))
+  },
+  {
+    path: '/rubrics', roles: ['teacher'], title: 'Rubrics', icon: ClipboardList, classScoped: true, permission: 'rubrics:manage',
+    component: lazy(() => import('./pages/teacher/Rubrics'))
+  },
+  {
+    path: '/students', roles: ['teacher'], title: 'Students', icon: Users, classScoped: true,
+    component: lazy(() => import('./pages/teacher/ClassStudents'))
+  },
+  {
+    path: '/preview/:studentId', roles: ['teacher'], title: 'Portal Preview', classScoped: true, permission: 'students:preview',
+    breadcrumb: { label: 'Preview', parent: '/feedback' },
+    component: lazy(() => import('./pages/teacher/PortalPreview'))
+  },
+  {
+    path: '/settings', roles: ['teacher'], title: 'Settings', icon: Settings,
+    component: lazy(() => import('./pages/teacher/TeacherSettings'))
+  },
+
+  // Parent portal
+  { path: '/dashboard', roles: ['parent'], title: 'Home', icon: Home, component: lazy(() => import('./pages/parent/ParentDashboard')) },
+  { path: '/family', roles: ['parent'], title: 'Family Overview', icon: Users, component: lazy(() => import('./pages/parent/FamilyOverview')) },
+  { path: '/progress', roles: ['parent'], title: 'Progress', icon: TrendingUp, component: lazy(() => import('./pages/parent/ParentProgress')) },
+  { path: '/messages', roles: ['parent'], title: 'Messages', icon: MessageSquare, component: lazy(() => import('./pages/parent/ParentMessages')) },
+  { path: '/settings', roles: ['parent'], title: 'Settings', icon: Settings, comingSoon: 'Manage your account preferences.' },
+
+  // Student portal
+  { path: '/dashboard', roles: ['student'], title: 'Dashboard', icon: Home, component: lazy(() => import('./pages/student/StudentDashboard')) },
+  { path: '/my-progress', roles: ['student'], title: 'My Progress', icon: Award, comingSoon: 'Track your learning journey in detail.' },
+  { path: '/assignments', roles: ['student'], title: 'Assignments', icon: BookOpen, comingSoon: 'View and submit your assignments.' },
+  { path: '/settings', roles: ['student'], title: 'Settings', icon: Settings, comingSoon: 'Personalize your learning experience.' },
+
+  // Admin portal
+  { path: '/dashboard', roles: ['admin'], title: 'School Overview', icon: BarChart3, component: lazy(() => import('./pages/admin/AdminDashboard')) },
+  {
+    path: '/teachers', roles: ['admin'], title: 'Teachers', icon: GraduationCap, permission: 'staff:manage',
+    component: lazy(() => import('./pages/admin/ManageTeachers'))
+  },
+  {
+    path: '/classes', roles: ['admin'], title: 'Classes', icon: School, permission: 'classes:manage',
+    component: lazy(() => import('./pages/admin/ManageClasses'))
+  },
+  {
+    path: '/enrolments', roles: ['admin'], title: 'Enrolments', icon: UserPlus, permission: 'enrolments:manage',
+    component: lazy(() => import('./pages/admin/Enrolments'))
+  },
+  {
+    path: '/policies', roles: ['admin'], title: 'Policies', icon: ShieldCheck, permission: 'policy:manage',
+    component: lazy(() => import('./pages/admin/SchoolPolicies'))
+  },
+  {
+    path: '/audit', roles: ['admin'], title: 'Audit Log', icon: ScrollText, permission: 'audit:view',
+    component: lazy(() => import('./pages/admin/AuditLog'))
+  }
+];
+
+export const publicRoutes = () => ROUTES.filter(route => !route.roles);
+
+/** The portal's pages in manifest order, which is also the sidebar order. */
+export const routesFor = (role: UserRole) => ROUTES.filter(route => route.roles?.includes(role));
+
+/** Where a class-scoped page of the portal lives for one class. */
+export const CLASS_PREFIX = '/classes/:classId';
+
+/** The manifest entry serving a URL in the role's portal. */
+export function findRoute(role: UserRole | undefined, pathname: string): AppRoute | undefined {
+  const candidates = role ? routesFor(role) : publicRoutes();
+  return candidates.find(route =>
+    matchPath(route.path, pathname) || (route.classScoped && matchPath(`${CLASS_PREFIX}${route.path}`, pathname))
+  );
+}
+
+/**
+ * Where to go after signing in: the page ProtectedRoute sent the visitor away
+ * from (its `location.state.from`), or the portal's home.
+ */
+export function returnPath(state: unknown): string {
+  const from = (state as { from?: { pathname?: string; search?: string; hash?: string } } | null)?.from;
+  if (!from?.pathname?.startsWith('/')) return HOME_PATH;
+  return `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`;
+}
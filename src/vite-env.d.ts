@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the REST backend (e.g. "/api"). Unset = in-memory fixtures. */
+  readonly VITE_API_URL?: string;
+  /** "true" offers the stand-in "School Account" sign-in when running without a backend. */
+  readonly VITE_STANDIN_IDP?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
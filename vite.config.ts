@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Local REST backend (npm run server)
+      "/api": `http://localhost:${process.env.API_PORT ?? 3001}`,
+    },
   },
   plugins: [
     react(),